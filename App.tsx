@@ -78,9 +78,9 @@ const AppContent = () => {
             <Route path="/" element={<Home />} />
             <Route path="/portfolio" element={<Portfolio />} />
             <Route path="/blog" element={<Blog />} />
-            <Route path="/blog/:id" element={<BlogPostDetail />} />
+            <Route path="/blog/:slug" element={<BlogPostDetail />} />
             <Route path="/specializace/:id" element={<SpecializationDetail />} />
-            <Route path="/projekt/:id" element={<ProjectDetail />} />
+            <Route path="/projekt/:slug" element={<ProjectDetail />} />
             <Route path="/jak-pracuji" element={<Backstage />} />
             <Route path="/kontakt" element={<Contact />} />
             <Route path="/ochrana-soukromi" element={<PrivacyPolicy />} />
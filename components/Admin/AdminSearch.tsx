@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, X } from 'lucide-react';
+import { SPECIALIZATIONS } from '../../constants';
+import { blogDB, projectDB } from '../../lib/db';
+import { Publishable } from '../../lib/publishing';
+import { subscribeToTables } from '../../lib/realtime';
+import { SEARCH_KIND_LABELS, SearchDocument, SearchResult, buildSearchIndex, search } from '../../lib/search';
+import { PublishBadge } from './PublishControls';
+
+interface AdminSearchProps {
+  onSelect: (result: SearchResult) => void;
+}
+
+// Jedno pole pro hledání napříč administrací – na rozdíl od webu vidí i koncepty a archiv
+const AdminSearch: React.FC<AdminSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [index, setIndex] = useState<SearchDocument[]>([]);
+  const [sources, setSources] = useState<Record<string, Publishable>>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [projects, posts] = await Promise.all([projectDB.getAll(), blogDB.getAll()]);
+      setIndex(buildSearchIndex({ projects, posts, specializations: SPECIALIZATIONS }));
+      setSources(Object.fromEntries([...projects, ...posts].map(item => [item.id, item])));
+    };
+    load().catch(err => console.error('Admin search index error:', err));
+    return subscribeToTables(['projects', 'blog'], () => load(), { remote: false });
+  }, []);
+
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, []);
+
+  const results = useMemo(() => search(index, query, 10), [index, query]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  const select = (result: SearchResult) => {
+    onSelect(result);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      select(results[activeIndex]);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Search size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" />
+      <input
+        type="text"
+        value={query}
+        onChange={e => { setQuery(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="HLEDAT V OBSAHU..."
+        className="pl-10 pr-8 py-2 w-72 border border-gray-100 bg-gray-50 rounded-full text-[10px] font-black uppercase tracking-widest text-black outline-none focus:border-[#007BFF] focus:bg-white transition-all"
+      />
+      {query && (
+        <button onClick={() => setQuery('')} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-black">
+          <X size={12} />
+        </button>
+      )}
+
+      {isOpen && query.trim() && (
+        <div className="absolute left-0 top-full mt-3 w-[420px] bg-white border border-gray-100 shadow-2xl z-50 max-h-[60vh] overflow-y-auto">
+          {results.length === 0 && (
+            <p className="p-6 text-center text-[9px] font-black uppercase tracking-widest text-gray-400">Nic nenalezeno</p>
+          )}
+          {results.map((result, i) => (
+            <button
+              key={`${result.doc.kind}-${result.doc.id}`}
+              onClick={() => select(result)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`w-full text-left p-4 border-b border-gray-50 flex items-start gap-3 ${i === activeIndex ? 'bg-gray-50' : ''}`}
+            >
+              <div className="min-w-0 flex-grow">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-[8px] font-black uppercase tracking-widest text-[#007BFF]">{SEARCH_KIND_LABELS[result.doc.kind]}</span>
+                  {sources[result.doc.id] && <PublishBadge item={sources[result.doc.id]} />}
+                </div>
+                <p className="text-xs font-black uppercase truncate">{result.doc.title}</p>
+                {result.snippet && result.snippet !== result.doc.title && (
+                  <p className="text-[11px] text-gray-500 line-clamp-2 mt-1">{result.snippet}</p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminSearch;
@@ -4,35 +4,67 @@ import {
   Plus, Trash2, Edit2, X, Search, 
   Bold, Italic, List, Heading2, Heading3,
   Image as LucideImage, Video as LucideVideo, Link as LinkIcon, 
-  Check, RefreshCw, Eye, ChevronRight
+  Check, RefreshCw, Eye, ChevronRight, History
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { blogDB, mediaDB } from '../../lib/db';
+import { blogDB, mediaDB, ConflictError } from '../../lib/db';
+import { mergeChanges } from '../../lib/revisions';
+import { subscribeToTables } from '../../lib/realtime';
 import { supabase } from '../../src/supabaseClient';
 import EnhancedMediaPicker from './EnhancedMediaPicker';
 import EnhancedBlogEditor from './EnhancedBlogEditor';
+import RevisionHistory from './RevisionHistory';
+import ConflictDialog from './ConflictDialog';
+import PublishControls, { PublishBadge } from './PublishControls';
+import DraftRestoreDialog from './DraftRestoreDialog';
+import { useEditorDraft } from './useEditorDraft';
+import { UNSAVED_CHANGES_MESSAGE } from '../../lib/drafts';
+import { slugify } from '../../lib/slugs';
+import { matchesSearch } from '../../lib/search';
 
-const BlogManagerV2: React.FC = () => {
+const BLOG_FIELD_LABELS: Record<string, string> = {
+  title: 'Název', excerpt: 'Perex', content: 'Obsah', coverImage: 'Titulní fotka', date: 'Datum',
+  author: 'Autor', tags: 'Štítky', seoTitle: 'SEO titulek', seoDescription: 'SEO popis', seoKeywords: 'SEO klíčová slova',
+  status: 'Stav', publishAt: 'Zveřejnit od', slug: 'Adresa (slug)', previousSlugs: 'Dřívější adresy'
+};
+
+const emptyForm = (): Partial<BlogPost> => ({
+  title: '',
+  excerpt: '',
+  content: '',
+  coverImage: '',
+  date: new Date().toISOString().split('T')[0],
+  author: 'Jakub Minka',
+  tags: [],
+  status: 'published',
+  publishAt: null,
+  slug: ''
+});
+
+interface BlogManagerV2Props {
+  openRecordId?: string | null;
+  onRecordOpened?: () => void;
+}
+
+const BlogManagerV2: React.FC<BlogManagerV2Props> = ({ openRecordId, onRecordOpened }) => {
   const [posts, setPosts] = useState<BlogPost[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [showMediaPicker, setShowMediaPicker] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [editBase, setEditBase] = useState<{ version: string | null; original: BlogPost } | null>(null);
+  const [conflict, setConflict] = useState<{ error: ConflictError; mine: BlogPost } | null>(null);
   const [allItems, setAllItems] = useState<FileItem[]>([]);
 
-  const [formData, setFormData] = useState<Partial<BlogPost>>({
-    title: '',
-    excerpt: '',
-    content: '',
-    coverImage: '',
-    date: new Date().toISOString().split('T')[0],
-    author: 'Jakub Minka',
-    tags: []
-  });
+  const [formData, setFormData] = useState<Partial<BlogPost>>(emptyForm);
 
   const [contentHTML, setContentHTML] = useState('');
 
+  // Obsah editoru žije mimo formData, do konceptu jde jako `content`
+  const draft = useEditorDraft('blog', { ...formData, content: contentHTML });
+
   const loadData = async () => {
     try {
       const saved = await blogDB.getAll({ force: true });
@@ -47,26 +79,27 @@ const BlogManagerV2: React.FC = () => {
 
   useEffect(() => {
     loadData();
+    return subscribeToTables(['blog', 'media_meta'], () => loadData());
   }, []);
 
   useEffect(() => {
     if (editingId) {
       const post = posts.find(p => p.id === editingId);
-      if (post) {
-        setFormData({
-          title: post.title,
-          excerpt: post.excerpt,
-          content: post.content,
-          coverImage: post.coverImage,
-          date: new Date(post.date).toISOString().split('T')[0],
-          author: post.author,
-          tags: post.tags
-        });
-        setContentHTML(post.content);
-      }
+      if (post) loadIntoForm(post);
     }
   }, [editingId]);
 
+  // Článek vybraný v hledání administrace
+  useEffect(() => {
+    if (!openRecordId) return;
+    const post = posts.find(p => p.id === openRecordId);
+    if (!post) return;
+    setEditingId(post.id);
+    loadIntoForm(post);
+    setShowForm(true);
+    onRecordOpened?.();
+  }, [openRecordId, posts]);
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title?.trim() || !contentHTML.trim()) {
@@ -74,37 +107,29 @@ const BlogManagerV2: React.FC = () => {
       return;
     }
 
+    const postData: BlogPost = {
+      id: editingId || 'b-' + Math.random().toString(36).substr(2, 9),
+      title: formData.title,
+      excerpt: formData.excerpt || '',
+      content: contentHTML,
+      coverImage: formData.coverImage || '',
+      date: editingId ? new Date().toISOString() : new Date(formData.date || new Date()).toISOString(),
+      author: formData.author || 'Jakub Minka',
+      tags: formData.tags || [],
+      status: formData.status || 'published',
+      publishAt: formData.publishAt || null,
+      slug: formData.slug || ''
+    };
+
     setIsProcessing(true);
     try {
-      const postData: BlogPost = {
-        id: editingId || 'b-' + Math.random().toString(36).substr(2, 9),
-        title: formData.title,
-        excerpt: formData.excerpt || '',
-        content: contentHTML,
-        coverImage: formData.coverImage || '',
-        date: editingId ? new Date().toISOString() : new Date(formData.date || new Date()).toISOString(),
-        author: formData.author || 'Jakub Minka',
-        tags: formData.tags || []
-      };
-
       console.log('Saving blog post:', postData);
-      await blogDB.save(postData);
-      
-      await loadData();
-      setShowForm(false);
-      setEditingId(null);
-      setFormData({
-        title: '',
-        excerpt: '',
-        content: '',
-        coverImage: '',
-        date: new Date().toISOString().split('T')[0],
-        author: 'Jakub Minka',
-        tags: []
-      });
-      setContentHTML('');
-      alert('✓ Článek uložen');
+      await persistPost(postData, editBase?.version);
     } catch (err) {
+      if (err instanceof ConflictError) {
+        setConflict({ error: err, mine: postData });
+        return;
+      }
       console.error('Full error:', err);
       const errorMsg = err instanceof Error ? err.message : JSON.stringify(err);
       alert('Chyba při uložení: ' + errorMsg);
@@ -113,6 +138,89 @@ const BlogManagerV2: React.FC = () => {
     }
   };
 
+  const persistPost = async (postData: BlogPost, expectedVersion?: string | null) => {
+    await blogDB.save(postData, { expectedVersion });
+    
+    await loadData();
+    draft.clear();
+    setShowForm(false);
+    setEditingId(null);
+    setEditBase(null);
+    setFormData(emptyForm());
+    setContentHTML('');
+    alert('✓ Článek uložen');
+  };
+
+  const resolveConflict = async (action: 'overwrite' | 'merge') => {
+    if (!conflict) return;
+    const { error, mine } = conflict;
+    const next = action === 'merge' && error.server && editBase
+      ? mergeChanges(editBase.original, mine, error.server as BlogPost)
+      : mine;
+    setIsProcessing(true);
+    try {
+      await persistPost(next, error.serverVersion);
+      setConflict(null);
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        setConflict({ error: err, mine: next });
+        return;
+      }
+      console.error('Full error:', err);
+      alert('Chyba při uložení: ' + (err instanceof Error ? err.message : JSON.stringify(err)));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const loadIntoForm = (post: BlogPost) => {
+    setEditBase({ version: blogDB.getVersion(post.id), original: post });
+    const form: Partial<BlogPost> = {
+      title: post.title,
+      excerpt: post.excerpt,
+      content: post.content,
+      coverImage: post.coverImage,
+      date: new Date(post.date).toISOString().split('T')[0],
+      author: post.author,
+      tags: post.tags,
+      status: post.status || 'published',
+      publishAt: post.publishAt || null,
+      slug: post.slug || '',
+      previousSlugs: post.previousSlugs || []
+    };
+    setFormData(form);
+    setContentHTML(post.content);
+    draft.begin(post.id, form);
+  };
+
+  const handleRestoreRevision = async (snapshot: Record<string, any>) => {
+    if (draft.isDirty && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
+    try {
+      const restored = await blogDB.save(snapshot as BlogPost, { expectedVersion: editBase?.version });
+      draft.clear();
+      loadIntoForm(restored);
+    } catch (err) {
+      if (!(err instanceof ConflictError)) throw err;
+      setShowHistory(false);
+      setConflict({ error: err, mine: snapshot as BlogPost });
+    }
+  };
+
+  const closeForm = () => {
+    if (draft.isDirty && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
+    draft.close();
+    setShowForm(false);
+    // Další otevření stejného článku musí formulář znovu načíst
+    setEditingId(null);
+  };
+
+  const restoreDraft = () => {
+    const data = draft.takePending();
+    if (!data) return;
+    setFormData(data);
+    setContentHTML(data.content || '');
+  };
+
   const insertImage = (item: FileItem) => {
     const markdown = `![${item.name}](${item.url})\n`;
     setContentHTML(contentHTML + markdown);
@@ -143,8 +251,7 @@ const BlogManagerV2: React.FC = () => {
   };
 
   const filteredPosts = posts.filter(p =>
-    p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    p.excerpt?.toLowerCase().includes(searchQuery.toLowerCase())
+    matchesSearch(searchQuery, p.title, p.excerpt, p.tags?.join(' '))
   );
 
   return (
@@ -153,17 +260,12 @@ const BlogManagerV2: React.FC = () => {
       <div className="bg-white p-6 border flex justify-between items-center sticky top-0 z-20 shadow-sm">
         <button 
           onClick={() => {
+            const form = emptyForm();
             setEditingId(null);
-            setFormData({
-              title: '',
-              excerpt: '',
-              content: '',
-              coverImage: '',
-              date: new Date().toISOString().split('T')[0],
-              author: 'Jakub Minka',
-              tags: []
-            });
+            setEditBase(null);
+            setFormData(form);
             setContentHTML('');
+            draft.begin(null, form);
             setShowForm(true);
           }}
           className="bg-[#007BFF] text-white px-8 py-3 text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all flex items-center gap-2"
@@ -200,7 +302,10 @@ const BlogManagerV2: React.FC = () => {
             {/* Content */}
             <div className="p-6 space-y-4">
               <div>
-                <p className="text-[9px] font-black uppercase text-gray-400 tracking-widest mb-2">{new Date(post.date).toLocaleDateString('cs-CZ')}</p>
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <p className="text-[9px] font-black uppercase text-gray-400 tracking-widest">{new Date(post.date).toLocaleDateString('cs-CZ')}</p>
+                  <PublishBadge item={post} />
+                </div>
                 <h3 className="text-lg font-black uppercase tracking-tight line-clamp-2">{post.title}</h3>
               </div>
               
@@ -228,7 +333,7 @@ const BlogManagerV2: React.FC = () => {
                 </button>
                 <button
                   onClick={() => {
-                    if (confirm('Smazat artikel?')) {
+                    if (confirm('Přesunout článek do koše?')) {
                       blogDB.delete(post.id).then(() => loadData());
                     }
                   }}
@@ -261,12 +366,23 @@ const BlogManagerV2: React.FC = () => {
               <h2 className="text-2xl font-black uppercase tracking-widest">
                 {editingId ? 'Upravit' : 'Nový'} článek
               </h2>
-              <button 
-                onClick={() => setShowForm(false)}
-                className="p-2 hover:bg-gray-200 rounded"
-              >
-                <X size={24} />
-              </button>
+              <div className="flex items-center gap-2">
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={() => setShowHistory(true)}
+                    className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest hover:bg-gray-200 rounded"
+                  >
+                    <History size={18} /> Historie
+                  </button>
+                )}
+                <button 
+                  onClick={closeForm}
+                  className="p-2 hover:bg-gray-200 rounded"
+                >
+                  <X size={24} />
+                </button>
+              </div>
             </div>
 
             <form onSubmit={handleSave} className="p-8 space-y-6">
@@ -287,6 +403,24 @@ const BlogManagerV2: React.FC = () => {
                     />
                   </div>
 
+                  {/* Slug */}
+                  <div>
+                    <label className="block text-[11px] font-black uppercase text-gray-600 tracking-widest mb-2">
+                      Adresa (slug)
+                    </label>
+                    <input 
+                      type="text"
+                      value={formData.slug || ''}
+                      onChange={e => setFormData({...formData, slug: e.target.value})}
+                      placeholder={slugify(formData.title || '') || 'vygeneruje-se-z-nazvu'}
+                      className="w-full px-4 py-3 border border-gray-200 rounded text-sm font-bold focus:border-[#007BFF] outline-none"
+                    />
+                    <p className="text-[10px] text-gray-400 mt-2">
+                      /blog/{slugify(formData.slug || formData.title || '') || '…'} · prázdné pole = vygenerovat z názvu
+                      {formData.previousSlugs && formData.previousSlugs.length > 0 && ` · přesměrováno z: ${formData.previousSlugs.join(', ')}`}
+                    </p>
+                  </div>
+
                   {/* Excerpt */}
                   <div>
                     <label className="block text-[11px] font-black uppercase text-gray-600 tracking-widest mb-2">
@@ -346,6 +480,15 @@ const BlogManagerV2: React.FC = () => {
                     </div>
                   </div>
 
+                  <PublishControls
+                    status={formData.status || 'published'}
+                    publishAt={formData.publishAt || null}
+                    onChange={next => setFormData({ ...formData, ...next })}
+                    className="space-y-4"
+                    labelClassName="block text-[11px] font-black uppercase text-gray-600 tracking-widest mb-2"
+                    inputClassName="w-full px-4 py-2 border border-gray-200 rounded focus:border-[#007BFF] outline-none bg-white text-black"
+                  />
+
                   {/* Date */}
                   <div>
                     <label className="block text-[11px] font-black uppercase text-gray-600 tracking-widest mb-2">
@@ -414,6 +557,43 @@ const BlogManagerV2: React.FC = () => {
         )}
       </AnimatePresence>
 
+      <ConflictDialog
+        conflict={conflict?.error || null}
+        mine={conflict?.mine || null}
+        fieldLabels={BLOG_FIELD_LABELS}
+        isBusy={isProcessing}
+        onOverwrite={() => resolveConflict('overwrite')}
+        onMerge={() => resolveConflict('merge')}
+        onReload={() => {
+          if (conflict?.error.server) {
+            draft.clear();
+            loadIntoForm(conflict.error.server as BlogPost);
+          }
+          setConflict(null);
+        }}
+        onCancel={() => setConflict(null)}
+      />
+
+      <DraftRestoreDialog
+        draft={draft.pending}
+        baseline={draft.baseline}
+        fieldLabels={BLOG_FIELD_LABELS}
+        onRestore={restoreDraft}
+        onDiscard={draft.discardPending}
+      />
+
+      {/* Historie změn */}
+      {editingId && (
+        <RevisionHistory
+          isOpen={showHistory}
+          table="blog"
+          recordId={editingId}
+          fieldLabels={BLOG_FIELD_LABELS}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Enhanced Media Picker */}
       <EnhancedMediaPicker
         isOpen={showMediaPicker}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ConflictError } from '../../lib/db';
+import { formatSnapshotValue } from '../../lib/revisions';
+
+interface ConflictDialogProps {
+  conflict: ConflictError | null;
+  mine: Record<string, any> | null;
+  fieldLabels?: Record<string, string>;
+  isBusy?: boolean;
+  onOverwrite: () => void;
+  onMerge: () => void;
+  onReload: () => void;
+  onCancel: () => void;
+}
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  conflict, mine, fieldLabels = {}, isBusy, onOverwrite, onMerge, onReload, onCancel
+}) => (
+  <AnimatePresence>
+    {conflict && mine && (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[2600] bg-black/70 flex items-center justify-center p-4"
+        onClick={onCancel}
+      >
+        <motion.div
+          initial={{ scale: 0.95 }}
+          animate={{ scale: 1 }}
+          exit={{ scale: 0.95 }}
+          className="bg-white w-full max-w-3xl max-h-[85vh] flex flex-col rounded-sm shadow-2xl"
+          onClick={e => e.stopPropagation()}
+        >
+          <div className="p-6 border-b flex items-start gap-4">
+            <AlertTriangle size={24} className="text-orange-500 shrink-0 mt-1" />
+            <div>
+              <h3 className="text-lg font-black uppercase tracking-widest mb-1">Konflikt úprav</h3>
+              <p className="text-sm text-gray-600">
+                {conflict.server
+                  ? 'Tento záznam mezitím uložil někdo jiný (jiná záložka nebo zařízení). Vyberte, jak naložit se svými změnami.'
+                  : 'Tento záznam byl mezitím smazán. Uložením ho vytvoříte znovu.'}
+              </p>
+            </div>
+          </div>
+
+          {conflict.server && (
+            <div className="overflow-y-auto p-6 space-y-4">
+              {conflict.fields.length === 0 && (
+                <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Obsah se neliší, změnil se jen čas uložení.</p>
+              )}
+              {conflict.fields.map(field => (
+                <div key={field} className="border border-gray-100">
+                  <div className="px-4 py-2 bg-gray-50 text-[9px] font-black uppercase tracking-widest text-black">
+                    {fieldLabels[field] || field}
+                  </div>
+                  <div className="grid grid-cols-2 divide-x text-xs">
+                    <div className="p-4 space-y-1">
+                      <p className="text-[8px] font-black uppercase tracking-widest text-gray-400">Na serveru</p>
+                      <p className="text-gray-700 whitespace-pre-wrap break-words">{formatSnapshotValue(conflict.server![field])}</p>
+                    </div>
+                    <div className="p-4 space-y-1 bg-blue-50/40">
+                      <p className="text-[8px] font-black uppercase tracking-widest text-[#007BFF]">Moje verze</p>
+                      <p className="text-gray-700 whitespace-pre-wrap break-words">{formatSnapshotValue(mine[field])}</p>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="p-6 border-t flex flex-wrap gap-3 justify-end">
+            <button onClick={onCancel} disabled={isBusy} className="px-4 py-2 border border-gray-200 rounded hover:bg-gray-50 transition-all text-[10px] font-black uppercase disabled:opacity-50">
+              Zrušit
+            </button>
+            {conflict.server && (
+              <>
+                <button onClick={onReload} disabled={isBusy} className="px-4 py-2 border border-gray-200 rounded hover:bg-gray-50 transition-all text-[10px] font-black uppercase disabled:opacity-50">
+                  Načíst verzi ze serveru
+                </button>
+                <button onClick={onMerge} disabled={isBusy} className="px-4 py-2 bg-[#007BFF] text-white rounded hover:bg-black transition-all text-[10px] font-black uppercase disabled:opacity-50 flex items-center gap-2">
+                  {isBusy && <RefreshCw size={12} className="animate-spin" />} Sloučit (jen moje změněná pole)
+                </button>
+              </>
+            )}
+            <button onClick={onOverwrite} disabled={isBusy} className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-all text-[10px] font-black uppercase disabled:opacity-50">
+              {conflict.server ? 'Přepsat serverovou verzi' : 'Uložit znovu'}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
+
+export default ConflictDialog;
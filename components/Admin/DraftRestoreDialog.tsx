@@ -0,0 +1,78 @@
+import React from 'react';
+import { FileClock } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { EditorDraft } from '../../lib/drafts';
+import { diffSnapshots, formatSnapshotValue } from '../../lib/revisions';
+
+interface DraftRestoreDialogProps {
+  draft: EditorDraft<Record<string, any>> | null;
+  baseline: Record<string, any> | null;
+  fieldLabels?: Record<string, string>;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const DraftRestoreDialog: React.FC<DraftRestoreDialogProps> = ({ draft, baseline, fieldLabels = {}, onRestore, onDiscard }) => {
+  const changes = draft && baseline ? diffSnapshots(baseline, draft.data) : [];
+
+  return (
+    <AnimatePresence>
+      {draft && baseline && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[2600] bg-black/70 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0.95 }}
+            className="bg-white w-full max-w-3xl max-h-[85vh] flex flex-col rounded-sm shadow-2xl"
+          >
+            <div className="p-6 border-b flex items-start gap-4">
+              <FileClock size={24} className="text-[#007BFF] shrink-0 mt-1" />
+              <div>
+                <h3 className="text-lg font-black uppercase tracking-widest mb-1">Rozpracovaná verze</h3>
+                <p className="text-sm text-gray-600">
+                  V tomto prohlížeči je neuložená verze z {new Date(draft.savedAt).toLocaleString('cs-CZ')}. Chcete v ní pokračovat?
+                </p>
+              </div>
+            </div>
+
+            <div className="overflow-y-auto p-6 space-y-4">
+              {changes.map(change => (
+                <div key={change.field} className="border border-gray-100">
+                  <div className="px-4 py-2 bg-gray-50 text-[9px] font-black uppercase tracking-widest text-black">
+                    {fieldLabels[change.field] || change.field}
+                  </div>
+                  <div className="grid grid-cols-2 divide-x text-xs">
+                    <div className="p-4 space-y-1">
+                      <p className="text-[8px] font-black uppercase tracking-widest text-gray-400">Uloženo</p>
+                      <p className="text-gray-700 whitespace-pre-wrap break-words">{formatSnapshotValue(change.before)}</p>
+                    </div>
+                    <div className="p-4 space-y-1 bg-blue-50/40">
+                      <p className="text-[8px] font-black uppercase tracking-widest text-[#007BFF]">Rozpracováno</p>
+                      <p className="text-gray-700 whitespace-pre-wrap break-words">{formatSnapshotValue(change.after)}</p>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="p-6 border-t flex flex-wrap gap-3 justify-end">
+              <button onClick={onDiscard} className="px-4 py-2 border border-gray-200 rounded hover:bg-gray-50 transition-all text-[10px] font-black uppercase">
+                Zahodit rozpracovanou verzi
+              </button>
+              <button onClick={onRestore} className="px-4 py-2 bg-[#007BFF] text-white rounded hover:bg-black transition-all text-[10px] font-black uppercase">
+                Obnovit
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default DraftRestoreDialog;
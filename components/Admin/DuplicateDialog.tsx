@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { Copy, ImageIcon, Video as VideoIcon } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileItem } from '../../types';
+import { DuplicateMatch } from '../../lib/duplicates';
+
+export type DuplicateDecision = 'skip' | 'upload' | 'useExisting';
+
+interface DuplicatePrompt {
+  fileName: string;
+  matches: DuplicateMatch[];
+  allowUseExisting: boolean;
+}
+
+// Náhled souboru z knihovny – obrázek, poster videa, jinak ikona
+export const MediaThumb: React.FC<{ item: FileItem; className?: string }> = ({ item, className = 'w-20 h-20' }) => {
+  const src = item.type === 'image' ? item.url : item.posterUrl;
+  return (
+    <div className={`${className} bg-gray-100 rounded overflow-hidden flex items-center justify-center flex-shrink-0`}>
+      {src ? (
+        <img src={src} alt={item.name} className="w-full h-full object-cover" />
+      ) : item.type === 'video' ? (
+        <VideoIcon size={24} className="text-gray-300" />
+      ) : (
+        <ImageIcon size={24} className="text-gray-300" />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Dotaz „soubor už v knihovně je" uprostřed uploadu. `ask` vrací Promise s rozhodnutím,
+ * takže smyčka přes soubory může na odpověď počkat; `dialog` se vykreslí v komponentě.
+ */
+export const useDuplicatePrompt = () => {
+  const [prompt, setPrompt] = useState<DuplicatePrompt | null>(null);
+  const resolveRef = useRef<((decision: DuplicateDecision) => void) | null>(null);
+
+  const ask = (fileName: string, matches: DuplicateMatch[], allowUseExisting = false) =>
+    new Promise<DuplicateDecision>(resolve => {
+      resolveRef.current = resolve;
+      setPrompt({ fileName, matches, allowUseExisting });
+    });
+
+  const answer = (decision: DuplicateDecision) => {
+    resolveRef.current?.(decision);
+    resolveRef.current = null;
+    setPrompt(null);
+  };
+
+  const exact = prompt?.matches[0]?.kind === 'exact';
+
+  const dialog = (
+    <AnimatePresence>
+      {prompt && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[2600] bg-black/70 flex items-center justify-center p-4"
+          // Dialog bývá vykreslený uvnitř jiného modalu (picker) – klik nesmí probublat a zavřít i ten
+          onClick={e => { e.stopPropagation(); answer('skip'); }}
+        >
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0.95 }}
+            className="bg-white w-full max-w-lg rounded-sm shadow-2xl p-6 space-y-5"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-start gap-4">
+              <Copy size={24} className="text-orange-500 shrink-0 mt-1" />
+              <div>
+                <h3 className="text-lg font-black uppercase tracking-widest mb-1">{exact ? 'Soubor už v knihovně je' : 'Podobný obrázek v knihovně'}</h3>
+                <p className="text-sm text-gray-600">
+                  <strong>{prompt.fileName}</strong> {exact ? 'má stejný obsah jako' : 'vypadá stejně jako'}:
+                </p>
+              </div>
+            </div>
+
+            <div className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-100">
+              {prompt.matches.slice(0, 5).map(match => (
+                <div key={match.item.id} className="flex items-center gap-4 p-3">
+                  <MediaThumb item={match.item} />
+                  <div className="min-w-0 text-[10px] font-black uppercase tracking-widest space-y-1">
+                    <p className="truncate text-black">{match.item.name}</p>
+                    <p className="text-gray-400">{match.item.size || '—'}{match.item.dimensions ? ` · ${match.item.dimensions}` : ''}</p>
+                    <p className={match.kind === 'exact' ? 'text-red-500' : 'text-orange-500'}>
+                      {match.kind === 'exact' ? 'Stejný soubor' : `Podobnost ${Math.round((1 - match.distance / 64) * 100)} %`}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <button onClick={() => answer('skip')} className="flex-1 px-4 py-2 border border-gray-200 rounded hover:bg-gray-50 transition-all text-[10px] font-black uppercase">
+                Přeskočit
+              </button>
+              {prompt.allowUseExisting && (
+                <button onClick={() => answer('useExisting')} className="flex-1 px-4 py-2 bg-[#007BFF] text-white rounded hover:bg-blue-700 transition-all text-[10px] font-black uppercase">
+                  Použít existující
+                </button>
+              )}
+              <button onClick={() => answer('upload')} className="flex-1 px-4 py-2 bg-black text-white rounded hover:bg-gray-800 transition-all text-[10px] font-black uppercase">
+                Přesto nahrát
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+
+  return { ask, dialog };
+};
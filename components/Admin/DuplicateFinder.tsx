@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Copy, RefreshCw, Trash2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileItem } from '../../types';
+import { mediaDB } from '../../lib/db';
+import { DuplicateGroup, HashBackfillResult, backfillHashes, findDuplicateGroups, needsHashes } from '../../lib/duplicates';
+import { MediaReference } from '../../lib/mediaReferences';
+import { MediaThumb } from './DuplicateDialog';
+
+interface DuplicateFinderProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Kde je soubor použitý – u duplicit rozhoduje, kterou kopii smazat
+  usageOf: (item: FileItem) => MediaReference[];
+  onDeleted: () => void;
+}
+
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ isOpen, onClose, usageOf, onDeleted }) => {
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [missingHashes, setMissingHashes] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [backfillResult, setBackfillResult] = useState<HashBackfillResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const scan = async () => {
+    setIsLoading(true);
+    try {
+      const library = await mediaDB.getAll({ force: true });
+      setGroups(findDuplicateGroups(library));
+      setMissingHashes(library.filter(needsHashes).length);
+    } catch (err) {
+      console.error('Duplicate scan failed:', err);
+      alert('Nepodařilo se načíst knihovnu médií');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) scan();
+    else abortRef.current?.abort();
+  }, [isOpen]);
+
+  const runBackfill = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBackfillResult(null);
+    setProgress({ done: 0, total: missingHashes });
+    try {
+      setBackfillResult(await backfillHashes({
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: controller.signal
+      }));
+      await scan();
+    } catch (err) {
+      console.error('Hash backfill failed:', err);
+      alert('Výpočet otisků selhal: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async (item: FileItem) => {
+    const usage = usageOf(item);
+    const warning = usage.length > 0 ? `\n\nSoubor je použit na ${usage.length} místech – na webu zůstane rozbitý obrázek.` : '';
+    if (!confirm(`Přesunout "${item.name}" do koše?${warning}`)) return;
+    try {
+      await mediaDB.delete(item.id);
+      onDeleted();
+      await scan();
+    } catch (err) {
+      console.error('Delete error:', err);
+      alert('Chyba při mazání');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-6"
+        >
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0.95 }}
+            onClick={e => e.stopPropagation()}
+            className="bg-white rounded w-full max-w-3xl max-h-[85vh] flex flex-col"
+          >
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between gap-4">
+              <h3 className="text-lg font-black uppercase tracking-widest flex items-center gap-3">
+                <Copy size={20} className="text-[#007BFF]" /> Duplicity v knihovně
+              </h3>
+              <div className="flex items-center gap-2">
+                <button onClick={scan} disabled={isLoading || !!progress} className="p-2 hover:bg-gray-100 rounded disabled:opacity-50" title="Prohledat znovu">
+                  <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                </button>
+                <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-6 text-[10px] font-black uppercase tracking-widest">
+              {missingHashes > 0 && !progress && (
+                <div className="flex items-center justify-between gap-4 bg-orange-50 border border-orange-100 p-4 text-orange-700">
+                  <p>Souborů bez otisku: {missingHashes} – do porovnání zatím nevstupují.</p>
+                  <button onClick={runBackfill} className="shrink-0 px-4 py-2 bg-black text-white rounded hover:bg-[#007BFF] transition-all">
+                    Spočítat otisky
+                  </button>
+                </div>
+              )}
+
+              {progress && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span>Počítám otisky {progress.done}/{progress.total}</span>
+                    <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-1 text-gray-400 hover:text-red-500">
+                      <X size={12} /> Zastavit
+                    </button>
+                  </div>
+                  <div className="w-full h-1 bg-gray-100 overflow-hidden">
+                    <div className="h-full bg-[#007BFF] transition-all" style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }} />
+                  </div>
+                </div>
+              )}
+
+              {backfillResult && backfillResult.failed.length > 0 && (
+                <div className="bg-orange-50 border border-orange-100 p-4 text-orange-700 space-y-1 normal-case tracking-normal font-mono">
+                  {backfillResult.failed.map(f => <p key={f.name} className="truncate">✗ {f.name} – {f.error}</p>)}
+                </div>
+              )}
+
+              {groups && groups.length === 0 && !isLoading && (
+                <p className="text-gray-400 text-center py-10">Žádné duplicity nenalezeny</p>
+              )}
+
+              {groups?.map(group => (
+                <div key={`${group.kind}-${group.items.map(i => i.id).join('-')}`} className="border border-gray-100 rounded">
+                  <p className={`px-4 py-2 border-b border-gray-100 ${group.kind === 'exact' ? 'text-red-500' : 'text-orange-500'}`}>
+                    {group.kind === 'exact' ? 'Stejný soubor' : 'Podobné obrázky'} · {group.items.length}×
+                  </p>
+                  <div className="divide-y divide-gray-50">
+                    {group.items.map(item => (
+                      <div key={item.id} className="flex items-center gap-4 p-3">
+                        <MediaThumb item={item} className="w-16 h-16" />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <p className="truncate text-black">{item.name}</p>
+                          <p className="text-gray-400">{item.size || '—'}{item.dimensions ? ` · ${item.dimensions}` : ''}</p>
+                          <p className={usageOf(item).length > 0 ? 'text-[#007BFF]' : 'text-gray-300'}>
+                            {usageOf(item).length > 0 ? `Použito: ${usageOf(item).length}×` : 'Nepoužito'}
+                          </p>
+                        </div>
+                        <button onClick={() => handleDelete(item)} className="p-2 text-gray-400 hover:text-red-500" title="Přesunout do koše">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default DuplicateFinder;
@@ -6,7 +6,12 @@ import {
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { mediaDB } from '../../lib/db';
-import { uploadToR2 } from '../../lib/r2Client'; // ← R2 místo Supabase Storage
+import { isAbortError } from '../../lib/r2Client';
+import { ProcessedImage, compressionQuality, uploadImage } from '../../lib/imageVariants';
+import { uploadVideo } from '../../lib/videoMetadata';
+import { createDuplicateChecker, hashFile } from '../../lib/duplicates';
+import { getStorage } from '../../lib/storage';
+import { useDuplicatePrompt } from './DuplicateDialog';
 
 interface EnhancedMediaPickerProps {
   isOpen: boolean;
@@ -22,7 +27,7 @@ interface UploadStatus {
   id: string;
   fileName: string;
   progress: number;
-  status: 'optimizing' | 'uploading' | 'completed' | 'error';
+  status: 'optimizing' | 'uploading' | 'completed' | 'error' | 'canceled';
   error?: string;
 }
 
@@ -41,8 +46,11 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
   const [uploadQueue, setUploadQueue] = useState<UploadStatus[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Rozpracované uploady – klíčem je id ve frontě
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  const { ask: askDuplicate, dialog: duplicateDialog } = useDuplicatePrompt();
 
-  const quality = parseFloat(localStorage.getItem('jakub_minka_compression_quality') || '0.82');
+  const quality = compressionQuality();
 
   useEffect(() => {
     if (isOpen) {
@@ -50,6 +58,13 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
     }
   }, [isOpen]);
 
+  // Zavřením pickeru se rozpracované uploady zruší (multipart se v R2 uklidí)
+  useEffect(() => {
+    if (!isOpen) return;
+    const controllers = uploadControllers.current;
+    return () => controllers.forEach(c => c.abort());
+  }, [isOpen]);
+
   const loadItems = async () => {
     try {
       const dbItems = await mediaDB.getAll({ force: true });
@@ -83,21 +98,24 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
     setIsUploading(true);
     const files = Array.from(fileList) as File[];
 
+    // Duplicity podle obsahu v celé knihovně – stejný název z jiného fotoaparátu nevadí
+    const duplicates = createDuplicateChecker();
+
     for (const file of files) {
       const baseName = file.name.replace(/\.[^.]+$/, '');
 
-      // Kontrola duplicit
-      const exists = items.find(i => i.name === baseName && i.type !== 'folder' && i.parentId === currentFolderId);
-      if (exists) {
-        const uploadId = Math.random().toString(36).substr(2, 9);
-        setUploadQueue(prev => [...prev, {
-          id: uploadId,
-          fileName: file.name,
-          progress: 0,
-          status: 'error',
-          error: `Soubor "${file.name}" již existuje v této složce`,
-        }]);
-        continue;
+      const hashes = await hashFile(file);
+      const matches = await duplicates.find(hashes);
+      if (matches.length > 0) {
+        // Při výběru jednoho souboru jde rovnou vybrat ten, který už v knihovně je
+        const decision = await askDuplicate(file.name, matches, !allowMultiple);
+        if (decision === 'useExisting') {
+          setIsUploading(false);
+          onSelect(matches[0].item);
+          onClose();
+          return;
+        }
+        if (decision === 'skip') continue;
       }
 
       const uploadId = Math.random().toString(36).substr(2, 9);
@@ -108,29 +126,47 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
         status: file.type.startsWith('image/') ? 'optimizing' : 'uploading',
       }, ...prev]);
 
+      const controller = new AbortController();
+      uploadControllers.current.set(uploadId, controller);
+
       try {
-        // Upload do R2 (WebP konverze je uvnitř uploadToR2)
-        const { url, key } = await uploadToR2(file, quality, (progress) => {
-          setUploadQueue(prev => prev.map(u =>
-            u.id === uploadId
-              ? { ...u, progress, status: progress < 50 ? 'optimizing' : 'uploading' }
-              : u
-          ));
-        });
+        const options = {
+          signal: controller.signal,
+          onProgress: (progress: number) =>
+            setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'uploading', progress } : u))
+        };
+        // Obrázky → WebP ve všech šířkách pro srcset, videa → poster + délka/rozlišení/kodek
+        const video = file.type.startsWith('video/') ? await uploadVideo(file, options) : null;
+        const stored: ProcessedImage = video
+          ? { ...video, variants: [], metadata: {} }
+          : file.type.startsWith('image/')
+            ? await uploadImage(file, file.name, { ...options, quality, watermark: { parentId: currentFolderId, mediaId: uploadId } })
+            : { ...await getStorage().upload(file, file.name, options), variants: [], metadata: {} };
 
         // Ulož metadata do Supabase (jen URL, ne soubor)
         const newItem: FileItem = {
           id: uploadId,
           name: baseName,
           type: file.type.startsWith('image') ? 'image' : file.type.startsWith('video') ? 'video' : 'other',
-          size: `${(file.size / (1024 * 1024)).toFixed(2)} MB`,
-          url,
+          size: `${((stored.size ?? file.size) / (1024 * 1024)).toFixed(2)} MB`,
+          url: stored.url,
           parentId: currentFolderId,
-          specializationId: key, // R2 key pro případné smazání
+          specializationId: stored.key, // klíč v úložišti pro případné smazání
+          dimensions: stored.width ? `${stored.width}x${stored.height}` : undefined,
+          variants: stored.variants,
+          placeholder: stored.placeholder,
+          dominantColor: stored.dominantColor,
+          description: stored.caption,
+          ...stored.metadata,
+          ...stored.watermarked,
+          ...video?.metadata,
+          ...video?.poster,
+          ...hashes,
           updatedAt: new Date().toISOString(),
         };
 
         await mediaDB.save(newItem);
+        duplicates.add(newItem);
 
         setUploadQueue(prev => prev.map(u =>
           u.id === uploadId ? { ...u, status: 'completed', progress: 100 } : u
@@ -138,10 +174,16 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
 
         await loadItems();
       } catch (err: any) {
-        console.error('Upload error:', err);
-        setUploadQueue(prev => prev.map(u =>
-          u.id === uploadId ? { ...u, status: 'error', error: err.message || 'Upload selhal' } : u
-        ));
+        if (isAbortError(err)) {
+          setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'canceled' } : u));
+        } else {
+          console.error('Upload error:', err);
+          setUploadQueue(prev => prev.map(u =>
+            u.id === uploadId ? { ...u, status: 'error', error: err.message || 'Upload selhal' } : u
+          ));
+        }
+      } finally {
+        uploadControllers.current.delete(uploadId);
       }
     }
 
@@ -149,6 +191,10 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
     setIsUploading(false);
   };
 
+  const cancelUpload = (uploadId: string) => {
+    uploadControllers.current.get(uploadId)?.abort();
+  };
+
   const handleSelectItem = (item: FileItem) => {
     if (item.type === 'folder') {
       setCurrentFolderId(item.id);
@@ -250,17 +296,26 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
                 <div key={upload.id} className="space-y-1">
                   <div className="flex items-center justify-between text-[9px]">
                     <span className="font-bold uppercase truncate max-w-[200px]">{upload.fileName}</span>
-                    <span className={`font-black px-2 py-0.5 rounded ${
-                      upload.status === 'completed' ? 'bg-green-100 text-green-700' :
-                      upload.status === 'error' ? 'bg-red-100 text-red-700' :
-                      upload.status === 'optimizing' ? 'bg-yellow-100 text-yellow-700' :
-                      'bg-blue-100 text-blue-700'
-                    }`}>
-                      {upload.status === 'completed' ? '✓ Hotovo' :
-                       upload.status === 'error' ? '✗ Chyba' :
-                       upload.status === 'optimizing' ? '⚡ WebP...' :
-                       `☁️ ${upload.progress}%`}
-                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className={`font-black px-2 py-0.5 rounded ${
+                        upload.status === 'completed' ? 'bg-green-100 text-green-700' :
+                        upload.status === 'error' ? 'bg-red-100 text-red-700' :
+                        upload.status === 'canceled' ? 'bg-gray-200 text-gray-600' :
+                        upload.status === 'optimizing' ? 'bg-yellow-100 text-yellow-700' :
+                        'bg-blue-100 text-blue-700'
+                      }`}>
+                        {upload.status === 'completed' ? '✓ Hotovo' :
+                         upload.status === 'error' ? '✗ Chyba' :
+                         upload.status === 'canceled' ? 'Zrušeno' :
+                         upload.status === 'optimizing' ? '⚡ WebP...' :
+                         `☁️ ${upload.progress}%`}
+                      </span>
+                      {(upload.status === 'optimizing' || upload.status === 'uploading') && (
+                        <button onClick={() => cancelUpload(upload.id)} className="text-gray-400 hover:text-red-500" title="Zrušit upload">
+                          <X size={10} />
+                        </button>
+                      )}
+                    </div>
                   </div>
                   {upload.error && (
                     <p className="text-[8px] text-red-600 flex items-center gap-1">
@@ -269,7 +324,7 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
                   )}
                   <div className="w-full h-1 bg-gray-200 rounded overflow-hidden">
                     <div
-                      className={`h-full transition-all ${upload.status === 'error' ? 'bg-red-400' : 'bg-[#007BFF]'}`}
+                      className={`h-full transition-all ${upload.status === 'error' ? 'bg-red-400' : upload.status === 'canceled' ? 'bg-gray-300' : 'bg-[#007BFF]'}`}
                       style={{ width: `${upload.progress}%` }}
                     />
                   </div>
@@ -366,6 +421,7 @@ const EnhancedMediaPicker: React.FC<EnhancedMediaPickerProps> = ({
           </div>
         )}
       </motion.div>
+      {duplicateDialog}
     </motion.div>
   );
 };
@@ -4,12 +4,23 @@ import {
   Trash2, Grid, List as ListIcon, Search, X, HardDrive, RefreshCw,
   Edit2, FolderPlus, MoreVertical, Move, FolderTree, CheckSquare, Square,
   Tag, Info, Settings, AlertCircle, CheckCircle2, Minus, Maximize2, Ban, Copy,
-  Eye, Download, FileText, Calendar, HardDriveIcon
+  Eye, Download, FileText, Calendar, HardDriveIcon, Link2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useDuplicatePrompt } from './DuplicateDialog';
+import DuplicateFinder from './DuplicateFinder';
 import { FileItem } from '../../types';
-import { mediaDB, optimizeImage } from '../../lib/db';
-import { supabase } from '../../src/supabaseClient';
+import { mediaDB } from '../../lib/db';
+import { moveMediaToTrash } from '../../lib/trash';
+import { ProcessedImage, compressionQuality, uploadImage } from '../../lib/imageVariants';
+import { formatAperture, formatExposure, formatFocalLength } from '../../lib/imageMetadata';
+import { formatDuration, replacePoster, uploadVideo } from '../../lib/videoMetadata';
+import { createDuplicateChecker, hashFile } from '../../lib/duplicates';
+import { REFERENCE_OWNER_LABELS, ReferenceIndex, loadReferenceIndex, referencesFor } from '../../lib/mediaReferences';
+import { subscribeToTables } from '../../lib/realtime';
+import { matchesSearch } from '../../lib/search';
+import { getStorage } from '../../lib/storage';
+import { isAbortError } from '../../lib/r2Client';
 
 interface UploadStatus {
   id: string;
@@ -33,11 +44,22 @@ interface ContextMenu {
 
 const VIDEO_MAX_MB = 200;
 const ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+const PAGE_SIZE = 60;
+const FILE_TYPES = ['image', 'video', 'other', 'system'];
+const SORT_FIELDS = {
+  name: 'name', date: 'updatedAt', type: 'type',
+  takenAt: 'takenAt', camera: 'camera', focalLength: 'focalLength', iso: 'iso'
+} satisfies Record<string, keyof FileItem>;
+type SortKey = keyof typeof SORT_FIELDS;
 
 const FileManagerV2: React.FC = () => {
   const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [items, setItems] = useState<FileItem[]>([]);
+  // Složky držíme celé (strom, přesuny), soubory jen po stránkách aktuální složky
+  const [folders, setFolders] = useState<FileItem[]>([]);
+  const [pageItems, setPageItems] = useState<FileItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [previewIndex, setPreviewIndex] = useState<number | null>(null);
   
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -54,55 +76,94 @@ const FileManagerV2: React.FC = () => {
   const [draggedItem, setDraggedItem] = useState<string | null>(null);
   const [dragOverId, setDragOverId] = useState<string | null>(null);
   const [moveToFolderId, setMoveToFolderId] = useState<string | null>(null);
-  const [sortBy, setSortBy] = useState<'name' | 'date' | 'type'>('name');
+  const [sortBy, setSortBy] = useState<SortKey>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [showBulkDelete, setShowBulkDelete] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [referenceIndex, setReferenceIndex] = useState<ReferenceIndex>(new Map());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  const posterVideoRef = useRef<HTMLVideoElement>(null);
+  const { ask: askDuplicate, dialog: duplicateDialog } = useDuplicatePrompt();
+  const [isSavingPoster, setIsSavingPoster] = useState(false);
+
+  const items = useMemo(() => [...folders, ...pageItems], [folders, pageItems]);
+
+  const normalize = (list: FileItem[]) => list.map(i => ({...i, parentId: i.parentId || null}));
+
+  const queryFiles = (cursor?: string | null) => mediaDB.query({
+    filters: { parentId: currentFolderId, type: FILE_TYPES },
+    text: searchQuery,
+    sortBy: SORT_FIELDS[sortBy],
+    ascending: sortOrder === 'asc',
+    limit: PAGE_SIZE,
+    cursor,
+    force: true
+  });
 
   const loadFiles = async () => {
-    console.log('📂 [LOAD] Loading files from database...');
-    const dbItems = await mediaDB.getAll({ force: true });
-    console.log('📂 [LOAD] Loaded', dbItems.length, 'items from DB');
-    console.log('📂 [LOAD] Sample items:', dbItems.slice(0, 3).map(i => ({ name: i.name, parentId: i.parentId, type: typeof i.parentId })));
-    const mappedItems = dbItems.map(i => ({...i, parentId: i.parentId || null}));
-    console.log('📂 [LOAD] After || null mapping:', mappedItems.slice(0, 3).map(i => ({ name: i.name, parentId: i.parentId, type: typeof i.parentId })));
-    setItems(mappedItems);
+    const [folderPage, filePage] = await Promise.all([
+      mediaDB.query({ filters: { type: 'folder' }, sortBy: 'name', ascending: true, limit: 1000, force: true }),
+      queryFiles()
+    ]);
+    setFolders(normalize(folderPage.items));
+    setPageItems(normalize(filePage.items));
+    setNextCursor(filePage.nextCursor);
+  };
+
+  const loadMoreFiles = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await queryFiles(nextCursor);
+      setPageItems(prev => [...prev, ...normalize(page.items).filter(i => !prev.some(p => p.id === i.id))]);
+      setNextCursor(page.nextCursor);
+    } finally {
+      setIsLoadingMore(false);
+    }
   };
 
+  // Realtime callback musí volat aktuální loadFiles (složka, hledání, řazení)
+  const loadFilesRef = useRef(loadFiles);
+  loadFilesRef.current = loadFiles;
+
+  useEffect(() => subscribeToTables(['media_meta'], () => loadFilesRef.current()), []);
+
+  // Odchodem ze správce souborů se rozpracované uploady zruší
+  useEffect(() => {
+    const controllers = uploadControllers.current;
+    return () => controllers.forEach(c => c.abort());
+  }, []);
+
+  // Kde jsou soubory použité – projekty, články a nastavení webu
   useEffect(() => {
-    loadFiles();
-    window.addEventListener('storage', loadFiles);
-    return () => window.removeEventListener('storage', loadFiles);
+    const loadReferences = () => loadReferenceIndex()
+      .then(setReferenceIndex)
+      .catch(err => console.error('Reference index error:', err));
+    loadReferences();
+    return subscribeToTables(['projects', 'blog', 'web_settings'], () => loadReferences());
   }, []);
 
+  const usageOf = (item?: FileItem) => item ? referencesFor(referenceIndex, item.url) : [];
+  const referencedSelection = Array.from(selectedIds).filter(id => usageOf(items.find(i => i.id === id)).length > 0).length;
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadFiles(), searchQuery ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [currentFolderId, searchQuery, sortBy, sortOrder]);
+
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
     
-    const quality = parseFloat(localStorage.getItem('jakub_minka_compression_quality') || '0.8');
+    const quality = compressionQuality();
     const fileList = Array.from(files) as File[];
     
-    console.log('📤 [UPLOAD] Started:', { 
-      filesCount: fileList.length, 
-      currentFolderId, 
-      currentFolderName: currentFolderId ? items.find(i => i.id === currentFolderId)?.name : 'kořen',
-      itemsInDB: items.length
-    });
-    
-    for (const file of fileList) {
-      // Kontrola duplikátů - GLOBÁLNĚ (ve všech složkách)
-      const fileName = file.name.split('.')[0];
-      const existingFile = items.find(i => 
-        i.name === fileName && 
-        i.type !== 'folder'
-      );
-      
-      if (existingFile) {
-        const folderName = existingFile.parentId ? items.find(f => f.id === existingFile.parentId)?.name || 'neznámá složka' : 'kořen';
-        alert(`❌ Soubor "${file.name}" již existuje v systému (složka: ${folderName}). Duplicitní soubory nejsou povoleny.`);
-        continue; // Skip this file
-      }
+    // Kontrola duplicit podle obsahu – GLOBÁLNĚ (ve všech složkách), stejný název nevadí
+    const duplicates = createDuplicateChecker();
 
+    for (const file of fileList) {
+      // Nejdřív levné kontroly – otisk obsahu čte celý soubor do paměti
       if (file.type.startsWith('video/')) {
         if (!ALLOWED_VIDEO_TYPES.includes(file.type)) {
           alert(`❌ Nepodporovaný formát videa: ${file.type}.
@@ -117,6 +178,10 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
         }
       }
 
+      const hashes = await hashFile(file);
+      const matches = await duplicates.find(hashes);
+      if (matches.length > 0 && await askDuplicate(file.name, matches) !== 'upload') continue;
+
       const uploadId = Math.random().toString(36).substr(2, 9);
       const initialStatus: UploadStatus = {
         id: uploadId, fileName: file.name, progress: 0,
@@ -126,96 +191,74 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
       setUploadQueue(prev => [initialStatus, ...prev]);
       setIsQueueMinimized(false);
 
-      try {
-        let fileToUpload: Blob | File = file;
-        if (file.type.startsWith('image/')) {
-          fileToUpload = await optimizeImage(file, quality / 100);
-          setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'uploading' } : u));
-        }
+      const controller = new AbortController();
+      uploadControllers.current.set(uploadId, controller);
 
+      try {
         const fileId = 'm-' + Math.random().toString(36).substr(2, 9);
-        const storagePath = `uploads/${fileId}_${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
-
-        const uploadResp = await supabase.storage
-          .from('media')
-          .upload(storagePath, fileToUpload, {
-            cacheControl: '3600',
-            upsert: true
-          });
-
-        if (uploadResp.error) {
-          setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'error', error: uploadResp.error.message || 'Upload failed' } : u));
-          continue;
-        }
-
-        const publicResp = supabase.storage
-          .from('media')
-          .getPublicUrl(storagePath);
-        const publicUrl = publicResp.data?.publicUrl || '';
+        const options = {
+          signal: controller.signal,
+          onProgress: (progress: number) =>
+            setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'uploading', progress } : u))
+        };
+        // Obrázky se převedou na WebP ve všech šířkách pro srcset, videa dostanou poster a metadata
+        const video = file.type.startsWith('video/') ? await uploadVideo(file, options) : null;
+        const stored: ProcessedImage = video
+          ? { ...video, variants: [], metadata: {} }
+          : file.type.startsWith('image/')
+            ? await uploadImage(file, file.name, { ...options, quality, watermark: { parentId: currentFolderId, mediaId: fileId } })
+            : { ...await getStorage().upload(file, file.name, options), variants: [], metadata: {} };
 
         const newItem: FileItem = {
           id: fileId, 
           name: file.name.split('.')[0],
           type: file.type.startsWith('image') ? 'image' : file.type.startsWith('video') ? 'video' : 'other',
-          size: `${(fileToUpload.size / (1024 * 1024)).toFixed(2)} MB`,
-          url: publicUrl, 
+          size: `${((stored.size ?? file.size) / (1024 * 1024)).toFixed(2)} MB`,
+          url: stored.url, 
           parentId: currentFolderId, 
-          specializationId: storagePath,
+          specializationId: stored.key,
+          dimensions: stored.width ? `${stored.width}x${stored.height}` : undefined,
+          variants: stored.variants,
+          placeholder: stored.placeholder,
+          dominantColor: stored.dominantColor,
+          description: stored.caption,
+          ...stored.metadata,
+          ...stored.watermarked,
+          ...video?.metadata,
+          ...video?.poster,
+          ...hashes,
           updatedAt: new Date().toISOString()
         };
 
-        console.log('💾 [UPLOAD] Saving to database:', { 
-          name: newItem.name, 
-          parentId: newItem.parentId,
-          folderName: newItem.parentId ? items.find(i => i.id === newItem.parentId)?.name : 'kořen'
-        });
-
-        // Save and verify
         await mediaDB.save(newItem);
-        
-        // Verify it was saved with correct parentId
-        const savedItem = (await mediaDB.getAll({ force: true })).find(i => i.id === newItem.id);
-        console.log('✅ [UPLOAD] File saved, verified in DB:', { 
-          name: savedItem?.name, 
-          savedParentId: savedItem?.parentId,
-          expectedParentId: newItem.parentId,
-          match: savedItem?.parentId === newItem.parentId
-        });
+        duplicates.add(newItem);
         
         setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'completed', progress: 100 } : u));
-        
-        // Reload and verify
-        console.log('[UPLOAD] Reloading files after save...');
         await loadFiles();
       } catch (err: any) {
-        setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'error', error: err.message || 'Upload failed' } : u));
+        if (isAbortError(err)) {
+          setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'canceled' } : u));
+        } else {
+          setUploadQueue(prev => prev.map(u => u.id === uploadId ? { ...u, status: 'error', error: err.message || 'Upload failed' } : u));
+        }
+      } finally {
+        uploadControllers.current.delete(uploadId);
       }
     }
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const cancelUpload = (uploadId: string) => {
+    uploadControllers.current.get(uploadId)?.abort();
+  };
+
   const handleDelete = async (id: string) => {
     const item = items.find(i => i.id === id);
     if (!item) return;
 
     try {
-      // Delete from storage if it's a file
-      if (item.type !== 'folder' && item.specializationId) {
-        const { error: deleteError } = await supabase.storage
-          .from('media')
-          .remove([item.specializationId]);
-        
-        if (deleteError && !deleteError.message.includes('not found')) {
-          throw deleteError;
-        }
-      }
-
-      // Delete from database
-      await mediaDB.delete(id);
-      
-      // Clear cache to ensure fresh data
-      localStorage.removeItem('jakub_minka_cache_media_meta');
-      localStorage.removeItem('jakub_minka_cache_media_meta_ts');
+      // Jen do koše (složka i s obsahem) – soubor v úložišti se smaže až po uplynutí doby uchování
+      await moveMediaToTrash(item);
       
       setDeleteConfirm(null);
       await loadFiles();
@@ -230,25 +273,15 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
 
     try {
       let errorMessages: string[] = [];
+      // Jeden čas smazání pro celý výběr – vybraná složka a soubory v ní se pak v koši drží pohromadě
+      const deletedAt = new Date().toISOString();
 
       for (const id of selectedIds) {
         const item = items.find(i => i.id === id);
         if (!item) continue;
 
         try {
-          // Delete from storage if it's a file
-          if (item.type !== 'folder' && item.specializationId) {
-            const { error: deleteError } = await supabase.storage
-              .from('media')
-              .remove([item.specializationId]);
-            
-            if (deleteError && !deleteError.message.includes('not found')) {
-              console.warn(`Storage delete warning for ${item.name}:`, deleteError);
-            }
-          }
-
-          // Delete from database
-          await mediaDB.delete(id);
+          await moveMediaToTrash(item, deletedAt);
         } catch (err) {
           console.error(`Error deleting ${item.name}:`, err);
           errorMessages.push(item.name);
@@ -272,7 +305,6 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
     if (selectedIds.size === 0) return;
 
     try {
-      console.log('🔄 [BULK MOVE] Moving', selectedIds.size, 'items to folder:', targetFolderId);
       let errorMessages: string[] = [];
 
       for (const id of selectedIds) {
@@ -281,9 +313,8 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
 
         try {
           await mediaDB.update(id, { parentId: targetFolderId });
-          console.log('✅ [BULK MOVE] Moved:', item.name);
         } catch (err) {
-          console.error(`❌ [BULK MOVE] Error moving ${item.name}:`, err);
+          console.error(`Bulk move error (${item.name}):`, err);
           errorMessages.push(item.name);
         }
       }
@@ -291,12 +322,10 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
       setMoveToFolderId(null);
       setSelectedIds(new Set());
       
-      // Reload all files
-      const refreshedFiles = await mediaDB.getAll({ force: true });
-      setItems(refreshedFiles.map(i => ({...i, parentId: i.parentId || null})));
+      await loadFiles();
 
       const targetName = targetFolderId
-        ? refreshedFiles.find(i => i.id === targetFolderId)?.name || 'složka'
+        ? folders.find(i => i.id === targetFolderId)?.name || 'složka'
         : 'kořen';
       
       if (errorMessages.length === 0) {
@@ -305,7 +334,7 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
         alert(`Částečně dokončeno. Některé položky se nepodařilo přesunout: ${errorMessages.join(', ')}`);
       }
     } catch (err) {
-      console.error('❌ [BULK MOVE] Bulk move error:', err);
+      console.error('Bulk move error:', err);
       alert('Chyba při hromadném přesouvání: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
     }
   };
@@ -366,65 +395,63 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
     }
   };
 
+  // Poster = snímek, na kterém je přehrávač v editoru právě zastavený
+  const handleSetPoster = async (item: FileItem) => {
+    const video = posterVideoRef.current;
+    if (!video || video.readyState < 2) {
+      alert('Video se ještě nenačetlo – pusťte ho nebo posuňte na požadovaný snímek.');
+      return;
+    }
+    setIsSavingPoster(true);
+    try {
+      const poster = await replacePoster(item, video);
+      setShowMetadataEditor({ ...item, ...poster });
+      loadFiles();
+    } catch (err) {
+      console.error('Poster save error:', err);
+      alert('Náhled se nepodařilo uložit: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setIsSavingPoster(false);
+    }
+  };
+
+  const handleRemoveGps = async (item: FileItem) => {
+    if (!confirm(`Odstranit GPS polohu u souboru "${item.name}"?`)) return;
+    try {
+      await mediaDB.update(item.id, { gpsLatitude: null, gpsLongitude: null });
+      setShowMetadataEditor({ ...item, gpsLatitude: null, gpsLongitude: null });
+      loadFiles();
+    } catch (err) {
+      console.error('GPS remove error:', err);
+      alert('Chyba při ukládání');
+    }
+  };
+
   const handleMoveToFolder = async (itemId: string, targetFolderId: string | null) => {
-    console.log('🔄 [MOVE] Starting move:', { itemId, targetFolderId, timestamp: new Date().toISOString() });
-    
     try {
       const moveItem = items.find(i => i.id === itemId);
-      if (!moveItem) {
-        console.error('❌ [MOVE] Item not found in current items:', itemId);
-        throw new Error('Item not found');
-      }
+      if (!moveItem) throw new Error('Item not found');
       
-      console.log('📦 [MOVE] Item to move:', { name: moveItem.name, currentParentId: moveItem.parentId, targetParentId: targetFolderId });
-      
-      // Update in database
-      console.log('💾 [MOVE] Updating database with parentId =', targetFolderId);
       const result = await mediaDB.update(itemId, { parentId: targetFolderId });
-      console.log('✅ [MOVE] Database update response:', result);
-      
       if (!result || !result.id) {
         throw new Error('Database update failed - no valid response');
       }
       
-      // Verify the update in database
-      console.log('🔍 [MOVE] Verifying DB update...');
-      const verifyItem = await mediaDB.getAll({ force: true }).then(items => items.find(i => i.id === itemId));
-      if (!verifyItem) {
-        throw new Error('Item disappeared from database after move');
-      }
-      console.log('✅ [MOVE] Verified in DB:', { name: verifyItem.name, parentId: verifyItem.parentId });
-      
       // Close modal immediately
       setMoveToFolderId(null);
       setDraggedItem(null);
       setDragOverId(null);
       
-      // Reload files from database
-      console.log('🔄 [MOVE] Reloading all items from database...');
-      const refreshedFiles = await mediaDB.getAll({ force: true });
-      const refreshedItem = refreshedFiles.find(i => i.id === itemId);
-      console.log('🔄 [MOVE] Reloaded complete:', { totalItems: refreshedFiles.length, movedItemParentId: refreshedItem?.parentId });
-      
-      setItems(refreshedFiles.map(i => ({
-        ...i,
-        parentId: i.parentId || null
-      })));
+      await loadFiles();
       
       // Show success message
       const targetName = targetFolderId
-        ? refreshedFiles.find(i => i.id === targetFolderId)?.name || 'složka'
+        ? folders.find(i => i.id === targetFolderId)?.name || 'složka'
         : 'kořen';
-      console.log('✅ [MOVE] Move completed successfully:', { from: moveItem.name, to: targetName });
       alert(`✓ "${moveItem.name}" přesunuto do "${targetName}"`);
       
     } catch (err) {
-      console.error('❌ [MOVE] Move failed:', {
-        error: err instanceof Error ? err.message : String(err),
-        stack: err instanceof Error ? err.stack : undefined,
-        itemId,
-        targetFolderId
-      });
+      console.error('Move error:', err);
       setMoveToFolderId(null);
       alert('❌ Chyba při přesunutí: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
     }
@@ -466,39 +493,24 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
   };
 
   const currentItems = useMemo(() => {
-    console.log('\n🔍 [FILTER] ============ FILTERING ITEMS ============');
-    console.log('🔍 [FILTER] Current folder:', currentFolderId);
-    console.log('🔍 [FILTER] Total items:', items.length);
-    console.log('🔍 [FILTER] All items parentIds:', items.map(i => ({ name: i.name, parentId: i.parentId, type: i.type })));
-    
-    let filtered = items.filter(item => {
-      const match = item.parentId === currentFolderId;
-      console.log(`🔍 [FILTER] "${item.name}" - parentId: "${item.parentId}" ${typeof item.parentId}, currentFolderId: "${currentFolderId}" ${typeof currentFolderId}, match: ${match}`);
-      return match && (searchQuery === '' || item.name.toLowerCase().includes(searchQuery.toLowerCase()));
-    });
-    console.log('✅ [FILTER] Filtered to', filtered.length, 'items:', filtered.map(i => i.name));
-    console.log('🔍 [FILTER] ========================================\n');
+    const folderItems = folders.filter(item =>
+      item.parentId === currentFolderId &&
+      matchesSearch(searchQuery, item.name)
+    );
 
-    // Sorting
-    filtered.sort((a, b) => {
+    folderItems.sort((a, b) => {
       let compareVal = 0;
       if (sortBy === 'name') {
         compareVal = a.name.localeCompare(b.name);
       } else if (sortBy === 'date') {
         compareVal = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
-      } else if (sortBy === 'type') {
-        compareVal = a.type.localeCompare(b.type);
       }
       return sortOrder === 'asc' ? compareVal : -compareVal;
     });
 
-    // Move folders to top
-    return filtered.sort((a, b) => {
-      if (a.type === 'folder' && b.type !== 'folder') return -1;
-      if (a.type !== 'folder' && b.type === 'folder') return 1;
-      return 0;
-    });
-  }, [items, currentFolderId, searchQuery, sortBy, sortOrder]);
+    // Soubory chodí ze serveru už vyfiltrované a seřazené – složky vždy nahoře
+    return [...folderItems, ...pageItems];
+  }, [folders, pageItems, currentFolderId, searchQuery, sortBy, sortOrder]);
 
   const previewItems = useMemo(() => {
     return currentItems.filter(item => item.type !== 'folder');
@@ -509,14 +521,14 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
     const path: Folder[] = [];
     
     while (current) {
-      const folder = items.find(i => i.id === current && i.type === 'folder');
+      const folder = folders.find(i => i.id === current);
       if (!folder) break;
       path.unshift({ id: folder.id, name: folder.name, itemCount: items.filter(i => i.parentId === current && i.type !== 'folder').length });
       current = folder.parentId || null;
     }
     
     return path;
-  }, [items, currentFolderId]);
+  }, [items, folders, currentFolderId]);
 
   const getFileIcon = (type: string) => {
     switch (type) {
@@ -527,6 +539,22 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
     }
   };
 
+  const mediaDetails = (item: FileItem): [string, string][] => ([
+    ['Délka', formatDuration(item.duration)],
+    ['Kodek', item.codec],
+    ['Náhled z', item.posterUrl && item.posterTime !== undefined ? formatDuration(item.posterTime) || '0:00' : undefined],
+    ['Pořízeno', item.takenAt ? new Date(item.takenAt).toLocaleString('cs-CZ') : undefined],
+    ['Fotoaparát', item.camera],
+    ['Objektiv', item.lens],
+    ['Ohnisko', formatFocalLength(item.focalLength)],
+    ['Clona', formatAperture(item.aperture)],
+    ['Čas', formatExposure(item.exposureTime)],
+    ['ISO', item.iso ? String(item.iso) : undefined],
+    ['Rozměry', item.dimensions],
+    ['Autorská práva', item.copyright],
+    ['Klíčová slova', item.keywords?.length ? item.keywords.join(', ') : undefined]
+  ] as [string, string | undefined][]).filter((entry): entry is [string, string] => !!entry[1]);
+
   const formatDate = (dateStr?: string) => {
     if (!dateStr) return '—';
     return new Date(dateStr).toLocaleDateString('cs-CZ', { year: 'numeric', month: '2-digit', day: '2-digit' });
@@ -562,7 +590,6 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
               <ChevronRight size={14} className="text-gray-300" />
               <button 
                 onClick={() => {
-                  console.log('📁 Breadcrumb folder clicked:', folder.name, 'id:', folder.id);
                   setCurrentFolderId(folder.id);
                 }}
                 className="hover:text-[#007BFF] transition-colors"
@@ -604,12 +631,16 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
           {/* Sort Controls */}
           <select 
             value={sortBy}
-            onChange={e => setSortBy(e.target.value as 'name' | 'date' | 'type')}
+            onChange={e => setSortBy(e.target.value as SortKey)}
             className="px-4 py-2 border border-gray-200 rounded text-[10px] font-black uppercase bg-white hover:border-[#007BFF] cursor-pointer"
           >
             <option value="name">Seřadit: Název</option>
             <option value="date">Seřadit: Datum</option>
             <option value="type">Seřadit: Typ</option>
+            <option value="takenAt">Seřadit: Pořízeno</option>
+            <option value="camera">Seřadit: Fotoaparát</option>
+            <option value="focalLength">Seřadit: Ohnisko</option>
+            <option value="iso">Seřadit: ISO</option>
           </select>
 
           <button 
@@ -620,6 +651,14 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
             {sortOrder === 'asc' ? '▲' : '▼'}
           </button>
 
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="px-6 py-2 border-2 border-gray-300 text-gray-600 text-[10px] font-black uppercase rounded hover:border-[#007BFF] hover:text-[#007BFF] transition-all flex items-center gap-2"
+            title="Stejné a podobné soubory v celé knihovně"
+          >
+            <Copy size={14} /> Najít duplicity
+          </button>
+
           {/* Bulk Actions */}
           {selectedIds.size === 0 ? (
             <button 
@@ -675,7 +714,6 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   }`}
                   onClick={() => {
                     if (item.type === 'folder') {
-                      console.log('📁 Grid folder clicked:', item.name, 'id:', item.id);
                       setCurrentFolderId(item.id);
                     } else {
                       setPreviewIndex(previewItems.findIndex(pi => pi.id === item.id));
@@ -696,6 +734,8 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                       </div>
                     ) : item.type === 'image' && item.url ? (
                       <img src={item.url} alt={item.name} className="w-full h-full object-cover grayscale group-hover:grayscale-0 transition-all" />
+                    ) : item.type === 'video' && item.posterUrl ? (
+                      <img src={item.posterUrl} alt={item.name} className="w-full h-full object-cover grayscale group-hover:grayscale-0 transition-all" />
                     ) : (
                       getFileIcon(item.type)
                     )}
@@ -890,6 +930,18 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
         </div>
       )}
 
+      {nextCursor && (
+        <div className="p-6 flex justify-center bg-white border-t border-gray-100">
+          <button
+            onClick={loadMoreFiles}
+            disabled={isLoadingMore}
+            className="px-8 py-3 border-2 border-[#007BFF] text-[#007BFF] text-[10px] font-black uppercase tracking-widest rounded hover:bg-blue-50 transition-all disabled:opacity-50 flex items-center gap-2"
+          >
+            {isLoadingMore ? <RefreshCw size={14} className="animate-spin" /> : <Plus size={14} />} Načíst další
+          </button>
+        </div>
+      )}
+
       {/* Enhanced File Preview Modal with Navigation */}
       <AnimatePresence>
         {previewIndex !== null && previewItems[previewIndex] && (
@@ -1033,10 +1085,28 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   {showMetadataEditor.type === 'image' && showMetadataEditor.url && (
                     <img src={showMetadataEditor.url} alt="" className="max-w-full max-h-full object-contain" />
                   )}
-                  {showMetadataEditor.type === 'video' && (
-                    <VideoIcon size={48} className="text-gray-300" />
+                  {showMetadataEditor.type === 'video' && showMetadataEditor.url && (
+                    <video
+                      ref={posterVideoRef}
+                      src={showMetadataEditor.url}
+                      poster={showMetadataEditor.posterUrl}
+                      crossOrigin="anonymous"
+                      controls
+                      muted
+                      preload="metadata"
+                      className="max-w-full max-h-full"
+                    />
                   )}
                 </div>
+                {showMetadataEditor.type === 'video' && (
+                  <button
+                    onClick={() => handleSetPoster(showMetadataEditor)}
+                    disabled={isSavingPoster}
+                    className="w-full px-4 py-2 border border-gray-200 rounded text-[9px] hover:border-[#007BFF] hover:text-[#007BFF] disabled:opacity-50"
+                  >
+                    {isSavingPoster ? 'Ukládám náhled…' : 'Použít aktuální snímek jako náhled'}
+                  </button>
+                )}
 
                 {/* Name */}
                 <div>
@@ -1089,6 +1159,36 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   </div>
                 </div>
 
+                {/* EXIF / IPTC */}
+                {mediaDetails(showMetadataEditor).length > 0 && (
+                  <div>
+                    <label className="block text-gray-600 mb-2">{showMetadataEditor.type === 'video' ? 'Údaje o videu' : 'Údaje z fotoaparátu'}</label>
+                    <div className="grid grid-cols-2 gap-4 bg-gray-50 p-4 rounded">
+                      {mediaDetails(showMetadataEditor).map(([label, value]) => (
+                        <div key={label}>
+                          <p className="text-gray-500 mb-1">{label}</p>
+                          <p className="text-gray-800 break-words">{value}</p>
+                        </div>
+                      ))}
+                    </div>
+                    {showMetadataEditor.gpsLatitude != null && showMetadataEditor.gpsLongitude != null && (
+                      <div className="flex items-center justify-between gap-4 mt-2 text-[9px]">
+                        <a
+                          href={`https://www.openstreetmap.org/?mlat=${showMetadataEditor.gpsLatitude}&mlon=${showMetadataEditor.gpsLongitude}#map=16/${showMetadataEditor.gpsLatitude}/${showMetadataEditor.gpsLongitude}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-[#007BFF] hover:underline"
+                        >
+                          GPS {showMetadataEditor.gpsLatitude.toFixed(5)}, {showMetadataEditor.gpsLongitude.toFixed(5)}
+                        </a>
+                        <button onClick={() => handleRemoveGps(showMetadataEditor)} className="text-gray-400 hover:text-red-500">
+                          Odstranit polohu
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* URL */}
                 <div>
                   <label className="block text-gray-600 mb-2">URL</label>
@@ -1111,6 +1211,29 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   </div>
                 </div>
 
+                {/* Used in */}
+                <div>
+                  <label className="block text-gray-600 mb-2">Použito v</label>
+                  {usageOf(showMetadataEditor).length === 0 ? (
+                    <p className="text-[9px] text-gray-400">Nepoužito – soubor lze bezpečně smazat</p>
+                  ) : (
+                    <div className="border border-gray-200 rounded divide-y divide-gray-100">
+                      {usageOf(showMetadataEditor).map(ref => (
+                        <div key={`${ref.owner}-${ref.ownerId}-${ref.field}`} className="flex items-center gap-3 px-4 py-2 text-[9px]">
+                          <span className="text-[#007BFF] w-14 flex-shrink-0">{REFERENCE_OWNER_LABELS[ref.owner]}</span>
+                          <span className="flex-1 min-w-0 truncate text-gray-800">{ref.ownerTitle}</span>
+                          <span className="text-gray-400 flex-shrink-0">{ref.label}</span>
+                          {ref.path && (
+                            <a href={`#${ref.path}`} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-[#007BFF]" title="Otevřít na webu">
+                              <Link2 size={12} />
+                            </a>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 {/* ALT Text */}
                 <div>
                   <label className="block text-gray-600 mb-2">ALT text (popis obrázku pro SEO)</label>
@@ -1182,6 +1305,21 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   <p className="text-sm text-gray-600 mb-4">
                     Opravdu chceš smazat: <strong>{items.find(i => i.id === deleteConfirm)?.name}</strong>?
                   </p>
+                  <p className="text-xs text-gray-400">
+                    {items.find(i => i.id === deleteConfirm)?.type === 'folder'
+                      ? 'Složka se přesune do koše i s celým obsahem, odkud ji lze obnovit.'
+                      : 'Položka se přesune do koše, odkud ji lze obnovit.'}
+                  </p>
+                  {usageOf(items.find(i => i.id === deleteConfirm)).length > 0 && (
+                    <div className="mt-4 bg-red-50 border border-red-100 rounded p-3 text-xs text-red-700 space-y-1">
+                      <p className="font-black uppercase tracking-widest text-[9px]">Soubor je stále použit – na webu zůstane rozbitý obrázek:</p>
+                      {usageOf(items.find(i => i.id === deleteConfirm)).map(ref => (
+                        <div key={`${ref.owner}-${ref.ownerId}-${ref.field}`} className="truncate">
+                          • {REFERENCE_OWNER_LABELS[ref.owner]}: {ref.ownerTitle} ({ref.label})
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1196,7 +1334,7 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   onClick={() => handleDelete(deleteConfirm)}
                   className="flex-1 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-all text-[10px] font-black uppercase"
                 >
-                  Smazat
+                  {usageOf(items.find(i => i.id === deleteConfirm)).length > 0 ? 'Přesto smazat' : 'Smazat'}
                 </button>
               </div>
             </motion.div>
@@ -1226,16 +1364,22 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   <p className="text-sm text-gray-600 mb-4">
                     Opravdu chceš smazat <strong>{selectedIds.size}</strong> vybraných položek?
                   </p>
+                  <p className="text-xs text-gray-400 mb-4">Položky se přesunou do koše, odkud je lze obnovit.</p>
                   <div className="bg-gray-50 rounded p-3 max-h-32 overflow-y-auto text-xs space-y-1 mb-4">
                     {Array.from(selectedIds).map(id => {
                       const item = items.find(i => i.id === id);
                       return item ? (
-                        <div key={id} className="text-gray-700 truncate">
-                          • {item.name}
+                        <div key={id} className={`truncate ${usageOf(item).length > 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                          • {item.name}{usageOf(item).length > 0 && ` – použito v ${usageOf(item).length}×`}
                         </div>
                       ) : null;
                     })}
                   </div>
+                  {referencedSelection > 0 && (
+                    <p className="text-xs text-red-600 font-bold">
+                      {referencedSelection} z vybraných souborů je stále použito na webu – po smazání tam zůstanou rozbité obrázky.
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -1250,7 +1394,7 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   onClick={handleBulkDelete}
                   className="flex-1 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-all text-[10px] font-black uppercase"
                 >
-                  Smazat všechny
+                  {referencedSelection > 0 ? 'Přesto smazat všechny' : 'Smazat všechny'}
                 </button>
               </div>
             </motion.div>
@@ -1338,18 +1482,27 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
                   <div key={upload.id} className="space-y-2 border-b border-gray-50 pb-2">
                     <div className="flex justify-between items-start">
                       <p className="text-[9px] font-black uppercase truncate text-black pr-4">{upload.fileName}</p>
-                      <span className={`text-[8px] font-black uppercase ${
-                        upload.status === 'completed' ? 'text-green-500' : 
-                        upload.status === 'error' ? 'text-red-500' : 
-                        'text-[#007BFF]'
-                      }`}>
-                        {upload.status}
-                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className={`text-[8px] font-black uppercase ${
+                          upload.status === 'completed' ? 'text-green-500' : 
+                          upload.status === 'error' ? 'text-red-500' : 
+                          upload.status === 'canceled' ? 'text-gray-400' :
+                          'text-[#007BFF]'
+                        }`}>
+                          {upload.status}
+                        </span>
+                        {(upload.status === 'optimizing' || upload.status === 'uploading') && (
+                          <button onClick={() => cancelUpload(upload.id)} className="text-gray-400 hover:text-red-500" title="Zrušit upload">
+                            <X size={10} />
+                          </button>
+                        )}
+                      </div>
                     </div>
                     <div className="h-1 w-full bg-gray-100 rounded-full overflow-hidden">
                       <motion.div className={`h-full ${
                         upload.status === 'completed' ? 'bg-green-500' :
                         upload.status === 'error' ? 'bg-red-500' :
+                        upload.status === 'canceled' ? 'bg-gray-300' :
                         'bg-[#007BFF]'
                       }`} animate={{ width: `${upload.progress}%` }} />
                     </div>
@@ -1505,6 +1658,9 @@ Maximální velikost je ${VIDEO_MAX_MB} MB. Doporučuji export do MP4 (H.264) a
         )}
       </AnimatePresence>
 
+      <DuplicateFinder isOpen={showDuplicates} onClose={() => setShowDuplicates(false)} usageOf={usageOf} onDeleted={loadFiles} />
+      {duplicateDialog}
+
       {/* Global Context Menu Closer */}
       {contextMenu && (
         <div
@@ -3,7 +3,9 @@ import React, { useState, useEffect } from 'react';
 import { Mail, Search, X, MessageSquare, Calendar, User, Tag, CheckCircle2, Trash2, UserX, AlertTriangle, Edit2, Save } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Inquiry } from '../../types';
-import { dataStore } from '../../lib/db';
+import { inquiryDB } from '../../lib/db';
+import { subscribeToTables } from '../../lib/realtime';
+import { matchesSearch } from '../../lib/search';
 
 const InquiryManager: React.FC = () => {
   const [inquiries, setInquiries] = useState<Inquiry[]>([]);
@@ -13,19 +15,22 @@ const InquiryManager: React.FC = () => {
   const [editData, setEditData] = useState<Partial<Inquiry>>({});
 
   const loadData = async () => {
-    const saved = await dataStore.collection('inquiries').getAll({ force: true });
+    const saved = await inquiryDB.getAll({ force: true });
     setInquiries(saved.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
   };
 
-  useEffect(() => { loadData(); }, []);
+  useEffect(() => {
+    loadData();
+    return subscribeToTables(['inquiries'], () => loadData());
+  }, []);
 
   const markAsRead = async (id: string) => {
-    await dataStore.collection('inquiries').update(id, { status: 'read' });
+    await inquiryDB.update(id, { status: 'read' });
   };
 
   const deleteInquiry = async (id: string) => {
     if (confirm('Smazat dotaz?')) {
-      await dataStore.collection('inquiries').delete(id);
+      await inquiryDB.delete(id);
       setSelectedInquiry(null);
       loadData();
     }
@@ -34,7 +39,7 @@ const InquiryManager: React.FC = () => {
   const handleUpdate = async () => {
     if (!selectedInquiry) return;
     try {
-      await dataStore.collection('inquiries').update(selectedInquiry.id, editData);
+      await inquiryDB.update(selectedInquiry.id, editData);
       setIsEditing(false);
       setSelectedInquiry({...selectedInquiry, ...editData} as Inquiry);
       loadData();
@@ -44,11 +49,7 @@ const InquiryManager: React.FC = () => {
     }
   };
 
-  const filtered = inquiries.filter(i => 
-    i.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    i.email.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    i.subject.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const filtered = inquiries.filter(i => matchesSearch(searchQuery, i.name, i.email, i.subject));
 
   return (
     <div className="space-y-8">
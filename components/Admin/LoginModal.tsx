@@ -54,6 +54,7 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
       
       if (nick === VALID_NICK && password === VALID_PASS) {
         localStorage.setItem('admin_auth', 'true');
+        localStorage.setItem('admin_user', nick);
         localStorage.removeItem('login_attempts');
         onClose();
         navigate('/admin');
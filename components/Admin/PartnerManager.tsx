@@ -2,12 +2,8 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Trash2, Edit2, Save, X, Search, Briefcase, CheckSquare, Square } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { dataStore } from '../../lib/db';
-
-interface Partner {
-  id: string;
-  name: string;
-}
+import { Partner } from '../../types';
+import { partnerDB } from '../../lib/db';
 
 const PartnerManager: React.FC = () => {
   const [partners, setPartners] = useState<Partner[]>([]);
@@ -21,27 +17,27 @@ const PartnerManager: React.FC = () => {
     if (oldData) {
       const oldPartners = JSON.parse(oldData);
       for (const partner of oldPartners) {
-        await dataStore.collection('partners').save(partner);
+        await partnerDB.save(partner);
       }
       localStorage.removeItem('jakub_minka_partners'); // Remove old data
     }
 
-    // Load from dataStore
-    const saved = await dataStore.collection('partners').getAll({ force: true });
+    // Load from partnerDB
+    const saved = await partnerDB.getAll({ force: true });
     if (saved && saved.length > 0) {
-      setPartners(saved.sort((a:any, b:any) => a.name.localeCompare(b.name)));
+      setPartners(saved.sort((a, b) => a.name.localeCompare(b.name)));
     }
   };
 
   useEffect(() => { loadData(); }, []);
 
   const savePartner = async (partner: Partner) => {
-    await dataStore.collection('partners').save(partner);
+    await partnerDB.save(partner);
     await loadData();
   };
 
   const deletePartner = async (id: string) => {
-    await dataStore.collection('partners').delete(String(id));
+    await partnerDB.delete(String(id));
     await loadData();
   };
 
@@ -54,7 +50,7 @@ const PartnerManager: React.FC = () => {
   const deleteBulk = async () => {
     if (!confirm('Smazat vybrané partnery?')) return;
     for (const id of Array.from(selectedIds)) {
-      await dataStore.collection('partners').delete(String(id));
+      await partnerDB.delete(String(id));
     }
     setSelectedIds(new Set());
     await loadData();
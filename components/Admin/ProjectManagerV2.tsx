@@ -3,181 +3,178 @@ import { Project, MediaType, FileItem, GalleryItem } from '../../types';
 import { SPECIALIZATIONS } from '../../constants';
 import { 
   Plus, Trash2, Edit2, X, Search, Youtube, Upload, RefreshCw, CheckSquare, Square,
-  GripVertical, ExternalLink, Eye, Download, Grid3x3, List, Filter, SortAsc
+  GripVertical, ExternalLink, Eye, Download, Grid3x3, List, Filter, SortAsc, History
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { mediaDB, dataStore, projectDB, optimizeImage } from '../../lib/db';
-import { supabase } from '../../src/supabaseClient';
+import { mediaDB, dataStore, projectDB, ConflictError } from '../../lib/db';
+import { mergeChanges } from '../../lib/revisions';
+import { subscribeToTables } from '../../lib/realtime';
 import EnhancedMediaPicker from './EnhancedMediaPicker';
+import RevisionHistory from './RevisionHistory';
+import ConflictDialog from './ConflictDialog';
+import PublishControls, { PublishBadge } from './PublishControls';
+import DraftRestoreDialog from './DraftRestoreDialog';
+import { useEditorDraft } from './useEditorDraft';
+import { UNSAVED_CHANGES_MESSAGE } from '../../lib/drafts';
+import { slugify } from '../../lib/slugs';
+import { matchesSearch } from '../../lib/search';
+import { compressionQuality, uploadImage } from '../../lib/imageVariants';
+import { createDuplicateChecker, hashFile } from '../../lib/duplicates';
+import { useDuplicatePrompt } from './DuplicateDialog';
 
-const ProjectManagerV2: React.FC = () => {
+const PROJECT_FIELD_LABELS: Record<string, string> = {
+  title: 'Název', shortDescription: 'Krátký popis', description: 'Popis', category: 'Kategorie',
+  categoryId: 'Specializace', type: 'Typ', date: 'Datum', thumbnailUrl: 'Náhled', gallery: 'Galerie',
+  servicesDelivered: 'Dodané služby', websiteUrl: 'Web', websiteLabel: 'Popisek webu', youtubeCoverUrl: 'YouTube cover',
+  status: 'Stav', publishAt: 'Zveřejnit od', slug: 'Adresa (slug)', previousSlugs: 'Dřívější adresy',
+  youtubeUrls: 'YouTube videa'
+};
+
+const emptyForm = (): Partial<Project> => ({
+  title: '',
+  shortDescription: '',
+  description: '',
+  categoryId: SPECIALIZATIONS[0].id,
+  type: MediaType.BOTH,
+  date: new Date().toISOString().split('T')[0],
+  thumbnailUrl: '',
+  thumbnailSource: 'pc',
+  gallery: [],
+  servicesDelivered: '',
+  youtubeUrl: '',
+  websiteUrl: '',
+  websiteLabel: '',
+  youtubeCoverUrl: '',
+  status: 'published',
+  publishAt: null,
+  slug: ''
+});
+
+// Položka galerie odkazující na soubor z knihovny médií
+const galleryItemFrom = (m: FileItem): GalleryItem => ({
+  id: m.id,
+  url: m.url || '',
+  type: m.type === 'video' ? MediaType.VIDEO : MediaType.IMAGE,
+  source: 'storage',
+  placeholder: m.placeholder,
+  dominantColor: m.dominantColor,
+  poster: m.posterUrl,
+  duration: m.duration
+});
+
+interface ProjectManagerV2Props {
+  // Zakázka vybraná v hledání administrace – po načtení se otevře v editoru
+  openRecordId?: string | null;
+  onRecordOpened?: () => void;
+}
+
+const ProjectManagerV2: React.FC<ProjectManagerV2Props> = ({ openRecordId, onRecordOpened }) => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  // Stav projektu při otevření editoru – podle verze se pozná souběžná úprava z jiné záložky
+  const [editBase, setEditBase] = useState<{ version: string | null; original: Project } | null>(null);
+  const [conflict, setConflict] = useState<{ error: ConflictError; mine: Project } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploads, setUploads] = useState<{id: string, name: string, progress: number}[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [sortBy, setSortBy] = useState<'date' | 'title' | 'category'>('date');
   const [filterCategory, setFilterCategory] = useState<string>('all');
   
-  const [allMediaItems, setAllMediaItems] = useState<FileItem[]>([]);
   const [showMediaPicker, setShowMediaPicker] = useState(false);
   const [pickerMode, setPickerMode] = useState<'gallery' | 'youtubeCover'>('gallery');
-  const [selectedMedia, setSelectedMedia] = useState<Set<string>>(new Set());
   
   const draggedGalleryItem = useRef<number | null>(null);
+  const { ask: askDuplicate, dialog: duplicateDialog } = useDuplicatePrompt();
 
   // Form state - všechny fieldy v jednom objektu
-  const [formData, setFormData] = useState<Partial<Project>>({
-    title: '',
-    shortDescription: '',
-    description: '',
-    categoryId: SPECIALIZATIONS[0].id,
-    type: MediaType.BOTH,
-    date: new Date().toISOString().split('T')[0],
-    thumbnailUrl: '',
-    thumbnailSource: 'pc',
-    gallery: [],
-    servicesDelivered: '',
-    youtubeUrl: '',
-    websiteUrl: '',
-    websiteLabel: '',
-    youtubeCoverUrl: ''
-  });
+  const [formData, setFormData] = useState<Partial<Project>>(emptyForm);
   
   const [youtubeUrls, setYoutubeUrls] = useState<string[]>([]);
 
-  // Load projects and media
+  // Rozpracovaný formulář včetně pořadí galerie se průběžně ukládá do prohlížeče
+  const draft = useEditorDraft('projects', { ...formData, youtubeUrls });
+
+  // Load projects
   useEffect(() => {
     const load = async () => {
       const savedProjects = await projectDB.getAll({ force: true });
       setProjects(savedProjects);
-      const savedMedia = await mediaDB.getAll({ force: true });
-      setAllMediaItems(savedMedia);
     };
     load();
+    return subscribeToTables(['projects'], () => load());
   }, []);
 
-  // Image to WebP conversion with compression
-  const convertToWebP = async (file: File, quality: number = 0.8): Promise<Blob> => {
-    return new Promise((resolve) => {
-      if (!file.type.startsWith('image/')) {
-        resolve(file);
-        return;
-      }
-
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = (e) => {
-        const img = new Image();
-        img.src = e.target?.result as string;
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-          
-          // Resize if too large
-          const maxWidth = 2000;
-          if (width > maxWidth) {
-            height = (maxWidth / width) * height;
-            width = maxWidth;
-          }
-
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          ctx?.drawImage(img, 0, 0, width, height);
-          
-          // Convert to WebP if browser supports it
-          canvas.toBlob((blob) => resolve(blob || file), 'image/webp', quality);
-        };
-      };
-    });
-  };
-
-  // Upload file to Supabase Storage
-  const uploadFileToStorage = async (file: Blob | File, fileName: string): Promise<string> => {
-    const fileId = 'm-' + Math.random().toString(36).substr(2, 9);
-    const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/\.[^/.]+$/, '.webp');
-    const storagePath = `uploads/${fileId}_${safeName}`;
-
-    const { error: uploadError } = await supabase.storage
-      .from('media')
-      .upload(storagePath, file, { cacheControl: '3600', upsert: true });
-
-    if (uploadError) throw uploadError;
-
-    const { data } = supabase.storage.from('media').getPublicUrl(storagePath);
-    return data.publicUrl;
-  };
-
   // Handle gallery uploads
   const handleGalleryUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files?.length) return;
     const files = Array.from(e.target.files) as File[];
     
-    // GLOBÁLNÍ kontrola duplicit - prohledat všechna média v databázi
-    const duplicatesInSystem: string[] = [];
-    const filesToUpload: File[] = [];
-    
+    // GLOBÁLNÍ kontrola duplicit podle obsahu – stejný název (IMG_0001) z jiného focení nevadí
+    const duplicates = createDuplicateChecker();
+    setIsProcessing(true);
+    const quality = compressionQuality();
+
     for (const file of files) {
-      const fileBaseName = file.name.split('.')[0];
-      
-      // Check if file exists ANYWHERE in the media database
-      const existsInSystem = allMediaItems.some(item => 
-        item.name === fileBaseName && item.type !== 'folder'
-      );
-      
-      if (existsInSystem) {
-        duplicatesInSystem.push(file.name);
-      } else {
-        filesToUpload.push(file);
+      const hashes = await hashFile(file);
+      const matches = await duplicates.find(hashes);
+      if (matches.length > 0) {
+        const decision = await askDuplicate(file.name, matches, true);
+        if (decision === 'skip') continue;
+        if (decision === 'useExisting') {
+          const existing = galleryItemFrom(matches[0].item);
+          setFormData(p => (p.gallery || []).some(g => g.url === existing.url) ? p : { ...p, gallery: [...(p.gallery || []), existing] });
+          continue;
+        }
       }
-    }
-    
-    // Show error if duplicates found anywhere in system
-    if (duplicatesInSystem.length > 0) {
-      alert(`❌ Následující soubory již existují v systému:\n${duplicatesInSystem.join('\n')}\n\nDuplicitní soubory nejsou povoleny.`);
-    }
-    
-    // If no new files to upload, we're done
-    if (filesToUpload.length === 0) {
-      return;
-    }
-    
-    setIsProcessing(true);
-    const quality = parseFloat(localStorage.getItem('jakub_minka_compression_quality') || '0.8');
 
-    for (const file of filesToUpload) {
       const uploadId = Math.random().toString(36).substr(2, 9);
       const fileBaseName = file.name.split('.')[0];
       
       setUploads(prev => [...prev, { id: uploadId, name: file.name, progress: 0 }]);
 
       try {
-        const webpBlob = await convertToWebP(file, quality);
-        const url = await uploadFileToStorage(webpBlob, file.name);
+        // WebP ve všech šířkách pro srcset (R2, Supabase nebo data URL podle backendu)
+        const stored = await uploadImage(file, file.name, {
+          quality,
+          // Vodoznak podle specializace projektu
+          watermark: { specializationIds: formData.categoryId ? [formData.categoryId] : [], mediaId: 'm-' + uploadId },
+          onProgress: progress => setUploads(prev => prev.map(u => u.id === uploadId ? { ...u, progress } : u))
+        });
+        const url = stored.url;
 
         // Add to media gallery
         const mediaItem: FileItem = {
           id: 'm-' + uploadId,
           name: fileBaseName,
           type: 'image',
-          size: `${(file.size / (1024 * 1024)).toFixed(2)} MB`,
+          size: `${((stored.size ?? file.size) / (1024 * 1024)).toFixed(2)} MB`,
           url,
           parentId: null,
-          specializationId: '',
+          specializationId: stored.key,
+          dimensions: stored.width ? `${stored.width}x${stored.height}` : undefined,
+          variants: stored.variants,
+          placeholder: stored.placeholder,
+          dominantColor: stored.dominantColor,
+          description: stored.caption,
+          ...stored.metadata,
+          ...stored.watermarked,
+          ...hashes,
           updatedAt: new Date().toISOString()
         };
         await mediaDB.save(mediaItem);
-        console.log('✅ Gallery image added to media gallery:', mediaItem.name);
+        // Další stejný soubor ve stejné dávce už se chytí jako duplicita
+        duplicates.add(mediaItem);
 
         const galleryItem: GalleryItem = {
           id: 'g-' + uploadId,
           url,
           type: 'image',
-          source: 'storage'
+          source: 'storage',
+          placeholder: stored.placeholder,
+          dominantColor: stored.dominantColor
         };
 
         setFormData(p => ({
@@ -189,6 +186,7 @@ const ProjectManagerV2: React.FC = () => {
       } catch (err) {
         console.error('Gallery upload error:', err);
         setUploads(prev => prev.filter(u => u.id !== uploadId));
+        alert(`${file.name}: ${err instanceof Error ? err.message : 'Upload selhal'}`);
       }
     }
     setIsProcessing(false);
@@ -224,57 +222,12 @@ const ProjectManagerV2: React.FC = () => {
     
     // Add only new items
     if (newItems.length > 0) {
-      const newGalleryItems = newItems.map(m => ({
-        id: m.id,
-        url: m.url,
-        type: m.type as any,
-        source: 'storage' as const
-      }));
-      setFormData(p => ({ ...p, gallery: [...(p.gallery || []), ...newGalleryItems] }));
+      setFormData(p => ({ ...p, gallery: [...(p.gallery || []), ...newItems.map(galleryItemFrom)] }));
     }
     
     setShowMediaPicker(false);
   };
 
-  // Add from existing media library (legacy - keep for compatibility)
-  const handleAddFromLibrary = () => {
-    const picked = Array.from(selectedMedia.values())
-      .map(id => allMediaItems.find(m => m.id === id))
-      .filter(Boolean) as FileItem[];
-
-    const currentGalleryUrls = (formData.gallery || []).map(item => item.url);
-    const duplicates: string[] = [];
-    const newItems: FileItem[] = [];
-    
-    // Filter out duplicates
-    picked.forEach(item => {
-      if (currentGalleryUrls.includes(item.url)) {
-        duplicates.push(item.name);
-      } else {
-        newItems.push(item);
-      }
-    });
-    
-    // Show warning if duplicates found
-    if (duplicates.length > 0) {
-      alert(`❌ Následující položky již jsou v galerii projektu:\n${duplicates.join('\n')}\n\nNebudou přidány.`);
-    }
-    
-    // Add only new items
-    if (newItems.length > 0) {
-      const newGalleryItems = newItems.map(m => ({
-        id: m.id,
-        url: m.url,
-        type: m.type as any,
-        source: 'storage' as const
-      }));
-      setFormData(p => ({ ...p, gallery: [...(p.gallery || []), ...newGalleryItems] }));
-    }
-    
-    setShowMediaPicker(false);
-    setSelectedMedia(new Set());
-  };
-
   // Remove gallery item
   const removeGalleryItem = (index: number) => {
     setFormData(p => ({
@@ -301,6 +254,38 @@ const ProjectManagerV2: React.FC = () => {
     draggedGalleryItem.current = null;
   };
 
+  const persistProject = async (project: Project, expectedVersion?: string | null) => {
+    await projectDB.save(project, { expectedVersion });
+    console.log('Project saved, reloading list...');
+    const updated = await projectDB.getAll({ force: true });
+    setProjects(updated);
+    draft.clear();
+    setShowForm(false);
+    resetForm();
+  };
+
+  const resolveConflict = async (action: 'overwrite' | 'merge') => {
+    if (!conflict) return;
+    const { error, mine } = conflict;
+    const next = action === 'merge' && error.server && editBase
+      ? mergeChanges(editBase.original, mine, error.server as Project)
+      : mine;
+    setIsProcessing(true);
+    try {
+      await persistProject(next, error.serverVersion);
+      setConflict(null);
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        setConflict({ error: err, mine: next });
+        return;
+      }
+      console.error('Save error:', err);
+      alert('Chyba při ukládání: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Save project
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -316,60 +301,59 @@ const ProjectManagerV2: React.FC = () => {
     if (!thumbnailUrl && galleryImages.length > 0) {
       const randomImage = galleryImages[Math.floor(Math.random() * galleryImages.length)];
       thumbnailUrl = randomImage.url;
-      console.log('🎲 Auto-selected random thumbnail from gallery:', randomImage.url);
     } else if (!thumbnailUrl && galleryImages.length === 0 && youtubeUrls.length > 0) {
       // If no images but has YouTube videos, use first YouTube thumbnail
       const firstYoutubeUrl = youtubeUrls[0];
       const videoId = firstYoutubeUrl.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/)?.[1];
       if (videoId) {
         thumbnailUrl = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
-        console.log('🎬 Auto-selected YouTube thumbnail:', thumbnailUrl);
       }
     }
     
     setIsProcessing(true);
 
+    // Add YouTube URLs to gallery as GalleryItem objects
+    const youtubeGalleryItems: GalleryItem[] = youtubeUrls
+      .filter(url => url.trim())
+      .map(url => ({
+        id: 'yt-' + Math.random().toString(36).substr(2, 9),
+        type: 'video' as const,
+        url: url.trim(),
+        source: 'youtube' as const
+      }));
+    
+    // Combine existing gallery items (from storage/uploads) with YouTube items
+    const combinedGallery = [...(formData.gallery || []), ...youtubeGalleryItems];
+    
+    const project: Project = {
+      id: editingId || 'p-' + Math.random().toString(36).substr(2, 9),
+      title: formData.title,
+      shortDescription: formData.shortDescription || '',
+      description: formData.description || '',
+      category: SPECIALIZATIONS.find(s => s.id === formData.categoryId)?.name || 'Ostatní',
+      categoryId: formData.categoryId!,
+      type: formData.type || MediaType.BOTH,
+      date: formData.date || new Date().toISOString(),
+      thumbnailUrl,
+      thumbnailSource: 'storage',
+      gallery: combinedGallery,
+      servicesDelivered: formData.servicesDelivered || '',
+      websiteUrl: formData.websiteUrl || '',
+      websiteLabel: formData.websiteLabel || '',
+        youtubeCoverUrl: formData.youtubeCoverUrl || '',
+      youtubeUrl: '', // Keep for backward compatibility but not used
+      status: formData.status || 'published',
+      publishAt: formData.publishAt || null,
+      slug: formData.slug || ''
+    };
+
     try {
-      // Add YouTube URLs to gallery as GalleryItem objects
-      const youtubeGalleryItems: GalleryItem[] = youtubeUrls
-        .filter(url => url.trim())
-        .map(url => ({
-          id: 'yt-' + Math.random().toString(36).substr(2, 9),
-          type: 'video' as const,
-          url: url.trim(),
-          source: 'youtube' as const
-        }));
-      
-      // Combine existing gallery items (from storage/uploads) with YouTube items
-      const combinedGallery = [...(formData.gallery || []), ...youtubeGalleryItems];
-      
-      const project: Project = {
-        id: editingId || 'p-' + Math.random().toString(36).substr(2, 9),
-        title: formData.title,
-        shortDescription: formData.shortDescription || '',
-        description: formData.description || '',
-        category: SPECIALIZATIONS.find(s => s.id === formData.categoryId)?.name || 'Ostatní',
-        categoryId: formData.categoryId!,
-        type: formData.type || MediaType.BOTH,
-        date: formData.date || new Date().toISOString(),
-        thumbnailUrl,
-        thumbnailSource: 'storage',
-        gallery: combinedGallery,
-        servicesDelivered: formData.servicesDelivered || '',
-        websiteUrl: formData.websiteUrl || '',
-        websiteLabel: formData.websiteLabel || '',
-          youtubeCoverUrl: formData.youtubeCoverUrl || '',
-        youtubeUrl: '' // Keep for backward compatibility but not used
-      };
-
-      await projectDB.save(project);
-      console.log('Project saved, reloading list...');
-      const updated = await projectDB.getAll({ force: true });
-      console.log('Projects loaded:', updated);
-      setProjects(updated);
-      setShowForm(false);
-      resetForm();
+      await persistProject(project, editBase?.version);
     } catch (err) {
+      if (err instanceof ConflictError) {
+        setConflict({ error: err, mine: project });
+        return;
+      }
       let errorMsg = 'Neznámá chyba';
       if (err instanceof Error) {
         errorMsg = err.message;
@@ -387,26 +371,36 @@ const ProjectManagerV2: React.FC = () => {
 
   const resetForm = () => {
     setEditingId(null);
-    setFormData({
-      title: '',
-      shortDescription: '',
-      description: '',
-      categoryId: SPECIALIZATIONS[0].id,
-      type: MediaType.BOTH,
-      date: new Date().toISOString().split('T')[0],
-      thumbnailUrl: '',
-      thumbnailSource: 'pc',
-      gallery: [],
-      servicesDelivered: '',
-      websiteUrl: '',
-      websiteLabel: '',
-      youtubeCoverUrl: ''
-    });
+    setEditBase(null);
+    setFormData(emptyForm());
     setYoutubeUrls([]);
   };
 
+  const openNewForm = () => {
+    const form = emptyForm();
+    resetForm();
+    setFormData(form);
+    draft.begin(null, { ...form, youtubeUrls: [] });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    if (draft.isDirty && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
+    draft.close();
+    setShowForm(false);
+  };
+
+  const restoreDraft = () => {
+    const data = draft.takePending();
+    if (!data) return;
+    const { youtubeUrls: urls, ...form } = data;
+    setFormData(form);
+    setYoutubeUrls(urls || []);
+  };
+
   const handleEdit = (project: Project) => {
     setEditingId(project.id);
+    setEditBase({ version: projectDB.getVersion(project.id), original: project });
     
     // Extract YouTube videos from gallery
     const youtubeItems = (project.gallery || []).filter(item => item.source === 'youtube');
@@ -416,16 +410,37 @@ const ProjectManagerV2: React.FC = () => {
     setYoutubeUrls(youtubeItems.map(item => item.url));
     
     // Set form data with non-YouTube gallery items only
-    setFormData({
-      ...project,
-      gallery: nonYoutubeItems
-    });
+    const form = { ...project, gallery: nonYoutubeItems };
+    setFormData(form);
+    draft.begin(project.id, { ...form, youtubeUrls: youtubeItems.map(item => item.url) });
     
     setShowForm(true);
   };
 
+  useEffect(() => {
+    if (!openRecordId) return;
+    const project = projects.find(p => p.id === openRecordId);
+    if (!project) return;
+    handleEdit(project);
+    onRecordOpened?.();
+  }, [openRecordId, projects]);
+
+  // Obnova je běžné uložení – hlídá souběžnou úpravu jako tlačítko Uložit a neuložené změny nezahodí bez ptaní
+  const handleRestoreRevision = async (snapshot: Record<string, any>) => {
+    if (draft.isDirty && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
+    try {
+      const restored = await projectDB.save(snapshot as Project, { expectedVersion: editBase?.version });
+      draft.clear();
+      handleEdit(restored);
+    } catch (err) {
+      if (!(err instanceof ConflictError)) throw err;
+      setShowHistory(false);
+      setConflict({ error: err, mine: snapshot as Project });
+    }
+  };
+
   const handleDelete = async (id: string) => {
-    if (!confirm('Smazat projekt?')) return;
+    if (!confirm('Přesunout projekt do koše?')) return;
     try {
       await projectDB.delete(id);
       const updated = await projectDB.getAll({ force: true });
@@ -438,8 +453,7 @@ const ProjectManagerV2: React.FC = () => {
 
   const filteredProjects = projects
     .filter(p =>
-      (p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-       p.shortDescription?.toLowerCase().includes(searchQuery.toLowerCase())) &&
+      matchesSearch(searchQuery, p.title, p.shortDescription, p.servicesDelivered) &&
       (filterCategory === 'all' || p.categoryId === filterCategory)
     )
     .sort((a, b) => {
@@ -459,7 +473,7 @@ const ProjectManagerV2: React.FC = () => {
       <div className="bg-white p-6 border shadow-sm space-y-4">
         <div className="flex justify-between items-center">
           <button
-            onClick={() => { resetForm(); setShowForm(true); }}
+            onClick={openNewForm}
             className="bg-[#007BFF] text-white px-8 py-3.5 text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all"
           >
             <Plus className="inline mr-2" size={16} /> PŘIDAT ZAKÁZKU
@@ -540,7 +554,7 @@ const ProjectManagerV2: React.FC = () => {
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
-            onClick={() => setShowForm(false)}
+            onClick={closeForm}
           >
             <motion.div
               initial={{ scale: 0.9 }}
@@ -553,9 +567,16 @@ const ProjectManagerV2: React.FC = () => {
                 <h2 className="text-lg font-black uppercase">
                   {editingId ? 'Upravit zakázku' : 'Nová zakázka'}
                 </h2>
-                <button onClick={() => setShowForm(false)} className="hover:text-red-500">
-                  <X size={24} />
-                </button>
+                <div className="flex items-center gap-4">
+                  {editingId && (
+                    <button type="button" onClick={() => setShowHistory(true)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest hover:text-[#007BFF]">
+                      <History size={18} /> Historie
+                    </button>
+                  )}
+                  <button onClick={closeForm} className="hover:text-red-500">
+                    <X size={24} />
+                  </button>
+                </div>
               </div>
 
               <form onSubmit={handleSave} className="p-8 space-y-8">
@@ -587,6 +608,32 @@ const ProjectManagerV2: React.FC = () => {
                   </div>
                 </div>
 
+                <div>
+                  <label className="text-[10px] font-black uppercase text-gray-400 block mb-2">
+                    Adresa (slug)
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.slug || ''}
+                    onChange={e => setFormData(p => ({ ...p, slug: e.target.value }))}
+                    placeholder={slugify(formData.title || '') || 'vygeneruje-se-z-nazvu'}
+                    className="w-full border-2 border-gray-200 p-4 font-bold text-black outline-none focus:border-[#007BFF]"
+                  />
+                  <p className="text-[10px] text-gray-400 mt-2">
+                    /projekt/{slugify(formData.slug || formData.title || '') || '…'} · prázdné pole = vygenerovat z názvu
+                    {formData.previousSlugs && formData.previousSlugs.length > 0 && ` · přesměrováno z: ${formData.previousSlugs.join(', ')}`}
+                  </p>
+                </div>
+
+                <PublishControls
+                  status={formData.status || 'published'}
+                  publishAt={formData.publishAt || null}
+                  onChange={next => setFormData(p => ({ ...p, ...next }))}
+                  className="grid grid-cols-1 md:grid-cols-2 gap-6"
+                  labelClassName="text-[10px] font-black uppercase text-gray-400 block mb-2"
+                  inputClassName="w-full border-2 border-gray-200 p-4 font-bold text-black outline-none focus:border-[#007BFF]"
+                />
+
                 {/* Category & Type Row */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
@@ -846,7 +893,7 @@ const ProjectManagerV2: React.FC = () => {
                   </button>
                   <button
                     type="button"
-                    onClick={() => setShowForm(false)}
+                    onClick={closeForm}
                     className="px-8 py-4 border-2 border-gray-200 text-[10px] font-black uppercase hover:border-red-500 text-gray-600 hover:text-red-500"
                   >
                     Zrušit
@@ -858,6 +905,45 @@ const ProjectManagerV2: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {duplicateDialog}
+
+      <ConflictDialog
+        conflict={conflict?.error || null}
+        mine={conflict?.mine || null}
+        fieldLabels={PROJECT_FIELD_LABELS}
+        isBusy={isProcessing}
+        onOverwrite={() => resolveConflict('overwrite')}
+        onMerge={() => resolveConflict('merge')}
+        onReload={() => {
+          if (conflict?.error.server) {
+            draft.clear();
+            handleEdit(conflict.error.server as Project);
+          }
+          setConflict(null);
+        }}
+        onCancel={() => setConflict(null)}
+      />
+
+      <DraftRestoreDialog
+        draft={draft.pending}
+        baseline={draft.baseline}
+        fieldLabels={PROJECT_FIELD_LABELS}
+        onRestore={restoreDraft}
+        onDiscard={draft.discardPending}
+      />
+
+      {/* Historie změn */}
+      {editingId && (
+        <RevisionHistory
+          isOpen={showHistory}
+          table="projects"
+          recordId={editingId}
+          fieldLabels={PROJECT_FIELD_LABELS}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Enhanced Media Picker */}
       <EnhancedMediaPicker
         isOpen={showMediaPicker}
@@ -914,6 +1000,7 @@ const ProjectManagerV2: React.FC = () => {
                 </div>
 
                 <div className="p-4">
+                  <PublishBadge item={project} className="inline-block mb-2" />
                   <h3 className="text-sm font-black uppercase tracking-wider mb-1 line-clamp-1">
                     {project.title}
                   </h3>
@@ -956,7 +1043,7 @@ const ProjectManagerV2: React.FC = () => {
                 </div>
 
                 <div className="flex-1 min-w-0">
-                  <h3 className="text-lg font-black uppercase tracking-widest mb-1">{project.title}</h3>
+                  <h3 className="text-lg font-black uppercase tracking-widest mb-1 flex items-center gap-3">{project.title} <PublishBadge item={project} /></h3>
                   <p className="text-[11px] text-gray-500 uppercase tracking-widest mb-2">
                     {project.category} • {new Date(project.date).toLocaleDateString('cs-CZ')}
                   </p>
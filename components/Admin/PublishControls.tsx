@@ -0,0 +1,72 @@
+import React from 'react';
+import { PublishStatus } from '../../types';
+import { PUBLISH_STATUSES } from '../../lib/schema';
+import { PUBLISH_STATUS_LABELS, Publishable, effectiveStatus, fromDateTimeInput, toDateTimeInput } from '../../lib/publishing';
+
+const BADGE_CLASSES: Record<PublishStatus, string> = {
+  draft: 'bg-gray-100 text-gray-500',
+  scheduled: 'bg-orange-50 text-orange-600',
+  published: 'bg-green-50 text-green-600',
+  archived: 'bg-black text-white'
+};
+
+export const PublishBadge: React.FC<{ item: Publishable; className?: string }> = ({ item, className = '' }) => {
+  const status = effectiveStatus(item);
+  return (
+    <span className={`px-2 py-1 text-[8px] font-black uppercase tracking-widest ${BADGE_CLASSES[status]} ${className}`}>
+      {PUBLISH_STATUS_LABELS[status]}
+      {status === 'scheduled' && item.publishAt && ` · ${new Date(item.publishAt).toLocaleString('cs-CZ')}`}
+    </span>
+  );
+};
+
+interface PublishControlsProps {
+  status: PublishStatus;
+  publishAt: string | null;
+  onChange: (next: { status: PublishStatus; publishAt: string | null }) => void;
+  // Formuláře zakázek a článků mají každý vlastní vzhled polí
+  className?: string;
+  labelClassName?: string;
+  inputClassName?: string;
+}
+
+// Stav zveřejnění do formulářů zakázky a článku
+const PublishControls: React.FC<PublishControlsProps> = ({ status, publishAt, onChange, className, labelClassName, inputClassName }) => {
+  const setStatus = (next: PublishStatus) => {
+    // Naplánování bez času by se zveřejnilo hned – předvyplníme zítřek 9:00
+    if (next === 'scheduled' && !publishAt) {
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      tomorrow.setHours(9, 0, 0, 0);
+      onChange({ status: next, publishAt: tomorrow.toISOString() });
+      return;
+    }
+    onChange({ status: next, publishAt: next === 'scheduled' ? publishAt : null });
+  };
+
+  return (
+    <div className={className}>
+      <div>
+        <label className={labelClassName}>Stav zveřejnění</label>
+        <select value={status} onChange={e => setStatus(e.target.value as PublishStatus)} className={inputClassName}>
+          {PUBLISH_STATUSES.map(value => (
+            <option key={value} value={value}>{PUBLISH_STATUS_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+      {status === 'scheduled' && (
+        <div>
+          <label className={labelClassName}>Zveřejnit od</label>
+          <input
+            type="datetime-local"
+            value={toDateTimeInput(publishAt)}
+            required
+            onChange={e => onChange({ status, publishAt: fromDateTimeInput(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublishControls;
@@ -14,7 +14,22 @@ import {
   AlertCircle
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { dataStore } from '../../lib/db';
+import { reviewDB } from '../../lib/db';
+import { subscribeToTables } from '../../lib/realtime';
+import { matchesSearch } from '../../lib/search';
+
+const formatReviewDate = (value: string) => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  const diffDays = Math.floor((Date.now() - date.getTime()) / (1000 * 60 * 60 * 24));
+  if (diffDays === 0) return 'dnes';
+  if (diffDays === 1) return 'včera';
+  if (diffDays < 7) return `před ${diffDays} dny`;
+  if (diffDays < 30) return `před ${Math.floor(diffDays / 7)} týdny`;
+  if (diffDays < 365) return `před ${Math.floor(diffDays / 30)} měsíci`;
+  return `před ${Math.floor(diffDays / 365)} lety`;
+};
 
 const ReviewManager: React.FC = () => {
   const [reviews, setReviews] = useState<Review[]>([]);
@@ -32,103 +47,30 @@ const ReviewManager: React.FC = () => {
     companyUrl: ''
   });
 
-  const mapFromDb = (item: any): Review => {
-    // Format date for display
-    let displayDate = '';
-    if (item.date) {
-      try {
-        const date = new Date(item.date);
-        const now = new Date();
-        const diffMs = now.getTime() - date.getTime();
-        const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-        
-        if (diffDays === 0) displayDate = 'dnes';
-        else if (diffDays === 1) displayDate = 'včera';
-        else if (diffDays < 7) displayDate = `před ${diffDays} dny`;
-        else if (diffDays < 30) displayDate = `před ${Math.floor(diffDays / 7)} týdny`;
-        else if (diffDays < 365) displayDate = `před ${Math.floor(diffDays / 30)} měsíci`;
-        else displayDate = `před ${Math.floor(diffDays / 365)} lety`;
-      } catch {
-        displayDate = item.date || '';
-      }
-    }
-    
-    return {
-      id: item.id,
-      author: item.author || 'Anonymní klient',
-      text: item.text || item.content || '',
-      rating: typeof item.rating === 'number' ? item.rating : 5,
-      platform: item.platform || item.company || 'manual',
-      date: displayDate,
-      companyUrl: item.company_url || item.companyUrl || ''
-    } as Review;
-  };
-
-  const mapToDb = (review: Review) => {
-    // Convert date to ISO string or null for database
-    let dateValue = null;
-    if (review.date) {
-      try {
-        // Try to parse as date, if fails, use current date
-        const parsedDate = new Date(review.date);
-        if (!isNaN(parsedDate.getTime())) {
-          dateValue = parsedDate.toISOString();
-        } else {
-          dateValue = new Date().toISOString();
-        }
-      } catch {
-        dateValue = new Date().toISOString();
-      }
-    }
-    
-    const now = new Date().toISOString();
-    return {
-      id: review.id,
-      author: review.author,
-      content: review.text,
-      rating: review.rating,
-      company: review.platform,
-      company_url: review.companyUrl || null,
-      date: dateValue,
-      created_at: now,
-      updated_at: now
-    };
-  };
-
   const loadData = async () => {
     try {
       // Clean up old initialization flag
       localStorage.removeItem('jakub_minka_reviews_initialized');
       localStorage.removeItem('jakub_minka_reviews');
       
-      // Load from dataStore with force refresh
-      const saved = await dataStore.collection('reviews').getAll({ force: true });
-      
       // Always show what's in the database (even if empty)
-      if (saved && saved.length > 0) {
-        // Map from DB format (content/company) to UI format (text/platform)
-        setReviews(saved.map(mapFromDb));
-      } else {
-        setReviews([]);
-      }
+      const saved = await reviewDB.getAll({ force: true });
+      setReviews(saved);
     } catch (error) {
       console.error('Error loading reviews:', error);
       setReviews([]);
     }
   };
 
-  useEffect(() => { loadData(); }, []);
+  useEffect(() => {
+    loadData();
+    return subscribeToTables(['reviews'], () => loadData());
+  }, []);
 
   const saveReview = async (review: Review) => {
     try {
-      const dbReview = mapToDb(review);
-      console.log('💾 Saving review:', dbReview);
-      
-      // Clear cache before saving to ensure fresh load
-      localStorage.removeItem('jakub_minka_cache_reviews');
-      localStorage.removeItem('jakub_minka_cache_reviews_ts');
-      
-      await dataStore.collection('reviews').save(dbReview);
+      console.log('💾 Saving review:', review);
+      await reviewDB.save(review);
       console.log('✅ Review saved successfully');
       
       // Wait a bit for Supabase to process
@@ -136,9 +78,6 @@ const ReviewManager: React.FC = () => {
       
       await loadData();
       console.log('📖 Data reloaded');
-      
-      // Force storage event to update Home page
-      window.dispatchEvent(new Event('storage'));
     } catch (error) {
       console.error('❌ Error saving review:', error);
       alert(`Chyba při ukládání recenze: ${error}`);
@@ -149,11 +88,9 @@ const ReviewManager: React.FC = () => {
   const deleteReview = async (id: string) => {
     try {
       console.log('🗑️ Deleting review:', id);
-      await dataStore.collection('reviews').delete(id);
+      await reviewDB.delete(id);
       console.log('✅ Review deleted, reloading...');
       await loadData();
-      // Force storage event to update Home page
-      window.dispatchEvent(new Event('storage'));
     } catch (error) {
       console.error('❌ Error deleting review:', error);
       throw error;
@@ -203,10 +140,7 @@ const ReviewManager: React.FC = () => {
     }
   };
 
-  const filteredReviews = reviews.filter(r => 
-    r.author.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    r.text.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const filteredReviews = reviews.filter(r => matchesSearch(searchQuery, r.author, r.text));
 
   return (
     <div className="space-y-8">
@@ -406,7 +340,7 @@ const ReviewManager: React.FC = () => {
                 <div className="flex items-center justify-between border-t border-gray-50 pt-4">
                   <div>
                     <h4 className="font-black text-[10px] uppercase tracking-widest text-gray-900">{review.author}</h4>
-                    <span className="text-[8px] font-bold text-gray-400 uppercase tracking-[0.2em]">{review.date}</span>
+                    <span className="text-[8px] font-bold text-gray-400 uppercase tracking-[0.2em]">{formatReviewDate(review.date)}</span>
                     {review.companyUrl && (
                       <a
                         href={review.companyUrl}
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { History, X, RotateCcw, RefreshCw } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Revision, diffSnapshots, formatSnapshotValue, getRevisions } from '../../lib/revisions';
+
+interface RevisionHistoryProps {
+  isOpen: boolean;
+  table: string;
+  recordId: string;
+  fieldLabels?: Record<string, string>;
+  onRestore: (snapshot: Record<string, any>) => Promise<void>;
+  onClose: () => void;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ isOpen, table, recordId, fieldLabels = {}, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // A = starší verze, B = novější; výchozí je poslední změna
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    const loaded = await getRevisions(table, recordId);
+    setRevisions(loaded);
+    setCompareId(loaded[0]?.id || null);
+    setBaseId(loaded[1]?.id || null);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen) loadRevisions();
+  }, [isOpen, table, recordId]);
+
+  const base = revisions.find(r => r.id === baseId);
+  const compare = revisions.find(r => r.id === compareId);
+  const changes = compare ? diffSnapshots(base?.snapshot || {}, compare.snapshot) : [];
+
+  const handleRestore = async (revision: Revision) => {
+    if (!confirm(`Obnovit verzi z ${new Date(revision.createdAt).toLocaleString()}? Aktuální stav zůstane v historii.`)) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(revision.snapshot);
+      await loadRevisions();
+    } catch (err) {
+      console.error('Restore revision error:', err);
+      alert('Chyba při obnovení verze: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[2500] bg-black/60 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0.95 }}
+            className="bg-white w-full max-w-6xl max-h-[90vh] flex flex-col rounded-sm shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="bg-black text-white p-6 flex justify-between items-center">
+              <h2 className="text-lg font-black uppercase flex items-center gap-3"><History size={20} /> Historie změn</h2>
+              <button onClick={onClose} className="hover:text-red-500"><X size={24} /></button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-12 flex-grow min-h-0">
+              <div className="lg:col-span-4 border-r overflow-y-auto max-h-[75vh]">
+                {isLoading && (
+                  <div className="p-10 flex justify-center text-gray-300"><RefreshCw size={20} className="animate-spin" /></div>
+                )}
+                {!isLoading && revisions.length === 0 && (
+                  <div className="p-10 text-center text-gray-300 font-black uppercase text-[10px] tracking-widest">Zatím žádné uložené verze</div>
+                )}
+                {!isLoading && revisions.map((revision, index) => (
+                  <div key={revision.id} className={`p-4 border-b space-y-3 ${revision.id === compareId ? 'bg-blue-50/50 border-l-4 border-l-[#007BFF]' : ''}`}>
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <p className="text-[11px] font-black text-black">{new Date(revision.createdAt).toLocaleString()}</p>
+                        <p className="text-[9px] font-bold text-gray-400 uppercase tracking-widest">{revision.author}{index === 0 ? ' · aktuální' : ''}</p>
+                      </div>
+                      {index > 0 && (
+                        <button
+                          onClick={() => handleRestore(revision)}
+                          disabled={isRestoring}
+                          className="flex items-center gap-1 px-3 py-1.5 text-[8px] font-black uppercase tracking-widest bg-[#007BFF] text-white hover:bg-black transition-all disabled:opacity-50"
+                        >
+                          <RotateCcw size={12} /> Obnovit
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setBaseId(revision.id)}
+                        className={`px-3 py-1 text-[8px] font-black uppercase tracking-widest border transition-all ${revision.id === baseId ? 'bg-black border-black text-white' : 'border-gray-200 text-gray-400 hover:text-black'}`}
+                      >
+                        A
+                      </button>
+                      <button
+                        onClick={() => setCompareId(revision.id)}
+                        className={`px-3 py-1 text-[8px] font-black uppercase tracking-widest border transition-all ${revision.id === compareId ? 'bg-[#007BFF] border-[#007BFF] text-white' : 'border-gray-200 text-gray-400 hover:text-black'}`}
+                      >
+                        B
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="lg:col-span-8 overflow-y-auto max-h-[75vh] p-6 space-y-4">
+                {compare && (
+                  <p className="text-[9px] font-black uppercase tracking-widest text-gray-400">
+                    A: {base ? new Date(base.createdAt).toLocaleString() : 'prázdný stav'} → B: {new Date(compare.createdAt).toLocaleString()}
+                  </p>
+                )}
+                {compare && changes.length === 0 && (
+                  <div className="p-10 text-center text-gray-300 font-black uppercase text-[10px] tracking-widest">Verze se neliší</div>
+                )}
+                {changes.map(change => (
+                  <div key={change.field} className="border border-gray-100">
+                    <div className="px-4 py-2 bg-gray-50 text-[9px] font-black uppercase tracking-widest text-black">
+                      {fieldLabels[change.field] || change.field}
+                    </div>
+                    <div className="grid grid-cols-2 divide-x text-xs">
+                      <div className="p-4 bg-red-50/50 text-red-700 whitespace-pre-wrap break-words">{formatSnapshotValue(change.before)}</div>
+                      <div className="p-4 bg-green-50/50 text-green-700 whitespace-pre-wrap break-words">{formatSnapshotValue(change.after)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default RevisionHistory;
@@ -1,11 +1,39 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
-  Database, Download, Upload, Zap, Lock, Eye, EyeOff, RefreshCw, CheckCircle2, ShieldCheck, ShieldAlert
+  Database, Download, Upload, Zap, Lock, Eye, EyeOff, RefreshCw, CheckCircle2, ShieldCheck, ShieldAlert, AlertTriangle, Link2, Wrench, HardDrive, X, Images, Stamp
 } from 'lucide-react';
+import { getCacheBackend } from '../../lib/cache';
+import { SCHEMA_VERSION, SchemaReport, checkSchemaDrift, hasBlockingDrift } from '../../lib/migrations';
+import { BackupFile, TableDiff, applyBackup, createBackup, diffBackup, downloadBackup, hasChanges, parseBackup } from '../../lib/backup';
+import { ValidationError, getBackend, mediaDB } from '../../lib/db';
+import { getStorage } from '../../lib/storage';
+import { adminToken, setAdminToken } from '../../lib/adminToken';
+import { SPECIALIZATIONS } from '../../constants';
+import { FileItem } from '../../types';
+import EnhancedMediaPicker from './EnhancedMediaPicker';
+import { VariantBackfillResult, WatermarkBatchResult, backfillVariants, reapplyWatermarks } from '../../lib/imageVariants';
+import { DEFAULT_WATERMARK, WATERMARK_POSITIONS, WatermarkConfig, loadWatermarkConfig, saveWatermarkConfig } from '../../lib/watermark';
+import { loadKeepGps, saveKeepGps } from '../../lib/imageMetadata';
+import { MigrationFile, MigrationProgress, MigrationResult, migrateSupabaseToR2, planStorageMigration } from '../../lib/storageMigration';
+import {
+  IntegrityReport, moveOrphansToRoot, registerOrphanObjects, repairBrokenReferences, runIntegrityCheck, trashMissingObjects
+} from '../../lib/integrity';
+
+type IntegrityCategory = 'brokenReferences' | 'orphanObjects' | 'missingObjects' | 'orphanItems';
+
+const INTEGRITY_CATEGORIES: { key: IntegrityCategory; title: string; hint: string; action: string }[] = [
+  { key: 'brokenReferences', title: 'Rozbité odkazy v obsahu', hint: 'Projekty, články nebo nastavení odkazují na soubor, který v úložišti není nebo je v koši.', action: 'Odebrat odkazy z obsahu' },
+  { key: 'orphanObjects', title: 'Soubory bez záznamu', hint: 'Objekty v úložišti, o kterých knihovna médií neví.', action: 'Zaevidovat do knihovny' },
+  { key: 'missingObjects', title: 'Záznamy bez souboru', hint: 'Položky knihovny médií, jejichž soubor v úložišti chybí.', action: 'Přesunout do koše' },
+  { key: 'orphanItems', title: 'Ztracené složky a soubory', hint: 'Položky, jejichž nadřazená složka neexistuje – v knihovně nejsou vidět.', action: 'Přesunout do kořene' }
+];
+
+const PREVIEW_LIMIT = 20;
 
 const SystemManager: React.FC = () => {
   const [compressionQuality, setCompressionQuality] = useState(85);
+  const [keepGpsSetting, setKeepGpsSetting] = useState(false);
   const [status, setStatus] = useState<'idle' | 'saving' | 'success'>('idle');
 
   // Security State
@@ -13,10 +41,68 @@ const SystemManager: React.FC = () => {
   const [confirmPass, setConfirmPass] = useState('');
   const [showPass, setShowPass] = useState(false);
   const [passStatus, setPassStatus] = useState<'idle' | 'error' | 'success'>('idle');
+  const [cacheBackendName, setCacheBackendName] = useState('');
+  const [serverKey, setServerKey] = useState(adminToken);
+
+  // Schema drift
+  const [schemaReport, setSchemaReport] = useState<SchemaReport | null>(null);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [isCheckingSchema, setIsCheckingSchema] = useState(false);
+
+  // Záloha a obnova
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ backup: BackupFile; diff: TableDiff[]; fileName: string } | null>(null);
+  const [restoreIssues, setRestoreIssues] = useState<string[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+
+  // Kontrola integrity médií
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [isCheckingIntegrity, setIsCheckingIntegrity] = useState(false);
+  const [repairing, setRepairing] = useState<IntegrityCategory | null>(null);
+
+  // Přesun souborů ze Supabase do R2
+  const [migrationPlan, setMigrationPlan] = useState<MigrationFile[] | null>(null);
+  const [isPlanningMigration, setIsPlanningMigration] = useState(false);
+  const [migrationProgress, setMigrationProgress] = useState<MigrationProgress | null>(null);
+  const [migrationResult, setMigrationResult] = useState<MigrationResult | null>(null);
+  const migrationAbortRef = useRef<AbortController | null>(null);
+
+  // Doplnění zmenšenin (srcset) a náhledů ke starším obrázkům
+  const [backfillProgress, setBackfillProgress] = useState<{ done: number; total: number } | null>(null);
+  const [backfillResult, setBackfillResult] = useState<VariantBackfillResult | null>(null);
+  const backfillAbortRef = useRef<AbortController | null>(null);
+
+  // Vodoznak na webových verzích obrázků
+  const [watermark, setWatermark] = useState<WatermarkConfig>(DEFAULT_WATERMARK);
+  const [folders, setFolders] = useState<FileItem[]>([]);
+  const [showLogoPicker, setShowLogoPicker] = useState(false);
+  const [isSavingWatermark, setIsSavingWatermark] = useState(false);
+  const [watermarkProgress, setWatermarkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [watermarkResult, setWatermarkResult] = useState<WatermarkBatchResult | null>(null);
+  const watermarkAbortRef = useRef<AbortController | null>(null);
+
+  const runSchemaCheck = async () => {
+    setIsCheckingSchema(true);
+    setSchemaError(null);
+    try {
+      setSchemaReport(await checkSchemaDrift());
+    } catch (err: any) {
+      console.error('Schema check failed:', err);
+      setSchemaError(err?.message || String(err));
+    } finally {
+      setIsCheckingSchema(false);
+    }
+  };
 
   useEffect(() => {
     const savedQuality = localStorage.getItem('jakub_minka_compression_quality');
     if (savedQuality) setCompressionQuality(parseInt(savedQuality));
+    getCacheBackend().then(cache => setCacheBackendName(cache.name));
+    runSchemaCheck();
+    loadWatermarkConfig().then(setWatermark);
+    loadKeepGps().then(setKeepGpsSetting);
+    mediaDB.getAll().then(items => setFolders(items.filter(i => i.type === 'folder')));
   }, []);
 
   const handleChangePassword = (e: React.FormEvent) => {
@@ -39,19 +125,214 @@ const SystemManager: React.FC = () => {
     setTimeout(() => setPassStatus('idle'), 4000);
   };
 
-  const handleExportData = () => {
-    const data = {
-      projects: JSON.parse(localStorage.getItem('jakub_minka_projects') || '[]'),
-      settings: JSON.parse(localStorage.getItem('jakub_minka_web_settings') || '{}'),
-      reviews: JSON.parse(localStorage.getItem('jakub_minka_reviews') || '[]'),
-      partners: JSON.parse(localStorage.getItem('jakub_minka_partners') || '[]'),
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `minka_backup_${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
+  const handleExportData = async () => {
+    setIsExporting(true);
+    try {
+      downloadBackup(await createBackup());
+    } catch (err) {
+      console.error('Backup export error:', err);
+      alert('Chyba při vytváření zálohy: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setRestoreIssues([]);
+    setPendingRestore(null);
+    try {
+      const backup = parseBackup(await file.text());
+      setPendingRestore({ backup, diff: await diffBackup(backup), fileName: file.name });
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setRestoreIssues(err.issues);
+        return;
+      }
+      console.error('Backup read error:', err);
+      alert('Chyba při čtení zálohy: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    }
+  };
+
+  const handleApplyRestore = async () => {
+    if (!pendingRestore) return;
+    if (!confirm('Opravdu obnovit data ze zálohy? Současný obsah uvedených tabulek bude nahrazen.')) return;
+    setIsRestoring(true);
+    try {
+      await applyBackup(pendingRestore.backup);
+      setPendingRestore(null);
+      alert('Data byla obnovena ze zálohy.');
+    } catch (err) {
+      console.error('Backup restore error:', err);
+      alert('Obnova se nezdařila, data zůstala beze změny: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const runIntegrity = async () => {
+    setIsCheckingIntegrity(true);
+    try {
+      setIntegrityReport(await runIntegrityCheck());
+    } catch (err) {
+      console.error('Integrity check failed:', err);
+      alert('Kontrola integrity selhala: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const handleRepair = async (category: IntegrityCategory) => {
+    if (!integrityReport) return;
+    const meta = INTEGRITY_CATEGORIES.find(c => c.key === category)!;
+    const count = integrityReport[category].length;
+    if (!confirm(`${meta.action}: ${count} položek. Pokračovat?`)) return;
+    setRepairing(category);
+    try {
+      if (category === 'brokenReferences') await repairBrokenReferences(integrityReport.brokenReferences);
+      if (category === 'orphanObjects') await registerOrphanObjects(integrityReport.orphanObjects);
+      if (category === 'missingObjects') await trashMissingObjects(integrityReport.missingObjects);
+      if (category === 'orphanItems') await moveOrphansToRoot(integrityReport.orphanItems);
+      setIntegrityReport(await runIntegrityCheck());
+    } catch (err) {
+      console.error('Integrity repair failed:', err);
+      alert('Oprava se nezdařila: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setRepairing(null);
+    }
+  };
+
+  const describeIssue = (category: IntegrityCategory, index: number): { key: string; title: string; detail?: string } => {
+    const report = integrityReport!;
+    switch (category) {
+      case 'brokenReferences': {
+        const ref = report.brokenReferences[index];
+        return { key: `${ref.owner}-${ref.ownerId}-${ref.field}-${ref.url}`, title: `${ref.ownerTitle} · ${ref.label}`, detail: ref.url };
+      }
+      case 'orphanObjects': {
+        const obj = report.orphanObjects[index];
+        return { key: `${obj.provider}-${obj.key}`, title: obj.key, detail: obj.provider === 'r2' ? 'R2' : 'Supabase' };
+      }
+      case 'missingObjects': {
+        const item = report.missingObjects[index];
+        return { key: item.id, title: item.name, detail: item.url };
+      }
+      case 'orphanItems': {
+        const item = report.orphanItems[index];
+        return { key: item.id, title: `${item.type === 'folder' ? 'Složka' : 'Soubor'} ${item.name}`, detail: `chybí složka ${item.parentId}` };
+      }
+    }
+  };
+
+  const planMigration = async () => {
+    setIsPlanningMigration(true);
+    setMigrationResult(null);
+    try {
+      setMigrationPlan(await planStorageMigration());
+    } catch (err) {
+      console.error('Storage migration plan failed:', err);
+      alert('Nepodařilo se načíst soubory k přesunu: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setIsPlanningMigration(false);
+    }
+  };
+
+  const runMigration = async () => {
+    if (!migrationPlan?.length) return;
+    if (!confirm(`Zkopírovat ${migrationPlan.length} souborů do R2 a přepsat na ně odkazy v obsahu? Originály v Supabase zůstanou.`)) return;
+    const controller = new AbortController();
+    migrationAbortRef.current = controller;
+    setMigrationProgress({ done: 0, total: migrationPlan.length });
+    try {
+      setMigrationResult(await migrateSupabaseToR2(migrationPlan, { onProgress: setMigrationProgress, signal: controller.signal }));
+      setMigrationPlan(await planStorageMigration());
+    } catch (err) {
+      console.error('Storage migration failed:', err);
+      alert('Přesun souborů selhal: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      migrationAbortRef.current = null;
+      setMigrationProgress(null);
+    }
+  };
+
+  const runVariantBackfill = async () => {
+    if (!confirm('Vytvořit menší verze (400–2400 px) a náhledy pro načítání ke starším obrázkům v knihovně? Originály se nemění.')) return;
+    const controller = new AbortController();
+    backfillAbortRef.current = controller;
+    setBackfillResult(null);
+    setBackfillProgress({ done: 0, total: 0 });
+    try {
+      setBackfillResult(await backfillVariants({
+        onProgress: (done, total) => setBackfillProgress({ done, total }),
+        signal: controller.signal
+      }));
+    } catch (err) {
+      console.error('Variant backfill failed:', err);
+      alert('Vytvoření zmenšenin selhalo: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      backfillAbortRef.current = null;
+      setBackfillProgress(null);
+    }
+  };
+
+  const handleSaveConfig = async () => {
+    localStorage.setItem('jakub_minka_compression_quality', compressionQuality.toString());
+    try {
+      await saveKeepGps(keepGpsSetting);
+      alert('Konfigurace uložena!');
+    } catch (err) {
+      console.error('Config save failed:', err);
+      alert('Uložení nastavení GPS selhalo: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    }
+  };
+
+  const updateWatermark = (patch: Partial<WatermarkConfig>) => setWatermark(prev => ({ ...prev, ...patch }));
+
+  const toggleIn = (list: string[], id: string) => list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+  // Cesta složky pro přehled ("Zakázky / 2024 / Interiéry")
+  const folderPath = (folder: FileItem): string => {
+    const parent = folders.find(f => f.id === folder.parentId);
+    return parent && parent.id !== folder.id ? `${folderPath(parent)} / ${folder.name}` : folder.name;
+  };
+
+  const handleSaveWatermark = async () => {
+    if (watermark.enabled && !watermark.logoUrl) {
+      alert('Vyberte logo vodoznaku z knihovny médií.');
+      return;
+    }
+    setIsSavingWatermark(true);
+    try {
+      await saveWatermarkConfig(watermark);
+      alert('Vodoznak uložen. Nové obrázky ho dostanou hned, stávající po „Použít na knihovnu“.');
+    } catch (err) {
+      console.error('Watermark save failed:', err);
+      alert('Uložení vodoznaku selhalo: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setIsSavingWatermark(false);
+    }
+  };
+
+  const runWatermarkBatch = async () => {
+    if (!confirm('Použít uložené nastavení vodoznaku na obrázky v knihovně? Obrázky dostanou nové URL a odkazy v projektech, článcích a nastavení webu se přepíšou. Čisté verze zůstávají.')) return;
+    const controller = new AbortController();
+    watermarkAbortRef.current = controller;
+    setWatermarkResult(null);
+    setWatermarkProgress({ done: 0, total: 0 });
+    try {
+      setWatermarkResult(await reapplyWatermarks({
+        onProgress: (done, total) => setWatermarkProgress({ done, total }),
+        signal: controller.signal
+      }));
+    } catch (err) {
+      console.error('Watermark batch failed:', err);
+      alert('Použití vodoznaku selhalo: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      watermarkAbortRef.current = null;
+      setWatermarkProgress(null);
+    }
   };
 
   const inputClass = "w-full bg-white text-black border border-gray-200 p-4 text-sm font-bold focus:border-[#007BFF] outline-none transition-all placeholder:text-gray-300";
@@ -93,6 +374,17 @@ const SystemManager: React.FC = () => {
                AKTUALIZOVAT PŘÍSTUP <ShieldCheck size={16} />
              </button>
           </form>
+
+          <div className="space-y-2 pt-6 border-t border-gray-100">
+            <label className="text-[10px] font-black uppercase text-gray-400">Serverový klíč (ADMIN_API_TOKEN)</label>
+            <div className="flex gap-3">
+              <input type="password" value={serverKey} onChange={e => setServerKey(e.target.value)} className={inputClass} placeholder="Klíč z nastavení Netlify" autoComplete="off" />
+              <button type="button" onClick={() => { setAdminToken(serverKey.trim()); alert('Serverový klíč uložen v tomto prohlížeči.'); }} className="px-6 bg-black text-white text-[10px] font-black uppercase hover:bg-[#007BFF] transition-all">
+                Uložit
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-400">Bez něj server odmítne nahrávání a mazání souborů v R2, vodoznak i obnovu ze zálohy.</p>
+          </div>
         </section>
 
         <section className="bg-white p-10 border border-gray-100 shadow-sm space-y-8">
@@ -100,15 +392,432 @@ const SystemManager: React.FC = () => {
             <Database size={20} className="text-[#007BFF]" /> Správa dat & Export
           </h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <button onClick={handleExportData} className="flex flex-col items-center justify-center gap-4 p-8 border border-gray-100 hover:border-[#007BFF] hover:bg-blue-50/50 transition-all group">
-              <Download size={24} className="text-gray-300 group-hover:text-[#007BFF]" />
+            <button onClick={handleExportData} disabled={isExporting} className="flex flex-col items-center justify-center gap-4 p-8 border border-gray-100 hover:border-[#007BFF] hover:bg-blue-50/50 transition-all group disabled:opacity-50">
+              {isExporting ? <RefreshCw size={24} className="text-[#007BFF] animate-spin" /> : <Download size={24} className="text-gray-300 group-hover:text-[#007BFF]" />}
               <span className="text-[9px] font-black uppercase tracking-widest text-black">Stáhnout zálohu webu</span>
             </button>
-            <div className="p-8 border border-gray-100 bg-gray-50 flex flex-col items-center justify-center text-center">
-               <p className="text-[9px] font-bold text-gray-400 uppercase tracking-widest">Databáze: IndexedDB</p>
+            <button onClick={() => restoreInputRef.current?.click()} className="flex flex-col items-center justify-center gap-4 p-8 border border-gray-100 hover:border-[#007BFF] hover:bg-blue-50/50 transition-all group">
+              <Upload size={24} className="text-gray-300 group-hover:text-[#007BFF]" />
+              <span className="text-[9px] font-black uppercase tracking-widest text-black">Obnovit ze zálohy</span>
+            </button>
+            <input ref={restoreInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleRestoreFile} />
+            <div className="p-8 border border-gray-100 bg-gray-50 flex flex-col items-center justify-center text-center sm:col-span-2">
+               <p className="text-[9px] font-bold text-gray-400 uppercase tracking-widest">Lokální cache: {cacheBackendName || '…'}</p>
                <p className="text-[11px] font-black text-black mt-2">AKTIVNÍ</p>
             </div>
           </div>
+
+          {restoreIssues.length > 0 && (
+            <div className="p-4 bg-red-50 border border-red-100 text-[11px] text-red-600 space-y-1 max-h-48 overflow-y-auto">
+              <p className="text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><ShieldAlert size={16} /> Záloha není platná</p>
+              {restoreIssues.map(issue => <p key={issue}>{issue}</p>)}
+            </div>
+          )}
+        </section>
+
+        {pendingRestore && (
+          <section className="bg-white p-10 border border-[#007BFF] shadow-sm space-y-6 lg:col-span-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-sm font-black uppercase tracking-[0.3em] flex items-center gap-3 text-black">
+                  <Upload size={20} className="text-[#007BFF]" /> Náhled obnovy
+                </h3>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400 mt-2">
+                  {pendingRestore.fileName} · vytvořeno {pendingRestore.backup.createdAt ? new Date(pendingRestore.backup.createdAt).toLocaleString('cs-CZ') : 'neznámo'} · {pendingRestore.backup.storage.length} souborů v manifestu
+                </p>
+              </div>
+            </div>
+
+            <div className="divide-y border border-gray-100">
+              {pendingRestore.diff.map(d => (
+                <div key={d.table} className="p-4 text-[11px] text-gray-700 space-y-1">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-black">{d.label} <span className="font-mono text-gray-400 normal-case">({d.table})</span></p>
+                    <p className="text-[10px] font-black uppercase tracking-widest">
+                      <span className="text-green-600">+{d.added.length}</span>{' '}
+                      <span className="text-orange-500">~{d.changed.length}</span>{' '}
+                      <span className="text-red-600">−{d.removed.length}</span>
+                    </p>
+                  </div>
+                  {d.added.length > 0 && <p className="text-green-600"><span className="font-bold">Přibude:</span> <span className="font-mono">{d.added.join(', ')}</span></p>}
+                  {d.changed.map(c => (
+                    <p key={c.id} className="text-orange-600"><span className="font-bold">Změní se:</span> <span className="font-mono">{c.id}</span> – {c.fields.join(', ')}</p>
+                  ))}
+                  {d.removed.length > 0 && <p className="text-red-600"><span className="font-bold">Odstraní se:</span> <span className="font-mono">{d.removed.join(', ')}</span></p>}
+                </div>
+              ))}
+            </div>
+
+            {!hasChanges(pendingRestore.diff) && (
+              <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Záloha odpovídá současným datům, není co obnovit.</p>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <button onClick={() => setPendingRestore(null)} disabled={isRestoring} className="px-6 py-3 border border-gray-200 text-[10px] font-black uppercase tracking-widest hover:bg-gray-50 transition-all disabled:opacity-50">
+                Zrušit
+              </button>
+              <button onClick={handleApplyRestore} disabled={isRestoring || !hasChanges(pendingRestore.diff)} className="px-6 py-3 bg-black text-white text-[10px] font-black uppercase tracking-widest hover:bg-[#007BFF] transition-all disabled:opacity-50 flex items-center gap-2">
+                {isRestoring && <RefreshCw size={14} className="animate-spin" />} Obnovit data
+              </button>
+            </div>
+          </section>
+        )}
+
+        <section className="bg-white p-10 border border-gray-100 shadow-sm space-y-8 lg:col-span-2">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-sm font-black uppercase tracking-[0.3em] flex items-center gap-3 text-black">
+              <Database size={20} className="text-[#007BFF]" /> Schéma databáze
+            </h3>
+            <button onClick={runSchemaCheck} disabled={isCheckingSchema} className="flex items-center gap-2 px-6 py-3 border border-gray-200 text-[10px] font-black uppercase tracking-widest hover:border-[#007BFF] hover:text-[#007BFF] transition-all disabled:opacity-50">
+              <RefreshCw size={14} className={isCheckingSchema ? 'animate-spin' : ''} /> Zkontrolovat
+            </button>
+          </div>
+
+          {schemaError && (
+            <div className="flex items-center gap-2 p-4 bg-red-50 text-red-600 text-[10px] font-black uppercase tracking-widest border border-red-100">
+              <ShieldAlert size={16} /> {schemaError}
+            </div>
+          )}
+
+          {schemaReport && (
+            <div className="space-y-4">
+              <div className={`flex items-center gap-2 p-4 text-[10px] font-black uppercase tracking-widest border ${hasBlockingDrift(schemaReport) ? 'bg-orange-50 text-orange-600 border-orange-100' : 'bg-green-50 text-green-600 border-green-100'}`}>
+                {hasBlockingDrift(schemaReport) ? <AlertTriangle size={16} /> : <CheckCircle2 size={16} />}
+                Verze schématu: {schemaReport.appliedVersion ?? 'neznámá'} / {SCHEMA_VERSION}
+                {!hasBlockingDrift(schemaReport) && ' – databáze odpovídá aplikaci'}
+              </div>
+
+              {schemaReport.pendingMigrations.length > 0 && (
+                <div className="p-4 border border-orange-100 text-[11px] text-gray-700 space-y-1">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-orange-600">Nespuštěné migrace (supabase/migrations)</p>
+                  {schemaReport.pendingMigrations.map(file => <p key={file} className="font-mono">{file}</p>)}
+                </div>
+              )}
+
+              {schemaReport.tables
+                .filter(t => t.tableMissing || t.missing.length > 0 || t.mismatched.length > 0 || t.unused.length > 0)
+                .map(t => (
+                  <div key={t.table} className="p-4 border border-gray-100 text-[11px] text-gray-700 space-y-1">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-black">{t.label} <span className="font-mono text-gray-400 normal-case">({t.table})</span></p>
+                    {t.tableMissing && <p className="text-red-600 font-bold">Tabulka v databázi chybí.</p>}
+                    {!t.tableMissing && t.missing.length > 0 && (
+                      <p className="text-red-600"><span className="font-bold">Chybí sloupce (hrozí ztráta dat):</span> <span className="font-mono">{t.missing.join(', ')}</span></p>
+                    )}
+                    {t.mismatched.map(m => (
+                      <p key={m.column} className="text-orange-600"><span className="font-bold">Neodpovídá typ:</span> <span className="font-mono">{m.column}</span> – v databázi {m.actual}, aplikace čeká {m.expected}</p>
+                    ))}
+                    {t.unused.length > 0 && (
+                      <p className="text-gray-400"><span className="font-bold">Nepoužívané sloupce:</span> <span className="font-mono">{t.unused.join(', ')}</span></p>
+                    )}
+                  </div>
+                ))}
+
+              <p className="text-[9px] font-bold uppercase tracking-widest text-gray-400">Zkontrolováno {new Date(schemaReport.checkedAt).toLocaleString('cs-CZ')}</p>
+            </div>
+          )}
+        </section>
+
+        <section className="bg-white p-10 border border-gray-100 shadow-sm space-y-8 lg:col-span-2">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-sm font-black uppercase tracking-[0.3em] flex items-center gap-3 text-black">
+              <Link2 size={20} className="text-[#007BFF]" /> Integrita médií
+            </h3>
+            <button onClick={runIntegrity} disabled={isCheckingIntegrity || !!repairing} className="flex items-center gap-2 px-6 py-3 border border-gray-200 text-[10px] font-black uppercase tracking-widest hover:border-[#007BFF] hover:text-[#007BFF] transition-all disabled:opacity-50">
+              <RefreshCw size={14} className={isCheckingIntegrity ? 'animate-spin' : ''} /> {integrityReport ? 'Zkontrolovat znovu' : 'Spustit kontrolu'}
+            </button>
+          </div>
+
+          {!integrityReport && !isCheckingIntegrity && (
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">
+              Porovná odkazy v obsahu, knihovnu médií a soubory v úložišti (Supabase i R2).
+            </p>
+          )}
+
+          {integrityReport && (
+            <div className="space-y-4">
+              {integrityReport.warnings.map(warning => (
+                <div key={warning} className="flex items-center gap-2 p-4 bg-orange-50 text-orange-600 text-[10px] font-black uppercase tracking-widest border border-orange-100">
+                  <AlertTriangle size={16} /> {warning}
+                </div>
+              ))}
+
+              {INTEGRITY_CATEGORIES.map(category => {
+                const count = integrityReport[category.key].length;
+                return (
+                  <div key={category.key} className={`p-4 border text-[11px] text-gray-700 space-y-2 ${count > 0 ? 'border-orange-100' : 'border-gray-100'}`}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="text-[10px] font-black uppercase tracking-widest text-black flex items-center gap-2">
+                          {count > 0 ? <AlertTriangle size={14} className="text-orange-500" /> : <CheckCircle2 size={14} className="text-green-500" />}
+                          {category.title} <span className={count > 0 ? 'text-orange-600' : 'text-gray-400'}>({count})</span>
+                        </p>
+                        <p className="text-gray-400 mt-1">{category.hint}</p>
+                      </div>
+                      {count > 0 && (
+                        <button onClick={() => handleRepair(category.key)} disabled={!!repairing} className="shrink-0 flex items-center gap-2 px-4 py-2 bg-black text-white text-[9px] font-black uppercase tracking-widest hover:bg-[#007BFF] transition-all disabled:opacity-50">
+                          {repairing === category.key ? <RefreshCw size={12} className="animate-spin" /> : <Wrench size={12} />} {category.action}
+                        </button>
+                      )}
+                    </div>
+                    {count > 0 && (
+                      <div className="max-h-48 overflow-y-auto divide-y divide-gray-50">
+                        {integrityReport[category.key].slice(0, PREVIEW_LIMIT).map((_, index) => {
+                          const issue = describeIssue(category.key, index);
+                          return (
+                            <div key={issue.key} className="py-1">
+                              <p className="font-bold truncate">{issue.title}</p>
+                              {issue.detail && <p className="font-mono text-[10px] text-gray-400 truncate">{issue.detail}</p>}
+                            </div>
+                          );
+                        })}
+                        {count > PREVIEW_LIMIT && <p className="py-1 text-gray-400">… a dalších {count - PREVIEW_LIMIT}</p>}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              <p className="text-[9px] font-bold uppercase tracking-widest text-gray-400">Zkontrolováno {new Date(integrityReport.checkedAt).toLocaleString('cs-CZ')}</p>
+            </div>
+          )}
+        </section>
+
+        <section className="bg-white p-10 border border-gray-100 shadow-sm space-y-8 lg:col-span-2">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-sm font-black uppercase tracking-[0.3em] flex items-center gap-3 text-black">
+              <HardDrive size={20} className="text-[#007BFF]" /> Úložiště souborů
+            </h3>
+            <button onClick={planMigration} disabled={isPlanningMigration || !!migrationProgress || !getBackend().remote} className="flex items-center gap-2 px-6 py-3 border border-gray-200 text-[10px] font-black uppercase tracking-widest hover:border-[#007BFF] hover:text-[#007BFF] transition-all disabled:opacity-50">
+              <RefreshCw size={14} className={isPlanningMigration ? 'animate-spin' : ''} /> {migrationPlan ? 'Načíst znovu' : 'Najít soubory v Supabase'}
+            </button>
+          </div>
+
+          <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">
+            Nové soubory se nahrávají do: <span className="text-black">{getStorage().name === 'r2' ? 'Cloudflare R2' : getStorage().name === 'supabase' ? 'Supabase Storage' : 'záznamu (bez cloudu)'}</span>
+          </p>
+
+          {migrationPlan && !migrationProgress && (
+            <div className="p-4 border border-gray-100 text-[11px] text-gray-700 space-y-3">
+              {migrationPlan.length === 0 ? (
+                <p className="text-[10px] font-black uppercase tracking-widest text-black flex items-center gap-2">
+                  <CheckCircle2 size={14} className="text-green-500" /> Žádné soubory v Supabase – vše běží z R2
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-[10px] font-black uppercase tracking-widest text-black">Souborů v Supabase: {migrationPlan.length}</p>
+                      <p className="text-gray-400 mt-1">Zkopírují se do R2 a odkazy v knihovně médií, projektech, článcích a nastavení webu se přepíšou. Originály v Supabase zůstanou.</p>
+                    </div>
+                    <button onClick={runMigration} className="shrink-0 flex items-center gap-2 px-4 py-2 bg-black text-white text-[9px] font-black uppercase tracking-widest hover:bg-[#007BFF] transition-all">
+                      <Upload size={12} /> Přesunout do R2
+                    </button>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto divide-y divide-gray-50">
+                    {migrationPlan.slice(0, PREVIEW_LIMIT).map(file => (
+                      <div key={file.url} className="py-1 flex justify-between gap-4">
+                        <p className="font-mono text-[10px] truncate">{file.key}</p>
+                        <p className="text-gray-400 shrink-0">{file.mediaCount > 0 ? 'v knihovně' : 'jen v obsahu'} · odkazů {file.referenceCount}</p>
+                      </div>
+                    ))}
+                    {migrationPlan.length > PREVIEW_LIMIT && <p className="py-1 text-gray-400">… a dalších {migrationPlan.length - PREVIEW_LIMIT}</p>}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {migrationProgress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                <span className="truncate">Přesouvám {migrationProgress.done}/{migrationProgress.total} {migrationProgress.current && <span className="font-mono normal-case text-gray-400">{migrationProgress.current}</span>}</span>
+                <button onClick={() => migrationAbortRef.current?.abort()} className="flex items-center gap-1 text-gray-400 hover:text-red-500">
+                  <X size={12} /> Zastavit
+                </button>
+              </div>
+              <div className="w-full h-1 bg-gray-100 overflow-hidden">
+                <div className="h-full bg-[#007BFF] transition-all" style={{ width: `${(migrationProgress.done / Math.max(migrationProgress.total, 1)) * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {migrationResult && (
+            <div className={`p-4 border text-[11px] space-y-1 ${migrationResult.failed.length > 0 ? 'border-orange-100 bg-orange-50 text-orange-700' : 'border-green-100 bg-green-50 text-green-700'}`}>
+              <p className="text-[10px] font-black uppercase tracking-widest">Přesunuto souborů: {migrationResult.migrated}</p>
+              <p>Přepsáno: {migrationResult.updated.media} v knihovně, {migrationResult.updated.projects} projektů, {migrationResult.updated.posts} článků{migrationResult.updated.settings ? ', nastavení webu' : ''}</p>
+              {migrationResult.failed.map(f => (
+                <p key={f.url} className="font-mono text-[10px] truncate">✗ {f.url} – {f.error}</p>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="bg-white p-10 border border-gray-100 shadow-sm space-y-8 lg:col-span-2">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-sm font-black uppercase tracking-[0.3em] flex items-center gap-3 text-black">
+              <Images size={20} className="text-[#007BFF]" /> Responzivní obrázky
+            </h3>
+            <button onClick={runVariantBackfill} disabled={!!backfillProgress} className="flex items-center gap-2 px-6 py-3 border border-gray-200 text-[10px] font-black uppercase tracking-widest hover:border-[#007BFF] hover:text-[#007BFF] transition-all disabled:opacity-50">
+              <RefreshCw size={14} className={backfillProgress ? 'animate-spin' : ''} /> Doplnit zmenšeniny
+            </button>
+          </div>
+
+          <p className="text-[11px] text-gray-400 max-w-2xl">
+            Nové obrázky se ukládají ve WebP v šířkách 400, 800, 1600 a 2400 px a web si vybírá podle velikosti obrazovky. Než se obrázek načte, ukazuje se rozmazaný náhled v jeho dominantní barvě. Starším obrázkům v knihovně zmenšeniny i náhled chybí – doplnit se dají zde.
+          </p>
+
+          {backfillProgress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                <span>Zpracovávám {backfillProgress.done}/{backfillProgress.total}</span>
+                <button onClick={() => backfillAbortRef.current?.abort()} className="flex items-center gap-1 text-gray-400 hover:text-red-500">
+                  <X size={12} /> Zastavit
+                </button>
+              </div>
+              <div className="w-full h-1 bg-gray-100 overflow-hidden">
+                <div className="h-full bg-[#007BFF] transition-all" style={{ width: `${(backfillProgress.done / Math.max(backfillProgress.total, 1)) * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {backfillResult && (
+            <div className={`p-4 border text-[11px] space-y-1 ${backfillResult.failed.length > 0 ? 'border-orange-100 bg-orange-50 text-orange-700' : 'border-green-100 bg-green-50 text-green-700'}`}>
+              <p className="text-[10px] font-black uppercase tracking-widest">Doplněno obrázků: {backfillResult.processed}</p>
+              {backfillResult.failed.map(f => (
+                <p key={f.name} className="font-mono text-[10px] truncate">✗ {f.name} – {f.error}</p>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="bg-white p-10 border border-gray-100 shadow-sm space-y-8 lg:col-span-2">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-sm font-black uppercase tracking-[0.3em] flex items-center gap-3 text-black">
+              <Stamp size={20} className="text-[#007BFF]" /> Vodoznak
+            </h3>
+            <button onClick={runWatermarkBatch} disabled={!!watermarkProgress} className="flex items-center gap-2 px-6 py-3 border border-gray-200 text-[10px] font-black uppercase tracking-widest hover:border-[#007BFF] hover:text-[#007BFF] transition-all disabled:opacity-50">
+              <RefreshCw size={14} className={watermarkProgress ? 'animate-spin' : ''} /> Použít na knihovnu
+            </button>
+          </div>
+
+          <p className="text-[11px] text-gray-400 max-w-2xl">
+            Logo se vpeče jen do webových verzí obrázků (hlavní soubor a zmenšeniny). Čistá verze zůstává v úložišti a z ní se vodoznak při změně nastavení vyrobí znovu. Platí pro fotky v projektech vybraných specializací a pro soubory ve vybraných složkách.
+          </p>
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input type="checkbox" checked={watermark.enabled} onChange={e => updateWatermark({ enabled: e.target.checked })} className="accent-[#007BFF]" />
+            <span className="text-[10px] font-black uppercase text-black">Přidávat vodoznak</span>
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase text-gray-400">Logo</label>
+                <div className="flex items-center gap-4">
+                  <div className="w-24 h-16 bg-gray-100 border border-gray-200 flex items-center justify-center overflow-hidden">
+                    {watermark.logoUrl ? <img src={watermark.logoUrl} alt="Logo" className="max-w-full max-h-full object-contain" /> : <Stamp size={20} className="text-gray-300" />}
+                  </div>
+                  <button type="button" onClick={() => setShowLogoPicker(true)} className="px-6 py-3 border border-gray-200 text-[10px] font-black uppercase tracking-widest hover:border-[#007BFF] hover:text-[#007BFF] transition-all">
+                    Vybrat z knihovny
+                  </button>
+                </div>
+                <p className="text-[10px] text-gray-400">Nejlépe PNG s průhledným pozadím.</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase text-gray-400">Umístění</label>
+                <select value={watermark.position} onChange={e => updateWatermark({ position: e.target.value as WatermarkConfig['position'] })} className={inputClass}>
+                  {WATERMARK_POSITIONS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between items-center"><label className="text-[10px] font-black uppercase text-gray-400">Průhlednost</label><span className="text-sm font-black text-[#007BFF]">{Math.round(watermark.opacity * 100)}%</span></div>
+                <input type="range" min="10" max="100" value={Math.round(watermark.opacity * 100)} onChange={e => updateWatermark({ opacity: parseInt(e.target.value) / 100 })} className="w-full h-2 bg-gray-100 rounded-lg appearance-none cursor-pointer accent-[#007BFF]" />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between items-center"><label className="text-[10px] font-black uppercase text-gray-400">Velikost (šířka obrázku)</label><span className="text-sm font-black text-[#007BFF]">{Math.round(watermark.scale * 100)}%</span></div>
+                <input type="range" min="5" max="50" value={Math.round(watermark.scale * 100)} onChange={e => updateWatermark({ scale: parseInt(e.target.value) / 100 })} className="w-full h-2 bg-gray-100 rounded-lg appearance-none cursor-pointer accent-[#007BFF]" />
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              {/* Náhled umístění na obrázku 3:2 */}
+              <div className="relative w-full aspect-[3/2] bg-gradient-to-br from-gray-300 to-gray-500 overflow-hidden">
+                {watermark.logoUrl && (
+                  <img
+                    src={watermark.logoUrl}
+                    alt=""
+                    className={`absolute ${{
+                      'top-left': 'top-[3%] left-[3%]',
+                      'top-right': 'top-[3%] right-[3%]',
+                      'center': 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+                      'bottom-left': 'bottom-[3%] left-[3%]',
+                      'bottom-right': 'bottom-[3%] right-[3%]'
+                    }[watermark.position]}`}
+                    style={{ width: `${watermark.scale * 100}%`, opacity: watermark.opacity }}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase text-gray-400">Specializace</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {SPECIALIZATIONS.map(spec => (
+                    <label key={spec.id} className="flex items-center gap-2 text-[11px] cursor-pointer">
+                      <input type="checkbox" checked={watermark.specializationIds.includes(spec.id)} onChange={() => updateWatermark({ specializationIds: toggleIn(watermark.specializationIds, spec.id) })} className="accent-[#007BFF]" />
+                      {spec.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase text-gray-400">Složky (včetně podsložek)</label>
+                {folders.length === 0 ? (
+                  <p className="text-[11px] text-gray-300">Knihovna nemá žádné složky</p>
+                ) : (
+                  <div className="max-h-40 overflow-y-auto space-y-1 border border-gray-100 p-3">
+                    {folders.map(folder => ({ folder, path: folderPath(folder) })).sort((a, b) => a.path.localeCompare(b.path, 'cs')).map(({ folder, path }) => (
+                      <label key={folder.id} className="flex items-center gap-2 text-[11px] cursor-pointer">
+                        <input type="checkbox" checked={watermark.folderIds.includes(folder.id)} onChange={() => updateWatermark({ folderIds: toggleIn(watermark.folderIds, folder.id) })} className="accent-[#007BFF]" />
+                        <span className="truncate">{path}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <button onClick={handleSaveWatermark} disabled={isSavingWatermark} className="bg-gray-900 text-white px-12 py-4 text-[10px] font-black uppercase hover:bg-[#007BFF] transition-all disabled:opacity-50">
+            {isSavingWatermark ? 'UKLÁDÁM...' : 'ULOŽIT VODOZNAK'}
+          </button>
+
+          {watermarkProgress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                <span>Zpracovávám {watermarkProgress.done}/{watermarkProgress.total}</span>
+                <button onClick={() => watermarkAbortRef.current?.abort()} className="flex items-center gap-1 text-gray-400 hover:text-red-500">
+                  <X size={12} /> Zastavit
+                </button>
+              </div>
+              <div className="w-full h-1 bg-gray-100 overflow-hidden">
+                <div className="h-full bg-[#007BFF] transition-all" style={{ width: `${(watermarkProgress.done / Math.max(watermarkProgress.total, 1)) * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {watermarkResult && (
+            <div className={`p-4 border text-[11px] space-y-1 ${watermarkResult.failed.length > 0 ? 'border-orange-100 bg-orange-50 text-orange-700' : 'border-green-100 bg-green-50 text-green-700'}`}>
+              <p className="text-[10px] font-black uppercase tracking-widest">S vodoznakem: {watermarkResult.watermarked} · Vráceno bez vodoznaku: {watermarkResult.cleaned}</p>
+              <p>Přepsáno: {watermarkResult.updated.projects} projektů, {watermarkResult.updated.posts} článků{watermarkResult.updated.settings ? ', nastavení webu' : ''}</p>
+              {watermarkResult.failed.map(f => (
+                <p key={f.name} className="font-mono text-[10px] truncate">✗ {f.name} – {f.error}</p>
+              ))}
+            </div>
+          )}
         </section>
 
         <section className="bg-white p-10 border border-gray-100 shadow-sm space-y-8 lg:col-span-2">
@@ -120,12 +829,35 @@ const SystemManager: React.FC = () => {
             <input type="range" min="50" max="100" value={compressionQuality} onChange={(e) => setCompressionQuality(parseInt(e.target.value))} className="w-full h-2 bg-gray-100 rounded-lg appearance-none cursor-pointer accent-[#007BFF]" />
             <div className="flex items-center gap-2 text-orange-500 bg-orange-50 p-4 border border-orange-100">
                <ShieldAlert size={18} />
-               <p className="text-[9px] font-bold uppercase tracking-widest">Obrázky budou při nahrávání automaticky zmenšeny na max 1920px (šířka/výška).</p>
+               <p className="text-[9px] font-bold uppercase tracking-widest">Obrázky se při nahrávání převádí na WebP (max 2400 px) – metadata ze souboru zmizí, údaje z fotoaparátu zůstanou jen v knihovně médií.</p>
             </div>
-            <button onClick={() => { localStorage.setItem('jakub_minka_compression_quality', compressionQuality.toString()); alert('Kvalita uložena!'); }} className="bg-gray-900 text-white px-12 py-4 text-[10px] font-black uppercase hover:bg-[#007BFF] transition-all">ULOŽIT KONFIGURACI</button>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="checkbox" checked={keepGpsSetting} onChange={e => setKeepGpsSetting(e.target.checked)} className="mt-0.5 accent-[#007BFF]" />
+              <span>
+                <span className="block text-[10px] font-black uppercase text-black">Zachovat GPS polohu</span>
+                <span className="block text-[10px] text-gray-400 mt-1">Vypnuto: poloha z EXIF se při nahrání zahodí a soubory, které nejde převést na WebP (HEIC…), se s polohou nenahrají. Platí pro všechny správce. Doporučeno u interiérů a domácností klientů.</span>
+              </span>
+            </label>
+            <button onClick={handleSaveConfig} className="bg-gray-900 text-white px-12 py-4 text-[10px] font-black uppercase hover:bg-[#007BFF] transition-all">ULOŽIT KONFIGURACI</button>
           </div>
         </section>
       </div>
+
+      <EnhancedMediaPicker
+        isOpen={showLogoPicker}
+        onClose={() => setShowLogoPicker(false)}
+        onSelect={item => {
+          if (item.type !== 'image' || !item.url) {
+            alert('Logo vodoznaku musí být obrázek.');
+            return;
+          }
+          updateWatermark({ logoUrl: item.url });
+          setShowLogoPicker(false);
+        }}
+        allowMultiple={false}
+        allowUpload={true}
+        showFolders={true}
+      />
     </div>
   );
 };
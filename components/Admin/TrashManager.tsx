@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Search, Trash2, RotateCcw, Camera, BookOpen, Image as ImageIcon, Folder, AlertTriangle } from 'lucide-react';
+import { FileItem } from '../../types';
+import { TRASH_RETENTION_DAYS, TrashItem, TrashKind, getTrash, purgeDate, purgeFromTrash, restoreFromTrash } from '../../lib/trash';
+import { subscribeToTables } from '../../lib/realtime';
+import { matchesSearch } from '../../lib/search';
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  project: 'Zakázka',
+  blog: 'Článek',
+  media: 'Soubor'
+};
+
+const KindIcon: React.FC<{ item: TrashItem }> = ({ item }) => {
+  if (item.kind === 'project') return <Camera size={16} />;
+  if (item.kind === 'blog') return <BookOpen size={16} />;
+  return (item.entity as FileItem).type === 'folder' ? <Folder size={16} /> : <ImageIcon size={16} />;
+};
+
+const TrashManager: React.FC = () => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [kindFilter, setKindFilter] = useState<TrashKind | 'all'>('all');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadData = async () => {
+    setItems(await getTrash());
+  };
+
+  useEffect(() => {
+    loadData();
+    return subscribeToTables(['projects', 'blog', 'media_meta'], () => loadData());
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await restoreFromTrash(item);
+      await loadData();
+    } catch (err) {
+      console.error('Restore error:', err);
+      alert('Chyba při obnovení: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`Trvale smazat "${item.name}"? Tuto akci nelze vrátit.`)) return;
+    setBusyId(item.id);
+    try {
+      await purgeFromTrash(item);
+      await loadData();
+    } catch (err) {
+      console.error('Purge error:', err);
+      alert('Chyba při trvalém smazání: ' + (err instanceof Error ? err.message : 'Neznámá chyba'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Trvale smazat všech ${filtered.length} položek v koši?`)) return;
+    const failed: string[] = [];
+    for (const item of filtered) {
+      try {
+        await purgeFromTrash(item);
+      } catch (err) {
+        console.error(`Purge error for ${item.name}:`, err);
+        failed.push(item.name);
+      }
+    }
+    await loadData();
+    if (failed.length > 0) alert(`Některé položky nebylo možné smazat: ${failed.join(', ')}`);
+  };
+
+  const filtered = items.filter(i =>
+    (kindFilter === 'all' || i.kind === kindFilter) &&
+    matchesSearch(searchQuery, i.name)
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white p-6 border flex flex-wrap gap-4 justify-between items-center shadow-sm">
+        <div className="relative flex-grow max-w-xl">
+          <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input type="text" placeholder="HLEDAT V KOŠI..." value={searchQuery} onChange={e => setSearchQuery(e.target.value)} className="w-full border p-3 pl-12 text-[10px] font-black uppercase" />
+        </div>
+        <div className="flex items-center gap-2">
+          {(['all', 'project', 'blog', 'media'] as const).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(kind)}
+              className={`px-4 py-2 text-[9px] font-black uppercase tracking-widest border transition-all ${kindFilter === kind ? 'bg-[#007BFF] border-[#007BFF] text-white' : 'border-gray-200 text-gray-400 hover:text-black'}`}
+            >
+              {kind === 'all' ? 'Vše' : KIND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-[10px] font-black uppercase text-gray-400">Položek: {filtered.length}</div>
+          {filtered.length > 0 && (
+            <button onClick={handleEmptyTrash} className="px-4 py-2 bg-red-50 text-red-600 text-[9px] font-black uppercase tracking-widest hover:bg-red-600 hover:text-white transition-all">
+              Vysypat koš
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 p-4 bg-orange-50 text-orange-600 border border-orange-100">
+        <AlertTriangle size={16} />
+        <p className="text-[9px] font-bold uppercase tracking-widest">Položky v koši se trvale smažou (včetně souborů v úložišti) po {TRASH_RETENTION_DAYS} dnech.</p>
+      </div>
+
+      <div className="bg-white border divide-y">
+        {filtered.map(item => (
+          <div key={`${item.kind}-${item.id}`} className="p-6 flex items-center gap-6 hover:bg-gray-50 transition-all">
+            <div className="w-10 h-10 bg-gray-50 flex items-center justify-center text-gray-400 shrink-0">
+              <KindIcon item={item} />
+            </div>
+            <div className="flex-grow min-w-0">
+              <h4 className="text-[11px] font-black uppercase truncate text-black">{item.name}</h4>
+              <p className="text-[9px] font-bold text-gray-400 uppercase tracking-widest mt-1">
+                {KIND_LABELS[item.kind]}{item.contents.length > 0 ? ` · včetně obsahu (${item.contents.length})` : ''} · smazáno {new Date(item.deletedAt).toLocaleString()} · trvale {purgeDate(item).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => handleRestore(item)}
+                disabled={busyId === item.id}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-200 text-[9px] font-black uppercase tracking-widest hover:border-[#007BFF] hover:text-[#007BFF] transition-all disabled:opacity-50"
+              >
+                <RotateCcw size={14} /> Obnovit
+              </button>
+              <button
+                onClick={() => handlePurge(item)}
+                disabled={busyId === item.id}
+                className="p-2 bg-red-50 text-red-600 hover:bg-red-600 hover:text-white transition-all disabled:opacity-50"
+                title="Smazat trvale"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+        {filtered.length === 0 && (
+          <div className="p-20 text-center text-gray-300 font-black uppercase text-[10px] tracking-widest">Koš je prázdný</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashManager;
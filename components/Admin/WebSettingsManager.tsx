@@ -5,12 +5,16 @@ import {
   Globe, ChevronRight, Folder, MessageSquare, Instagram, Facebook, 
   Youtube, Linkedin, Info, Upload, Plus, FileText, Shield, 
   Bold, Italic, List, RefreshCw, CheckCircle2, Search, MapPin, 
-  Monitor, Smartphone, Type, AlignLeft, Camera, Layers, ArrowUpRight
+  Monitor, Smartphone, Type, AlignLeft, Camera, Layers, ArrowUpRight, History
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { WebSettings, FileItem } from '../../types';
-import { mediaDB, dataStore } from '../../lib/db';
+import { mediaDB, dataStore, ConflictError } from '../../lib/db';
+import { mergeChanges } from '../../lib/revisions';
 import { SPECIALIZATIONS } from '../../constants';
+import RevisionHistory from './RevisionHistory';
+import ConflictDialog from './ConflictDialog';
+import { UNSAVED_CHANGES_MESSAGE } from '../../lib/drafts';
 
 const WebSettingsManager: React.FC = () => {
   const [settings, setSettings] = useState<WebSettings>({
@@ -40,6 +44,12 @@ const WebSettingsManager: React.FC = () => {
   const [pickerTarget, setPickerTarget] = useState<{key: string, isSpec?: boolean} | null>(null);
   const [allItems, setAllItems] = useState<FileItem[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [conflict, setConflict] = useState<{ error: ConflictError; mine: WebSettings } | null>(null);
+  // Verze a obsah nastavení při načtení – pro detekci souběžné úpravy z jiné záložky
+  const baseRef = useRef<{ version: string | null; original: Record<string, any> }>({ version: null, original: {} });
+  // Formulář tak, jak se načetl – podle něj se pozná neuložená úprava
+  const loadedRef = useRef<Record<string, any>>({});
 
   // WYSIWYG Refs for specific sections
   const refs = {
@@ -53,8 +63,12 @@ const WebSettingsManager: React.FC = () => {
   
   const loadSettings = async () => {
     const saved = await dataStore.doc('web_settings').get();
+    baseRef.current = { version: dataStore.doc('web_settings').getVersion(), original: saved || {} };
     if (saved) {
-      setSettings(prev => ({ ...prev, ...saved }));
+      setSettings(prev => {
+        loadedRef.current = { ...prev, ...saved };
+        return loadedRef.current as WebSettings;
+      });
       // Hydrate contentEditables
       setTimeout(() => {
         if (refs.homeAbout.current) refs.homeAbout.current.innerHTML = saved.homeAboutText || '';
@@ -71,22 +85,76 @@ const WebSettingsManager: React.FC = () => {
 
   useEffect(() => { loadSettings(); }, []);
 
+  const collectSettings = (): WebSettings => ({
+    ...settings,
+    homeAboutText: refs.homeAbout.current?.innerHTML || '',
+    price1Desc: refs.price1.current?.innerHTML || '',
+    price2Desc: refs.price2.current?.innerHTML || '',
+    privacyContent: refs.privacy.current?.innerHTML || '',
+    termsContent: refs.terms.current?.innerHTML || '',
+    footerDescription: refs.footerDesc.current?.innerHTML || ''
+  });
+
+  const hasUnsavedChanges = () => Object.entries(collectSettings()).some(
+    ([key, value]) => JSON.stringify(value ?? '') !== JSON.stringify(loadedRef.current[key] ?? '')
+  );
+
   const saveSettings = async () => {
     setIsSaving(true);
-    const updatedSettings = {
-      ...settings,
-      homeAboutText: refs.homeAbout.current?.innerHTML || '',
-      price1Desc: refs.price1.current?.innerHTML || '',
-      price2Desc: refs.price2.current?.innerHTML || '',
-      privacyContent: refs.privacy.current?.innerHTML || '',
-      termsContent: refs.terms.current?.innerHTML || '',
-      footerDescription: refs.footerDesc.current?.innerHTML || ''
-    };
-    await dataStore.doc('web_settings').set(updatedSettings);
-    setIsSaving(false);
+    const updatedSettings = collectSettings();
+    try {
+      await persistSettings(updatedSettings, baseRef.current.version);
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        setConflict({ error: err, mine: updatedSettings });
+        return;
+      }
+      alert('Chyba při ukládání: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const persistSettings = async (next: WebSettings, expectedVersion: string | null) => {
+    const saved = await dataStore.doc('web_settings').set(next, { expectedVersion });
+    baseRef.current = { version: dataStore.doc('web_settings').getVersion(), original: saved };
     alert('Všechny změny byly publikovány!');
   };
 
+  const resolveConflict = async (action: 'overwrite' | 'merge') => {
+    if (!conflict) return;
+    const { error, mine } = conflict;
+    const next = action === 'merge' && error.server
+      ? mergeChanges(baseRef.current.original, mine, error.server) as WebSettings
+      : mine;
+    setIsSaving(true);
+    try {
+      await persistSettings(next, error.serverVersion);
+      setConflict(null);
+      if (action === 'merge') await loadSettings();
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        setConflict({ error: err, mine: next });
+        return;
+      }
+      alert('Chyba při ukládání: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const restoreRevision = async (snapshot: Record<string, any>) => {
+    if (hasUnsavedChanges() && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
+    try {
+      await dataStore.doc('web_settings').set(snapshot, { expectedVersion: baseRef.current.version });
+      await loadSettings();
+    } catch (err) {
+      if (!(err instanceof ConflictError)) throw err;
+      setShowHistory(false);
+      setConflict({ error: err, mine: snapshot as WebSettings });
+    }
+  };
+
   const handleEditorCommand = (command: string, value?: string) => {
     document.execCommand(command, false, value);
   };
@@ -509,12 +577,33 @@ const WebSettingsManager: React.FC = () => {
       </AnimatePresence>
 
       <div className="fixed bottom-10 right-10 z-[200] flex flex-col items-end gap-4">
+        <button onClick={() => setShowHistory(true)} className="bg-white text-black border border-gray-200 px-8 py-4 text-[10px] font-black uppercase tracking-[0.3em] shadow-xl hover:border-[#007BFF] hover:text-[#007BFF] transition-all flex items-center gap-3">
+          <History size={16}/> HISTORIE ZMĚN
+        </button>
         <button onClick={saveSettings} disabled={isSaving} className="bg-[#007BFF] text-white px-16 py-6 text-[11px] font-black uppercase tracking-[0.5em] shadow-[0_20px_50px_rgba(0,123,255,0.4)] hover:bg-black transition-all transform hover:-translate-y-1 active:scale-95 flex items-center gap-4">
           {isSaving ? <RefreshCw className="animate-spin" size={18}/> : <Save size={18}/>}
           PUBLIKOVAT VŠE
         </button>
       </div>
 
+      <ConflictDialog
+        conflict={conflict?.error || null}
+        mine={conflict?.mine || null}
+        isBusy={isSaving}
+        onOverwrite={() => resolveConflict('overwrite')}
+        onMerge={() => resolveConflict('merge')}
+        onReload={() => { setConflict(null); loadSettings(); }}
+        onCancel={() => setConflict(null)}
+      />
+
+      <RevisionHistory
+        isOpen={showHistory}
+        table="web_settings"
+        recordId="web_settings"
+        onRestore={restoreRevision}
+        onClose={() => setShowHistory(false)}
+      />
+
       {/* Media Picker Modal */}
       <AnimatePresence>
         {showPicker && (
@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef } from 'react';
+import { diffSnapshots } from '../../lib/revisions';
+import {
+  AUTOSAVE_INTERVAL_MS, EditorDraft, clearDraft, loadDraft, saveDraft, setEditorDirty
+} from '../../lib/drafts';
+
+interface Session<T> {
+  recordId: string | null;
+  baseline: T;
+}
+
+/**
+ * Autosave editoru. `begin` se volá při otevření formuláře se stavem, ze kterého editor
+ * vychází; pokud v prohlížeči leží starší rozpracovaná verze, objeví se v `pending`.
+ * Dokud je editor otevřený, ukládá se `snapshot` každých AUTOSAVE_INTERVAL_MS.
+ */
+export const useEditorDraft = <T extends Record<string, any>>(table: string, snapshot: T) => {
+  const [session, setSession] = useState<Session<T> | null>(null);
+  const [pending, setPending] = useState<EditorDraft<T> | null>(null);
+  const latest = useRef(snapshot);
+  const lastSaved = useRef<string | null>(null);
+  // Ref kopie pro interval a úklid efektu – po `clear` se koncept nesmí zapsat znovu
+  const sessionRef = useRef<Session<T> | null>(null);
+  const pendingRef = useRef<EditorDraft<T> | null>(null);
+  latest.current = snapshot;
+
+  const isDirty = !!session && !pending && diffSnapshots(session.baseline, snapshot).length > 0;
+
+  const persist = () => {
+    const session = sessionRef.current;
+    if (!session || pendingRef.current) return;
+    const serialized = JSON.stringify(latest.current);
+    if (serialized === lastSaved.current) return;
+    if (diffSnapshots(session.baseline, latest.current).length === 0) {
+      clearDraft(table, session.recordId);
+    } else {
+      saveDraft(table, session.recordId, latest.current);
+    }
+    lastSaved.current = serialized;
+  };
+
+  useEffect(() => {
+    if (!session) return;
+    const interval = setInterval(persist, AUTOSAVE_INTERVAL_MS);
+    // Zavření záložky – prohlížeč zobrazí vlastní dotaz, koncept se mezitím uloží
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      persist();
+      if (pendingRef.current || diffSnapshots(session.baseline, latest.current).length === 0) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', onBeforeUnload);
+      // Přepnutí sekce administrace odmountuje editor – poslední stav se neztratí
+      persist();
+    };
+  }, [session, pending]);
+
+  useEffect(() => {
+    setEditorDirty(table, isDirty);
+  }, [table, isDirty]);
+
+  useEffect(() => () => setEditorDirty(table, false), [table]);
+
+  const update = (nextSession: Session<T> | null, nextPending: EditorDraft<T> | null) => {
+    sessionRef.current = nextSession;
+    pendingRef.current = nextPending;
+    setSession(nextSession);
+    setPending(nextPending);
+  };
+
+  const begin = (recordId: string | null, baseline: T) => {
+    const stored = loadDraft<T>(table, recordId);
+    const differs = !!stored && diffSnapshots(baseline, stored.data).length > 0;
+    if (stored && !differs) clearDraft(table, recordId);
+    lastSaved.current = null;
+    update({ recordId, baseline }, differs ? stored : null);
+  };
+
+  // Editor se zavírá bez uložení – rozpracovaná verze v prohlížeči zůstává
+  const close = () => {
+    persist();
+    update(null, null);
+  };
+
+  // Po úspěšném uložení už koncept není potřeba
+  const clear = () => {
+    if (sessionRef.current) clearDraft(table, sessionRef.current.recordId);
+    update(null, null);
+  };
+
+  const takePending = (): T | null => {
+    const data = pendingRef.current?.data ?? null;
+    update(sessionRef.current, null);
+    return data;
+  };
+
+  const discardPending = () => {
+    if (sessionRef.current) clearDraft(table, sessionRef.current.recordId);
+    update(sessionRef.current, null);
+  };
+
+  return { isDirty, pending, baseline: session?.baseline ?? null, begin, close, clear, takePending, discardPending };
+};
@@ -4,8 +4,8 @@ import { Mail, Phone, Send, ExternalLink, CheckCircle2, ShieldCheck, RefreshCw,
 import Logo from './Logo';
 import { Link } from 'react-router-dom';
 import HumanVerificationModal from './HumanVerificationModal';
-import { WebSettings } from '../types';
-import { dataStore } from '../lib/db';
+import { Inquiry, WebSettings } from '../types';
+import { dataStore, inquiryDB } from '../lib/db';
 
 const Footer: React.FC = () => {
   const [formState, setFormState] = useState<'idle' | 'loading' | 'success'>('idle');
@@ -43,16 +43,22 @@ const Footer: React.FC = () => {
     setIsVerificationOpen(false);
     setFormState('loading');
     setTimeout(async () => {
-      const newInquiry = { 
+      const newInquiry: Inquiry = { 
         id: Math.random().toString(36).substr(2, 9), 
         ...formData, 
         date: new Date().toISOString(), 
         status: 'new' 
       };
-      await dataStore.collection('inquiries').save(newInquiry);
-      setFormState('success');
-      setFormData({ name: '', email: '', subject: '', message: '' });
-      setTimeout(() => setFormState('idle'), 5000);
+      try {
+        await inquiryDB.save(newInquiry, { queue: false });
+        setFormState('success');
+        setFormData({ name: '', email: '', subject: '', message: '' });
+        setTimeout(() => setFormState('idle'), 5000);
+      } catch (error) {
+        console.error('Error sending inquiry:', error);
+        alert('Zprávu se nepodařilo odeslat. Zkuste to prosím znovu, nebo napište přímo e-mailem.');
+        setFormState('idle');
+      }
     }, 1000);
   };
 
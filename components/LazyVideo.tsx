@@ -0,0 +1,57 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { posterFor } from '../lib/imageVariants';
+import { useImageIndex } from './ResponsiveImage';
+
+interface LazyVideoProps extends React.VideoHTMLAttributes<HTMLVideoElement> {
+  src: string;
+  // Poster z GalleryItem; bez něj se dohledá v knihovně médií podle URL
+  poster?: string;
+}
+
+/**
+ * Video s posterem. Smyčka na pozadí (bez controls) se začne stahovat a hrát, až když je
+ * vidět, a mimo obrazovku se zastaví. Přehrávač s controls dostane jen poster a metadata.
+ */
+const LazyVideo: React.FC<LazyVideoProps> = ({ src, poster, controls, ...props }) => {
+  const ref = useRef<HTMLVideoElement>(null);
+  const index = useImageIndex(poster ? [] : [src]);
+  const [inView, setInView] = useState(false);
+  const [activated, setActivated] = useState(false);
+  const posterUrl = poster || posterFor(index, src);
+
+  useEffect(() => {
+    if (controls || !ref.current) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      setInView(entry.isIntersecting);
+      if (entry.isIntersecting) setActivated(true);
+    }, { rootMargin: '200px' });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [controls]);
+
+  useEffect(() => {
+    const video = ref.current;
+    if (controls || !video || !activated) return;
+    if (inView) video.play().catch(() => undefined);
+    else video.pause();
+  }, [controls, inView, activated]);
+
+  if (controls) {
+    return <video ref={ref} src={src} poster={posterUrl} controls preload="metadata" {...props} />;
+  }
+
+  return (
+    <video
+      ref={ref}
+      src={activated ? src : undefined}
+      poster={posterUrl}
+      muted
+      loop
+      playsInline
+      preload="none"
+      {...props}
+    />
+  );
+};
+
+export default LazyVideo;
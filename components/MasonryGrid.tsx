@@ -1,9 +1,11 @@
 
-import React, { useMemo, useState } from 'react';
-import { Project, MediaType } from '../types';
+import React, { useMemo } from 'react';
+import { Project, MediaType, GalleryItem } from '../types';
 import { Play, Camera, ArrowUpRight, Layers } from 'lucide-react';
-import { motion } from 'framer-motion';
 import { Link, useNavigate } from 'react-router-dom';
+import { projectPath } from '../lib/slugs';
+import ResponsiveImage from './ResponsiveImage';
+import LazyVideo from './LazyVideo';
 
 interface MasonryGridProps {
   projects: Project[];
@@ -22,6 +24,7 @@ const shuffleArray = <T extends Record<string, unknown>>(array: T[]): T[] => {
 type ProjectWithMedia = Project & {
   displayMediaType: 'image' | 'video' | 'youtube';
   displayMediaUrl: string;
+  displayMediaPreview?: Pick<GalleryItem, 'placeholder' | 'dominantColor' | 'poster'>;
 };
 
 const getYouTubeVideoId = (url: string): string | null => {
@@ -34,7 +37,7 @@ const getYouTubeEmbedUrl = (url: string): string => {
   return videoId ? `https://www.youtube.com/embed/${videoId}` : url;
 };
 
-const pickProjectMedia = (project: Project): { type: 'image' | 'video' | 'youtube'; url: string } => {
+const pickProjectMedia = (project: Project): { type: 'image' | 'video' | 'youtube'; url: string; preview?: ProjectWithMedia['displayMediaPreview'] } => {
   const galleryVideo = (project.gallery || []).find(item => item.type === 'video');
   if (galleryVideo) {
     if (galleryVideo.source === 'youtube') {
@@ -43,19 +46,18 @@ const pickProjectMedia = (project: Project): { type: 'image' | 'video' | 'youtub
       }
       return { type: 'youtube', url: galleryVideo.url };
     }
-    return { type: 'video', url: galleryVideo.url };
+    return { type: 'video', url: galleryVideo.url, preview: { poster: galleryVideo.poster } };
   }
 
   const galleryImages = (project.gallery || []).filter(item => item.type === 'image');
   if (galleryImages.length > 0) {
     const randomImage = galleryImages[Math.floor(Math.random() * galleryImages.length)];
-    return { type: 'image', url: randomImage.url };
+    return { type: 'image', url: randomImage.url, preview: { placeholder: randomImage.placeholder, dominantColor: randomImage.dominantColor } };
   }
   return { type: 'image', url: project.thumbnailUrl };
 };
 
 const ProjectItem: React.FC<{ project: ProjectWithMedia, weight: number, showSpecialization: boolean }> = ({ project, weight, showSpecialization }) => {
-  const [isLoaded, setIsLoaded] = useState(false);
   const navigate = useNavigate();
 
   const getMediaLabel = (type: MediaType) => {
@@ -80,16 +82,12 @@ const ProjectItem: React.FC<{ project: ProjectWithMedia, weight: number, showSpe
       }}
       className="relative group overflow-hidden h-[300px] md:h-[500px] bg-black border border-white/5"
     >
-      <Link to={`/projekt/${project.id}`} className="block w-full h-full relative">
+      <Link to={projectPath(project)} className="block w-full h-full relative">
         <div className="absolute inset-0 w-full h-full overflow-hidden">
           {project.displayMediaType === 'video' ? (
-            <video
+            <LazyVideo
               src={project.displayMediaUrl}
-              autoPlay
-              muted
-              loop
-              playsInline
-              onLoadedData={() => setIsLoaded(true)}
+              poster={project.displayMediaPreview?.poster}
               className="w-full h-full object-cover grayscale-[0.3] group-hover:grayscale-0 group-hover:scale-110 transition-transform duration-[3s] ease-out"
             />
           ) : project.displayMediaType === 'youtube' ? (
@@ -108,18 +106,16 @@ const ProjectItem: React.FC<{ project: ProjectWithMedia, weight: number, showSpe
                   pointerEvents: 'none'
                 }}
                 allow="autoplay; encrypted-media"
-                onLoad={() => setIsLoaded(true)}
               />
               <div className="absolute inset-0" style={{ pointerEvents: 'auto' }}></div>
             </div>
           ) : (
-            <motion.img 
+            <ResponsiveImage 
               src={project.displayMediaUrl} 
+              sizes="(min-width: 768px) 50vw, 100vw"
               alt={project.title}
               loading="lazy"
-              onLoad={() => setIsLoaded(true)}
-              animate={{ opacity: isLoaded ? 1 : 0 }}
-              transition={{ duration: 1 }}
+              placeholder={project.displayMediaPreview || true}
               className="w-full h-full object-cover grayscale-[0.3] group-hover:grayscale-0 group-hover:scale-110 transition-transform duration-[3s] ease-out"
             />
           )}
@@ -161,12 +157,17 @@ const MasonryGrid: React.FC<MasonryGridProps> = ({ projects, showSpecialization
   const randomizedLayout = useMemo(() => {
     if (!projects || projects.length === 0) return [];
     const shuffled = shuffleArray(projects);
-    return shuffled.map((project) => ({
-      ...project,
-      displayMediaType: pickProjectMedia(project as unknown as Project).type,
-      displayMediaUrl: pickProjectMedia(project as unknown as Project).url,
-      weight: Math.random() > 0.5 ? 2.0 : 1.2
-    }));
+    return shuffled.map((project) => {
+      // Jedno losování – typ, URL i náhled musí patřit ke stejné položce galerie
+      const media = pickProjectMedia(project as unknown as Project);
+      return {
+        ...project,
+        displayMediaType: media.type,
+        displayMediaUrl: media.url,
+        displayMediaPreview: media.preview,
+        weight: Math.random() > 0.5 ? 2.0 : 1.2
+      };
+    });
   }, [projects]); 
 
   return (
@@ -4,11 +4,12 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { 
   Instagram, Facebook, Youtube, Linkedin, MessageSquare, Menu, X, 
   ChevronDown, ExternalLink, Shield, LayoutDashboard, Home,
-  Briefcase, BookOpen, Mail
+  Briefcase, BookOpen, Mail, Search
 } from 'lucide-react';
 import Logo from './Logo';
 import { SPECIALIZATIONS } from '../constants';
 import LoginModal from './Admin/LoginModal';
+import SearchOverlay from './SearchOverlay';
 import { motion, AnimatePresence } from 'framer-motion';
 import { WebSettings } from '../types';
 
@@ -16,6 +17,7 @@ const Navbar: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isSpecOpen, setIsSpecOpen] = useState(false);
   const [isAdminOpen, setIsAdminOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isUserAdmin, setIsUserAdmin] = useState(false);
   const [settings, setSettings] = useState<Partial<WebSettings>>({});
   const navigate = useNavigate();
@@ -32,6 +34,18 @@ const Navbar: React.FC = () => {
     return () => window.removeEventListener('storage', loadSettings);
   }, []);
 
+  // Ctrl+K / Cmd+K otevře vyhledávání odkudkoli na webu
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(true);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   const handleSpecClick = (spec: typeof SPECIALIZATIONS[0]) => {
     if (spec.externalUrl) {
       window.open(spec.externalUrl, '_blank');
@@ -146,6 +160,14 @@ const Navbar: React.FC = () => {
             <div className="w-px h-8 bg-gray-100 mx-2"></div>
             
             <div className="flex items-center gap-3">
+              <button 
+                onClick={() => setIsSearchOpen(true)}
+                className="w-11 h-11 flex items-center justify-center rounded-full border border-gray-100 text-gray-500 hover:text-[#007BFF] hover:border-[#007BFF] transition-all"
+                title="Hledat (Ctrl+K)"
+              >
+                <Search size={18} strokeWidth={2.5} />
+              </button>
+
               <button 
                 onClick={scrollToFooter}
                 className={`w-11 h-11 flex items-center justify-center rounded-full shadow-lg transition-all transform hover:scale-105 ${location.pathname === '/kontakt' ? 'bg-black text-white' : 'bg-[#007BFF] text-white hover:bg-black'}`}
@@ -165,9 +187,14 @@ const Navbar: React.FC = () => {
           </div>
 
           {/* Mobile Menu Toggle */}
-          <button className="lg:hidden p-2 text-gray-900" onClick={() => setIsMenuOpen(!isMenuOpen)}>
-            {isMenuOpen ? <X size={24} /> : <Menu size={24} />}
-          </button>
+          <div className="lg:hidden flex items-center gap-2">
+            <button className="p-2 text-gray-900" onClick={() => { setIsMenuOpen(false); setIsSearchOpen(true); }} title="Hledat">
+              <Search size={22} />
+            </button>
+            <button className="p-2 text-gray-900" onClick={() => setIsMenuOpen(!isMenuOpen)}>
+              {isMenuOpen ? <X size={24} /> : <Menu size={24} />}
+            </button>
+          </div>
         </div>
 
         {/* Mobile Menu Overlay */}
@@ -182,6 +209,7 @@ const Navbar: React.FC = () => {
       </nav>
 
       <LoginModal isOpen={isAdminOpen} onClose={() => setIsAdminOpen(false)} />
+      <SearchOverlay isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
     </>
   );
 };
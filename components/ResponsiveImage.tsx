@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { motion, HTMLMotionProps } from 'framer-motion';
+import { GalleryItem } from '../types';
+import { ImageIndex, loadImageIndex, previewFor, srcSetFor, variantsFor } from '../lib/imageVariants';
+
+// Zmenšeniny a náhledy pro zobrazované URL – dotazy všech obrázků na stránce se sdruží
+export const useImageIndex = (urls: (string | null | undefined)[]): ImageIndex | null => {
+  const [index, setIndex] = useState<ImageIndex | null>(null);
+  const key = urls.filter(Boolean).join('\n');
+  useEffect(() => {
+    let active = true;
+    loadImageIndex(key ? key.split('\n') : []).then(loaded => { if (active) setIndex(loaded); });
+    return () => { active = false; };
+  }, [key]);
+  return index;
+};
+
+// Promise, která doběhne až po dekódování – po onLoad může obrázek ještě chvíli blikat prázdný
+export const whenDecoded = (img: HTMLImageElement): Promise<void> =>
+  img.decode().catch(() => undefined);
+
+interface ResponsiveImageProps extends HTMLMotionProps<'img'> {
+  src?: string;
+  // Jak široký bude obrázek na stránce, např. "(min-width: 768px) 50vw, 100vw"
+  sizes: string;
+  // Rozmazaný náhled a dominantní barva, dokud se obrázek nedekóduje. Bez vlastních
+  // hodnot (GalleryItem) se vezmou z knihovny médií podle URL.
+  placeholder?: boolean | Pick<GalleryItem, 'placeholder' | 'dominantColor'>;
+}
+
+const parseDimensions = (dimensions?: string) => {
+  const match = dimensions?.match(/^(\d+)x(\d+)$/);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : undefined;
+};
+
+/**
+ * <img> se srcset ze zmenšenin v knihovně médií. Cizí URL (Unsplash, YouTube)
+ * a obrázky bez zmenšenin se vykreslí beze změny. Přijímá i animační props framer-motion.
+ */
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ src, sizes, placeholder, style, onLoad, ...props }) => {
+  const index = useImageIndex([src]);
+  const [decoded, setDecoded] = useState(false);
+  useEffect(() => setDecoded(false), [src]);
+
+  const srcSet = srcSetFor(variantsFor(index, src));
+  const indexed = placeholder ? previewFor(index, src) : undefined;
+  const preview = typeof placeholder === 'object' && (placeholder.placeholder || placeholder.dominantColor) ? placeholder : indexed;
+  // Rozměry drží poměr stran i u obrázku bez pevné velikosti (lightbox), než se načte
+  const size = placeholder && !props.width && !props.height ? parseDimensions(indexed?.dimensions) : undefined;
+
+  const placeholderStyle = preview && !decoded ? {
+    backgroundColor: preview.dominantColor,
+    backgroundImage: preview.placeholder ? `url("${preview.placeholder}")` : undefined,
+    backgroundSize: 'cover',
+    backgroundPosition: 'center'
+  } : undefined;
+
+  return (
+    <motion.img
+      src={src}
+      srcSet={srcSet}
+      sizes={srcSet ? sizes : undefined}
+      {...size}
+      {...props}
+      style={{ ...placeholderStyle, ...style }}
+      onLoad={e => {
+        onLoad?.(e);
+        if (placeholder) whenDecoded(e.currentTarget).then(() => setDecoded(true));
+      }}
+    />
+  );
+};
+
+export default ResponsiveImage;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, X, ArrowRight, ExternalLink } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SPECIALIZATIONS } from '../constants';
+import { blogDB, projectDB } from '../lib/db';
+import { isPublished } from '../lib/publishing';
+import { SEARCH_KIND_LABELS, SearchDocument, SearchResult, buildSearchIndex, search } from '../lib/search';
+
+interface SearchOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SearchOverlay: React.FC<SearchOverlayProps> = ({ isOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<SearchDocument[]>(() => buildSearchIndex({ specializations: SPECIALIZATIONS }));
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    setTimeout(() => inputRef.current?.focus(), 50);
+    // Index se skládá při každém otevření z cache repozitářů – čerstvý obsah bez dalšího dotazu
+    const load = async () => {
+      const [projects, posts] = await Promise.all([projectDB.getAll(), blogDB.getAll()]);
+      setIndex(buildSearchIndex({
+        projects: projects.filter(p => isPublished(p)),
+        posts: posts.filter(p => isPublished(p)),
+        specializations: SPECIALIZATIONS
+      }));
+    };
+    load().catch(err => console.error('Search index load error:', err));
+  }, [isOpen]);
+
+  const results = useMemo(() => search(index, query, 12), [index, query]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  const open = (result: SearchResult) => {
+    if (result.doc.externalUrl) {
+      window.open(result.doc.externalUrl, '_blank');
+    } else {
+      navigate(result.doc.path);
+    }
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      open(results[activeIndex]);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-start justify-center p-4 pt-[12vh]"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: -20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: -20, opacity: 0 }}
+            className="bg-white w-full max-w-2xl shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center gap-4 px-6 border-b border-gray-100">
+              <Search size={20} className="text-[#007BFF] shrink-0" />
+              <input
+                ref={inputRef}
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Hledat projekty, články, specializace…"
+                className="flex-grow py-6 text-lg font-bold text-black outline-none bg-transparent"
+              />
+              <button onClick={onClose} className="text-gray-400 hover:text-black transition-colors" title="Zavřít (Esc)">
+                <X size={22} />
+              </button>
+            </div>
+
+            <div className="max-h-[60vh] overflow-y-auto">
+              {query.trim() && results.length === 0 && (
+                <p className="px-6 py-10 text-center text-[10px] font-black uppercase tracking-widest text-gray-400">
+                  Nic nenalezeno
+                </p>
+              )}
+              {results.map((result, i) => (
+                <button
+                  key={`${result.doc.kind}-${result.doc.id}`}
+                  onClick={() => open(result)}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  className={`w-full text-left px-6 py-4 flex items-center gap-4 border-b border-gray-50 transition-colors ${i === activeIndex ? 'bg-gray-50' : ''}`}
+                >
+                  {result.doc.image ? (
+                    <img src={result.doc.image} alt="" className="w-14 h-14 object-cover shrink-0 bg-gray-100" />
+                  ) : (
+                    <div className="w-14 h-14 shrink-0 bg-gray-100" />
+                  )}
+                  <div className="min-w-0 flex-grow">
+                    <span className="text-[8px] font-black uppercase tracking-[0.3em] text-[#007BFF]">
+                      {SEARCH_KIND_LABELS[result.doc.kind]}
+                    </span>
+                    <p className="font-black text-sm uppercase tracking-tight text-black truncate">{result.doc.title}</p>
+                    {result.snippet && result.snippet !== result.doc.title && (
+                      <p className="text-xs text-gray-500 line-clamp-2">{result.snippet}</p>
+                    )}
+                  </div>
+                  {result.doc.externalUrl
+                    ? <ExternalLink size={16} className="text-gray-300 shrink-0" />
+                    : <ArrowRight size={16} className={`shrink-0 ${i === activeIndex ? 'text-[#007BFF]' : 'text-gray-300'}`} />}
+                </button>
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SearchOverlay;
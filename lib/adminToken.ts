@@ -0,0 +1,13 @@
+// Klíč pro serverové funkce (upload do R2, obnova ze zálohy) – viz netlify/lib/adminAuth.ts.
+// Drží se jen v prohlížeči administrátora, do buildu se nedostane.
+
+const ADMIN_TOKEN_KEY = 'jakub_minka_admin_token';
+
+export const adminToken = () => localStorage.getItem(ADMIN_TOKEN_KEY) || '';
+
+export const setAdminToken = (token: string) => {
+  if (token) localStorage.setItem(ADMIN_TOKEN_KEY, token);
+  else localStorage.removeItem(ADMIN_TOKEN_KEY);
+};
+
+export const adminHeaders = (): Record<string, string> => ({ 'X-Admin-Token': adminToken() });
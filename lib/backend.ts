@@ -0,0 +1,81 @@
+// Datový backend za repozitáři. Supabase je výchozí; `localStorage` a `memory` slouží
+// pro vývoj a běh webu bez připojení (se seed daty). Volba přes DATA_BACKEND v .env.local.
+
+import { MemoryBackend, LocalStorageBackend } from './backends/memory';
+import { SupabaseBackend } from './backends/supabase';
+
+export type Row = Record<string, any>;
+
+export type RowFilter =
+  | { column: string; op: 'eq'; value: string | number | boolean }
+  | { column: string; op: 'in'; value: (string | number)[] }
+  | { column: string; op: 'is'; value: null }
+  | { column: string; op: 'notNull' }
+  | { column: string; op: 'lte'; value: string | number }
+  // Splněna stačí jedna z podmínek (OR)
+  | { op: 'any'; filters: RowFilter[] };
+
+export interface SelectSpec {
+  // Jen vybrané sloupce; bez nich celý řádek
+  columns?: string[];
+  filters?: RowFilter[];
+  // Hledání podřetězce bez ohledu na velikost písmen a diakritiku v kterémkoli ze sloupců.
+  // `foldedColumn` = sloupec s jejich textem už bez diakritiky (databáze ji sama neignoruje)
+  search?: { columns: string[]; term: string; foldedColumn?: string };
+  orderBy?: { column: string; ascending: boolean }[];
+  // Keyset kurzor: řádky za (hodnota prvního řadicího sloupce, id). Řazení pak musí končit sloupcem id.
+  after?: { value: string | number | null; id: string };
+  limit?: number;
+}
+
+export interface ColumnInfo {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+}
+
+export type BackendName = 'supabase' | 'localStorage' | 'memory';
+
+export interface BackendAdapter {
+  readonly name: BackendName;
+  // false = data žijí jen v prohlížeči (žádný cloud)
+  readonly remote: boolean;
+  ping(): Promise<boolean>;
+  select(table: string, spec?: SelectSpec): Promise<Row[]>;
+  // Počet všech řádků tabulky – kontrola, že stránkované čtení nic nevynechalo
+  count(table: string): Promise<number>;
+  getById(table: string, id: string): Promise<Row | null>;
+  upsert(table: string, row: Row): Promise<Row>;
+  // S `expectedVersion` se zapíše jen tehdy, když updated_at sedí; jinak vrací null
+  update(table: string, id: string, patch: Row, options?: { expectedVersion?: string | null }): Promise<Row | null>;
+  remove(table: string, id: string): Promise<void>;
+  // Nahradí celý obsah uvedených tabulek najednou – buď projde všechno, nebo nic (obnova ze zálohy)
+  replaceTables(tables: Record<string, Row[]>): Promise<void>;
+  listColumns(): Promise<ColumnInfo[] | null>;
+  subscribe?(table: string, onChange: (id: string | null) => void): () => void;
+}
+
+const createBackend = (): BackendAdapter => {
+  const configured = (process.env.DATA_BACKEND || 'supabase').toLowerCase();
+  switch (configured) {
+    case 'memory': return new MemoryBackend();
+    case 'local':
+    case 'localstorage': return new LocalStorageBackend();
+    case 'supabase': return new SupabaseBackend();
+    default:
+      console.warn(`Unknown DATA_BACKEND "${configured}", using Supabase`);
+      return new SupabaseBackend();
+  }
+};
+
+let backend: BackendAdapter | null = null;
+
+export const getBackend = (): BackendAdapter => {
+  if (!backend) backend = createBackend();
+  return backend;
+};
+
+// Pro testy a nástroje – přepne backend za běhu.
+export const setBackend = (next: BackendAdapter) => {
+  backend = next;
+};
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { LocalStorageBackend, MemoryBackend } from './memory';
+
+const rows = () => ({
+  projects: [
+    { id: 'a', title: 'Interiér', year: 2024, deleted_at: null },
+    { id: 'b', title: 'Svatba', year: null, deleted_at: null },
+    { id: 'c', title: 'Portrét', year: 2022, deleted_at: '2026-01-01T00:00:00.000Z' },
+    { id: 'd', title: 'Krajina', year: 2024, deleted_at: null }
+  ]
+});
+
+describe('MemoryBackend', () => {
+  it('filtruje jako Postgres: eq, in, is, notNull, lte i OR', async () => {
+    const db = new MemoryBackend(rows());
+    const ids = async (filters: any[]) => (await db.select('projects', { filters })).map(r => r.id);
+
+    expect(await ids([{ column: 'year', op: 'eq', value: 2024 }])).toEqual(['a', 'd']);
+    expect(await ids([{ column: 'id', op: 'in', value: ['b', 'c'] }])).toEqual(['b', 'c']);
+    expect(await ids([{ column: 'deleted_at', op: 'is', value: null }])).toEqual(['a', 'b', 'd']);
+    expect(await ids([{ column: 'deleted_at', op: 'notNull' }])).toEqual(['c']);
+    expect(await ids([{ column: 'year', op: 'lte', value: 2023 }])).toEqual(['c']);
+    expect(await ids([{ op: 'any', filters: [{ column: 'id', op: 'eq', value: 'a' }, { column: 'year', op: 'is', value: null }] }]))
+      .toEqual(['a', 'b']);
+  });
+
+  it('NULL řadí na konec vzestupně a na začátek sestupně', async () => {
+    const db = new MemoryBackend(rows());
+    const order = async (ascending: boolean) =>
+      (await db.select('projects', { orderBy: [{ column: 'year', ascending }, { column: 'id', ascending }] })).map(r => r.id);
+
+    expect(await order(true)).toEqual(['c', 'a', 'd', 'b']);
+    expect(await order(false)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('keyset stránkování navazuje za kurzorem bez přeskakování', async () => {
+    const db = new MemoryBackend(rows());
+    const orderBy = [{ column: 'title', ascending: true }, { column: 'id', ascending: true }];
+    const first = await db.select('projects', { orderBy, limit: 2 });
+    const last = first[first.length - 1];
+    const second = await db.select('projects', { orderBy, limit: 2, after: { value: last.title, id: last.id } });
+
+    expect([...first, ...second].map(r => r.title)).toEqual(['Interiér', 'Krajina', 'Portrét', 'Svatba']);
+  });
+
+  it('hledá bez ohledu na diakritiku a vrací jen vybrané sloupce', async () => {
+    const db = new MemoryBackend(rows());
+    const found = await db.select('projects', { search: { columns: ['title'], term: 'interier' }, columns: ['id', 'title'] });
+    expect(found).toEqual([{ id: 'a', title: 'Interiér' }]);
+  });
+
+  it('vrací kopie – úprava výsledku nezmění uložená data', async () => {
+    const db = new MemoryBackend(rows());
+    const [row] = await db.select('projects', { filters: [{ column: 'id', op: 'eq', value: 'a' }] });
+    row.title = 'Změněno';
+    expect((await db.getById('projects', 'a'))?.title).toBe('Interiér');
+  });
+
+  it('nový záznam dostane časová razítka, update s cizí verzí neprojde', async () => {
+    const db = new MemoryBackend({ projects: [] });
+    const saved = await db.upsert('projects', { id: 'n', title: 'Nový' });
+    expect(saved.created_at).toBeTruthy();
+    expect(saved.updated_at).toBe(saved.created_at);
+
+    expect(await db.update('projects', 'n', { title: 'Jinak' }, { expectedVersion: '2000-01-01T00:00:00.000Z' })).toBeNull();
+    expect((await db.update('projects', 'n', { title: 'Jinak' }, { expectedVersion: saved.updated_at }))?.title).toBe('Jinak');
+    expect(await db.update('projects', 'chybi', { title: 'X' })).toBeNull();
+  });
+
+  it('replaceTables nahradí jen uvedené tabulky', async () => {
+    const db = new MemoryBackend({ ...rows(), blog: [{ id: 'x' }] });
+    await db.replaceTables({ projects: [{ id: 'z' }] });
+    expect((await db.select('projects')).map(r => r.id)).toEqual(['z']);
+    expect(await db.count('blog')).toBe(1);
+  });
+});
+
+describe('LocalStorageBackend', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('data přežijí nové vytvoření backendu', async () => {
+    await new LocalStorageBackend().upsert('projects', { id: 'trvaly', title: 'Zůstane' });
+    expect((await new LocalStorageBackend().getById('projects', 'trvaly'))?.title).toBe('Zůstane');
+  });
+
+  it('s poškozenými daty začne znovu ze seedu', async () => {
+    localStorage.setItem('jakub_minka_local_db', '{nevalidní');
+    const db = new LocalStorageBackend();
+    expect(await db.count('projects')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,165 @@
+import type { BackendAdapter, ColumnInfo, Row, RowFilter, SelectSpec } from '../backend';
+import { createSeedData } from '../seed';
+import { foldText } from '../search';
+
+type Tables = Record<string, Row[]>;
+
+const STORAGE_KEY = 'jakub_minka_local_db';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Stejně jako Postgres: NULL je větší než cokoli, takže vzestupně končí na konci a sestupně na začátku.
+const compare = (a: any, b: any) => {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull === bNull ? 0 : aNull ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const sa = String(a);
+  const sb = String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+};
+
+const sameVersion = (a: unknown, b: string) =>
+  typeof a === 'string' && new Date(a).getTime() === new Date(b).getTime();
+
+const matches = (row: Row, filter: RowFilter): boolean => {
+  if (filter.op === 'any') return filter.filters.some(f => matches(row, f));
+  const value = row[filter.column];
+  switch (filter.op) {
+    case 'eq': return value === filter.value;
+    case 'in': return filter.value.includes(value);
+    case 'is': return value === null || value === undefined;
+    case 'notNull': return value !== null && value !== undefined;
+    case 'lte': return value !== null && value !== undefined && compare(value, filter.value) <= 0;
+  }
+};
+
+/**
+ * Celá databáze v paměti záložky, naplněná seed daty. Po reloadu začíná znovu –
+ * vhodné pro vývoj a ukázky. Trvalejší varianta je LocalStorageBackend níže.
+ */
+export class MemoryBackend implements BackendAdapter {
+  readonly name: 'memory' | 'localStorage' = 'memory';
+  readonly remote = false;
+  protected tables: Tables;
+
+  constructor(initial?: Tables) {
+    this.tables = initial ?? createSeedData();
+  }
+
+  // Po každém zápisu; v paměti není co ukládat
+  protected persist() {}
+
+  private rows(table: string): Row[] {
+    if (!this.tables[table]) this.tables[table] = [];
+    return this.tables[table];
+  }
+
+  async ping() {
+    return true;
+  }
+
+  async select(table: string, spec: SelectSpec = {}): Promise<Row[]> {
+    let result = this.rows(table).filter(row => (spec.filters || []).every(f => matches(row, f)));
+
+    const term = spec.search && foldText(spec.search.term);
+    if (term) {
+      result = result.filter(row => spec.search!.columns.some(c => foldText(String(row[c] ?? '')).includes(term)));
+    }
+
+    const order = spec.orderBy || [];
+    const sorted = [...result].sort((a, b) => {
+      for (const { column, ascending } of order) {
+        const diff = compare(a[column], b[column]);
+        if (diff !== 0) return ascending ? diff : -diff;
+      }
+      return 0;
+    });
+
+    let page = sorted;
+    if (spec.after && order[0]) {
+      const { column, ascending } = order[0];
+      const after = spec.after;
+      page = sorted.filter(row => {
+        const diff = compare(row[column], after.value) || compare(row.id, after.id);
+        return ascending ? diff > 0 : diff < 0;
+      });
+    }
+
+    const limited = spec.limit !== undefined ? page.slice(0, spec.limit) : page;
+    const columns = spec.columns;
+    return clone(columns ? limited.map(row => Object.fromEntries(columns.map(c => [c, row[c]]))) : limited);
+  }
+
+  async count(table: string): Promise<number> {
+    return this.rows(table).length;
+  }
+
+  async getById(table: string, id: string): Promise<Row | null> {
+    const row = this.rows(table).find(r => r.id === id);
+    return row ? clone(row) : null;
+  }
+
+  async upsert(table: string, row: Row): Promise<Row> {
+    const rows = this.rows(table);
+    const now = new Date().toISOString();
+    const index = rows.findIndex(r => r.id === row.id);
+    const saved = index >= 0
+      ? { ...rows[index], ...clone(row) }
+      : { created_at: now, updated_at: now, ...clone(row) };
+    if (index >= 0) rows[index] = saved;
+    else rows.push(saved);
+    this.persist();
+    return clone(saved);
+  }
+
+  async update(table: string, id: string, patch: Row, options?: { expectedVersion?: string | null }): Promise<Row | null> {
+    const rows = this.rows(table);
+    const index = rows.findIndex(r => r.id === id);
+    if (index < 0) return null;
+    if (options?.expectedVersion && !sameVersion(rows[index].updated_at, options.expectedVersion)) return null;
+    rows[index] = { ...rows[index], ...clone(patch) };
+    this.persist();
+    return clone(rows[index]);
+  }
+
+  async remove(table: string, id: string): Promise<void> {
+    this.tables[table] = this.rows(table).filter(r => r.id !== id);
+    this.persist();
+  }
+
+  async replaceTables(tables: Record<string, Row[]>): Promise<void> {
+    this.tables = { ...this.tables, ...clone(tables) };
+    this.persist();
+  }
+
+  // Bez skutečné databáze není co porovnávat se schématem
+  async listColumns(): Promise<ColumnInfo[] | null> {
+    return null;
+  }
+}
+
+// Stejné chování jako MemoryBackend, ale data přežijí reload (jedna záložka = jeden prohlížeč).
+export class LocalStorageBackend extends MemoryBackend {
+  readonly name = 'localStorage' as const;
+
+  constructor() {
+    let stored: Tables | undefined;
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      stored = raw ? JSON.parse(raw) : undefined;
+    } catch (err) {
+      console.warn('Local database is corrupted, starting from seed data:', err);
+    }
+    super(stored);
+    if (!stored) this.persist();
+  }
+
+  protected persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.tables));
+    } catch (err) {
+      console.error('Local database write failed:', err);
+    }
+  }
+}
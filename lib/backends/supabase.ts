@@ -0,0 +1,140 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../../src/supabaseClient';
+import type { BackendAdapter, ColumnInfo, Row, RowFilter, SelectSpec } from '../backend';
+import { adminHeaders } from '../adminToken';
+import { foldText } from '../search';
+
+const RESTORE_ENDPOINT = '/.netlify/functions/restore-backup';
+
+// Hodnoty uvnitř PostgREST `or(...)` musí být v uvozovkách, jinak je rozbije čárka nebo tečka.
+const quote = (value: string | number) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Podmínka ve tvaru pro PostgREST `or(...)`
+const orCondition = (filter: RowFilter): string => {
+  switch (filter.op) {
+    case 'eq': return `${filter.column}.eq.${quote(String(filter.value))}`;
+    case 'in': return `${filter.column}.in.(${filter.value.map(quote).join(',')})`;
+    case 'is': return `${filter.column}.is.null`;
+    case 'notNull': return `${filter.column}.not.is.null`;
+    case 'lte': return `${filter.column}.lte.${quote(filter.value)}`;
+    case 'any': return `or(${filter.filters.map(orCondition).join(',')})`;
+  }
+};
+
+export class SupabaseBackend implements BackendAdapter {
+  readonly name = 'supabase' as const;
+  readonly remote = true;
+
+  async ping(): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('blog').select('id').limit(1);
+      return !error;
+    } catch (err) {
+      console.warn('Supabase connection error:', err);
+      return false;
+    }
+  }
+
+  async select(table: string, spec: SelectSpec = {}): Promise<Row[]> {
+    let request = supabase.from(table).select(spec.columns?.join(',') || '*');
+    for (const filter of spec.filters || []) {
+      if (filter.op === 'eq') request = request.eq(filter.column, filter.value);
+      else if (filter.op === 'in') request = request.in(filter.column, filter.value);
+      else if (filter.op === 'is') request = request.is(filter.column, null);
+      else if (filter.op === 'notNull') request = request.not(filter.column, 'is', null);
+      else if (filter.op === 'lte') request = request.lte(filter.column, filter.value);
+      else request = request.or(filter.filters.map(orCondition).join(','));
+    }
+
+    if (spec.search?.term && spec.search.foldedColumn) {
+      request = request.ilike(spec.search.foldedColumn, `%${foldText(spec.search.term)}%`);
+    } else if (spec.search && spec.search.term && spec.search.columns.length > 0) {
+      request = request.or(spec.search.columns.map(c => `${c}.ilike.*${spec.search!.term}*`).join(','));
+    }
+
+    const order = spec.orderBy?.[0];
+    if (order && spec.after) {
+      const { column, ascending } = order;
+      const op = ascending ? 'gt' : 'lt';
+      const afterId = `id.${op}.${quote(spec.after.id)}`;
+      // Postgres řadí NULL vzestupně na konec a sestupně na začátek
+      if (spec.after.value === null) {
+        request = request.or(ascending
+          ? `and(${column}.is.null,${afterId})`
+          : `and(${column}.is.null,${afterId}),${column}.not.is.null`);
+      } else {
+        const v = quote(spec.after.value);
+        request = request.or(`${column}.${op}.${v},and(${column}.eq.${v},${afterId})${ascending ? `,${column}.is.null` : ''}`);
+      }
+    }
+
+    for (const { column, ascending } of spec.orderBy || []) request = request.order(column, { ascending });
+    if (spec.limit !== undefined) request = request.limit(spec.limit);
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async count(table: string): Promise<number> {
+    const { count, error } = await supabase.from(table).select('id', { count: 'exact', head: true });
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  async getById(table: string, id: string): Promise<Row | null> {
+    const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async upsert(table: string, row: Row): Promise<Row> {
+    const { data, error } = await supabase.from(table).upsert(row, { onConflict: 'id' }).select();
+    if (error) throw error;
+    return data?.[0] ?? row;
+  }
+
+  async update(table: string, id: string, patch: Row, options?: { expectedVersion?: string | null }): Promise<Row | null> {
+    let request = supabase.from(table).update(patch).eq('id', id);
+    if (options?.expectedVersion) request = request.eq('updated_at', options.expectedVersion);
+    const { data, error } = await request.select();
+    if (error) throw error;
+    return data?.[0] ?? null;
+  }
+
+  async remove(table: string, id: string): Promise<void> {
+    const { error } = await supabase.from(table).delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  // Transakci drží funkce restore_backup z migrace 0008; anon ji volat nesmí,
+  // takže jde přes Netlify funkci se service role klíčem
+  async replaceTables(tables: Record<string, Row[]>): Promise<void> {
+    const response = await fetch(RESTORE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...adminHeaders() },
+      body: JSON.stringify({ payload: tables })
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({ error: 'Obnova ze zálohy selhala' }));
+      throw new Error(err.error || 'Obnova ze zálohy selhala');
+    }
+  }
+
+  async listColumns(): Promise<ColumnInfo[] | null> {
+    const { data, error } = await supabase.rpc('schema_columns');
+    if (error) throw new Error(`Nelze načíst sloupce databáze (chybí migrace 0005?): ${error.message}`);
+    return data || [];
+  }
+
+  subscribe(table: string, onChange: (id: string | null) => void): () => void {
+    const channel: RealtimeChannel = supabase
+      .channel(`db-${table}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+        const row = (payload.new && 'id' in payload.new ? payload.new : payload.old) as { id?: string };
+        onChange(row?.id ?? null);
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT, parseBackup } from './backup';
+import { ValidationError } from './schema';
+
+const projectRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: 'Svatba',
+  category_id: 'wedding',
+  type: 'image',
+  ...overrides
+});
+
+const backupText = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  format: BACKUP_FORMAT,
+  version: 1,
+  schemaVersion: 0,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  tables: { projects: [projectRow('p1')], web_settings: [{ id: 'web_settings', theme: 'dark' }] },
+  ...overrides
+});
+
+const issuesOf = (text: string): string[] => {
+  try {
+    parseBackup(text);
+    return [];
+  } catch (err) {
+    if (err instanceof ValidationError) return err.issues;
+    throw err;
+  }
+};
+
+describe('parseBackup', () => {
+  it('načte platnou zálohu', () => {
+    const backup = parseBackup(backupText());
+    expect(backup.tables.projects).toHaveLength(1);
+    expect(backup.storage).toEqual([]);
+  });
+
+  it('odmítne soubor, který není JSON', () => {
+    expect(() => parseBackup('{')).toThrow(ValidationError);
+    expect(issuesOf('{')).toEqual(['soubor není platný JSON']);
+  });
+
+  it('odmítne cizí formát a novější verzi', () => {
+    expect(issuesOf(backupText({ format: 'jiny' }))).toEqual(['soubor není záloha tohoto webu']);
+    expect(issuesOf(backupText({ version: 99 }))[0]).toMatch(/novější formát/);
+    expect(issuesOf(backupText({ schemaVersion: 9999 }))[0]).toMatch(/novějšího schématu/);
+  });
+
+  it('odmítne zálohu bez tabulek', () => {
+    expect(issuesOf(backupText({ tables: undefined }))).toEqual(['chybí data tabulek']);
+  });
+
+  it('hlásí neznámé tabulky, chybějící a duplicitní id', () => {
+    const issues = issuesOf(backupText({
+      tables: { projects: [projectRow('p1'), projectRow('p1'), { title: 'Bez id' }], users: [] }
+    }));
+    expect(issues).toContain('neznámá tabulka "users"');
+    expect(issues).toContain('projects: duplicitní id "p1"');
+    expect(issues).toContain('projects[2]: chybí id');
+  });
+
+  it('řádky kontroluje stejnou validací jako při ukládání', () => {
+    const issues = issuesOf(backupText({ tables: { projects: [projectRow('p1', { title: '' })] } }));
+    expect(issues).toEqual(['projects/p1: pole "title" je povinné']);
+  });
+});
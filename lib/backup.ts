@@ -0,0 +1,213 @@
+import { Row, getBackend } from './backend';
+import { getOutboxEntries } from './outbox';
+import { notifyChange } from './realtime';
+import { diffSnapshots } from './revisions';
+import { SCHEMA_VERSION } from './migrations';
+import { EntitySchema, ValidationError, blogSchema, fromRow, inquirySchema, mediaSchema, partnerSchema, projectSchema, reviewSchema, validateEntity } from './schema';
+import { blogDB, dataStore, inquiryDB, mediaDB, partnerDB, projectDB, reviewDB } from './db';
+
+export const BACKUP_FORMAT = 'jakub-minka-backup';
+export const BACKUP_VERSION = 1;
+
+export interface StorageManifestEntry {
+  mediaId: string;
+  name: string;
+  provider: 'supabase' | 'r2';
+  key: string;
+  url: string;
+  size?: string;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: string;
+  tables: Record<string, Row[]>;
+  // Samotné soubory v záloze nejsou – jen klíče objektů v úložišti, ke kterým záznamy odkazují
+  storage: StorageManifestEntry[];
+}
+
+export interface TableDiff {
+  table: string;
+  label: string;
+  added: string[];
+  changed: { id: string; fields: string[] }[];
+  removed: string[];
+}
+
+// Pořadí určuje i pořadí v náhledu obnovy
+const ENTITY_SCHEMAS: EntitySchema<any>[] = [projectSchema, blogSchema, inquirySchema, reviewSchema, partnerSchema, mediaSchema];
+const SETTINGS_TABLE = 'web_settings';
+
+export const BACKUP_TABLES = [...ENTITY_SCHEMAS.map(s => s.table), SETTINGS_TABLE];
+
+const labelFor = (table: string) => ENTITY_SCHEMAS.find(s => s.table === table)?.label ?? 'Nastavení webu';
+
+// PostgREST vrátí nejvýš max-rows řádků (na Supabase 1000) a zbytek tiše zahodí. Tabulka se proto
+// čte po stránkách přes keyset kurzor a počet se porovná s count – neúplná záloha by při obnově
+// smazala i řádky, které v ní chybí.
+const PAGE_SIZE = 500;
+
+const readTable = async (table: string): Promise<Row[]> => {
+  const backend = getBackend();
+  const expected = await backend.count(table);
+  const rows: Row[] = [];
+  for (;;) {
+    const last = rows[rows.length - 1];
+    const page = await backend.select(table, {
+      orderBy: [{ column: 'id', ascending: true }],
+      after: last ? { value: last.id, id: last.id } : undefined,
+      limit: PAGE_SIZE
+    });
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  if (rows.length < expected) {
+    throw new Error(`${labelFor(table)}: načteno ${rows.length} z ${expected} řádků – záloha by nebyla úplná`);
+  }
+  return rows;
+};
+
+const storageManifest = (mediaRows: Row[]): StorageManifestEntry[] =>
+  mediaRows
+    .filter(row => row.type !== 'folder' && row.specialization_id && row.url && !String(row.url).startsWith('data:'))
+    .map(row => ({
+      mediaId: row.id,
+      name: row.name,
+      provider: String(row.url).includes('/storage/v1/object/') ? 'supabase' as const : 'r2' as const,
+      key: row.specialization_id,
+      url: row.url,
+      size: row.size ?? undefined
+    }));
+
+// Exportují se syrové řádky včetně položek v koši, aby obnova vrátila databázi přesně do stavu zálohy.
+export const createBackup = async (): Promise<BackupFile> => {
+  const tables: Record<string, Row[]> = {};
+  for (const table of BACKUP_TABLES) tables[table] = await readTable(table);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    tables,
+    storage: storageManifest(tables[mediaSchema.table])
+  };
+};
+
+export const downloadBackup = (backup: BackupFile) => {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `minka_backup_${backup.createdAt.split('T')[0]}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Kontrola souboru zálohy před obnovou: formát, verze schématu, id u všech řádků
+ * a validace entit stejnými pravidly jako při běžném ukládání.
+ */
+export const parseBackup = (text: string): BackupFile => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ValidationError('Záloha', ['soubor není platný JSON']);
+  }
+
+  const issues: string[] = [];
+  if (raw?.format !== BACKUP_FORMAT) issues.push('soubor není záloha tohoto webu');
+  else if (raw.version > BACKUP_VERSION) issues.push(`záloha má novější formát (${raw.version}) než aplikace`);
+  if (typeof raw?.schemaVersion === 'number' && raw.schemaVersion > SCHEMA_VERSION) {
+    issues.push(`záloha pochází z novějšího schématu databáze (${raw.schemaVersion} > ${SCHEMA_VERSION})`);
+  }
+  if (!raw?.tables || typeof raw.tables !== 'object') issues.push('chybí data tabulek');
+  if (issues.length > 0) throw new ValidationError('Záloha', issues);
+
+  for (const table of Object.keys(raw.tables)) {
+    if (!BACKUP_TABLES.includes(table)) issues.push(`neznámá tabulka "${table}"`);
+  }
+  for (const table of BACKUP_TABLES) {
+    const rows = raw.tables[table];
+    if (rows === undefined) continue;
+    if (!Array.isArray(rows)) {
+      issues.push(`${table}: data nejsou seznam řádků`);
+      continue;
+    }
+    const ids = new Set<string>();
+    const schema = ENTITY_SCHEMAS.find(s => s.table === table);
+    rows.forEach((row: any, index: number) => {
+      if (!row || typeof row.id !== 'string' || !row.id) {
+        issues.push(`${table}[${index}]: chybí id`);
+        return;
+      }
+      if (ids.has(row.id)) issues.push(`${table}: duplicitní id "${row.id}"`);
+      ids.add(row.id);
+      if (!schema) return;
+      try {
+        validateEntity(schema, fromRow(schema, row));
+      } catch (err) {
+        if (err instanceof ValidationError) issues.push(`${table}/${row.id}: ${err.issues.join('; ')}`);
+        else throw err;
+      }
+    });
+  }
+  if (issues.length > 0) throw new ValidationError('Záloha', issues);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    schemaVersion: raw.schemaVersion ?? 0,
+    createdAt: raw.createdAt || '',
+    tables: raw.tables,
+    storage: Array.isArray(raw.storage) ? raw.storage : []
+  };
+};
+
+// Náhled obnovy (dry run) – co záloha přidá, změní a odstraní oproti současným datům.
+export const diffBackup = async (backup: BackupFile): Promise<TableDiff[]> => {
+  const result: TableDiff[] = [];
+  for (const table of BACKUP_TABLES) {
+    const incoming = backup.tables[table];
+    if (!incoming) continue;
+    const current = new Map((await readTable(table)).map(row => [row.id as string, row]));
+    const diff: TableDiff = { table, label: labelFor(table), added: [], changed: [], removed: [] };
+    for (const row of incoming) {
+      const existing = current.get(row.id);
+      if (!existing) {
+        diff.added.push(row.id);
+        continue;
+      }
+      const fields = diffSnapshots(existing, row).map(change => change.field);
+      if (fields.length > 0) diff.changed.push({ id: row.id, fields });
+      current.delete(row.id);
+    }
+    diff.removed = [...current.keys()];
+    result.push(diff);
+  }
+  return result;
+};
+
+export const hasChanges = (diff: TableDiff[]) =>
+  diff.some(d => d.added.length > 0 || d.changed.length > 0 || d.removed.length > 0);
+
+/**
+ * Obnova ze zálohy. Backend nahradí všechny tabulky v jedné transakci; poté se
+ * přenačtou lokální cache, aby admin i web hned viděly obnovený stav.
+ */
+export const applyBackup = async (backup: BackupFile): Promise<void> => {
+  const tables = BACKUP_TABLES.filter(t => backup.tables[t]);
+  // Neodeslané změny z outboxu by po obnově přepsaly data ze zálohy
+  const waiting = tables.filter(t => getOutboxEntries(t).length > 0);
+  if (waiting.length > 0) {
+    throw new Error(`Nejdřív vyřešte neodeslané změny (${waiting.map(labelFor).join(', ')}).`);
+  }
+
+  await getBackend().replaceTables(Object.fromEntries(tables.map(t => [t, backup.tables[t]])));
+
+  await Promise.all([projectDB, blogDB, inquiryDB, reviewDB, partnerDB, mediaDB].map(repo => repo.getAll({ force: true })));
+  await dataStore.doc(SETTINGS_TABLE).get();
+  tables.forEach(table => notifyChange(table));
+};
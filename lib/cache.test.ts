@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Row, SelectSpec, setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { LocalStorageCache, getCacheBackend } from './cache';
+import { projectDB } from './db';
+
+// Počítá dotazy na server; s `down` se tváří jako výpadek sítě
+class CountingBackend extends MemoryBackend {
+  selects = 0;
+  down = false;
+
+  async select(table: string, spec?: SelectSpec): Promise<Row[]> {
+    if (this.down) throw new TypeError('Failed to fetch');
+    this.selects++;
+    return super.select(table, spec);
+  }
+}
+
+let backend: CountingBackend;
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-05-01T12:00:00.000Z'));
+  backend = new CountingBackend({ projects: [{ id: 'p1', title: 'Svatba', category_id: 'wedding', type: 'image' }] });
+  setBackend(backend);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LocalStorageCache', () => {
+  it('prázdná kolekce vrací null a nulové razítko', async () => {
+    const cache = new LocalStorageCache();
+    expect(await cache.readAll('x')).toBeNull();
+    expect(await cache.getTimestamp('x')).toBe(0);
+  });
+
+  it('kompletní zápis nastaví razítko, dílčí zápisy ho neposouvají', async () => {
+    const cache = new LocalStorageCache();
+    await cache.replaceAll('x', [{ id: 'a' }, { id: 'b' }]);
+    const ts = await cache.getTimestamp('x');
+    expect(ts).toBe(Date.now());
+
+    vi.setSystemTime(Date.now() + 60_000);
+    await cache.put('x', [{ id: 'c' }, { id: 'b', name: 'B' } as { id: string }]);
+    await cache.remove('x', ['a']);
+
+    expect(await cache.readAll('x')).toEqual([{ id: 'c' }, { id: 'b', name: 'B' }]);
+    expect(await cache.getTimestamp('x')).toBe(ts);
+  });
+
+  it('bez IndexedDB je výchozí cache v localStorage', async () => {
+    expect((await getCacheBackend()).name).toBe('localStorage');
+  });
+});
+
+describe('cache v repozitáři', () => {
+  it('v rámci TTL se čte z cache, po jeho uplynutí znovu ze serveru', async () => {
+    await projectDB.getAll();
+    await projectDB.getAll({ ttlMs: 60_000 });
+    expect(backend.selects).toBe(1);
+
+    vi.setSystemTime(Date.now() + 60_001);
+    await projectDB.getAll({ ttlMs: 60_000 });
+    expect(backend.selects).toBe(2);
+  });
+
+  it('force obchází cache', async () => {
+    await projectDB.getAll();
+    await projectDB.getAll({ force: true });
+    expect(backend.selects).toBe(2);
+  });
+
+  it('bez spojení vrátí poslední stažená data', async () => {
+    await projectDB.getAll();
+    backend.down = true;
+
+    const items = await projectDB.getAll({ force: true });
+    expect(items.map(p => p.title)).toEqual(['Svatba']);
+  });
+
+  it('lokální zápis se propíše do cache bez nového stažení', async () => {
+    await projectDB.getAll();
+    await projectDB.update('p1', { title: 'Svatba v Praze' });
+
+    const items = await projectDB.getAll();
+    expect(items.map(p => p.title)).toEqual(['Svatba v Praze']);
+    expect(backend.selects).toBe(1);
+  });
+});
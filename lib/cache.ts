@@ -0,0 +1,205 @@
+// Lokální cache kolekcí. Výchozí je IndexedDB (záznam = jeden řádek, časové razítko per tabulka),
+// localStorage zůstává jen jako záloha tam, kde IndexedDB není k dispozici.
+
+export interface CacheBackend {
+  readonly name: string;
+  readAll(ns: string): Promise<any[] | null>;
+  getTimestamp(ns: string): Promise<number>;
+  replaceAll(ns: string, items: { id: string }[]): Promise<void>;
+  put(ns: string, items: { id: string }[]): Promise<void>;
+  remove(ns: string, ids: string[]): Promise<void>;
+}
+
+interface CachedRecord {
+  key: string;
+  ns: string;
+  id: string;
+  position: number;
+  data: any;
+}
+
+const DB_NAME = 'jakub_minka_cache';
+const DB_VERSION = 1;
+const RECORDS = 'records';
+const META = 'meta';
+
+const promisify = <R>(request: IDBRequest<R>) => new Promise<R>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(RECORDS)) {
+      db.createObjectStore(RECORDS, { keyPath: 'key' }).createIndex('ns', 'ns');
+    }
+    if (!db.objectStoreNames.contains(META)) {
+      db.createObjectStore(META, { keyPath: 'ns' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB blocked'));
+});
+
+export class LocalStorageCache implements CacheBackend {
+  readonly name = 'localStorage';
+
+  async readAll(ns: string): Promise<any[] | null> {
+    const cached = localStorage.getItem(ns);
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  async getTimestamp(ns: string): Promise<number> {
+    return Number(localStorage.getItem(`${ns}_ts`) || 0);
+  }
+
+  async replaceAll(ns: string, items: { id: string }[]): Promise<void> {
+    try {
+      localStorage.setItem(ns, JSON.stringify(items));
+      localStorage.setItem(`${ns}_ts`, Date.now().toString());
+    } catch (err) {
+      console.warn(`localStorage cache full, dropping ${ns}:`, err);
+      localStorage.removeItem(ns);
+      localStorage.removeItem(`${ns}_ts`);
+    }
+  }
+
+  async put(ns: string, items: { id: string }[]): Promise<void> {
+    const current = (await this.readAll(ns)) || [];
+    const added = items.filter(i => !current.some(c => c.id === i.id));
+    const next = current.map(c => items.find(i => i.id === c.id) || c);
+    await this.write(ns, [...added, ...next]);
+  }
+
+  async remove(ns: string, ids: string[]): Promise<void> {
+    const current = (await this.readAll(ns)) || [];
+    await this.write(ns, current.filter(i => !ids.includes(i.id)));
+  }
+
+  // Zápis bez posunu časového razítka – to patří jen kompletnímu stažení tabulky.
+  private async write(ns: string, items: any[]) {
+    try {
+      localStorage.setItem(ns, JSON.stringify(items));
+    } catch (err) {
+      console.warn(`localStorage cache full, dropping ${ns}:`, err);
+      localStorage.removeItem(ns);
+      localStorage.removeItem(`${ns}_ts`);
+    }
+  }
+}
+
+export class IndexedDBCache implements CacheBackend {
+  readonly name = 'IndexedDB';
+  private migrations = new Map<string, Promise<void>>();
+
+  constructor(private db: IDBDatabase) {}
+
+  // Data z dřívější localStorage cache se při prvním přístupu přestěhují a uvolní kvótu.
+  private migrateLegacy(ns: string): Promise<void> {
+    if (!this.migrations.has(ns)) this.migrations.set(ns, this.importLegacy(ns));
+    return this.migrations.get(ns)!;
+  }
+
+  private async importLegacy(ns: string) {
+    const legacy = localStorage.getItem(ns);
+    if (!legacy) return;
+    try {
+      const meta = await promisify(this.db.transaction(META).objectStore(META).get(ns));
+      if (!meta) {
+        await this.writeAll(ns, JSON.parse(legacy), Number(localStorage.getItem(`${ns}_ts`) || 0));
+      }
+    } catch (err) {
+      console.warn(`Legacy cache migration failed for ${ns}:`, err);
+    }
+    localStorage.removeItem(ns);
+    localStorage.removeItem(`${ns}_ts`);
+  }
+
+  private async records(ns: string): Promise<CachedRecord[]> {
+    const index = this.db.transaction(RECORDS).objectStore(RECORDS).index('ns');
+    const records = await promisify(index.getAll(IDBKeyRange.only(ns))) as CachedRecord[];
+    return records.sort((a, b) => a.position - b.position);
+  }
+
+  private async writeAll(ns: string, items: { id: string }[], ts: number) {
+    const existing = await this.records(ns);
+    const tx = this.db.transaction([RECORDS, META], 'readwrite');
+    const store = tx.objectStore(RECORDS);
+    existing.forEach(r => store.delete(r.key));
+    items.forEach((item, position) => store.put({ key: `${ns}:${item.id}`, ns, id: item.id, position, data: item }));
+    tx.objectStore(META).put({ ns, ts });
+    await transactionDone(tx);
+  }
+
+  async readAll(ns: string): Promise<any[] | null> {
+    await this.migrateLegacy(ns);
+    const meta = await promisify(this.db.transaction(META).objectStore(META).get(ns));
+    const records = await this.records(ns);
+    if (!meta && records.length === 0) return null;
+    return records.map(r => r.data);
+  }
+
+  async getTimestamp(ns: string): Promise<number> {
+    await this.migrateLegacy(ns);
+    const meta = await promisify(this.db.transaction(META).objectStore(META).get(ns));
+    return meta?.ts || 0;
+  }
+
+  async replaceAll(ns: string, items: { id: string }[]): Promise<void> {
+    await this.migrateLegacy(ns);
+    await this.writeAll(ns, items, Date.now());
+  }
+
+  // Nové záznamy jdou na začátek (stejně jako dřív `[item, ...local]`), existující si drží pořadí.
+  async put(ns: string, items: { id: string }[]): Promise<void> {
+    await this.migrateLegacy(ns);
+    const existing = await this.records(ns);
+    const positions = new Map(existing.map(r => [r.id, r.position]));
+    let first = existing.length > 0 ? existing[0].position : 0;
+    const tx = this.db.transaction(RECORDS, 'readwrite');
+    const store = tx.objectStore(RECORDS);
+    items.forEach(item => {
+      const position = positions.get(item.id) ?? --first;
+      store.put({ key: `${ns}:${item.id}`, ns, id: item.id, position, data: item });
+    });
+    await transactionDone(tx);
+  }
+
+  async remove(ns: string, ids: string[]): Promise<void> {
+    await this.migrateLegacy(ns);
+    const tx = this.db.transaction(RECORDS, 'readwrite');
+    const store = tx.objectStore(RECORDS);
+    ids.forEach(id => store.delete(`${ns}:${id}`));
+    await transactionDone(tx);
+  }
+}
+
+let backend: Promise<CacheBackend> | null = null;
+
+export const setCacheBackend = (next: CacheBackend) => {
+  backend = Promise.resolve(next);
+};
+
+export const getCacheBackend = (): Promise<CacheBackend> => {
+  if (!backend) {
+    backend = (async () => {
+      if (typeof indexedDB === 'undefined') return new LocalStorageCache();
+      try {
+        return new IndexedDBCache(await openDatabase());
+      } catch (err) {
+        console.warn('IndexedDB unavailable, falling back to localStorage cache:', err);
+        return new LocalStorageCache();
+      }
+    })();
+  }
+  return backend;
+};
@@ -1,175 +1,112 @@
-import { supabase } from '../src/supabaseClient';
-
-const DEFAULT_CACHE_TTL_MS = 30 * 60 * 1000;
-
-const writeCache = (cacheKey: string, items: any[]) => {
-  localStorage.setItem(cacheKey, JSON.stringify(items));
-  localStorage.setItem(`${cacheKey}_ts`, Date.now().toString());
-};
-
-const readCache = (cacheKey: string, ttlMs: number, force?: boolean): any[] | null => {
-  if (force) return null;
-  const cached = localStorage.getItem(cacheKey);
-  const cachedTs = Number(localStorage.getItem(`${cacheKey}_ts`) || 0);
-  if (cached && cachedTs && Date.now() - cachedTs < ttlMs) {
-    return JSON.parse(cached);
-  }
-  return null;
-};
+import { BlogPost, FileItem, Inquiry, Partner, Project, Review } from '../types';
+import { getBackend } from './backend';
+import { Repository, SaveOptions } from './repository';
+import { enqueueWrite, flushOutbox, getKnownVersion, getOutboxEntries, hasOutboxEntry, rememberVersions } from './outbox';
+import { notifyChange } from './realtime';
+import { diffSnapshots, recordRevision } from './revisions';
+import { ConflictError, blogSchema, inquirySchema, mediaSchema, partnerSchema, projectSchema, reviewSchema } from './schema';
+
+export { ConflictError, ValidationError } from './schema';
+export { getBackend } from './backend';
+export type { SaveOptions } from './repository';
+export { OUTBOX_EVENT, discardOutboxEntry, flushOutbox, getOutbox, getOutboxCounts, retryOutboxEntry } from './outbox';
+export type { OutboxEntry } from './outbox';
 
 export const checkSupabaseConnection = async (): Promise<boolean> => {
-  try {
-    const { data, error } = await supabase.from('blog').select('id').limit(1);
-    return !error;
-  } catch (err) {
-    console.warn('Supabase connection error:', err);
-    return false;
-  }
+  const connected = await getBackend().ping();
+  // Po obnovení spojení dohrajeme změny, které se uložily jen lokálně
+  if (connected) void flushOutbox();
+  return connected;
 };
 export const getSupabaseLimitStatus = () => false;
 export const resetSupabaseLimitStatus = () => {};
 
-export const optimizeImage = async (file: File, quality: number = 0.8, maxWidth: number = 2000): Promise<Blob> => {
-  return new Promise((resolve) => {
-    if (!file.type.startsWith('image/')) {
-      resolve(file);
-      return;
-    }
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      const img = new Image();
-      img.src = event.target?.result as string;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let width = img.width;
-        let height = img.height;
-        if (width > maxWidth) {
-          height = (maxWidth / width) * height;
-          width = maxWidth;
-        }
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        ctx?.drawImage(img, 0, 0, width, height);
-        canvas.toBlob((blob) => resolve(blob || file), 'image/jpeg', quality);
-      };
-    };
-  });
+// Lokální backendy nemají úložiště souborů – nahraný soubor se uloží přímo do záznamu jako data URL.
+export const readAsDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Řádek web_settings drží celý dokument ve sloupci `data` (migrace 0004).
+// Starší řádky s pevnými sloupci se čtou tak, jak jsou.
+const docFromRow = (row: any) => {
+  if (row?.data && typeof row.data === 'object') return { id: row.id, ...row.data };
+  return row;
 };
 
 class DataStore {
-  collection(tableName: string) {
-    const cacheKey = `jakub_minka_cache_${tableName}`;
-
-    return {
-      getAll: async (options?: { force?: boolean; ttlMs?: number }): Promise<any[]> => {
-        const ttlMs = options?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
-        const cached = readCache(cacheKey, ttlMs, options?.force);
-        if (cached) return cached;
-
-        try {
-          const { data, error } = await supabase.from(tableName).select('*').order('created_at', { ascending: false });
-          if (error) throw error;
-          const result = data || [];
-          writeCache(cacheKey, result);
-          return result;
-        } catch (err) {
-          console.warn(`Error fetching from Supabase ${tableName}:`, err);
-          const local = localStorage.getItem(cacheKey);
-          return local ? JSON.parse(local) : [];
-        }
-      },
-      save: async (item: any): Promise<any> => {
-        if (!item.id) item.id = crypto.randomUUID?.() || Date.now().toString();
-        try {
-          const { data, error } = await supabase.from(tableName).upsert({ ...item, id: item.id }, { onConflict: 'id', returning: 'representation' });
-          if (error) throw error;
-          const saved = data?.[0] || item;
-          const local = JSON.parse(localStorage.getItem(cacheKey) || '[]');
-          const updated = [saved, ...local.filter((i: any) => i.id !== item.id)];
-          writeCache(cacheKey, updated);
-          window.dispatchEvent(new Event('storage'));
-          return saved;
-        } catch (err) {
-          console.error(`Error saving to Supabase ${tableName}:`, err);
-          const local = JSON.parse(localStorage.getItem(cacheKey) || '[]');
-          const updated = [item, ...local.filter((i: any) => i.id !== item.id)];
-          writeCache(cacheKey, updated);
-          window.dispatchEvent(new Event('storage'));
-          return item;
-        }
-      },
-      delete: async (id: string): Promise<void> => {
-        try {
-          const { error } = await supabase.from(tableName).delete().eq('id', id);
-          if (error) throw error;
-          const local = JSON.parse(localStorage.getItem(cacheKey) || '[]');
-          const updated = local.filter((i: any) => i.id !== id);
-          writeCache(cacheKey, updated);
-          window.dispatchEvent(new Event('storage'));
-        } catch (err) {
-          console.error(`Error deleting from Supabase ${tableName}:`, err);
-          const local = JSON.parse(localStorage.getItem(cacheKey) || '[]');
-          const updated = local.filter((i: any) => i.id !== id);
-          writeCache(cacheKey, updated);
-          window.dispatchEvent(new Event('storage'));
-        }
-      },
-      update: async (id: string, data: any): Promise<any> => {
-        try {
-          const { data: updatedRows, error } = await supabase.from(tableName).update(data).eq('id', id).select();
-          if (error) throw error;
-          const local = JSON.parse(localStorage.getItem(cacheKey) || '[]');
-          const updated = local.map((i: any) => i.id === id ? { ...i, ...data } : i);
-          writeCache(cacheKey, updated);
-          window.dispatchEvent(new Event('storage'));
-          return updatedRows?.[0] || updated.find((i: any) => i.id === id);
-        } catch (err) {
-          console.error(`Error updating Supabase ${tableName}:`, err);
-          const local = JSON.parse(localStorage.getItem(cacheKey) || '[]');
-          const updated = local.map((i: any) => i.id === id ? { ...i, ...data } : i);
-          writeCache(cacheKey, updated);
-          window.dispatchEvent(new Event('storage'));
-          return updated.find((i: any) => i.id === id);
-        }
-      }
-    };
-  }
   doc(docId: string) {
     const cacheKey = `jakub_minka_settings_${docId}`;
     const tableName = 'web_settings';
 
+    // Neodeslaná změna z outboxu má přednost před stavem serveru
+    const pending = () => getOutboxEntries(tableName).filter(e => e.recordId === docId && e.payload).pop();
+
     return {
       get: async () => {
+        const queued = pending();
+        if (queued) return docFromRow({ id: docId, ...queued.payload });
         try {
-          const { data, error } = await supabase.from(tableName).select('*').eq('id', docId).single();
-          if (!error && data) {
-            localStorage.setItem(cacheKey, JSON.stringify(data));
-            return data;
+          const data = await getBackend().getById(tableName, docId);
+          if (data) {
+            rememberVersions(tableName, [data]);
+            const doc = docFromRow(data);
+            localStorage.setItem(cacheKey, JSON.stringify(doc));
+            return doc;
           }
           const local = localStorage.getItem(cacheKey);
           return local ? JSON.parse(local) : {};
         } catch (err) {
-          console.warn('Error getting Supabase doc:', err);
+          console.warn('Error getting settings doc:', err);
           const local = localStorage.getItem(cacheKey);
           return local ? JSON.parse(local) : {};
         }
       },
-      set: async (data: any) => {
-        try {
-          const payload = { id: docId, ...data };
-          const { error } = await supabase.from(tableName).upsert(payload, { onConflict: 'id' });
-          if (error) throw error;
+      getVersion: () => getKnownVersion(tableName, docId),
+      set: async (data: any, options?: SaveOptions) => {
+        const { id: _id, ...fields } = data || {};
+        const payload = { id: docId, ...fields };
+        const row = { id: docId, data: fields, updated_at: new Date().toISOString() };
+        const expected = options?.expectedVersion;
+        // Stejně jako Repository.push: za čekající změnou se řadí i další, jinak by ji předběhla
+        if (hasOutboxEntry(tableName, docId)) {
+          enqueueWrite(tableName, 'upsert', docId, row, undefined, expected);
           localStorage.setItem(cacheKey, JSON.stringify(payload));
-          window.dispatchEvent(new Event('storage'));
+          notifyChange(tableName, [docId]);
           return payload;
+        }
+        try {
+          const backend = getBackend();
+          const saved = expected
+            ? await backend.update(tableName, docId, row, { expectedVersion: expected })
+            : await backend.upsert(tableName, row);
+          if (!saved) {
+            const current = await backend.getById(tableName, docId);
+            const server = current ? docFromRow(current) : null;
+            if (current) rememberVersions(tableName, [current]);
+            throw new ConflictError(
+              'Nastavení webu',
+              server,
+              current?.updated_at ?? null,
+              server ? diffSnapshots(server, payload).map(change => change.field) : []
+            );
+          }
+          rememberVersions(tableName, [saved]);
         } catch (err) {
-          console.error('Error setting Supabase doc:', err);
-          localStorage.setItem(cacheKey, JSON.stringify({ id: docId, ...data }));
-          window.dispatchEvent(new Event('storage'));
-          return { id: docId, ...data };
+          if (err instanceof ConflictError) throw err;
+          // Zápis čeká v outboxu (čekající / chyba) a dohraje se; revize vznikne až z uložené verze
+          console.error('Error setting settings doc:', err);
+          enqueueWrite(tableName, 'upsert', docId, row, err, expected);
+          localStorage.setItem(cacheKey, JSON.stringify(payload));
+          notifyChange(tableName, [docId]);
+          return payload;
         }
+        localStorage.setItem(cacheKey, JSON.stringify(payload));
+        notifyChange(tableName, [docId]);
+        await recordRevision(tableName, docId, fields);
+        return payload;
       }
     };
   }
@@ -177,236 +114,9 @@ class DataStore {
 
 export const dataStore = new DataStore();
 
-export class MediaDB {
-  private cacheKey = 'jakub_minka_media_cache';
-  private tableName = 'media_meta';
-
-  async getAll(options?: { force?: boolean; ttlMs?: number }): Promise<any[]> {
-    const ttlMs = options?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
-    const cached = readCache(this.cacheKey, ttlMs, options?.force);
-    if (cached) return cached;
-
-    try {
-      const { data, error } = await supabase.from(this.tableName).select('*').order('updated_at', { ascending: false });
-      if (error) throw error;
-      const result = data || [];
-      
-      // Convert snake_case to camelCase for frontend
-      const convertedResult = result.map(item => ({
-        ...item,
-        parentId: item.parent_id,
-        specializationId: item.specialization_id,
-        updatedAt: item.updated_at
-      }));
-      
-      writeCache(this.cacheKey, convertedResult);
-      return convertedResult;
-    } catch (err) {
-      console.warn('Error fetching media:', err);
-      const local = localStorage.getItem(this.cacheKey);
-      return local ? JSON.parse(local) : [];
-    }
-  }
-
-  async save(item: any): Promise<void> {
-    if (!item.id) item.id = crypto.randomUUID?.() || Date.now().toString();
-    
-    // Convert camelCase to snake_case for database
-    const dbItem = {
-      ...item,
-      parent_id: item.parentId ?? item.parent_id,
-      specialization_id: item.specializationId ?? item.specialization_id,
-      updated_at: item.updatedAt ?? item.updated_at
-    };
-    
-    // Remove camelCase properties
-    delete dbItem.parentId;
-    delete dbItem.specializationId;
-    delete dbItem.updatedAt;
-    
-    try {
-      const { error } = await supabase.from(this.tableName).upsert({ ...dbItem, id: dbItem.id }, { onConflict: 'id' });
-      if (error) throw error;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, [item, ...current.filter((i: any) => i.id !== item.id)]);
-      window.dispatchEvent(new Event('storage'));
-    } catch (err) {
-      console.error('Error saving media:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, [item, ...current.filter((i: any) => i.id !== item.id)]);
-      window.dispatchEvent(new Event('storage'));
-    }
-  }
-
-  async delete(id: string): Promise<void> {
-    try {
-      const { error } = await supabase.from(this.tableName).delete().eq('id', id);
-      if (error) throw error;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, current.filter((i: any) => i.id !== id));
-      window.dispatchEvent(new Event('storage'));
-    } catch (err) {
-      console.error('Error deleting media:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, current.filter((i: any) => i.id !== id));
-      window.dispatchEvent(new Event('storage'));
-    }
-  }
-
-  async update(id: string, data: any): Promise<any> {
-    try {
-      const { data: updatedRows, error } = await supabase.from(this.tableName).update(data).eq('id', id).select();
-      if (error) throw error;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      const updated = current.map((i: any) => i.id === id ? { ...i, ...data } : i);
-      writeCache(this.cacheKey, updated);
-      window.dispatchEvent(new Event('storage'));
-      return updatedRows?.[0] || updated.find((i: any) => i.id === id);
-    } catch (err) {
-      console.error('Error updating media:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      const updated = current.map((i: any) => i.id === id ? { ...i, ...data } : i);
-      writeCache(this.cacheKey, updated);
-      window.dispatchEvent(new Event('storage'));
-      return updated.find((i: any) => i.id === id);
-    }
-  }
-}
-
-export const mediaDB = new MediaDB();
-
-export class BlogDB {
-  private cacheKey = 'jakub_minka_blog_cache';
-  private tableName = 'blog';
-
-  async getAll(options?: { force?: boolean; ttlMs?: number }): Promise<any[]> {
-    const ttlMs = options?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
-    const cached = readCache(this.cacheKey, ttlMs, options?.force);
-    if (cached) return cached;
-
-    try {
-      const { data, error } = await supabase.from(this.tableName).select('*').order('created_at', { ascending: false });
-      if (error) throw error;
-      const result = data || [];
-      writeCache(this.cacheKey, result);
-      return result;
-    } catch (err) {
-      console.warn('Error fetching blog:', err);
-      const local = localStorage.getItem(this.cacheKey);
-      return local ? JSON.parse(local) : [];
-    }
-  }
-
-  async save(item: any): Promise<any> {
-    if (!item.id) item.id = crypto.randomUUID?.() || Date.now().toString();
-    try {
-      const { data, error } = await supabase.from(this.tableName).upsert({ ...item, id: item.id }, { onConflict: 'id', returning: 'representation' });
-      if (error) throw error;
-      const saved = data?.[0] || item;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      const updated = [saved, ...current.filter((i: any) => i.id !== item.id)];
-      writeCache(this.cacheKey, updated);
-      window.dispatchEvent(new Event('storage'));
-      return saved;
-    } catch (err) {
-      console.error('Error saving blog:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      const updated = [item, ...current.filter((i: any) => i.id !== item.id)];
-      writeCache(this.cacheKey, updated);
-      window.dispatchEvent(new Event('storage'));
-      return item;
-    }
-  }
-
-  async delete(id: string): Promise<void> {
-    try {
-      const { error } = await supabase.from(this.tableName).delete().eq('id', id);
-      if (error) throw error;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, current.filter((i: any) => i.id !== id));
-      window.dispatchEvent(new Event('storage'));
-    } catch (err) {
-      console.error('Error deleting blog:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, current.filter((i: any) => i.id !== id));
-      window.dispatchEvent(new Event('storage'));
-    }
-  }
-}
-
-export const blogDB = new BlogDB();
-
-export class ProjectDB {
-  private cacheKey = 'jakub_minka_projects_cache';
-  private tableName = 'projects';
-
-  async getAll(options?: { force?: boolean; ttlMs?: number }): Promise<any[]> {
-    const ttlMs = options?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
-    const cached = readCache(this.cacheKey, ttlMs, options?.force);
-    if (cached) return cached;
-
-    try {
-      const { data, error } = await supabase.from(this.tableName).select('*').order('created_at', { ascending: false });
-      if (error) throw error;
-      const result = data || [];
-      writeCache(this.cacheKey, result);
-      return result;
-    } catch (err) {
-      console.warn('Error fetching projects:', err);
-      const local = localStorage.getItem(this.cacheKey);
-      return local ? JSON.parse(local) : [];
-    }
-  }
-
-  async save(item: any): Promise<void> {
-    if (!item.id) item.id = crypto.randomUUID?.() || Date.now().toString();
-    try {
-      const { error } = await supabase.from(this.tableName).upsert({ ...item, id: item.id }, { onConflict: 'id' });
-      if (error) throw error;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, [item, ...current.filter((i: any) => i.id !== item.id)]);
-      window.dispatchEvent(new Event('storage'));
-    } catch (err) {
-      console.error('Error saving project:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, [item, ...current.filter((i: any) => i.id !== item.id)]);
-      window.dispatchEvent(new Event('storage'));
-    }
-  }
-
-  async delete(id: string): Promise<void> {
-    try {
-      const { error } = await supabase.from(this.tableName).delete().eq('id', id);
-      if (error) throw error;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, current.filter((i: any) => i.id !== id));
-      window.dispatchEvent(new Event('storage'));
-    } catch (err) {
-      console.error('Error deleting project:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      writeCache(this.cacheKey, current.filter((i: any) => i.id !== id));
-      window.dispatchEvent(new Event('storage'));
-    }
-  }
-
-  async update(id: string, data: any): Promise<any> {
-    try {
-      const { data: updatedRows, error } = await supabase.from(this.tableName).update(data).eq('id', id).select();
-      if (error) throw error;
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      const updated = current.map((i: any) => i.id === id ? { ...i, ...data } : i);
-      writeCache(this.cacheKey, updated);
-      window.dispatchEvent(new Event('storage'));
-      return updatedRows?.[0] || updated.find((i: any) => i.id === id);
-    } catch (err) {
-      console.error('Error updating project:', err);
-      const current = JSON.parse(localStorage.getItem(this.cacheKey) || '[]');
-      const updated = current.map((i: any) => i.id === id ? { ...i, ...data } : i);
-      writeCache(this.cacheKey, updated);
-      window.dispatchEvent(new Event('storage'));
-      return updated.find((i: any) => i.id === id);
-    }
-  }
-}
-
-export const projectDB = new ProjectDB();
+export const projectDB = new Repository<Project>(projectSchema);
+export const blogDB = new Repository<BlogPost>(blogSchema);
+export const mediaDB = new Repository<FileItem>(mediaSchema);
+export const reviewDB = new Repository<Review>(reviewSchema);
+export const inquiryDB = new Repository<Inquiry>(inquirySchema);
+export const partnerDB = new Repository<Partner>(partnerSchema);
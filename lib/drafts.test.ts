@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearDraft, hasUnsavedChanges, loadDraft, saveDraft, setEditorDirty } from './drafts';
+
+beforeEach(() => localStorage.clear());
+
+describe('rozpracované verze', () => {
+  it('uloží a načte verzi podle tabulky a záznamu', () => {
+    saveDraft('projects', 'p1', { title: 'Svatba' });
+    saveDraft('projects', null, { title: 'Nová zakázka' });
+
+    expect(loadDraft('projects', 'p1')).toMatchObject({ table: 'projects', recordId: 'p1', data: { title: 'Svatba' } });
+    expect(loadDraft<{ title: string }>('projects', null)?.data.title).toBe('Nová zakázka');
+    expect(loadDraft('blog', 'p1')).toBeNull();
+  });
+
+  it('po smazání už verze není', () => {
+    saveDraft('blog', 'b1', { title: 'Článek' });
+    clearDraft('blog', 'b1');
+    expect(loadDraft('blog', 'b1')).toBeNull();
+  });
+
+  it('poškozená data se tváří jako žádná verze', () => {
+    localStorage.setItem('jakub_minka_draft_projects:p1', '{nevalidní');
+    expect(loadDraft('projects', 'p1')).toBeNull();
+  });
+
+  it('plné úložiště autosave neshodí', () => {
+    const setItem = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => saveDraft('projects', 'p1', { title: 'x' })).not.toThrow();
+    expect(warn).toHaveBeenCalled();
+    setItem.mockRestore();
+    warn.mockRestore();
+  });
+});
+
+describe('neuložené změny', () => {
+  it('administrace se ptá, dokud je otevřený aspoň jeden upravený editor', () => {
+    expect(hasUnsavedChanges()).toBe(false);
+    setEditorDirty('project', true);
+    setEditorDirty('blog', true);
+    setEditorDirty('project', false);
+    expect(hasUnsavedChanges()).toBe(true);
+    setEditorDirty('blog', false);
+    expect(hasUnsavedChanges()).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+// Rozpracované verze z editorů (zakázky, články). Drží se jen v tomto prohlížeči,
+// aby zavřená záložka nebo přepnutí sekce v administraci nepřišly o neuložený text.
+
+export interface EditorDraft<T> {
+  table: string;
+  recordId: string | null;
+  data: T;
+  savedAt: string;
+}
+
+const DRAFT_PREFIX = 'jakub_minka_draft_';
+
+export const AUTOSAVE_INTERVAL_MS = 5000;
+
+const draftKey = (table: string, recordId: string | null) => `${DRAFT_PREFIX}${table}:${recordId || 'new'}`;
+
+export const saveDraft = <T>(table: string, recordId: string | null, data: T) => {
+  const draft: EditorDraft<T> = { table, recordId, data, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(draftKey(table, recordId), JSON.stringify(draft));
+  } catch (err) {
+    console.warn(`Draft autosave failed for ${table}/${recordId || 'new'}:`, err);
+  }
+};
+
+export const loadDraft = <T>(table: string, recordId: string | null): EditorDraft<T> | null => {
+  try {
+    const raw = localStorage.getItem(draftKey(table, recordId));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearDraft = (table: string, recordId: string | null) => {
+  localStorage.removeItem(draftKey(table, recordId));
+};
+
+// Otevřené editory s neuloženými změnami – podle toho se ptá administrace při přepnutí sekce
+const dirtyEditors = new Set<string>();
+
+export const setEditorDirty = (editorId: string, dirty: boolean) => {
+  if (dirty) dirtyEditors.add(editorId);
+  else dirtyEditors.delete(editorId);
+};
+
+export const hasUnsavedChanges = () => dirtyEditors.size > 0;
+
+export const UNSAVED_CHANGES_MESSAGE = 'Máte neuložené změny. Opravdu odejít? Rozpracovaná verze zůstane uložená v tomto prohlížeči.';
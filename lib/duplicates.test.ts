@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileItem } from '../types';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { createDuplicateChecker, findDuplicateGroups, hammingDistance } from './duplicates';
+
+const file = (id: string, hashes: Partial<FileItem> = {}): FileItem => ({
+  id,
+  name: `${id}.jpg`,
+  type: 'image',
+  updatedAt: '2026-01-01',
+  parentId: null,
+  ...hashes
+});
+
+const groupIds = (library: FileItem[]) =>
+  findDuplicateGroups(library).map(g => [g.kind, g.items.map(i => i.id)]);
+
+describe('hammingDistance', () => {
+  it('počítá rozdílné bity hexadecimálních otisků', () => {
+    expect(hammingDistance('abcd', 'abcd')).toBe(0);
+    expect(hammingDistance('0000', '000f')).toBe(4);
+    expect(hammingDistance('0000', 'ffff')).toBe(16);
+  });
+
+  it('otisky různé délky nejsou srovnatelné', () => {
+    expect(hammingDistance('000', '0000')).toBe(Infinity);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('seskupí soubory se stejným obsahem', () => {
+    expect(groupIds([
+      file('a', { contentHash: 'h1' }),
+      file('b', { contentHash: 'h1' }),
+      file('c', { contentHash: 'h2' })
+    ])).toEqual([['exact', ['a', 'b']]]);
+  });
+
+  it('seskupí podobné obrázky do prahu a vzdálenější vynechá', () => {
+    expect(groupIds([
+      file('a', { contentHash: 'h1', perceptualHash: '0000000000000000' }),
+      file('b', { contentHash: 'h2', perceptualHash: '00000000000000ff' }),
+      file('c', { contentHash: 'h3', perceptualHash: 'fffffffffffff000' })
+    ])).toEqual([['similar', ['a', 'b']]]);
+  });
+
+  it('podobnost je tranzitivní', () => {
+    expect(groupIds([
+      file('a', { contentHash: 'h1', perceptualHash: '0000000000000000' }),
+      file('b', { contentHash: 'h2', perceptualHash: '00000000000000ff' }),
+      file('c', { contentHash: 'h3', perceptualHash: '000000000000ffff' })
+    ])).toEqual([['similar', ['a', 'b', 'c']]]);
+  });
+
+  it('shluk samých kopií jednoho obsahu nehlásí podruhé jako podobný', () => {
+    expect(groupIds([
+      file('a', { contentHash: 'h1', perceptualHash: '0000000000000000' }),
+      file('b', { contentHash: 'h1', perceptualHash: '0000000000000000' })
+    ])).toEqual([['exact', ['a', 'b']]]);
+  });
+
+  it('složky ignoruje', () => {
+    expect(groupIds([
+      file('a', { type: 'folder', contentHash: 'h1' }),
+      file('b', { type: 'folder', contentHash: 'h1' })
+    ])).toEqual([]);
+  });
+});
+
+describe('createDuplicateChecker', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    localStorage.clear();
+    backend = new MemoryBackend({
+      media_meta: [
+        { id: 'a', name: 'a', type: 'image', size: '1 MB', url: 'https://cdn/a.jpg', content_hash: 'h1', perceptual_hash: '0000000000000000' },
+        { id: 'b', name: 'b', type: 'image', size: '2 MB', url: 'https://cdn/b.jpg', content_hash: 'h2', perceptual_hash: 'ffffffffffffffff' },
+        { id: 'c', name: 'c', type: 'image', url: 'https://cdn/c.jpg', content_hash: 'h3', deleted_at: '2026-01-01T00:00:00.000Z' }
+      ]
+    });
+    setBackend(backend);
+  });
+
+  it('najde stejný obsah dotazem na content_hash', async () => {
+    const matches = await createDuplicateChecker().find({ contentHash: 'h1' });
+    expect(matches.map(m => [m.kind, m.item.id])).toEqual([['exact', 'a']]);
+  });
+
+  it('podobný obrázek vrátí jako celý záznam, kandidáty načte jen s potřebnými sloupci', async () => {
+    const select = vi.spyOn(backend, 'select');
+    const matches = await createDuplicateChecker().find({ contentHash: 'nový', perceptualHash: 'ffffffffffffff00' });
+    expect(matches.map(m => [m.kind, m.item.id, m.distance])).toEqual([['similar', 'b', 8]]);
+    expect(matches[0].item.size).toBe('2 MB');
+    expect(select.mock.calls.some(([, spec]) => spec?.columns?.join() === 'id,name,url,perceptual_hash')).toBe(true);
+  });
+
+  it('soubory v koši nehlásí', async () => {
+    expect(await createDuplicateChecker().find({ contentHash: 'h3' })).toEqual([]);
+  });
+
+  it('porovná i se souborem nahraným dříve ve stejné dávce', async () => {
+    const checker = createDuplicateChecker();
+    const hashes = { contentHash: 'h9', perceptualHash: '0f0f0f0f0f0f0f0f' };
+    expect(await checker.find(hashes)).toEqual([]);
+    checker.add(file('n', hashes));
+    expect((await checker.find(hashes)).map(m => [m.kind, m.item.id])).toEqual([['exact', 'n']]);
+  });
+});
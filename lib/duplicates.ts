@@ -0,0 +1,226 @@
+import { FileItem } from '../types';
+import { Row, getBackend } from './backend';
+import { mediaDB } from './db';
+import { loadImage } from './imageVariants';
+import { fromRow, mediaSchema } from './schema';
+
+// Duplicity podle obsahu, ne podle názvu: SHA-256 najde stejný soubor pod jiným jménem,
+// dHash (rozdílový perceptuální otisk, 64 bitů) najde stejnou fotku v jiném exportu nebo ořezu.
+// Nové soubory se hashují v originále před převodem na WebP; starší soubory doplněné přes
+// backfillHashes mají hash uloženého souboru – u nich se re-upload originálu chytí jen jako podobný.
+
+export type ContentHashes = Pick<FileItem, 'contentHash' | 'perceptualHash'>;
+
+// Do kolika rozdílných bitů z 64 se dva obrázky berou jako podobné
+export const SIMILARITY_THRESHOLD = 8;
+
+export const sha256 = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const perceptualHash = (img: HTMLImageElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context failed');
+  ctx.drawImage(img, 0, 0, 9, 8);
+  const { data } = ctx.getImageData(0, 0, 9, 8);
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hex = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) byte = (byte << 1) | (gray(x, y) < gray(x + 1, y) ? 1 : 0);
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+const BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) distance += BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  return distance;
+};
+
+/** SHA-256 každého souboru, perceptuální otisk jen u obrázků, které prohlížeč umí dekódovat. */
+export const hashFile = async (file: Blob): Promise<ContentHashes> => {
+  const hashes: ContentHashes = { contentHash: await sha256(file) };
+  if (file.type.startsWith('image/')) {
+    try {
+      hashes.perceptualHash = perceptualHash(await loadImage(file));
+    } catch (err) {
+      console.warn('Perceptual hash failed:', err);
+    }
+  }
+  return hashes;
+};
+
+export interface DuplicateMatch {
+  item: FileItem;
+  kind: 'exact' | 'similar';
+  // Rozdílné bity perceptuálního otisku (0 u shody obsahu)
+  distance: number;
+}
+
+/** Shody v knihovně – nejdřív stejný obsah, pak podobné obrázky od nejbližšího. */
+export const findMatches = (hashes: ContentHashes, library: FileItem[]): DuplicateMatch[] => {
+  const matches: DuplicateMatch[] = [];
+  for (const item of library) {
+    if (item.type === 'folder') continue;
+    if (hashes.contentHash && item.contentHash === hashes.contentHash) {
+      matches.push({ item, kind: 'exact', distance: 0 });
+    } else if (hashes.perceptualHash && item.perceptualHash) {
+      const distance = hammingDistance(hashes.perceptualHash, item.perceptualHash);
+      if (distance <= SIMILARITY_THRESHOLD) matches.push({ item, kind: 'similar', distance });
+    }
+  }
+  return matches.sort((a, b) => (a.kind === b.kind ? a.distance - b.distance : a.kind === 'exact' ? -1 : 1));
+};
+
+// --- Kontrola při nahrávání ---
+
+// Na porovnání perceptuálního otisku stačí tyhle sloupce; celé řádky se načtou jen pro shody
+const SIMILARITY_COLUMNS = ['id', 'name', 'url', 'perceptual_hash'];
+const CANDIDATE_PAGE = 1000;
+
+const loadSimilarityCandidates = async (): Promise<FileItem[]> => {
+  try {
+    const rows: Row[] = [];
+    for (;;) {
+      const last = rows[rows.length - 1];
+      const page = await getBackend().select(mediaSchema.table, {
+        columns: SIMILARITY_COLUMNS,
+        filters: [{ column: 'perceptual_hash', op: 'notNull' }, { column: 'deleted_at', op: 'is', value: null }],
+        orderBy: [{ column: 'id', ascending: true }],
+        after: last ? { value: last.id, id: last.id } : undefined,
+        limit: CANDIDATE_PAGE
+      });
+      rows.push(...page);
+      if (page.length < CANDIDATE_PAGE) break;
+    }
+    return rows.map(row => fromRow(mediaSchema, row, { partial: true }));
+  } catch (err) {
+    console.warn('Loading perceptual hashes failed, using local cache:', err);
+    return (await mediaDB.getAll()).filter(i => i.perceptualHash);
+  }
+};
+
+export interface DuplicateChecker {
+  find(hashes: ContentHashes): Promise<DuplicateMatch[]>;
+  // Právě nahraný soubor – další soubor ze stejné dávky se s ním porovná taky
+  add(item: FileItem): void;
+}
+
+/**
+ * Kontrola duplicit pro jednu dávku uploadu. Stejný obsah se hledá dotazem přes index
+ * na content_hash, perceptuální otisky celé knihovny se načtou jednou na dávku.
+ */
+export const createDuplicateChecker = (): DuplicateChecker => {
+  let candidates: Promise<FileItem[]> | null = null;
+  const batch: FileItem[] = [];
+
+  return {
+    async find(hashes) {
+      const exact = hashes.contentHash
+        ? (await mediaDB.query({ filters: { contentHash: hashes.contentHash }, limit: 10, force: true })).items
+        : [];
+      const similar = hashes.perceptualHash ? await (candidates ??= loadSimilarityCandidates()) : [];
+      const pool = new Map<string, FileItem>();
+      for (const item of [...similar, ...batch, ...exact]) pool.set(item.id, item);
+
+      const matches = findMatches(hashes, Array.from(pool.values()));
+      const partial = matches.filter(m => !m.item.type).map(m => m.item.id);
+      if (partial.length === 0) return matches;
+      const full = new Map((await mediaDB.query({ filters: { id: partial }, limit: partial.length, force: true })).items.map(i => [i.id, i]));
+      return matches
+        .filter(m => m.item.type || full.has(m.item.id))
+        .map(m => (m.item.type ? m : { ...m, item: full.get(m.item.id)! }));
+    },
+    add(item) {
+      batch.push(item);
+    }
+  };
+};
+
+// --- Přehled duplicit v celé knihovně ---
+
+export interface DuplicateGroup {
+  kind: 'exact' | 'similar';
+  items: FileItem[];
+}
+
+export const findDuplicateGroups = (library: FileItem[]): DuplicateGroup[] => {
+  const files = library.filter(i => i.type !== 'folder');
+  const groups: DuplicateGroup[] = [];
+
+  const byContent = new Map<string, FileItem[]>();
+  for (const item of files) {
+    if (!item.contentHash) continue;
+    byContent.set(item.contentHash, [...(byContent.get(item.contentHash) || []), item]);
+  }
+  for (const items of byContent.values()) {
+    if (items.length > 1) groups.push({ kind: 'exact', items });
+  }
+
+  // Podobné obrázky: shluky přes union-find; skupina, která je celá jedním obsahem, už je výš
+  const images = files.filter(i => i.perceptualHash);
+  const parent = images.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (hammingDistance(images[i].perceptualHash!, images[j].perceptualHash!) <= SIMILARITY_THRESHOLD) {
+        parent[root(i)] = root(j);
+      }
+    }
+  }
+  const clusters = new Map<number, FileItem[]>();
+  images.forEach((item, i) => clusters.set(root(i), [...(clusters.get(root(i)) || []), item]));
+  for (const items of clusters.values()) {
+    const contents = new Set(items.map(i => i.contentHash || i.id));
+    if (contents.size > 1) groups.push({ kind: 'similar', items });
+  }
+
+  return groups;
+};
+
+export const needsHashes = (item: FileItem) =>
+  item.type !== 'folder' && !!item.url && (!item.contentHash || (item.type === 'image' && !item.perceptualHash));
+
+export interface HashBackfillResult {
+  processed: number;
+  failed: { name: string; error: string }[];
+}
+
+/** Doplní otisky starším souborům – stáhne uložený soubor a spočítá z něj oba hashe. */
+export const backfillHashes = async (
+  options: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<HashBackfillResult> => {
+  const items = (await mediaDB.getAll({ force: true })).filter(needsHashes);
+  const failed: HashBackfillResult['failed'] = [];
+  let processed = 0;
+
+  for (const [index, item] of items.entries()) {
+    if (options.signal?.aborted) break;
+    options.onProgress?.(index, items.length);
+    try {
+      const response = await fetch(item.url!, { signal: options.signal });
+      if (!response.ok) throw new Error(`Stažení selhalo (HTTP ${response.status})`);
+      await mediaDB.update(item.id, await hashFile(await response.blob()));
+      processed++;
+    } catch (err) {
+      if (options.signal?.aborted) break;
+      console.warn(`Hash backfill failed for ${item.name}:`, err);
+      failed.push({ name: item.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return { processed, failed };
+};
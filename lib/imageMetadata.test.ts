@@ -0,0 +1,107 @@
+import exifr from 'exifr';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import {
+  formatAperture, formatExposure, formatFocalLength, loadKeepGps, mayContainGps, readImageMetadata, saveKeepGps
+} from './imageMetadata';
+
+vi.mock('exifr', () => ({ default: { parse: vi.fn(), gps: vi.fn() } }));
+const parse = vi.mocked(exifr.parse);
+
+const file = new Blob(['jpeg']);
+
+const exif = {
+  DateTimeOriginal: new Date('2026-06-14T15:30:00.000Z'),
+  Make: 'Canon',
+  Model: 'Canon EOS R5',
+  LensModel: 'RF24-70mm F2.8 L IS USM',
+  FocalLength: 35,
+  FNumber: 2.8,
+  ExposureTime: 1 / 250,
+  ISO: 400,
+  latitude: 50.087,
+  longitude: 14.421,
+  Keywords: ['interiér', 'hotel'],
+  CopyrightNotice: '  Jakub Minka  ',
+  Caption: 'Lobby hotelu'
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  setBackend(new MemoryBackend({ web_settings: [] }));
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => vi.resetAllMocks());
+
+describe('readImageMetadata', () => {
+  it('přečte fotoaparát, expozici, datum a IPTC, bez povolení zahodí GPS', async () => {
+    parse.mockResolvedValue(exif);
+
+    const { metadata, caption } = await readImageMetadata(file, false);
+    expect(metadata).toEqual({
+      takenAt: '2026-06-14T15:30:00.000Z',
+      camera: 'Canon EOS R5',
+      lens: 'RF24-70mm F2.8 L IS USM',
+      focalLength: 35,
+      aperture: 2.8,
+      exposureTime: 1 / 250,
+      iso: 400,
+      copyright: 'Jakub Minka',
+      keywords: ['interiér', 'hotel']
+    });
+    expect(caption).toBe('Lobby hotelu');
+  });
+
+  it('s povolením GPS polohu zachová', async () => {
+    parse.mockResolvedValue(exif);
+    const { metadata } = await readImageMetadata(file, true);
+    expect([metadata.gpsLatitude, metadata.gpsLongitude]).toEqual([50.087, 14.421]);
+  });
+
+  it('značku nezdvojí a neplatné hodnoty vynechá', async () => {
+    parse.mockResolvedValue({ Make: 'NIKON CORPORATION', Model: 'Z 6', FNumber: 0, ISO: NaN, Keywords: 'svatba' });
+    const { metadata } = await readImageMetadata(file, false);
+    expect(metadata).toEqual({ camera: 'NIKON CORPORATION Z 6', keywords: ['svatba'] });
+  });
+
+  it('soubor bez metadat nebo nečitelný vrátí prázdný objekt', async () => {
+    parse.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Unknown file format'));
+    expect(await readImageMetadata(file, true)).toEqual({ metadata: {} });
+    expect(await readImageMetadata(file, true)).toEqual({ metadata: {} });
+  });
+});
+
+describe('mayContainGps', () => {
+  it('pozná polohu, soubor bez ní pustí a nečitelný formát bere jako rizikový', async () => {
+    const gps = vi.mocked(exifr.gps)
+      .mockResolvedValueOnce({ latitude: 50, longitude: 14 })
+      .mockResolvedValueOnce(undefined as any)
+      .mockRejectedValueOnce(new Error('Unknown file format'));
+
+    expect(await mayContainGps(file)).toBe(true);
+    expect(await mayContainGps(file)).toBe(false);
+    expect(await mayContainGps(file)).toBe(true);
+    expect(gps).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('nastavení GPS', () => {
+  it('výchozí je polohu zahodit, nastavení je sdílené v web_settings', async () => {
+    expect(await loadKeepGps()).toBe(false);
+    await saveKeepGps(true);
+    localStorage.clear();
+    expect(await loadKeepGps()).toBe(true);
+  });
+});
+
+describe('formátování', () => {
+  it('čas, clona a ohnisko', () => {
+    expect(formatExposure(1 / 250)).toBe('1/250 s');
+    expect(formatExposure(2.5)).toBe('2.5 s');
+    expect(formatAperture(2.8)).toBe('f/2.8');
+    expect(formatFocalLength(35.4)).toBe('35 mm');
+    expect(formatExposure(undefined)).toBeUndefined();
+  });
+});
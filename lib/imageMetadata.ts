@@ -0,0 +1,103 @@
+import exifr from 'exifr';
+import { FileItem } from '../types';
+import { dataStore } from './db';
+
+// EXIF/IPTC se čtou z originálu ještě před převodem na WebP – canvas metadata zahodí.
+// Do nahraného souboru se nic nevrací, údaje žijí jen v media_meta.
+
+export type ImageMetadata = Pick<FileItem,
+  'takenAt' | 'camera' | 'lens' | 'focalLength' | 'aperture' | 'exposureTime' | 'iso' |
+  'gpsLatitude' | 'gpsLongitude' | 'copyright' | 'keywords'
+>;
+
+// Sdílené pro všechny správce – dokument v web_settings, ne localStorage jednoho prohlížeče
+const PRIVACY_DOC = 'media_privacy';
+
+// Výchozí je GPS zahodit – interiéry klientů nemají v knihovně prozradit adresu
+export const loadKeepGps = async (): Promise<boolean> => {
+  const { keepGps } = await dataStore.doc(PRIVACY_DOC).get();
+  return keepGps === true;
+};
+
+export const saveKeepGps = async (keep: boolean) => {
+  await dataStore.doc(PRIVACY_DOC).set({ keepGps: keep });
+};
+
+/**
+ * Nese soubor GPS polohu? Formát, který exifr nepřečte, se bere jako ano – polohu
+ * nejde vyloučit. Pro soubory, které jdou nahoru beze změny (bez převodu na WebP).
+ */
+export const mayContainGps = async (file: Blob): Promise<boolean> => {
+  try {
+    const gps = await exifr.gps(file);
+    return typeof gps?.latitude === 'number' && typeof gps?.longitude === 'number';
+  } catch (err) {
+    console.warn('GPS check failed:', err);
+    return true;
+  }
+};
+
+const text = (value: unknown): string | undefined => {
+  const joined = Array.isArray(value) ? value.join(', ') : value;
+  return typeof joined === 'string' && joined.trim() ? joined.trim() : undefined;
+};
+
+const positive = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+// "Canon" + "Canon EOS R5" -> "Canon EOS R5", "NIKON CORPORATION" + "NIKON Z 6" -> "NIKON Z 6"
+const cameraName = (make?: string, model?: string) => {
+  if (!model) return make;
+  if (!make) return model;
+  const brand = make.split(/\s+/)[0];
+  return model.toLowerCase().startsWith(brand.toLowerCase()) ? model : `${make} ${model}`;
+};
+
+/**
+ * Přečte EXIF (fotoaparát, expozice, datum, GPS) a IPTC (popisek, klíčová slova, autorská práva).
+ * Soubor bez metadat nebo v nepodporovaném formátu vrátí prázdný objekt. IPTC popisek
+ * se vrací zvlášť – volající ho použije jen tam, kde uživatel nic nevyplnil.
+ */
+export const readImageMetadata = async (file: Blob, keepGps: boolean): Promise<{ metadata: ImageMetadata; caption?: string }> => {
+  let raw: Record<string, any> | undefined;
+  try {
+    raw = await exifr.parse(file, { tiff: true, exif: true, gps: true, iptc: true, xmp: false, icc: false });
+  } catch (err) {
+    console.warn('EXIF parse failed:', err);
+  }
+  if (!raw) return { metadata: {} };
+
+  const taken = raw.DateTimeOriginal || raw.CreateDate || raw.DateCreated;
+  const metadata: ImageMetadata = {
+    takenAt: taken instanceof Date && !isNaN(taken.getTime()) ? taken.toISOString() : undefined,
+    camera: cameraName(text(raw.Make), text(raw.Model)),
+    lens: text(raw.LensModel) || text(raw.Lens),
+    focalLength: positive(raw.FocalLength),
+    aperture: positive(raw.FNumber),
+    exposureTime: positive(raw.ExposureTime),
+    iso: positive(raw.ISO),
+    copyright: text(raw.CopyrightNotice) || text(raw.Copyright),
+    keywords: Array.isArray(raw.Keywords) ? raw.Keywords.filter((k: unknown) => typeof k === 'string') : text(raw.Keywords) ? [raw.Keywords] : undefined
+  };
+  if (keepGps && typeof raw.latitude === 'number' && typeof raw.longitude === 'number') {
+    metadata.gpsLatitude = raw.latitude;
+    metadata.gpsLongitude = raw.longitude;
+  }
+
+  // Prázdné hodnoty ven, ať se do záznamu nezapisují undefined sloupce
+  for (const key of Object.keys(metadata) as (keyof ImageMetadata)[]) {
+    if (metadata[key] === undefined) delete metadata[key];
+  }
+  return { metadata, caption: text(raw.Caption) || text(raw.ImageDescription) };
+};
+
+// --- Formátování pro zobrazení ---
+
+export const formatExposure = (seconds?: number) => {
+  if (!seconds) return undefined;
+  return seconds >= 1 ? `${Math.round(seconds * 10) / 10} s` : `1/${Math.round(1 / seconds)} s`;
+};
+
+export const formatAperture = (aperture?: number) => aperture ? `f/${Math.round(aperture * 10) / 10}` : undefined;
+
+export const formatFocalLength = (focalLength?: number) => focalLength ? `${Math.round(focalLength)} mm` : undefined;
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { VARIANT_WIDTHS, computePreview, loadImageIndex, previewFor, variantWidthsFor } from './imageVariants';
+
+describe('variantWidthsFor', () => {
+  it('velký originál dostane všechny šířky do maxima', () => {
+    expect(variantWidthsFor(3000)).toEqual(VARIANT_WIDTHS);
+  });
+
+  it('menší originál má jen šířky pod sebou a sám sebe', () => {
+    expect(variantWidthsFor(1000)).toEqual([400, 800, 1000]);
+    expect(variantWidthsFor(800)).toEqual([400, 800]);
+  });
+
+  it('nikdy nezvětšuje', () => {
+    expect(variantWidthsFor(300)).toEqual([300]);
+  });
+});
+
+describe('computePreview', () => {
+  // Plátno 16 px na šířku, ve kterém převažuje modrá a menšina pixelů je červená nebo průhledná
+  const stubCanvas = (pixels: number[][]) => {
+    const canvas = {
+      width: 0,
+      height: 0,
+      toDataURL: vi.fn(() => 'data:image/webp;base64,nahled'),
+      getContext: () => ({
+        drawImage: vi.fn(),
+        getImageData: () => ({ data: Uint8ClampedArray.from(pixels.flat()) })
+      })
+    };
+    vi.spyOn(document, 'createElement').mockReturnValueOnce(canvas as unknown as HTMLCanvasElement);
+    return canvas;
+  };
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it('vrátí malý náhled s poměrem stran originálu a převažující barvu', () => {
+    const canvas = stubCanvas([
+      [0, 120, 250, 255], [2, 122, 254, 255], [0, 124, 252, 255],
+      [250, 0, 0, 255], [250, 0, 0, 255],
+      [255, 255, 255, 0], [255, 255, 255, 0], [255, 255, 255, 0]
+    ]);
+    const preview = computePreview({ naturalWidth: 3200, naturalHeight: 2000 } as HTMLImageElement);
+
+    expect([canvas.width, canvas.height]).toEqual([16, 10]);
+    expect(preview.placeholder).toBe('data:image/webp;base64,nahled');
+    expect(preview.dominantColor).toBe('#017afc');
+  });
+
+  it('úplně průhledný obrázek má černou barvu', () => {
+    stubCanvas([[10, 20, 30, 0]]);
+    expect(computePreview({ naturalWidth: 16, naturalHeight: 1 } as HTMLImageElement).dominantColor).toBe('#000000');
+  });
+});
+
+describe('loadImageIndex', () => {
+  const URL_BASE = 'https://pub-0123.r2.dev/';
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    backend = new MemoryBackend({
+      media_meta: [
+        { id: 'a', url: `${URL_BASE}idx-a.jpg`, placeholder: 'data:image/webp;base64,a', dominant_color: '#112233', dimensions: '1600x900' },
+        { id: 'b', url: `${URL_BASE}idx-b.jpg` },
+        { id: 'c', url: `${URL_BASE}idx-c.jpg`, placeholder: 'data:image/webp;base64,c', deleted_at: '2026-01-01T00:00:00.000Z' }
+      ]
+    });
+    setBackend(backend);
+  });
+
+  it('obrázky z jedné stránky načte jedním dotazem a vrátí jen ty, ke kterým je co přidat', async () => {
+    const select = vi.spyOn(backend, 'select');
+    const [first, second] = await Promise.all([
+      loadImageIndex([`${URL_BASE}idx-a.jpg?v=2`, 'data:image/png;base64,x']),
+      loadImageIndex([`${URL_BASE}idx-b.jpg`, `${URL_BASE}idx-c.jpg`, 'https://youtu.be/x'])
+    ]);
+
+    expect(select).toHaveBeenCalledTimes(1);
+    expect(previewFor(first, `${URL_BASE}idx-a.jpg#x`)).toMatchObject({ placeholder: 'data:image/webp;base64,a', dominantColor: '#112233' });
+    expect(second.size).toBe(0);
+
+    await loadImageIndex([`${URL_BASE}idx-a.jpg`, `${URL_BASE}idx-b.jpg`]);
+    expect(select).toHaveBeenCalledTimes(1);
+    select.mockRestore();
+  });
+});
@@ -0,0 +1,480 @@
+import { FileItem, ImageVariant, WebSettings } from '../types';
+import { getBackend } from './backend';
+import { dataStore, mediaDB, projectDB } from './db';
+import { ImageMetadata, loadKeepGps, mayContainGps, readImageMetadata } from './imageMetadata';
+import { RewriteResult, rewriteUrlsInContent } from './mediaReferences';
+import { fetchOriginal, removeOriginal, storeOriginal } from './originals';
+import { subscribeToTables } from './realtime';
+import { fromRow, mediaSchema } from './schema';
+import { StorageUploadOptions, StoredObject, getStorage, storageFor, storageKeyFromUrl } from './storage';
+import {
+  Watermark, WatermarkScope, drawWatermark, loadWatermarkConfig, prepareWatermark, resolveWatermark,
+  specializationsByUrl, watermarkApplies
+} from './watermark';
+
+// Jedna cesta pro všechny uploady obrázků: WebP v několika šířkách, aby dlaždice a náhledy
+// nestahovaly plné rozlišení. Největší šířka je zároveň hlavní soubor (FileItem.url).
+
+export const VARIANT_WIDTHS = [400, 800, 1600, 2400];
+const MAX_WIDTH = VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1];
+
+// SystemManager ukládá kvalitu v procentech, starší kód jako 0–1
+export const compressionQuality = (): number => {
+  const value = parseFloat(localStorage.getItem('jakub_minka_compression_quality') || '82');
+  return value > 1 ? value / 100 : value;
+};
+
+export const loadImage = (blob: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Obrázek se nepodařilo načíst')); };
+  img.src = url;
+});
+
+const renderWebp = (img: HTMLImageElement, width: number, quality: number, watermark?: Watermark | null) => new Promise<Blob>((resolve, reject) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round((img.naturalHeight / img.naturalWidth) * width);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return reject(new Error('Canvas context failed'));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  if (watermark) drawWatermark(ctx, canvas.width, canvas.height, watermark);
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas toBlob failed')), 'image/webp', quality);
+});
+
+// --- Náhled během načítání: malé LQIP jako data URL + dominantní barva ---
+
+// 16 px na šířku – prohlížeč ho při roztažení na dlaždici sám rozmaže
+const PLACEHOLDER_WIDTH = 16;
+
+export interface ImagePreview {
+  placeholder: string;
+  dominantColor: string;
+}
+
+const toHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+// Nejčastější barva po zaokrouhlení na 3 bity na kanál (průměr jen nad šedivým obrázkem by vyšel blátivě)
+const dominantColorOf = (data: Uint8ClampedArray): string => {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const key = ((data[i] >> 5) << 6) | ((data[i + 1] >> 5) << 3) | (data[i + 2] >> 5);
+    const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  }
+  let best: { count: number; r: number; g: number; b: number } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  return best ? toHex(best.r / best.count, best.g / best.count, best.b / best.count) : '#000000';
+};
+
+export const computePreview = (img: HTMLImageElement): ImagePreview => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PLACEHOLDER_WIDTH;
+  canvas.height = Math.max(1, Math.round((img.naturalHeight / img.naturalWidth) * PLACEHOLDER_WIDTH));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context failed');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return {
+    placeholder: canvas.toDataURL('image/webp', 0.5),
+    dominantColor: dominantColorOf(ctx.getImageData(0, 0, canvas.width, canvas.height).data)
+  };
+};
+
+// Nikdy se nezvětšuje – malý originál má jen šířky pod sebou a sám sebe
+export const variantWidthsFor = (naturalWidth: number): number[] => {
+  const main = Math.min(naturalWidth, MAX_WIDTH);
+  return [...VARIANT_WIDTHS.filter(w => w < main), main];
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+export interface ProcessedImage extends StoredObject, Partial<ImagePreview> {
+  width?: number;
+  height?: number;
+  variants: ImageVariant[];
+  // EXIF/IPTC z originálu – ve WebP už nejsou
+  metadata: ImageMetadata;
+  caption?: string;
+  // Jen u obrázku s vodoznakem – podpis nastavení (čistá verze leží v lib/originals)
+  watermarked?: Pick<FileItem, 'watermarkedWith'>;
+}
+
+// Vodoznak podle místa uploadu; logo, které se nenačte, upload nezastaví – doplní ho hromadné použití
+const watermarkFor = async (scope?: WatermarkScope & { mediaId: string }): Promise<Watermark | null> => {
+  if (!scope) return null;
+  try {
+    return await resolveWatermark(scope, scope.parentId ? await mediaDB.getAll() : []);
+  } catch (err) {
+    console.warn('Watermark unavailable, uploading without it:', err);
+    return null;
+  }
+};
+
+/**
+ * Převede obrázek na WebP ve všech šířkách a nahraje je do úložiště, spolu s náhledem pro načítání.
+ * Průběh se počítá z bajtů všech variant dohromady. Formát, který prohlížeč neumí
+ * vykreslit (HEIC…), se nahraje beze změny a bez zmenšenin – s GPS polohou jen tehdy, když ji
+ * nastavení dovoluje, jinak se upload odmítne. `watermark` říká, kam obrázek
+ * patří (složka, specializace) – podle nastavení vodoznaku se pak vpeče do všech šířek
+ * a čistá verze se uloží mimo veřejné úložiště pod `mediaId` budoucího záznamu.
+ */
+export const uploadImage = async (
+  file: Blob,
+  fileName: string,
+  options: StorageUploadOptions & { quality?: number; watermark?: WatermarkScope & { mediaId: string } } = {}
+): Promise<ProcessedImage> => {
+  const storage = getStorage();
+  const keepGps = await loadKeepGps();
+  const { metadata, caption } = await readImageMetadata(file, keepGps);
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(file);
+  } catch (err) {
+    console.warn('Image decode failed, uploading original:', err);
+    // Originál jde nahoru i s EXIF – bez dekódování ho nejde přeuložit, polohu by tedy prozradil
+    if (!keepGps && await mayContainGps(file)) {
+      throw new Error('Formát nejde převést na WebP a soubor může obsahovat GPS polohu – převeďte ho na JPEG, nebo v Systému zapněte Zachovat GPS polohu');
+    }
+    return { ...await storage.upload(file, fileName, options), variants: [], metadata, caption };
+  }
+
+  const quality = options.quality ?? compressionQuality();
+  const watermark = await watermarkFor(options.watermark);
+  const preview = computePreview(img);
+  const widths = variantWidthsFor(img.naturalWidth);
+  const mainWidth = widths[widths.length - 1];
+  const blobs = await Promise.all(widths.map(w => renderWebp(img, w, quality, watermark)));
+  // Čistá verze v plné webové šířce, bez vodoznaku
+  const clean = watermark ? await renderWebp(img, mainWidth, quality) : null;
+  const total = blobs.reduce((sum, b) => sum + b.size, clean?.size || 0) || 1;
+  const loaded = [...blobs, clean].map(() => 0);
+  const report = () => options.onProgress?.(Math.round((loaded.reduce((a, b) => a + b, 0) / total) * 100));
+
+  const variants: ImageVariant[] = [];
+  let main: StoredObject | null = null;
+  for (const [i, width] of widths.entries()) {
+    const isMain = i === widths.length - 1;
+    const name = isMain ? `${baseName(fileName)}.webp` : `${baseName(fileName)}-${width}w.webp`;
+    const stored = await storage.upload(blobs[i], name, {
+      signal: options.signal,
+      onProgress: progress => { loaded[i] = (progress / 100) * blobs[i].size; report(); }
+    });
+    variants.push({ width, url: stored.url, key: stored.key });
+    if (isMain) main = stored;
+  }
+
+  let watermarked: ProcessedImage['watermarked'];
+  if (watermark && clean) {
+    await storeOriginal(options.watermark!.mediaId, clean, options.signal);
+    loaded[blobs.length] = clean.size;
+    report();
+    watermarked = { watermarkedWith: watermark.signature };
+  }
+
+  return {
+    ...main!,
+    width: mainWidth,
+    height: Math.round((img.naturalHeight / img.naturalWidth) * mainWidth),
+    variants,
+    ...preview,
+    metadata,
+    caption,
+    watermarked
+  };
+};
+
+export const srcSetFor = (variants?: ImageVariant[]): string | undefined =>
+  variants && variants.length > 1
+    ? [...variants].sort((a, b) => a.width - b.width).map(v => `${v.url} ${v.width}w`).join(', ')
+    : undefined;
+
+// Klíče zmenšenin kromě hlavního souboru (ten maže volající podle specializationId)
+export const variantKeys = (item: FileItem): string[] =>
+  (item.variants || []).filter(v => v.key && v.url !== item.url).map(v => v.key!);
+
+// --- Index URL -> zmenšeniny, náhled a poster videa pro veřejný web ---
+
+export type IndexedImage = Pick<FileItem, 'variants' | 'placeholder' | 'dominantColor' | 'dimensions' | 'posterUrl'>;
+export type ImageIndex = Map<string, IndexedImage>;
+
+const cleanUrl = (url: string) => url.split(/[?#]/)[0];
+
+// Veřejná stránka se ptá jen na URL, které opravdu zobrazuje, a jen na sloupce pro <img>.
+// Celá knihovna by znamenala stahovat všechna metadata a narazit na limit 1000 řádků.
+const INDEX_COLUMNS = ['url', 'variants', 'placeholder', 'dominant_color', 'dimensions', 'poster_url'];
+// URL v jednom dotazu – PostgREST je posílá v adrese požadavku
+const INDEX_CHUNK = 50;
+
+// null = URL v knihovně není (cizí obrázek) nebo nemá co přidat – znovu se neptá
+const indexed = new Map<string, IndexedImage | null>();
+const loading = new Map<string, Promise<void>>();
+let queued: { urls: Set<string>; promise: Promise<void> } | null = null;
+let unsubscribe: (() => void) | null = null;
+
+const fetchIndex = async (urls: string[]) => {
+  for (let i = 0; i < urls.length; i += INDEX_CHUNK) {
+    const chunk = urls.slice(i, i + INDEX_CHUNK);
+    try {
+      const rows = await getBackend().select(mediaSchema.table, {
+        columns: INDEX_COLUMNS,
+        filters: [{ column: 'url', op: 'in', value: chunk }, { column: 'deleted_at', op: 'is', value: null }]
+      });
+      for (const url of chunk) indexed.set(url, null);
+      for (const item of rows.map(row => fromRow(mediaSchema, row))) {
+        if (!item.url || ((item.variants?.length || 0) <= 1 && !item.placeholder && !item.posterUrl)) continue;
+        indexed.set(cleanUrl(item.url), {
+          variants: item.variants,
+          placeholder: item.placeholder,
+          dominantColor: item.dominantColor,
+          dimensions: item.dimensions,
+          posterUrl: item.posterUrl
+        });
+      }
+    } catch (err) {
+      console.warn('Image index failed:', err);
+    } finally {
+      for (const url of chunk) loading.delete(url);
+    }
+  }
+};
+
+/**
+ * Zmenšeniny, náhledy a postery pro dané URL. Požadavky ze všech obrázků na stránce
+ * se sečtou do jednoho dotazu (po dávkách), známé URL se berou z paměti.
+ */
+export const loadImageIndex = async (urls: (string | null | undefined)[]): Promise<ImageIndex> => {
+  // Nové zmenšeniny (upload, doplnění) se projeví při dalším dotazu
+  unsubscribe ??= subscribeToTables(['media_meta'], () => indexed.clear(), { remote: false });
+
+  const wanted = [...new Set(urls.filter((u): u is string => !!u && !u.startsWith('data:')).map(cleanUrl))];
+  for (const url of wanted) {
+    if (indexed.has(url) || loading.has(url)) continue;
+    if (!queued) {
+      const batch = { urls: new Set<string>(), promise: Promise.resolve() };
+      batch.promise = new Promise(resolve => setTimeout(resolve, 0)).then(() => {
+        queued = null;
+        return fetchIndex([...batch.urls]);
+      });
+      queued = batch;
+    }
+    queued.urls.add(url);
+    loading.set(url, queued.promise);
+  }
+  await Promise.all(wanted.map(url => loading.get(url)));
+
+  const index: ImageIndex = new Map();
+  for (const url of wanted) {
+    const entry = indexed.get(url);
+    if (entry) index.set(url, entry);
+  }
+  return index;
+};
+
+// src všech <img> v hotovém HTML (obsah článku)
+export const imageUrlsInHtml = (html: string): string[] =>
+  [...html.matchAll(/<img\b[^>]*\bsrc=["']([^"']+)["']/gi)].map(match => match[1]);
+
+const lookup = (index: ImageIndex | null, url?: string | null): IndexedImage | undefined =>
+  index && url ? index.get(cleanUrl(url)) : undefined;
+
+export const variantsFor = (index: ImageIndex | null, url?: string | null): ImageVariant[] | undefined =>
+  lookup(index, url)?.variants;
+
+export const previewFor = (index: ImageIndex | null, url?: string | null): Omit<IndexedImage, 'variants'> | undefined =>
+  lookup(index, url);
+
+// Poster videa z knihovny – pro GalleryItem uložené dřív, než poster vznikl
+export const posterFor = (index: ImageIndex | null, url?: string | null): string | undefined =>
+  lookup(index, url)?.posterUrl;
+
+// srcset do hotového HTML (obsah článku) – jen u <img>, které ho ještě nemají
+export const addSrcSetToHtml = (html: string, index: ImageIndex | null, sizes: string): string =>
+  html.replace(/<img\b[^>]*>/gi, tag => {
+    if (/\bsrcset=/i.test(tag)) return tag;
+    const src = tag.match(/\bsrc=["']([^"']+)["']/i)?.[1];
+    const srcSet = srcSetFor(variantsFor(index, src));
+    return srcSet ? tag.replace(/^<img\b/i, `<img srcset="${srcSet}" sizes="${sizes}"`) : tag;
+  });
+
+// --- Doplnění zmenšenin a náhledů ke starším souborům ---
+
+export const needsVariants = (item: FileItem) =>
+  item.type === 'image' && !!storageKeyFromUrl(item.url) && (!item.variants?.length || !item.placeholder);
+
+export interface VariantBackfillResult {
+  processed: number;
+  failed: { name: string; error: string }[];
+}
+
+/**
+ * Ke starším obrázkům v knihovně vyrobí menší šířky a náhled pro načítání. Hlavní soubor
+ * zůstává, jak je – URL v obsahu se nemění, jen přibude srcset.
+ */
+export const backfillVariants = async (
+  options: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<VariantBackfillResult> => {
+  const items = (await mediaDB.getAll({ force: true })).filter(needsVariants);
+  const failed: VariantBackfillResult['failed'] = [];
+  const quality = compressionQuality();
+  let processed = 0;
+
+  for (const [index, item] of items.entries()) {
+    if (options.signal?.aborted) break;
+    options.onProgress?.(index, items.length);
+    try {
+      const response = await fetch(item.url!, { signal: options.signal });
+      if (!response.ok) throw new Error(`Stažení selhalo (HTTP ${response.status})`);
+      const img = await loadImage(await response.blob());
+      const patch: Partial<FileItem> = {
+        ...computePreview(img),
+        dimensions: item.dimensions || `${img.naturalWidth}x${img.naturalHeight}`
+      };
+
+      if (!item.variants?.length) {
+        // Zmenšeniny jdou do stejného úložiště jako originál
+        const storage = storageFor(storageKeyFromUrl(item.url)!.provider);
+        const variants: ImageVariant[] = [];
+        for (const width of VARIANT_WIDTHS.filter(w => w < img.naturalWidth)) {
+          const blob = await renderWebp(img, width, quality);
+          const stored = await storage.upload(blob, `${baseName(item.name)}-${width}w.webp`, { signal: options.signal });
+          variants.push({ width, url: stored.url, key: stored.key });
+        }
+        variants.push({ width: img.naturalWidth, url: item.url!, key: item.specializationId });
+        patch.variants = variants;
+      }
+
+      await mediaDB.update(item.id, patch);
+      processed++;
+    } catch (err) {
+      if (options.signal?.aborted) break;
+      console.warn(`Variant backfill failed for ${item.name}:`, err);
+      failed.push({ name: item.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return { processed, failed };
+};
+
+// --- Hromadné použití vodoznaku na knihovnu ---
+
+export interface WatermarkBatchResult {
+  watermarked: number;
+  cleaned: number;
+  failed: { name: string; error: string }[];
+  updated: RewriteResult;
+}
+
+/**
+ * Srovná knihovnu s nastavením vodoznaku: obrázkům, na které se vztahuje, vyrobí webové verze
+ * s aktuálním vodoznakem z čisté verze, a obrázkům, na které už ne, vrátí čistou verzi.
+ * Nové soubory mají nové URL – odkazy v obsahu se přepíšou a staré soubory se smažou až potom.
+ * Soubory, které už mají vodoznak podle aktuálního nastavení, se přeskočí.
+ */
+export const reapplyWatermarks = async (
+  options: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<WatermarkBatchResult> => {
+  const config = await loadWatermarkConfig();
+  const watermark = config.enabled && config.logoUrl ? await prepareWatermark(config) : null;
+  const [library, projects, settings] = await Promise.all([
+    mediaDB.getAll({ force: true }),
+    projectDB.getAll({ force: true }),
+    dataStore.doc('web_settings').get() as Promise<Partial<WebSettings>>
+  ]);
+  const specializations = specializationsByUrl(projects, settings);
+  const applies = (item: FileItem) => !!watermark &&
+    watermarkApplies(config, { parentId: item.parentId, specializationIds: specializations.get(cleanUrl(item.url!)) }, library);
+
+  const items = library.filter(item =>
+    item.type === 'image' && !!storageKeyFromUrl(item.url) &&
+    // Logo samo sebe neoznačí – jeho URL je v nastavení
+    cleanUrl(item.url!) !== cleanUrl(config.logoUrl) &&
+    (applies(item) ? item.watermarkedWith !== watermark!.signature : !!item.watermarkedWith)
+  );
+
+  const quality = compressionQuality();
+  const urls = new Map<string, string>();
+  const staleKeys: { provider: StoredObject['provider']; key: string }[] = [];
+  const failed: WatermarkBatchResult['failed'] = [];
+  let watermarked = 0;
+  let cleaned = 0;
+  // Čisté verze obrázků, které vodoznak ztratily – smažou se spolu se starými soubory
+  const restored: string[] = [];
+
+  for (const [index, item] of items.entries()) {
+    if (options.signal?.aborted) break;
+    options.onProgress?.(index, items.length);
+    try {
+      const provider = storageKeyFromUrl(item.url)!.provider;
+      const storage = storageFor(provider);
+      // Obrázek s vodoznakem se vyrábí z čisté verze; ještě čistý obrázek je zdrojem sám
+      let source: Blob | null;
+      if (item.watermarkedWith) {
+        source = await fetchOriginal(item.id, options.signal);
+        if (!source) throw new Error('Čistá verze bez vodoznaku chybí');
+      } else {
+        const response = await fetch(item.url!, { signal: options.signal });
+        if (!response.ok) throw new Error(`Stažení selhalo (HTTP ${response.status})`);
+        source = await response.blob();
+      }
+      const img = await loadImage(source);
+      const widths = variantWidthsFor(img.naturalWidth);
+      const withWatermark = applies(item);
+      if (withWatermark && !item.watermarkedWith) await storeOriginal(item.id, source, options.signal);
+
+      const variants: ImageVariant[] = [];
+      for (const width of widths) {
+        const isMain = width === widths[widths.length - 1];
+        const blob = await renderWebp(img, width, quality, withWatermark ? watermark : null);
+        const name = isMain ? `${baseName(item.name)}.webp` : `${baseName(item.name)}-${width}w.webp`;
+        const stored = await storage.upload(blob, name, { signal: options.signal });
+        variants.push({ width, url: stored.url, key: stored.key });
+      }
+      const main = variants[variants.length - 1];
+
+      await mediaDB.update(item.id, {
+        url: main.url,
+        specializationId: main.key,
+        variants,
+        watermarkedWith: withWatermark ? watermark!.signature : null
+      });
+      urls.set(cleanUrl(item.url!), main.url);
+      staleKeys.push(...[...variantKeys(item), item.specializationId].filter(Boolean).map(key => ({ provider, key: key! })));
+      if (withWatermark) watermarked++;
+      else {
+        cleaned++;
+        restored.push(item.id);
+      }
+    } catch (err) {
+      if (options.signal?.aborted) break;
+      console.warn(`Watermark failed for ${item.name}:`, err);
+      failed.push({ name: item.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const updated = await rewriteUrlsInContent(urls);
+  for (const { provider, key } of staleKeys) {
+    try {
+      await storageFor(provider).remove(key);
+    } catch (err) {
+      console.warn(`Stale watermark file remove failed (${key}):`, err);
+    }
+  }
+  for (const id of restored) {
+    try {
+      await removeOriginal(id);
+    } catch (err) {
+      console.warn(`Original remove failed (${id}):`, err);
+    }
+  }
+
+  return { watermarked, cleaned, failed, updated };
+};
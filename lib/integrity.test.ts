@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { dataStore, mediaDB, projectDB } from './db';
+import { moveOrphansToRoot, registerOrphanObjects, repairBrokenReferences, runIntegrityCheck } from './integrity';
+import { StoredObject, storageFor } from './storage';
+
+const SUPABASE = 'https://abc.supabase.co/storage/v1/object/public/media/';
+const R2 = 'https://pub-0123.r2.dev/';
+
+const object = (provider: 'supabase' | 'r2', key: string): StoredObject =>
+  ({ provider, key, url: `${provider === 'r2' ? R2 : SUPABASE}${key}` });
+
+const media = (id: string, url: string, key: string, overrides: Record<string, unknown> = {}) =>
+  ({ id, name: id, type: 'image', url, specialization_id: key, ...overrides });
+
+let backend: MemoryBackend;
+
+beforeEach(() => {
+  localStorage.clear();
+  backend = new MemoryBackend({
+    media_meta: [
+      media('a', `${R2}a.jpg`, 'a.jpg', { variants: [{ width: 400, url: `${R2}a_400.webp`, key: 'a_400.webp' }] }),
+      media('chybi', `${R2}chybi.jpg`, 'chybi.jpg'),
+      media('kos', `${SUPABASE}kos.jpg`, 'kos.jpg', { deleted_at: '2026-01-01T00:00:00.000Z' }),
+      media('sirotek', `${R2}sirotek.jpg`, 'sirotek.jpg', { parent_id: 'smazana-slozka' })
+    ],
+    projects: [{
+      id: 'p1',
+      title: 'Svatba',
+      category_id: 'wedding',
+      type: 'image',
+      thumbnail_url: `${SUPABASE}kos.jpg`,
+      gallery: [
+        { id: 'g1', type: 'image', url: `${R2}a.jpg`, source: 'storage' },
+        { id: 'g2', type: 'image', url: `${R2}chybi.jpg`, source: 'storage' }
+      ]
+    }],
+    blog: [],
+    web_settings: [{ id: 'web_settings', data: { homeHeader: `${R2}a.jpg`, backstage: [`${R2}chybi.jpg`] } }]
+  });
+  // Knihovna se ověřuje proti úložišti jen u vzdáleného backendu
+  Object.assign(backend, { remote: true });
+  setBackend(backend);
+
+  vi.spyOn(storageFor('r2'), 'list').mockResolvedValue([
+    object('r2', 'a.jpg'), object('r2', 'a_400.webp'), object('r2', 'sirotek.jpg'), object('r2', 'zbloudily.jpg')
+  ]);
+  vi.spyOn(storageFor('supabase'), 'list').mockResolvedValue([object('supabase', 'kos.jpg')]);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('kontrola integrity', () => {
+  it('najde rozbité odkazy, osiřelé objekty, chybějící soubory a položky bez složky', async () => {
+    const report = await runIntegrityCheck();
+
+    expect(report.checkedStorage).toEqual(['supabase', 'r2']);
+    expect(report.warnings).toEqual([]);
+    expect(report.brokenReferences.map(r => [r.owner, r.url]).sort()).toEqual([
+      ['project', `${SUPABASE}kos.jpg`],
+      ['project', `${R2}chybi.jpg`],
+      ['settings', `${R2}chybi.jpg`]
+    ]);
+    expect(report.orphanObjects.map(o => o.key)).toEqual(['zbloudily.jpg']);
+    expect(report.missingObjects.map(i => i.id)).toEqual(['chybi']);
+    expect(report.orphanItems.map(i => i.id)).toEqual(['sirotek']);
+  });
+
+  it('nevypsané úložiště jen ohlásí a jeho soubory neoznačí za chybějící', async () => {
+    vi.spyOn(storageFor('r2'), 'list').mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const report = await runIntegrityCheck();
+    expect(report.checkedStorage).toEqual(['supabase']);
+    expect(report.warnings).toHaveLength(1);
+    expect(report.missingObjects).toEqual([]);
+    expect(report.brokenReferences.map(r => r.url)).toEqual([`${SUPABASE}kos.jpg`]);
+  });
+
+  it('lokální backend úložiště nekontroluje', async () => {
+    Object.assign(backend, { remote: false });
+    const report = await runIntegrityCheck();
+
+    expect(report.checkedStorage).toEqual([]);
+    expect(report.orphanObjects).toEqual([]);
+    expect(report.missingObjects).toEqual([]);
+    expect(report.orphanItems.map(i => i.id)).toEqual(['sirotek']);
+  });
+});
+
+describe('opravy', () => {
+  it('rozbité odkazy zmizí z obsahu, platné zůstanou', async () => {
+    await repairBrokenReferences((await runIntegrityCheck()).brokenReferences);
+
+    const [project] = await projectDB.getAll({ force: true });
+    expect(project.thumbnailUrl).toBe('');
+    expect(project.gallery.map(g => g.id)).toEqual(['g1']);
+    const settings = await dataStore.doc('web_settings').get();
+    expect(settings.homeHeader).toBe(`${R2}a.jpg`);
+    expect(settings.backstage).toEqual([]);
+    expect((await runIntegrityCheck()).brokenReferences).toEqual([]);
+  });
+
+  it('osiřelé objekty se zaevidují do kořene knihovny, položky bez složky se do něj přesunou', async () => {
+    const report = await runIntegrityCheck();
+    await registerOrphanObjects(report.orphanObjects);
+    await moveOrphansToRoot(report.orphanItems);
+
+    const items = await mediaDB.getAll({ force: true });
+    expect(items.find(i => i.specializationId === 'zbloudily.jpg')).toMatchObject({ name: 'zbloudily', type: 'image', parentId: null });
+    expect(items.find(i => i.id === 'sirotek')?.parentId).toBeNull();
+
+    const after = await runIntegrityCheck();
+    expect(after.orphanObjects).toEqual([]);
+    expect(after.orphanItems).toEqual([]);
+  });
+});
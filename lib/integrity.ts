@@ -0,0 +1,169 @@
+import { BlogPost, FileItem, Project, WebSettings } from '../types';
+import { blogDB, dataStore, getBackend, mediaDB, projectDB } from './db';
+import { variantKeys } from './imageVariants';
+import {
+  MediaReference, collectReferences, removeUrlsFromPost, removeUrlsFromProject, removeUrlsFromSettings
+} from './mediaReferences';
+import { StoredObject, storageFor, storageKeyFromUrl } from './storage';
+
+type ListedStorage = 'supabase' | 'r2';
+
+export interface IntegrityReport {
+  checkedAt: string;
+  // Úložiště, která se podařilo vypsat; u ostatních se existence souborů neověřuje
+  checkedStorage: ListedStorage[];
+  warnings: string[];
+  brokenReferences: MediaReference[];
+  orphanObjects: StoredObject[];
+  missingObjects: FileItem[];
+  orphanItems: FileItem[];
+}
+
+const objectId = (provider: string, key: string) => `${provider}:${key}`;
+
+const isManagedFile = (item: FileItem) => item.type !== 'folder' && !!storageKeyFromUrl(item.url);
+
+/**
+ * Projde obsah, knihovnu médií a úložiště a najde:
+ * - odkazy z obsahu na soubory, které v úložišti nejsou (nebo leží v koši knihovny),
+ * - objekty v úložišti bez záznamu v media_meta,
+ * - záznamy v media_meta, jejichž soubor v úložišti chybí,
+ * - položky knihovny, jejichž nadřazená složka neexistuje.
+ */
+export const runIntegrityCheck = async (): Promise<IntegrityReport> => {
+  const [projects, posts, media, trashedMedia, settings] = await Promise.all([
+    projectDB.getAll({ force: true }),
+    blogDB.getAll({ force: true }),
+    mediaDB.getAll({ force: true }),
+    mediaDB.getAll({ force: true, trashed: true }),
+    dataStore.doc('web_settings').get() as Promise<Partial<WebSettings>>
+  ]);
+
+  const warnings: string[] = [];
+  const objects: StoredObject[] = [];
+  const checkedStorage: ListedStorage[] = [];
+  if (getBackend().remote) {
+    const listed: ListedStorage[] = ['supabase', 'r2'];
+    for (const provider of listed) {
+      try {
+        objects.push(...await storageFor(provider).list());
+        checkedStorage.push(provider);
+      } catch (err) {
+        console.warn(`Storage listing failed for ${provider}:`, err);
+        warnings.push(`Úložiště ${provider === 'r2' ? 'R2' : 'Supabase'} se nepodařilo vypsat – existence souborů v něm se neověřila.`);
+      }
+    }
+  } else {
+    warnings.push(`Backend "${getBackend().name}" nemá úložiště souborů – kontroluje se jen knihovna médií.`);
+  }
+
+  const existing = new Set(objects.map(o => objectId(o.provider, o.key)));
+  const objectExists = (url?: string | null) => {
+    const ref = storageKeyFromUrl(url);
+    if (!ref || !checkedStorage.includes(ref.provider)) return true;
+    return existing.has(objectId(ref.provider, ref.key));
+  };
+  const trashedUrls = new Set(trashedMedia.map(m => m.url).filter(Boolean));
+
+  const brokenReferences = collectReferences({ projects, posts, settings })
+    .filter(ref => storageKeyFromUrl(ref.url) && (!objectExists(ref.url) || trashedUrls.has(ref.url)));
+
+  // Záznam v koši objekt pořád „vlastní“ – smaže ho až vysypání koše
+  const allMedia = [...media, ...trashedMedia];
+  const owned = new Set<string>();
+  for (const item of allMedia) {
+    const ref = storageKeyFromUrl(item.url);
+    if (ref) owned.add(objectId(ref.provider, ref.key));
+    // Hlavní soubor, zmenšeniny, poster videa a čistá verze pod vodoznakem
+    for (const key of [item.specializationId, ...variantKeys(item), item.posterKey]) {
+      if (!key) continue;
+      owned.add(objectId('supabase', key));
+      owned.add(objectId('r2', key));
+    }
+  }
+  const orphanObjects = objects.filter(o => !owned.has(objectId(o.provider, o.key)));
+
+  const missingObjects = media.filter(item => isManagedFile(item) && !objectExists(item.url));
+
+  const folderIds = new Set(allMedia.filter(item => item.type === 'folder').map(item => item.id));
+  const orphanItems = media.filter(item => item.parentId && !folderIds.has(item.parentId));
+
+  return {
+    checkedAt: new Date().toISOString(),
+    checkedStorage,
+    warnings,
+    brokenReferences,
+    orphanObjects,
+    missingObjects,
+    orphanItems
+  };
+};
+
+// Oprava: rozbité odkazy se z obsahu odeberou (galerie, titulní fotky, obrázky v textu, hlavičky)
+export const repairBrokenReferences = async (refs: MediaReference[]) => {
+  const urlsBy = (owner: MediaReference['owner']) => {
+    const map = new Map<string, Set<string>>();
+    for (const ref of refs.filter(r => r.owner === owner)) {
+      if (!map.has(ref.ownerId)) map.set(ref.ownerId, new Set());
+      map.get(ref.ownerId)!.add(ref.url);
+    }
+    return map;
+  };
+
+  const projectUrls = urlsBy('project');
+  if (projectUrls.size > 0) {
+    const projects = await projectDB.getAll({ force: true });
+    for (const project of projects.filter((p: Project) => projectUrls.has(p.id))) {
+      await projectDB.save(removeUrlsFromProject(project, projectUrls.get(project.id)!));
+    }
+  }
+
+  const postUrls = urlsBy('blog');
+  if (postUrls.size > 0) {
+    const posts = await blogDB.getAll({ force: true });
+    for (const post of posts.filter((p: BlogPost) => postUrls.has(p.id))) {
+      await blogDB.save(removeUrlsFromPost(post, postUrls.get(post.id)!));
+    }
+  }
+
+  const settingsUrls = new Set(refs.filter(r => r.owner === 'settings').map(r => r.url));
+  if (settingsUrls.size > 0) {
+    const doc = dataStore.doc('web_settings');
+    await doc.set(removeUrlsFromSettings(await doc.get(), settingsUrls));
+  }
+};
+
+const guessType = (key: string): FileItem['type'] => {
+  if (/\.(jpe?g|png|webp|gif|avif|svg)$/i.test(key)) return 'image';
+  if (/\.(mp4|mov|webm|m4v)$/i.test(key)) return 'video';
+  return 'other';
+};
+
+// Oprava: osiřelé objekty se nemažou, ale zaevidují do kořene knihovny – smazat je jde pak běžně přes koš
+export const registerOrphanObjects = async (objects: StoredObject[]) => {
+  for (const obj of objects) {
+    const fileName = obj.key.split('/').pop() || obj.key;
+    const type = guessType(obj.key);
+    await mediaDB.save({
+      id: crypto.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      name: fileName.replace(/\.[^.]+$/, ''),
+      type,
+      size: obj.size !== undefined ? `${(obj.size / (1024 * 1024)).toFixed(2)} MB` : undefined,
+      url: obj.url,
+      parentId: null,
+      specializationId: obj.key,
+      mediaType: type === 'video' ? 'video' : 'photo',
+      updatedAt: new Date().toISOString()
+    });
+  }
+};
+
+// Oprava: záznamy bez souboru jdou do koše (dají se ještě obnovit)
+export const trashMissingObjects = async (items: FileItem[]) => {
+  for (const item of items) await mediaDB.delete(item.id);
+};
+
+// Oprava: položky z neexistující složky se přesunou do kořene knihovny
+export const moveOrphansToRoot = async (items: FileItem[]) => {
+  for (const item of items) await mediaDB.update(item.id, { parentId: null });
+};
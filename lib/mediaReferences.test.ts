@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { BlogPost, MediaType, Project, WebSettings } from '../types';
+import {
+  buildReferenceIndex, collectReferences, inlineMediaUrls, referencesFor, removeUrlsFromPost,
+  removeUrlsFromProject, removeUrlsFromSettings, rewriteUrlsInPost, rewriteUrlsInProject, rewriteUrlsInSettings
+} from './mediaReferences';
+
+const project: Project = {
+  id: 'p1',
+  title: 'Svatba',
+  slug: 'svatba',
+  category: '',
+  categoryId: 'wedding',
+  description: '',
+  shortDescription: '',
+  thumbnailUrl: 'https://cdn/thumb.jpg',
+  thumbnailSource: 'storage',
+  type: MediaType.BOTH,
+  date: '2026-01-01',
+  gallery: [
+    { id: 'g1', type: 'image', url: 'https://cdn/a.jpg', source: 'storage' },
+    { id: 'g2', type: 'video', url: 'https://cdn/v.mp4', source: 'storage', poster: 'https://cdn/v-poster.jpg' },
+    { id: 'g3', type: 'video', url: 'https://youtu.be/x', source: 'youtube' }
+  ]
+};
+
+const post: BlogPost = {
+  id: 'b1',
+  title: 'Tipy',
+  content: '<p>Úvod</p><img src="https://cdn/a.jpg" alt=""><video src="https://cdn/v.mp4"></video>\n![foto](https://cdn/b.jpg)\nkonec',
+  excerpt: '',
+  coverImage: 'https://cdn/cover.jpg',
+  date: '2026-01-01',
+  author: 'Jakub',
+  tags: []
+};
+
+const settings: Partial<WebSettings> = {
+  homeHeader: 'https://cdn/home.jpg',
+  specializationHeaders: { wedding: 'https://cdn/a.jpg' },
+  backstage: ['https://cdn/back.jpg', 'https://cdn/a.jpg']
+};
+
+describe('inlineMediaUrls', () => {
+  it('najde obrázky, videa i markdown obrázky v textu', () => {
+    expect(inlineMediaUrls(post.content)).toEqual(['https://cdn/a.jpg', 'https://cdn/v.mp4', 'https://cdn/b.jpg']);
+  });
+});
+
+describe('collectReferences', () => {
+  const refs = collectReferences({ projects: [project], posts: [post], settings });
+
+  it('sbírá odkazy z projektů včetně plakátu videa, YouTube vynechá', () => {
+    expect(refs.filter(r => r.owner === 'project').map(r => [r.field, r.url])).toEqual([
+      ['thumbnailUrl', 'https://cdn/thumb.jpg'],
+      ['gallery', 'https://cdn/a.jpg'],
+      ['gallery', 'https://cdn/v.mp4'],
+      ['gallery.poster', 'https://cdn/v-poster.jpg']
+    ]);
+  });
+
+  it('odkaz nese veřejnou stránku, kde se soubor zobrazuje', () => {
+    expect(refs.find(r => r.owner === 'project')?.path).toBe('/projekt/svatba');
+    expect(refs.find(r => r.owner === 'settings')?.path).toBeUndefined();
+  });
+
+  it('index vrací všechna místa použití bez ohledu na query v URL', () => {
+    const index = buildReferenceIndex({ projects: [project], posts: [post], settings });
+    expect(referencesFor(index, 'https://cdn/a.jpg?v=2').map(r => `${r.owner}:${r.field}`)).toEqual([
+      'project:gallery',
+      'blog:content',
+      'settings:specializationHeaders.wedding',
+      'settings:backstage'
+    ]);
+    expect(referencesFor(index, 'https://cdn/v-poster.jpg')).toHaveLength(1);
+    expect(referencesFor(index, null)).toEqual([]);
+  });
+});
+
+describe('removeUrlsFrom*', () => {
+  it('z projektu odebere titulní fotku a položky galerie, u videa jen plakát', () => {
+    const next = removeUrlsFromProject(project, new Set(['https://cdn/thumb.jpg', 'https://cdn/a.jpg', 'https://cdn/v-poster.jpg']));
+    expect(next.thumbnailUrl).toBe('');
+    expect(next.gallery?.map(i => i.id)).toEqual(['g2', 'g3']);
+    expect(next.gallery?.[0].poster).toBeUndefined();
+  });
+
+  it('z článku odebere obrázek, video i markdown a titulní fotku', () => {
+    const next = removeUrlsFromPost(post, new Set(['https://cdn/a.jpg', 'https://cdn/v.mp4', 'https://cdn/b.jpg', 'https://cdn/cover.jpg']));
+    expect(next.content).toBe('<p>Úvod</p>\nkonec');
+    expect(next.coverImage).toBe('');
+  });
+
+  it('z nastavení odebere hlavičky i backstage', () => {
+    const next = removeUrlsFromSettings(settings, new Set(['https://cdn/a.jpg', 'https://cdn/home.jpg']));
+    expect(next.homeHeader).toBe('');
+    expect(next.specializationHeaders).toEqual({});
+    expect(next.backstage).toEqual(['https://cdn/back.jpg']);
+  });
+});
+
+describe('rewriteUrlsIn*', () => {
+  const urls = new Map([
+    ['https://cdn/a.jpg', 'https://r2/a.jpg'],
+    ['https://cdn/v-poster.jpg', 'https://r2/v-poster.jpg']
+  ]);
+
+  it('přepíše galerii i plakát videa, ostatní nechá', () => {
+    const next = rewriteUrlsInProject(project, urls);
+    expect(next.thumbnailUrl).toBe('https://cdn/thumb.jpg');
+    expect(next.gallery?.map(i => [i.url, i.poster])).toEqual([
+      ['https://r2/a.jpg', undefined],
+      ['https://cdn/v.mp4', 'https://r2/v-poster.jpg'],
+      ['https://youtu.be/x', undefined]
+    ]);
+  });
+
+  it('přepíše URL v textu článku', () => {
+    expect(rewriteUrlsInPost(post, urls).content).toContain('<img src="https://r2/a.jpg"');
+  });
+
+  it('přepíše hlavičky specializací a backstage', () => {
+    const next = rewriteUrlsInSettings(settings, urls);
+    expect(next.specializationHeaders).toEqual({ wedding: 'https://r2/a.jpg' });
+    expect(next.backstage).toEqual(['https://cdn/back.jpg', 'https://r2/a.jpg']);
+  });
+});
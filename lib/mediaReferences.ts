@@ -0,0 +1,229 @@
+import { BlogPost, Project, WebSettings } from '../types';
+import { blogDB, dataStore, projectDB } from './db';
+import { SPECIALIZATIONS } from '../constants';
+import { blogPostPath, projectPath } from './slugs';
+
+// Obsah odkazuje na média syrovými URL (galerie, titulní fotky, obrázky v textu článku,
+// hlavičky v nastavení webu). Tady se ty odkazy sbírají a umí se z obsahu zase odebrat.
+
+export type ReferenceOwner = 'project' | 'blog' | 'settings';
+
+export interface MediaReference {
+  owner: ReferenceOwner;
+  ownerId: string;
+  ownerTitle: string;
+  // Cesta k poli, např. `gallery`, `content`, `specializationHeaders.architektura`
+  field: string;
+  label: string;
+  url: string;
+  // Veřejná stránka, na které se soubor zobrazuje (u nastavení webu není)
+  path?: string;
+}
+
+export interface ReferenceSources {
+  projects: Project[];
+  posts: BlogPost[];
+  settings: Partial<WebSettings> | null;
+}
+
+const SETTINGS_IMAGE_FIELDS: Partial<Record<keyof WebSettings, string>> = {
+  homeHeader: 'Hlavička – úvod',
+  portfolioHeader: 'Hlavička – portfolio',
+  contactHeader: 'Hlavička – kontakt',
+  blogHeader: 'Hlavička – blog',
+  profilePic: 'Profilová fotka'
+};
+
+const SETTINGS_ID = 'web_settings';
+const SETTINGS_TITLE = 'Nastavení webu';
+
+// <img src>, <video src>, <source src> i markdown ![alt](url), který vkládá BlogManagerV2
+const INLINE_MEDIA_PATTERNS = [
+  /<(?:img|video|source)\b[^>]*?\bsrc=["']([^"']+)["'][^>]*>/gi,
+  /!\[[^\]]*\]\(([^)\s]+)\)/g
+];
+
+export const inlineMediaUrls = (html: string): string[] => {
+  const urls = new Set<string>();
+  for (const pattern of INLINE_MEDIA_PATTERNS) {
+    for (const match of html.matchAll(pattern)) urls.add(match[1]);
+  }
+  return Array.from(urls);
+};
+
+export const collectReferences = ({ projects, posts, settings }: ReferenceSources): MediaReference[] => {
+  const refs: MediaReference[] = [];
+  const push = (owner: ReferenceOwner, ownerId: string, ownerTitle: string, field: string, label: string, url?: string | null, path?: string) => {
+    if (url) refs.push({ owner, ownerId, ownerTitle, field, label, url, path });
+  };
+
+  for (const p of projects) {
+    const path = projectPath(p);
+    push('project', p.id, p.title, 'thumbnailUrl', 'Náhled', p.thumbnailUrl, path);
+    push('project', p.id, p.title, 'youtubeCoverUrl', 'Obal videa', p.youtubeCoverUrl, path);
+    for (const item of p.gallery || []) {
+      if (item.source !== 'youtube') push('project', p.id, p.title, 'gallery', 'Galerie', item.url, path);
+      push('project', p.id, p.title, 'gallery.poster', 'Plakát videa v galerii', item.poster, path);
+    }
+  }
+
+  for (const post of posts) {
+    const path = blogPostPath(post);
+    push('blog', post.id, post.title, 'coverImage', 'Titulní fotka', post.coverImage, path);
+    for (const url of inlineMediaUrls(post.content || '')) push('blog', post.id, post.title, 'content', 'Obsah článku', url, path);
+  }
+
+  if (settings) {
+    for (const [key, label] of Object.entries(SETTINGS_IMAGE_FIELDS)) {
+      push('settings', SETTINGS_ID, SETTINGS_TITLE, key, label!, (settings as Record<string, any>)[key]);
+    }
+    for (const [specId, url] of Object.entries(settings.specializationHeaders || {})) {
+      push('settings', SETTINGS_ID, SETTINGS_TITLE, `specializationHeaders.${specId}`, `Hlavička – ${SPECIALIZATIONS.find(s => s.id === specId)?.name || specId}`, url);
+    }
+    for (const url of settings.backstage || []) push('settings', SETTINGS_ID, SETTINGS_TITLE, 'backstage', 'Backstage', url);
+  }
+
+  return refs;
+};
+
+export const REFERENCE_OWNER_LABELS: Record<ReferenceOwner, string> = {
+  project: 'Projekt',
+  blog: 'Článek',
+  settings: 'Web'
+};
+
+// Index URL -> kde všude je soubor použit. Klíč je URL bez query/hash, aby ?v=… nerozbilo shodu.
+export type ReferenceIndex = Map<string, MediaReference[]>;
+
+const indexKey = (url: string) => url.split(/[?#]/)[0];
+
+export const buildReferenceIndex = (sources: ReferenceSources): ReferenceIndex => {
+  const index: ReferenceIndex = new Map();
+  for (const ref of collectReferences(sources)) {
+    const key = indexKey(ref.url);
+    const list = index.get(key) || [];
+    // Stejný soubor víckrát v jedné galerii se ukáže jen jednou
+    if (!list.some(r => r.ownerId === ref.ownerId && r.field === ref.field)) list.push(ref);
+    index.set(key, list);
+  }
+  return index;
+};
+
+export const referencesFor = (index: ReferenceIndex, url?: string | null): MediaReference[] =>
+  url ? index.get(indexKey(url)) || [] : [];
+
+// Položky v koši se nepočítají – smazaný projekt soubor „nepoužívá“
+export const loadReferenceIndex = async (): Promise<ReferenceIndex> => {
+  const [projects, posts, settings] = await Promise.all([
+    projectDB.getAll(),
+    blogDB.getAll(),
+    dataStore.doc('web_settings').get() as Promise<Partial<WebSettings>>
+  ]);
+  return buildReferenceIndex({ projects, posts, settings });
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const removeUrlsFromProject = (project: Project, urls: Set<string>): Project => ({
+  ...project,
+  thumbnailUrl: urls.has(project.thumbnailUrl) ? '' : project.thumbnailUrl,
+  youtubeCoverUrl: project.youtubeCoverUrl && urls.has(project.youtubeCoverUrl) ? '' : project.youtubeCoverUrl,
+  // Chybějící plakát videa nevadí – video zůstane, jen bez náhledu
+  gallery: (project.gallery || [])
+    .filter(item => !urls.has(item.url))
+    .map(item => (item.poster && urls.has(item.poster) ? { ...item, poster: undefined } : item))
+});
+
+export const removeUrlsFromPost = (post: BlogPost, urls: Set<string>): BlogPost => {
+  let content = post.content || '';
+  for (const url of urls) {
+    const src = escapeRegExp(url);
+    content = content
+      .replace(new RegExp(`<(?:img|source)\\b[^>]*?\\bsrc=["']${src}["'][^>]*>`, 'gi'), '')
+      .replace(new RegExp(`<video\\b[^>]*?\\bsrc=["']${src}["'][^>]*?(?:/>|>\\s*</video>)`, 'gi'), '')
+      .replace(new RegExp(`!\\[[^\\]]*\\]\\(${src}\\)\\n?`, 'g'), '');
+  }
+  return { ...post, coverImage: urls.has(post.coverImage) ? '' : post.coverImage, content };
+};
+
+export const removeUrlsFromSettings = (settings: Partial<WebSettings>, urls: Set<string>): Partial<WebSettings> => {
+  const next: Record<string, any> = { ...settings };
+  for (const key of Object.keys(SETTINGS_IMAGE_FIELDS)) {
+    if (urls.has(next[key])) next[key] = '';
+  }
+  next.specializationHeaders = Object.fromEntries(
+    Object.entries(settings.specializationHeaders || {}).filter(([, url]) => !urls.has(url))
+  );
+  next.backstage = (settings.backstage || []).filter(url => !urls.has(url));
+  return next as Partial<WebSettings>;
+};
+
+// Přepis URL (migrace úložiště, vodoznak). Mapa je klíčovaná URL bez query/hash, stejně jako index.
+const rewriteUrl = (urls: Map<string, string>, url: string) => urls.get(indexKey(url)) ?? url;
+
+export const rewriteUrlsInProject = (project: Project, urls: Map<string, string>): Project => ({
+  ...project,
+  thumbnailUrl: project.thumbnailUrl && rewriteUrl(urls, project.thumbnailUrl),
+  youtubeCoverUrl: project.youtubeCoverUrl && rewriteUrl(urls, project.youtubeCoverUrl),
+  gallery: (project.gallery || []).map(item => ({
+    ...item,
+    url: rewriteUrl(urls, item.url),
+    ...(item.poster ? { poster: rewriteUrl(urls, item.poster) } : {})
+  }))
+});
+
+export const rewriteUrlsInPost = (post: BlogPost, urls: Map<string, string>): BlogPost => {
+  let content = post.content || '';
+  for (const [from, to] of urls) content = content.split(from).join(to);
+  return { ...post, coverImage: post.coverImage && rewriteUrl(urls, post.coverImage), content };
+};
+
+export const rewriteUrlsInSettings = (settings: Partial<WebSettings>, urls: Map<string, string>): Partial<WebSettings> => {
+  const next: Record<string, any> = { ...settings };
+  for (const key of Object.keys(SETTINGS_IMAGE_FIELDS)) {
+    if (next[key]) next[key] = rewriteUrl(urls, next[key]);
+  }
+  next.specializationHeaders = Object.fromEntries(
+    Object.entries(settings.specializationHeaders || {}).map(([id, url]) => [id, url && rewriteUrl(urls, url)])
+  );
+  next.backstage = (settings.backstage || []).map(url => rewriteUrl(urls, url));
+  return next as Partial<WebSettings>;
+};
+
+export interface RewriteResult {
+  projects: number;
+  posts: number;
+  settings: boolean;
+}
+
+/**
+ * Přepíše URL v projektech, článcích (včetně koše) a nastavení webu; každý záznam se uloží nejvýš jednou.
+ */
+export const rewriteUrlsInContent = async (urls: Map<string, string>): Promise<RewriteResult> => {
+  const updated: RewriteResult = { projects: 0, posts: 0, settings: false };
+  if (urls.size === 0) return updated;
+
+  for (const project of [...await projectDB.getAll({ force: true }), ...await projectDB.getAll({ trashed: true })]) {
+    const next = rewriteUrlsInProject(project, urls);
+    if (JSON.stringify(next) === JSON.stringify(project)) continue;
+    await projectDB.save(next);
+    updated.projects++;
+  }
+
+  for (const post of [...await blogDB.getAll({ force: true }), ...await blogDB.getAll({ trashed: true })]) {
+    const next = rewriteUrlsInPost(post, urls);
+    if (JSON.stringify(next) === JSON.stringify(post)) continue;
+    await blogDB.save(next);
+    updated.posts++;
+  }
+
+  const doc = dataStore.doc(SETTINGS_ID);
+  const settings = await doc.get();
+  const nextSettings = rewriteUrlsInSettings(settings, urls);
+  if (JSON.stringify(nextSettings) !== JSON.stringify(settings)) {
+    await doc.set(nextSettings);
+    updated.settings = true;
+  }
+
+  return updated;
+};
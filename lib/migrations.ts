@@ -0,0 +1,154 @@
+import { ColumnInfo, getBackend } from './backend';
+import { EntitySchema, FieldKind, SEARCH_COLUMN, blogSchema, inquirySchema, mediaSchema, partnerSchema, projectSchema, reviewSchema } from './schema';
+
+// Musí odpovídat souborům v supabase/migrations – nová migrace = nový řádek tady.
+export const MIGRATIONS = [
+  { version: 1, name: 'initial_schema' },
+  { version: 2, name: 'entity_columns' },
+  { version: 3, name: 'realtime' },
+  { version: 4, name: 'web_settings_document' },
+  { version: 5, name: 'schema_introspection' },
+  { version: 6, name: 'soft_delete' },
+  { version: 7, name: 'revisions' },
+  { version: 8, name: 'restore_backup' },
+  { version: 9, name: 'publishing' },
+  { version: 10, name: 'slugs' },
+  { version: 11, name: 'image_variants' },
+  { version: 12, name: 'image_placeholders' },
+  { version: 13, name: 'image_metadata' },
+  { version: 14, name: 'video_metadata' },
+  { version: 15, name: 'content_hashes' },
+  { version: 16, name: 'watermarks' },
+  { version: 17, name: 'restore_backup_grants' },
+  { version: 18, name: 'media_originals' },
+  { version: 19, name: 'search_unaccent' },
+  { version: 20, name: 'deleted_at_timestamptz' }
+] as const;
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface ColumnMismatch {
+  column: string;
+  expected: FieldKind;
+  actual: string;
+}
+
+export interface TableDrift {
+  table: string;
+  label: string;
+  tableMissing: boolean;
+  // Sloupce, které aplikace zapisuje a databáze nemá – zápis selže nebo se hodnota ztratí
+  missing: string[];
+  // Sloupce v databázi, o kterých kód neví – neškodí, ale nic je nečte
+  unused: string[];
+  mismatched: ColumnMismatch[];
+}
+
+export interface SchemaReport {
+  expectedVersion: number;
+  appliedVersion: number | null;
+  pendingMigrations: string[];
+  tables: TableDrift[];
+  checkedAt: string;
+}
+
+interface ExpectedTable {
+  table: string;
+  label: string;
+  columns: Record<string, FieldKind>;
+}
+
+const SYSTEM_COLUMNS: Record<string, FieldKind> = { created_at: 'string', updated_at: 'string' };
+
+const fromSchema = <T extends { id: string }>(schema: EntitySchema<T>): ExpectedTable => ({
+  table: schema.table,
+  label: schema.label,
+  columns: {
+    ...SYSTEM_COLUMNS,
+    ...Object.fromEntries(Object.values(schema.fields).map((def: any) => [def.column, def.kind])),
+    ...(schema.searchFields ? { [SEARCH_COLUMN]: 'string' as const } : {})
+  }
+});
+
+const expectedTables = (): ExpectedTable[] => [
+  fromSchema(projectSchema),
+  fromSchema(blogSchema),
+  fromSchema(reviewSchema),
+  fromSchema(inquirySchema),
+  fromSchema(mediaSchema),
+  fromSchema(partnerSchema),
+  { table: 'web_settings', label: 'Nastavení webu', columns: { id: 'string', data: 'json', ...SYSTEM_COLUMNS } },
+  {
+    table: 'revisions',
+    label: 'Historie změn',
+    columns: { id: 'string', table_name: 'string', record_id: 'string', snapshot: 'json', author: 'string', ...SYSTEM_COLUMNS }
+  }
+];
+
+const isCompatible = (kind: FieldKind, dataType: string) => {
+  switch (kind) {
+    case 'number': return ['integer', 'bigint', 'smallint', 'numeric', 'real', 'double precision'].includes(dataType);
+    case 'boolean': return dataType === 'boolean';
+    case 'json':
+    case 'stringArray': return ['jsonb', 'json', 'ARRAY'].includes(dataType);
+    case 'string': return !['jsonb', 'json', 'ARRAY', 'boolean'].includes(dataType);
+  }
+};
+
+export const getAppliedSchemaVersion = async (): Promise<number | null> => {
+  try {
+    const rows = await getBackend().select('schema_migrations', { orderBy: [{ column: 'version', ascending: false }], limit: 1 });
+    return rows[0]?.version ?? 0;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Porovná skutečné sloupce tabulek (funkce schema_columns z migrace 0005) s tím,
+ * co mapují entity v lib/schema.ts, a zjistí, které migrace ještě nebyly spuštěny.
+ */
+export const checkSchemaDrift = async (): Promise<SchemaReport> => {
+  const appliedVersion = await getAppliedSchemaVersion();
+  const backend = getBackend();
+  const liveColumns: ColumnInfo[] | null = await backend.listColumns();
+  if (!liveColumns) {
+    throw new Error(`Backend "${backend.name}" nemá databázové schéma, kontrola se přeskakuje.`);
+  }
+
+  const live = new Map<string, Map<string, string>>();
+  for (const row of liveColumns) {
+    if (!live.has(row.table_name)) live.set(row.table_name, new Map());
+    live.get(row.table_name)!.set(row.column_name, row.data_type);
+  }
+
+  const tables = expectedTables().map(({ table, label, columns }): TableDrift => {
+    const actual = live.get(table);
+    if (!actual) {
+      return { table, label, tableMissing: true, missing: Object.keys(columns), unused: [], mismatched: [] };
+    }
+    const mismatched: ColumnMismatch[] = [];
+    const missing: string[] = [];
+    Object.entries(columns).forEach(([column, kind]) => {
+      const dataType = actual.get(column);
+      if (!dataType) missing.push(column);
+      else if (!isCompatible(kind, dataType)) mismatched.push({ column, expected: kind, actual: dataType });
+    });
+    const unused = [...actual.keys()].filter(column => !(column in columns));
+    return { table, label, tableMissing: false, missing, unused, mismatched };
+  });
+
+  return {
+    expectedVersion: SCHEMA_VERSION,
+    appliedVersion,
+    pendingMigrations: MIGRATIONS
+      .filter(m => appliedVersion === null || m.version > appliedVersion)
+      .map(m => `${String(m.version).padStart(4, '0')}_${m.name}.sql`),
+    tables,
+    checkedAt: new Date().toISOString()
+  };
+};
+
+export const hasBlockingDrift = (report: SchemaReport) =>
+  report.pendingMigrations.length > 0 ||
+  report.tables.some(t => t.tableMissing || t.missing.length > 0 || t.mismatched.length > 0);
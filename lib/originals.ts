@@ -0,0 +1,65 @@
+import { adminHeaders } from './adminToken';
+import { getBackend } from './backend';
+
+// Čisté verze obrázků pod vodoznakem. Na veřejném webu být nesmí, takže nejdou do běžného
+// úložiště ani do media_meta – drží je neveřejný bucket a k souboru se dostane jen admin
+// přes Netlify funkci media-originals (podepsané URL na pár minut).
+
+const ENDPOINT = '/.netlify/functions/media-originals';
+
+// Lokální backendy nemají server – čistá verze vydrží jen do obnovení stránky
+const local = new Map<string, Blob>();
+
+async function callOriginals<T>(payload: object, fallbackError: string): Promise<T> {
+  const response = await fetch(ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...adminHeaders() },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(err.error || fallbackError);
+  }
+  return response.json();
+}
+
+export const storeOriginal = async (mediaId: string, blob: Blob, signal?: AbortSignal): Promise<void> => {
+  if (!getBackend().remote) {
+    local.set(mediaId, blob);
+    return;
+  }
+  const { uploadUrl, uploadHeaders, key } = await callOriginals<{
+    uploadUrl: string; uploadHeaders: Record<string, string>; key: string;
+  }>({ action: 'presign', mediaId }, 'Nepodařilo se připravit uložení čisté verze');
+  const response = await fetch(uploadUrl, { method: 'PUT', headers: uploadHeaders, body: blob, signal });
+  if (!response.ok) throw new Error(`Uložení čisté verze selhalo (HTTP ${response.status})`);
+  await callOriginals({ action: 'register', mediaId, key }, 'Nepodařilo se zaevidovat čistou verzi');
+};
+
+/** Čistá verze obrázku, nebo null, pokud žádná uložená není. */
+export const fetchOriginal = async (mediaId: string, signal?: AbortSignal): Promise<Blob | null> => {
+  if (!getBackend().remote) return local.get(mediaId) || null;
+  const response = await fetch(ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...adminHeaders() },
+    body: JSON.stringify({ action: 'get', mediaId }),
+    signal
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ error: 'Nepodařilo se získat čistou verzi' }));
+    throw new Error(err.error || 'Nepodařilo se získat čistou verzi');
+  }
+  const { url } = await response.json();
+  const file = await fetch(url, { signal });
+  if (!file.ok) throw new Error(`Stažení čisté verze selhalo (HTTP ${file.status})`);
+  return file.blob();
+};
+
+export const removeOriginal = async (mediaId: string): Promise<void> => {
+  if (!getBackend().remote) {
+    local.delete(mediaId);
+    return;
+  }
+  await callOriginals({ action: 'remove', mediaId }, 'Nepodařilo se smazat čistou verzi');
+};
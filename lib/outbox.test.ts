@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Row, setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { enqueueWrite, flushOutbox, getOutbox, isNetworkError } from './outbox';
+
+// Zaznamená pořadí zápisů; vybrané záznamy selžou chybou sítě, jiné chybou v kódu
+class RecordingBackend extends MemoryBackend {
+  calls: string[] = [];
+  offline = new Set<string>();
+  broken = new Set<string>();
+
+  private record(call: string, id: string) {
+    if (this.offline.has(id)) throw new TypeError('Failed to fetch');
+    if (this.broken.has(id)) throw new TypeError("Cannot read properties of undefined (reading 'id')");
+    this.calls.push(call);
+  }
+
+  async upsert(table: string, row: Row) {
+    this.record(`upsert ${row.id} ${row.title}`, row.id);
+    return super.upsert(table, row);
+  }
+
+  async update(table: string, id: string, patch: Row, options?: { expectedVersion?: string | null }) {
+    this.record(`update ${id} ${patch.title}`, id);
+    return super.update(table, id, patch, options);
+  }
+
+  async remove(table: string, id: string) {
+    this.record(`delete ${id}`, id);
+    return super.remove(table, id);
+  }
+}
+
+let backend: RecordingBackend;
+
+beforeEach(() => {
+  localStorage.clear();
+  backend = new RecordingBackend({ projects: [] });
+  setBackend(backend);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('isNetworkError', () => {
+  it('pozná výpadek spojení z fetch i ze supabase-js', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError(new TypeError('Load failed'))).toBe(true);
+    expect(isNetworkError({ message: 'TypeError: NetworkError when attempting to fetch resource.', code: '' })).toBe(true);
+  });
+
+  it('chyby databáze a chyby v kódu nejsou výpadek', () => {
+    expect(isNetworkError({ message: 'Failed to fetch', code: '23505' })).toBe(false);
+    expect(isNetworkError(new TypeError('x is not a function'))).toBe(false);
+    expect(isNetworkError(new Error('Neplatná data'))).toBe(false);
+    expect(isNetworkError(undefined)).toBe(false);
+  });
+
+  it('prohlížeč bez připojení bere každou chybu jako výpadek', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    expect(isNetworkError(new Error('cokoli'))).toBe(true);
+  });
+});
+
+describe('flushOutbox', () => {
+  it('přehraje změny v pořadí, v jakém vznikly', async () => {
+    enqueueWrite('projects', 'upsert', 'p1', { title: 'A' });
+    enqueueWrite('projects', 'upsert', 'p2', { title: 'B' });
+    enqueueWrite('projects', 'update', 'p1', { title: 'A2' });
+    enqueueWrite('projects', 'delete', 'p2');
+
+    await flushOutbox();
+
+    expect(backend.calls).toEqual(['upsert p1 A', 'upsert p2 B', 'update p1 A2', 'delete p2']);
+    expect(getOutbox()).toEqual([]);
+    expect(await backend.select('projects')).toMatchObject([{ id: 'p1', title: 'A2' }]);
+  });
+
+  it('vlastní zápis při přehrávání nevyvolá konflikt u další změny téhož záznamu', async () => {
+    await backend.upsert('projects', { id: 'p1', title: 'A', updated_at: '2026-01-01T00:00:00.000Z' });
+    backend.calls = [];
+    enqueueWrite('projects', 'update', 'p1', { title: 'A2' }, undefined, '2026-01-01T00:00:00.000Z');
+    enqueueWrite('projects', 'update', 'p1', { title: 'A3' }, undefined, '2026-01-01T00:00:00.000Z');
+
+    await flushOutbox();
+
+    expect(backend.calls).toEqual(['update p1 A2', 'update p1 A3']);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('neúspěšná změna zablokuje další změny téhož záznamu, ostatní projdou', async () => {
+    enqueueWrite('projects', 'upsert', 'p1', { title: 'A' }, { code: '23502', message: 'null value' });
+    enqueueWrite('projects', 'update', 'p1', { title: 'A2' });
+    enqueueWrite('projects', 'upsert', 'p2', { title: 'B' });
+
+    await flushOutbox();
+
+    expect(backend.calls).toEqual(['upsert p2 B']);
+    expect(getOutbox().map(e => [e.recordId, e.status])).toEqual([['p1', 'failed'], ['p1', 'pending']]);
+  });
+
+  it('změna na serveru od posledního načtení je konflikt', async () => {
+    await backend.upsert('projects', { id: 'p1', title: 'Server', updated_at: '2026-02-01T00:00:00.000Z' });
+    backend.calls = [];
+    enqueueWrite('projects', 'update', 'p1', { title: 'Moje' }, undefined, '2026-01-01T00:00:00.000Z');
+    enqueueWrite('projects', 'update', 'p1', { title: 'Moje 2' }, undefined, '2026-01-01T00:00:00.000Z');
+
+    await flushOutbox();
+
+    expect(backend.calls).toEqual([]);
+    expect(getOutbox().map(e => e.status)).toEqual(['conflict', 'pending']);
+  });
+
+  it('chyba v kódu změnu označí jako neúspěšnou a fronta pokračuje', async () => {
+    backend.broken.add('p1');
+    enqueueWrite('projects', 'upsert', 'p1', { title: 'A' });
+    enqueueWrite('projects', 'upsert', 'p2', { title: 'B' });
+
+    await flushOutbox();
+
+    expect(backend.calls).toEqual(['upsert p2 B']);
+    expect(getOutbox().map(e => [e.recordId, e.status])).toEqual([['p1', 'failed']]);
+  });
+
+  it('zápis, který selhal chybou v kódu, se rovnou zařadí jako neúspěšný', () => {
+    enqueueWrite('projects', 'upsert', 'p1', { title: 'A' }, new TypeError('x is not a function'));
+    enqueueWrite('projects', 'upsert', 'p2', { title: 'B' }, new TypeError('Failed to fetch'));
+    expect(getOutbox().map(e => e.status)).toEqual(['failed', 'pending']);
+  });
+
+  it('výpadek sítě přehrávání zastaví a změny nechá ve frontě', async () => {
+    backend.offline.add('p1');
+    enqueueWrite('projects', 'upsert', 'p1', { title: 'A' });
+    enqueueWrite('projects', 'upsert', 'p2', { title: 'B' });
+
+    await flushOutbox();
+
+    expect(backend.calls).toEqual([]);
+    expect(getOutbox().map(e => [e.recordId, e.status, e.attempts])).toEqual([['p1', 'pending', 1], ['p2', 'pending', 0]]);
+  });
+});
@@ -0,0 +1,184 @@
+import { Row, getBackend } from './backend';
+import { notifyChange } from './realtime';
+
+export type OutboxOp = 'upsert' | 'update' | 'delete';
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  id: string;
+  table: string;
+  op: OutboxOp;
+  recordId: string;
+  payload?: Record<string, any>;
+  // updated_at ze serveru, ze kterého admin vycházel – podle něj se při replay hledá konflikt
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+}
+
+const OUTBOX_KEY = 'jakub_minka_outbox';
+const VERSIONS_KEY = 'jakub_minka_versions';
+export const OUTBOX_EVENT = 'outbox-change';
+
+const readOutbox = (): OutboxEntry[] => JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  window.dispatchEvent(new Event(OUTBOX_EVENT));
+};
+
+const readVersions = (): Record<string, Record<string, string>> => JSON.parse(localStorage.getItem(VERSIONS_KEY) || '{}');
+
+export const getKnownVersion = (table: string, recordId: string): string | null =>
+  readVersions()[table]?.[recordId] ?? null;
+
+export const rememberVersions = (table: string, rows: Row[]) => {
+  const versions = readVersions();
+  const forTable = { ...(versions[table] || {}) };
+  rows.forEach(row => {
+    if (row.updated_at) forTable[row.id] = row.updated_at;
+    else delete forTable[row.id];
+  });
+  versions[table] = forTable;
+  localStorage.setItem(VERSIONS_KEY, JSON.stringify(versions));
+};
+
+// Jen výpadek spojení má smysl zkoušet znovu. Fetch ho hlásí jako TypeError (Chrome „Failed to fetch“,
+// Safari „Load failed“, Firefox „NetworkError…“, Node „fetch failed“) a supabase-js jeho text předá
+// v `message`. Cokoli jiného – chyba v kódu, odmítnutý zápis – skončí jako `failed`, jinak by
+// navždy visela ve frontě a blokovala ostatní změny téhož záznamu.
+const NETWORK_FAILURE = /failed to fetch|load failed|networkerror|network request failed|fetch failed/i;
+
+export const isNetworkError = (err: any): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (err?.code) return false;
+  return NETWORK_FAILURE.test(String(err?.message ?? err ?? ''));
+};
+
+const describeError = (err: any) => err?.message || String(err);
+
+export const getOutbox = (): OutboxEntry[] => readOutbox();
+
+export const getOutboxCounts = () => {
+  const entries = readOutbox();
+  return {
+    pending: entries.filter(e => e.status === 'pending').length,
+    failed: entries.filter(e => e.status !== 'pending').length
+  };
+};
+
+export const getOutboxEntries = (table: string): OutboxEntry[] => readOutbox().filter(e => e.table === table);
+
+export const hasOutboxEntry = (table: string, recordId: string) =>
+  readOutbox().some(e => e.table === table && e.recordId === recordId);
+
+export const enqueueWrite = (
+  table: string,
+  op: OutboxOp,
+  recordId: string,
+  payload?: Record<string, any>,
+  cause?: unknown,
+  baseUpdatedAt?: string | null
+) => {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID?.() || `${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+    table,
+    op,
+    recordId,
+    payload,
+    baseUpdatedAt: baseUpdatedAt !== undefined ? baseUpdatedAt : getKnownVersion(table, recordId),
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    status: cause && !isNetworkError(cause) ? 'failed' : 'pending',
+    error: cause ? describeError(cause) : undefined
+  };
+  writeOutbox([...readOutbox(), entry]);
+};
+
+export const discardOutboxEntry = (entryId: string) => {
+  writeOutbox(readOutbox().filter(e => e.id !== entryId));
+};
+
+// Přepsání serveru: konflikt se ignoruje a změna se pošle znovu.
+export const retryOutboxEntry = async (entryId: string) => {
+  writeOutbox(readOutbox().map(e => e.id === entryId
+    ? { ...e, status: 'pending' as const, baseUpdatedAt: null, error: undefined }
+    : e
+  ));
+  await flushOutbox();
+};
+
+const findConflict = async (entry: OutboxEntry, base: string | null): Promise<string | null> => {
+  if (!base) return null;
+  const data = await getBackend().getById(entry.table, entry.recordId);
+  if (!data) return entry.op === 'delete' ? null : 'záznam byl mezitím na serveru smazán';
+  if (data.updated_at && new Date(data.updated_at).getTime() !== new Date(base).getTime()) {
+    return `záznam byl na serveru změněn (${new Date(data.updated_at).toLocaleString()})`;
+  }
+  return null;
+};
+
+const replay = async (entry: OutboxEntry): Promise<string | null> => {
+  const backend = getBackend();
+  const now = new Date().toISOString();
+  if (entry.op === 'delete') {
+    await backend.remove(entry.table, entry.recordId);
+    return null;
+  }
+  const row = { ...entry.payload, updated_at: now };
+  const saved = entry.op === 'upsert'
+    ? await backend.upsert(entry.table, { ...row, id: entry.recordId })
+    : await backend.update(entry.table, entry.recordId, row);
+  return saved?.updated_at ?? now;
+};
+
+let flushing: Promise<void> | null = null;
+
+export const flushOutbox = (): Promise<void> => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const replayedTables = new Map<string, string[]>();
+    // Verze, kterou jsme sami právě zapsali, nesmí vyvolat konflikt u dalších změn téhož záznamu.
+    const replayedVersions = new Map<string, string | null>();
+    const blocked = new Set<string>();
+
+    for (const entry of readOutbox()) {
+      const key = `${entry.table}:${entry.recordId}`;
+      if (entry.status !== 'pending') {
+        blocked.add(key);
+        continue;
+      }
+      if (blocked.has(key)) continue;
+
+      const base = replayedVersions.has(key) ? replayedVersions.get(key)! : entry.baseUpdatedAt;
+      let patch: Partial<OutboxEntry> | null = null;
+      try {
+        const conflict = await findConflict(entry, base);
+        if (conflict) {
+          patch = { status: 'conflict', error: conflict, attempts: entry.attempts + 1 };
+        } else {
+          const version = await replay(entry);
+          replayedVersions.set(key, version);
+          rememberVersions(entry.table, [{ id: entry.recordId, updated_at: version }]);
+          writeOutbox(readOutbox().filter(e => e.id !== entry.id));
+          replayedTables.set(entry.table, [...(replayedTables.get(entry.table) || []), entry.recordId]);
+          continue;
+        }
+      } catch (err) {
+        if (isNetworkError(err)) {
+          console.warn('Outbox replay interrupted, still offline:', err);
+          writeOutbox(readOutbox().map(e => e.id === entry.id ? { ...e, attempts: e.attempts + 1 } : e));
+          break;
+        }
+        patch = { status: 'failed', error: describeError(err), attempts: entry.attempts + 1 };
+      }
+      blocked.add(key);
+      writeOutbox(readOutbox().map(e => e.id === entry.id ? { ...e, ...patch } : e));
+    }
+
+    replayedTables.forEach((ids, table) => notifyChange(table, ids));
+  })().finally(() => { flushing = null; });
+  return flushing;
+};
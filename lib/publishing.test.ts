@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { effectiveStatus, isPublished } from './publishing';
+
+const now = new Date('2026-05-01T12:00:00.000Z');
+const past = '2026-04-30T12:00:00.000Z';
+const future = '2026-05-02T12:00:00.000Z';
+
+describe('isPublished', () => {
+  it('starší záznam bez stavu je veřejný', () => {
+    expect(isPublished({}, now)).toBe(true);
+  });
+
+  it('koncept a archiv nejsou vidět nikdy', () => {
+    expect(isPublished({ status: 'draft' }, now)).toBe(false);
+    expect(isPublished({ status: 'archived', publishAt: past }, now)).toBe(false);
+  });
+
+  it('publikovaný obsah čeká na čas zveřejnění, pokud ho má', () => {
+    expect(isPublished({ status: 'published' }, now)).toBe(true);
+    expect(isPublished({ status: 'published', publishAt: past }, now)).toBe(true);
+    expect(isPublished({ status: 'published', publishAt: future }, now)).toBe(false);
+  });
+
+  it('naplánovaný obsah se zveřejní po dosažení času', () => {
+    expect(isPublished({ status: 'scheduled', publishAt: past }, now)).toBe(true);
+    expect(isPublished({ status: 'scheduled', publishAt: now.toISOString() }, now)).toBe(true);
+    expect(isPublished({ status: 'scheduled', publishAt: future }, now)).toBe(false);
+  });
+
+  it('naplánovaný obsah bez času se nezveřejní', () => {
+    expect(isPublished({ status: 'scheduled', publishAt: null }, now)).toBe(false);
+    expect(isPublished({ status: 'scheduled' }, now)).toBe(false);
+  });
+});
+
+describe('effectiveStatus', () => {
+  it('odráží, zda čas zveřejnění už nastal', () => {
+    expect(effectiveStatus({ status: 'scheduled', publishAt: past }, now)).toBe('published');
+    expect(effectiveStatus({ status: 'published', publishAt: future }, now)).toBe('scheduled');
+    expect(effectiveStatus({ status: 'draft', publishAt: past }, now)).toBe('draft');
+  });
+});
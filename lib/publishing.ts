@@ -0,0 +1,67 @@
+import { PublishStatus } from '../types';
+import type { RowFilter } from './backend';
+
+export interface Publishable {
+  status?: PublishStatus;
+  publishAt?: string | null;
+}
+
+export const PUBLISH_STATUS_LABELS: Record<PublishStatus, string> = {
+  draft: 'Koncept',
+  scheduled: 'Naplánováno',
+  published: 'Publikováno',
+  archived: 'Archiv'
+};
+
+// Co je na webu vidět: publikováno nebo naplánováno, a čas zveřejnění (pokud je) už nastal.
+// Naplánované bez času se nezveřejní nikdy – bez data není na co čekat.
+export const isPublished = (item: Publishable, now: Date = new Date()): boolean => {
+  const status = item.status ?? 'published';
+  if (status !== 'published' && status !== 'scheduled') return false;
+  if (!item.publishAt) return status === 'published';
+  return new Date(item.publishAt).getTime() <= now.getTime();
+};
+
+// Stav pro admin: naplánovaný obsah po dosažení času už je fakticky publikovaný.
+export const effectiveStatus = (item: Publishable, now: Date = new Date()): PublishStatus => {
+  const status = item.status ?? 'published';
+  if (status === 'scheduled' && isPublished(item, now)) return 'published';
+  if (status === 'published' && !isPublished(item, now)) return 'scheduled';
+  return status;
+};
+
+// Stejná podmínka jako isPublished, ale pro dotaz na backend
+export const publishedFilters = (now: Date = new Date()): RowFilter[] => [
+  {
+    op: 'any',
+    filters: [
+      { column: 'status', op: 'in', value: ['published', 'scheduled'] },
+      { column: 'status', op: 'is', value: null }
+    ]
+  },
+  {
+    op: 'any',
+    filters: [
+      { column: 'publish_at', op: 'is', value: null },
+      { column: 'publish_at', op: 'lte', value: now.toISOString() }
+    ]
+  },
+  // Naplánované jen s vyplněným časem
+  {
+    op: 'any',
+    filters: [
+      { column: 'status', op: 'in', value: ['published'] },
+      { column: 'status', op: 'is', value: null },
+      { column: 'publish_at', op: 'notNull' }
+    ]
+  }
+];
+
+// <input type="datetime-local"> pracuje v místním čase bez zóny
+export const toDateTimeInput = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : null);
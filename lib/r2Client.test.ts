@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isAbortError, uploadToR2 } from './r2Client';
+
+const MB = 1024 * 1024;
+
+// PUT na podepsanou URL; `respond` rozhodne o výsledku podle URL a pořadí pokusu (0 = síťová chyba, -1 = visí)
+let puts: { url: string; size: number }[] = [];
+let respond: (url: string, attempt: number) => number = () => 200;
+
+class FakeXHR {
+  status = 0;
+  upload: { onprogress?: (e: { loaded: number }) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+  private url = '';
+  private aborted = false;
+
+  open(_method: string, url: string) { this.url = url; }
+  setRequestHeader() {}
+  getResponseHeader() { return `"etag-${this.url}"`; }
+  abort() {
+    this.aborted = true;
+    this.onabort?.();
+  }
+  send(body: Blob) {
+    const attempt = puts.filter(p => p.url === this.url).length;
+    puts.push({ url: this.url, size: body.size });
+    setTimeout(() => {
+      const status = respond(this.url, attempt);
+      if (this.aborted || status < 0) return;
+      this.upload.onprogress?.({ loaded: body.size / 2 });
+      this.status = status;
+      if (status === 0) this.onerror?.();
+      else this.onload?.();
+    });
+  }
+}
+
+let calls: any[] = [];
+
+beforeEach(() => {
+  puts = [];
+  calls = [];
+  respond = () => 200;
+  vi.stubGlobal('XMLHttpRequest', FakeXHR);
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const payload = JSON.parse(String(init.body));
+    calls.push(payload);
+    const json = (data: object) => new Response(JSON.stringify(data), { status: 200 });
+    switch (payload.action) {
+      case 'presign': return json({ uploadUrl: 'put://single', uploadHeaders: {}, key: 'k/file.bin', url: 'https://r2/k/file.bin' });
+      case 'multipart-start': return json({ uploadId: 'u1', key: 'k/big.bin', url: 'https://r2/k/big.bin' });
+      case 'multipart-part': return json({ uploadUrl: `put://part-${payload.partNumber}` });
+      default: return json({});
+    }
+  }));
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('uploadToR2', () => {
+  it('malý soubor jde jedním PUT a průběh končí na 100 %', async () => {
+    const progress: number[] = [];
+    const result = await uploadToR2(new Blob(['ahoj']), 'file.bin', p => progress.push(p));
+
+    expect(result).toEqual({ key: 'k/file.bin', url: 'https://r2/k/file.bin' });
+    expect(puts.map(p => p.url)).toEqual(['put://single']);
+    expect(progress).toEqual([50, 100, 100]);
+  });
+
+  it('velký soubor jde po 8MB částech a dokončí se se seznamem ETagů', async () => {
+    const result = await uploadToR2(new Blob([new Uint8Array(20 * MB)]), 'big.bin');
+
+    expect(result.key).toBe('k/big.bin');
+    expect(puts.map(p => p.size).sort((a, b) => b - a)).toEqual([8 * MB, 8 * MB, 4 * MB]);
+    const complete = calls.find(c => c.action === 'multipart-complete');
+    expect(complete.parts.sort((a: any, b: any) => a.partNumber - b.partNumber)).toEqual([
+      { partNumber: 1, etag: '"etag-put://part-1"' },
+      { partNumber: 2, etag: '"etag-put://part-2"' },
+      { partNumber: 3, etag: '"etag-put://part-3"' }
+    ]);
+  });
+
+  it('neúspěšná část se zkusí znovu s nově podepsanou URL', async () => {
+    vi.useFakeTimers();
+    respond = (url, attempt) => url === 'put://part-2' && attempt === 0 ? 503 : 200;
+
+    const upload = uploadToR2(new Blob([new Uint8Array(20 * MB)]), 'big.bin');
+    await vi.runAllTimersAsync();
+    await upload;
+
+    expect(puts.filter(p => p.url === 'put://part-2')).toHaveLength(2);
+    expect(calls.filter(c => c.action === 'multipart-part' && c.partNumber === 2)).toHaveLength(2);
+    expect(calls.some(c => c.action === 'multipart-complete')).toBe(true);
+  });
+
+  it('po vyčerpání pokusů se nedokončený upload v bucketu zruší', async () => {
+    respond = url => url === 'put://part-1' ? 0 : 200;
+
+    await expect(uploadToR2(new Blob([new Uint8Array(20 * MB)]), 'big.bin', undefined, { retries: 0 }))
+      .rejects.toThrow('Síťová chyba při uploadu');
+    expect(calls.some(c => c.action === 'multipart-complete')).toBe(false);
+    expect(calls.filter(c => c.action === 'multipart-abort')).toEqual([{ action: 'multipart-abort', key: 'k/big.bin', uploadId: 'u1' }]);
+  });
+
+  it('zrušení uživatelem vyhodí AbortError a neopakuje se', async () => {
+    respond = () => -1;
+    const controller = new AbortController();
+    const upload = uploadToR2(new Blob(['ahoj']), 'file.bin', undefined, { signal: controller.signal });
+    await vi.waitFor(() => expect(puts).toHaveLength(1));
+    controller.abort();
+
+    const err = await upload.catch(e => e);
+    expect(isAbortError(err)).toBe(true);
+    expect(puts).toHaveLength(1);
+  });
+
+  it('chybu funkce ukáže se zprávou ze serveru', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: 'Neplatný klíč' }), { status: 401 })));
+    await expect(uploadToR2(new Blob(['ahoj']), 'file.bin')).rejects.toThrow('Neplatný klíč');
+  });
+});
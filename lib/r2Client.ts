@@ -1,129 +1,214 @@
 /**
  * r2Client.ts
- * Helper pro upload/delete souborů přes Netlify Function → Cloudflare R2
+ * Helper pro upload/delete souborů do Cloudflare R2
+ * Netlify Function jen podepisuje URL, data jdou z prohlížeče rovnou do bucketu.
  * Databáze (metadata) zůstává v Supabase, soubory jdou do R2.
+ * Funkce pouští jen admina – každé volání nese serverový klíč (lib/adminToken.ts).
  */
 
+import { adminHeaders } from './adminToken';
+
 const UPLOAD_ENDPOINT = '/.netlify/functions/r2-upload';
+// Veřejná doména bucketu (stejná jako PUBLIC_URL v Netlify Function)
+export const R2_PUBLIC_URL = 'https://pub-904faae02f174edea92dc65656d7a3cb.r2.dev';
 
 export interface R2UploadResult {
   url: string;
   key: string;
 }
 
-/**
- * Převede File/Blob na base64 string
- */
-function fileToBase64(file: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Odstraň "data:...;base64," prefix
-      resolve(result.split(',')[1]);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+export interface R2UploadOptions {
+  signal?: AbortSignal;
+  // Kolikrát se zkusí znovu jeden PUT (celý soubor nebo jedna část)
+  retries?: number;
+}
+
+// Nad touto velikostí se nahrává po částech; S3 vyžaduje části aspoň 5 MB (kromě poslední)
+const MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+const PART_SIZE = 8 * 1024 * 1024;
+const PART_CONCURRENCY = 3;
+const DEFAULT_RETRIES = 3;
+
+const abortError = () => new DOMException('Upload zrušen', 'AbortError');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+async function callFunction<T>(payload: object, fallbackError: string): Promise<T> {
+  const response = await fetch(UPLOAD_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...adminHeaders() },
+    body: JSON.stringify(payload),
   });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(err.error || fallbackError);
+  }
+
+  return response.json();
 }
 
 /**
- * Komprese + WebP konverze obrázku na straně prohlížeče
+ * PUT na podepsanou URL přes XHR – fetch neumí průběh odesílání.
+ * Vrací ETag, který multipart potřebuje při dokončení.
  */
-export function optimizeImage(file: File, quality = 0.82): Promise<Blob> {
+function putWithProgress(
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  onLoaded: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
   return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-
-      // Max rozlišení 2400px na delší straně
-      const MAX = 2400;
-      let { width, height } = img;
-      if (width > MAX || height > MAX) {
-        if (width > height) {
-          height = Math.round((height / width) * MAX);
-          width = MAX;
-        } else {
-          width = Math.round((width / height) * MAX);
-          height = MAX;
-        }
+    if (signal?.aborted) return reject(abortError());
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.open('PUT', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (e) => onLoaded(e.loaded);
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onLoaded(body.size);
+        resolve(xhr.getResponseHeader('ETag') || '');
+      } else {
+        reject(new Error(`R2 odmítlo upload (HTTP ${xhr.status})`));
       }
-
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return reject(new Error('Canvas context failed'));
-
-      ctx.drawImage(img, 0, 0, width, height);
-      canvas.toBlob(
-        (blob) => {
-          if (!blob) return reject(new Error('Canvas toBlob failed'));
-          resolve(blob);
-        },
-        'image/webp',
-        quality
-      );
     };
-
-    img.onerror = reject;
-    img.src = url;
+    xhr.onerror = () => { cleanup(); reject(new Error('Síťová chyba při uploadu')); };
+    xhr.onabort = () => { cleanup(); reject(abortError()); };
+    xhr.send(body);
   });
 }
 
 /**
- * Nahraje soubor do R2 přes Netlify Function
- * Obrázky jsou automaticky převedeny na WebP a zmenšeny
+ * Opakuje pokus s rostoucí pauzou (1 s, 2 s, 4 s…); zrušení uživatelem se neopakuje
  */
-export async function uploadToR2(
-  file: File,
-  quality = 0.82,
-  onProgress?: (progress: number) => void
-): Promise<R2UploadResult> {
-  let fileToUpload: Blob | File = file;
-  let contentType = file.type;
-  let fileName = file.name;
-
-  // Optimalizace obrázků → WebP
-  if (file.type.startsWith('image/')) {
-    onProgress?.(10);
+async function withRetry<T>(attempt: () => Promise<T>, retries: number, signal?: AbortSignal): Promise<T> {
+  for (let i = 0; ; i++) {
     try {
-      fileToUpload = await optimizeImage(file, quality);
-      contentType = 'image/webp';
-      // Změň příponu na .webp
-      fileName = file.name.replace(/\.[^.]+$/, '.webp');
+      return await attempt();
     } catch (err) {
-      console.warn('Optimalizace selhala, nahrávám originál:', err);
+      if (isAbortError(err) || signal?.aborted || i >= retries) throw err;
+      console.warn(`Upload selhal, zkouším znovu (${i + 1}/${retries}):`, err);
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** i));
     }
   }
+}
 
-  onProgress?.(30);
-
-  // Převod na base64 pro přenos přes Netlify Function
-  const base64 = await fileToBase64(fileToUpload);
+async function uploadSingle(
+  body: Blob,
+  fileName: string,
+  contentType: string,
+  onLoaded: (loaded: number) => void,
+  options: R2UploadOptions
+): Promise<R2UploadResult> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const { uploadUrl, uploadHeaders, key, url } = await callFunction<{
+    uploadUrl: string; uploadHeaders: Record<string, string>; key: string; url: string;
+  }>({ action: 'presign', fileName, contentType }, 'Nepodařilo se připravit upload');
+  await withRetry(() => putWithProgress(uploadUrl, body, uploadHeaders, onLoaded, options.signal), retries, options.signal);
+  return { url, key };
+}
 
-  onProgress?.(50);
+async function uploadMultipart(
+  body: Blob,
+  fileName: string,
+  contentType: string,
+  onLoaded: (loaded: number) => void,
+  options: R2UploadOptions
+): Promise<R2UploadResult> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const { uploadId, key, url } = await callFunction<{ uploadId: string; key: string; url: string }>(
+    { action: 'multipart-start', fileName, contentType },
+    'Nepodařilo se zahájit upload'
+  );
+
+  // Selže-li jedna část, zastaví se i ostatní souběžné
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  options.signal?.addEventListener('abort', stop, { once: true });
+  const signal = controller.signal;
+
+  const partCount = Math.ceil(body.size / PART_SIZE);
+  const loadedByPart = new Array<number>(partCount).fill(0);
+  const parts: { partNumber: number; etag: string }[] = [];
+  let nextPart = 0;
+
+  const uploadPart = async (index: number) => {
+    const partNumber = index + 1;
+    const chunk = body.slice(index * PART_SIZE, Math.min((index + 1) * PART_SIZE, body.size));
+    const etag = await withRetry(async () => {
+      loadedByPart[index] = 0;
+      // URL se podepisuje při každém pokusu – po dlouhém čekání mohla vypršet
+      const { uploadUrl } = await callFunction<{ uploadUrl: string }>(
+        { action: 'multipart-part', key, uploadId, partNumber },
+        'Nepodařilo se podepsat část uploadu'
+      );
+      return putWithProgress(uploadUrl, chunk, {}, loaded => {
+        loadedByPart[index] = loaded;
+        onLoaded(loadedByPart.reduce((sum, n) => sum + n, 0));
+      }, signal);
+    }, retries, signal);
+    parts.push({ partNumber, etag });
+  };
+
+  const worker = async () => {
+    while (nextPart < partCount) {
+      if (signal.aborted) throw abortError();
+      await uploadPart(nextPart++);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, partCount) }, worker));
+    await callFunction({ action: 'multipart-complete', key, uploadId, parts }, 'Nepodařilo se dokončit upload');
+  } catch (err) {
+    stop();
+    // Nedokončené části v bucketu nezůstanou
+    callFunction({ action: 'multipart-abort', key, uploadId }, 'Zrušení uploadu selhalo')
+      .catch(abortErr => console.warn('Multipart abort failed:', abortErr));
+    throw err;
+  } finally {
+    options.signal?.removeEventListener('abort', stop);
+  }
 
-  const response = await fetch(UPLOAD_ENDPOINT, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ fileName, fileData: base64, contentType }),
-  });
+  return { url, key };
+}
 
-  onProgress?.(90);
+/**
+ * Nahraje soubor do R2 přes podepsané URL (velké soubory po částech).
+ * Soubor se posílá tak, jak je – optimalizaci obrázků dělá volající.
+ * Při zrušení přes `options.signal` vyhodí AbortError (viz isAbortError).
+ */
+export async function uploadToR2(
+  body: Blob,
+  fileName: string,
+  onProgress?: (progress: number) => void,
+  options: R2UploadOptions = {}
+): Promise<R2UploadResult> {
+  if (options.signal?.aborted) throw abortError();
+  const contentType = body.type || 'application/octet-stream';
+  const total = body.size || 1;
+  const onLoaded = (loaded: number) => onProgress?.(Math.round((Math.min(loaded, total) / total) * 100));
 
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ error: 'Upload selhal' }));
-    throw new Error(err.error || 'Upload selhal');
-  }
+  const result = body.size > MULTIPART_THRESHOLD
+    ? await uploadMultipart(body, fileName, contentType, onLoaded, options)
+    : await uploadSingle(body, fileName, contentType, onLoaded, options);
 
-  const result = await response.json();
   onProgress?.(100);
+  return result;
+}
 
-  return { url: result.url, key: result.key };
+/**
+ * Přesune objekt v bucketu pod nový klíč (kopie + smazání originálu)
+ */
+export async function moveInR2(fromKey: string, toKey: string): Promise<R2UploadResult> {
+  return callFunction<R2UploadResult>({ action: 'move', fromKey, toKey }, 'Přesun souboru selhal');
 }
 
 /**
@@ -132,7 +217,7 @@ export async function uploadToR2(
 export async function deleteFromR2(key: string): Promise<void> {
   const response = await fetch(UPLOAD_ENDPOINT, {
     method: 'DELETE',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...adminHeaders() },
     body: JSON.stringify({ key }),
   });
 
@@ -141,3 +226,23 @@ export async function deleteFromR2(key: string): Promise<void> {
     throw new Error(err.error || 'Smazání selhalo');
   }
 }
+
+export interface R2Object {
+  key: string;
+  size: number;
+  lastModified: string | null;
+}
+
+/**
+ * Vypíše všechny objekty v R2 bucketu včetně veřejné URL, pod kterou jsou dostupné
+ */
+export async function listR2Objects(): Promise<{ publicUrl: string; objects: R2Object[] }> {
+  const response = await fetch(UPLOAD_ENDPOINT, { method: 'GET', headers: adminHeaders() });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ error: 'Výpis R2 selhal' }));
+    throw new Error(err.error || 'Výpis R2 selhal');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { TableChange, notifyChange, subscribeToTables } from './realtime';
+
+// Backend se vzdáleným kanálem – test si sám „pošle“ změnu z jiného zařízení
+class ChannelBackend extends MemoryBackend {
+  channels = new Map<string, (id: string | null) => void>();
+  opened = 0;
+
+  subscribe(table: string, onChange: (id: string | null) => void) {
+    this.opened++;
+    this.channels.set(table, onChange);
+    return () => { this.channels.delete(table); };
+  }
+}
+
+let backend: ChannelBackend;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  backend = new ChannelBackend();
+  setBackend(backend);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('odběr změn', () => {
+  it('dávka změn v krátkém okně přijde jedním voláním', () => {
+    const onChange = vi.fn();
+    const stop = subscribeToTables(['projects', 'blog'], onChange);
+
+    notifyChange('projects', ['p1']);
+    notifyChange('projects', ['p2']);
+    notifyChange('blog', ['b1']);
+    notifyChange('reviews', ['r1']);
+    expect(onChange).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(250);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0]).toEqual<TableChange[]>([
+      { table: 'projects', ids: ['p1'], source: 'local' },
+      { table: 'projects', ids: ['p2'], source: 'local' },
+      { table: 'blog', ids: ['b1'], source: 'local' }
+    ]);
+    stop();
+  });
+
+  it('po odhlášení už nic nechodí, ani rozběhnutá dávka', () => {
+    const onChange = vi.fn();
+    const stop = subscribeToTables(['projects'], onChange);
+    notifyChange('projects', ['p1']);
+    stop();
+    notifyChange('projects', ['p2']);
+
+    vi.advanceTimersByTime(1000);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('změny ze serveru přijdou jako remote, kanál sdílí víc odběratelů', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const stopFirst = subscribeToTables(['projects'], first);
+    const stopSecond = subscribeToTables(['projects'], second);
+    expect(backend.opened).toBe(1);
+
+    backend.channels.get('projects')!('p1');
+    vi.advanceTimersByTime(250);
+    expect(first).toHaveBeenCalledWith([{ table: 'projects', ids: ['p1'], source: 'remote' }]);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    stopFirst();
+    expect(backend.channels.has('projects')).toBe(true);
+    stopSecond();
+    expect(backend.channels.has('projects')).toBe(false);
+  });
+
+  it('bez remote se kanál backendu neotevírá', () => {
+    const onChange = vi.fn();
+    const stop = subscribeToTables(['blog'], onChange, { remote: false });
+    expect(backend.opened).toBe(0);
+
+    notifyChange('blog', ['b1']);
+    vi.advanceTimersByTime(250);
+    expect(onChange).toHaveBeenCalledWith([{ table: 'blog', ids: ['b1'], source: 'local' }]);
+    stop();
+  });
+});
@@ -0,0 +1,94 @@
+import { getBackend } from './backend';
+
+export type ChangeSource = 'remote' | 'tab' | 'local';
+
+export interface TableChange {
+  table: string;
+  ids: string[];
+  source: ChangeSource;
+}
+
+type Listener = (change: TableChange) => void;
+
+const BROADCAST_NAME = 'jakub_minka_sync';
+const COALESCE_MS = 250;
+
+const listeners = new Map<string, Set<Listener>>();
+const channels = new Map<string, { unsubscribe: () => void; refs: number }>();
+
+const broadcast = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(BROADCAST_NAME) : null;
+
+const emit = (change: TableChange) => {
+  listeners.get(change.table)?.forEach(listener => listener(change));
+};
+
+broadcast?.addEventListener('message', (event: MessageEvent<{ table: string; ids: string[] }>) => {
+  emit({ ...event.data, source: 'tab' });
+});
+
+// Volá datová vrstva po každém lokálním zápisu – ostatní komponenty i otevřené záložky se dozví o změně.
+export const notifyChange = (table: string, ids: string[] = []) => {
+  emit({ table, ids, source: 'local' });
+  broadcast?.postMessage({ table, ids });
+};
+
+const acquireChannel = (table: string) => {
+  const existing = channels.get(table);
+  if (existing) {
+    existing.refs++;
+    return;
+  }
+  // Lokální backendy změny z jiných zařízení nemají, stačí jim BroadcastChannel
+  const backend = getBackend();
+  if (!backend.subscribe) return;
+  const unsubscribe = backend.subscribe(table, id => emit({ table, ids: id ? [id] : [], source: 'remote' }));
+  channels.set(table, { unsubscribe, refs: 1 });
+};
+
+const releaseChannel = (table: string) => {
+  const entry = channels.get(table);
+  if (!entry) return;
+  if (--entry.refs > 0) return;
+  channels.delete(table);
+  entry.unsubscribe();
+};
+
+/**
+ * Odběr změn tabulek. Dávka změn během krátkého okna se slije do jednoho volání,
+ * aby hromadné mazání nespustilo desítky reloadů. S `remote: false` se neotevírá
+ * kanál backendu (veřejné stránky) a chodí jen změny z této a ostatních záložek.
+ */
+export const subscribeToTables = (
+  tables: string[],
+  onChange: (changes: TableChange[]) => void,
+  options?: { remote?: boolean }
+): (() => void) => {
+  const remote = options?.remote ?? true;
+  let pending: TableChange[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const listener: Listener = change => {
+    pending.push(change);
+    if (timer) return;
+    timer = setTimeout(() => {
+      const batch = pending;
+      pending = [];
+      timer = null;
+      onChange(batch);
+    }, COALESCE_MS);
+  };
+
+  tables.forEach(table => {
+    if (!listeners.has(table)) listeners.set(table, new Set());
+    listeners.get(table)!.add(listener);
+    if (remote) acquireChannel(table);
+  });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    tables.forEach(table => {
+      listeners.get(table)?.delete(listener);
+      if (remote) releaseChannel(table);
+    });
+  };
+};
@@ -0,0 +1,349 @@
+import { Row, RowFilter, getBackend } from './backend';
+import { getCacheBackend } from './cache';
+import { notifyChange, subscribeToTables } from './realtime';
+import { ConflictError, EntitySchema, SEARCH_COLUMN, fromRow, toRow, validateEntity } from './schema';
+import { OutboxOp, enqueueWrite, getKnownVersion, getOutboxEntries, hasOutboxEntry, rememberVersions } from './outbox';
+import { diffSnapshots, recordRevision } from './revisions';
+import { Publishable, isPublished, publishedFilters } from './publishing';
+import { Sluggable, assignSlug } from './slugs';
+import { foldText } from './search';
+
+export const DEFAULT_CACHE_TTL_MS = 30 * 60 * 1000;
+
+export const DEFAULT_PAGE_SIZE = 24;
+
+export interface GetAllOptions {
+  force?: boolean;
+  ttlMs?: number;
+  // Jen položky v koši (u schémat se `softDelete`); bez toho se koš nevrací
+  trashed?: boolean;
+}
+
+export type QueryFilterValue = string | number | boolean | null | (string | number)[];
+
+export interface QueryOptions<T> extends GetAllOptions {
+  filters?: Partial<Record<keyof T, QueryFilterValue>>;
+  text?: string;
+  sortBy?: keyof T;
+  ascending?: boolean;
+  limit?: number;
+  cursor?: string | null;
+  // Jen obsah viditelný na webu (stav + čas zveřejnění) – pro schémata se `status`/`publishAt`
+  published?: boolean;
+}
+
+export interface SaveOptions {
+  // updated_at, ze kterého editor vycházel; při neshodě se serverem save skončí ConflictError
+  expectedVersion?: string | null;
+  // false = chyba zápisu se vyhodí místo zařazení do outboxu. Pro veřejné formuláře –
+  // outbox v prohlížeči návštěvníka nikdo nedohraje.
+  queue?: boolean;
+}
+
+export interface QueryPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+interface Cursor {
+  v: string | number | null;
+  id: string;
+}
+
+const newId = () => crypto.randomUUID?.() || Date.now().toString();
+
+const encodeCursor = (cursor: Cursor) => btoa(unescape(encodeURIComponent(JSON.stringify(cursor))));
+
+const decodeCursor = (cursor?: string | null): Cursor | null => {
+  if (!cursor) return null;
+  try {
+    return JSON.parse(decodeURIComponent(escape(atob(cursor))));
+  } catch {
+    return null;
+  }
+};
+
+const sanitizeTerm = (text?: string) => (text || '').replace(/[,()*%"\\:]/g, ' ').trim();
+
+const compareValues = (a: any, b: any) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), 'cs');
+};
+
+export class Repository<T extends { id: string }> {
+  // Cache stránek dotazů žije jen v paměti záložky; jakákoli změna tabulky ji zahodí.
+  private queryCache = new Map<string, { ts: number; page: QueryPage<T> }>();
+
+  constructor(private schema: EntitySchema<T>) {
+    subscribeToTables([schema.table], () => this.queryCache.clear(), { remote: false });
+  }
+
+  private column(key: keyof T | string) {
+    return this.schema.fields[key as keyof T]?.column ?? String(key);
+  }
+
+  private fromRow = (row: Record<string, any>) => fromRow(this.schema, row);
+
+  private inTrash = (item: T) => !!(item as { deletedAt?: string | null }).deletedAt;
+
+  private visible(items: T[], trashed?: boolean): T[] {
+    if (!this.schema.softDelete) return items;
+    return items.filter(item => this.inTrash(item) === !!trashed);
+  }
+
+  private async storeLocal(changed: T[], removedIds: string[] = []) {
+    const cache = await getCacheBackend();
+    try {
+      if (changed.length > 0) await cache.put(this.schema.cacheKey, changed);
+      if (removedIds.length > 0) await cache.remove(this.schema.cacheKey, removedIds);
+    } catch (err) {
+      console.warn(`Cache write failed for ${this.schema.table}:`, err);
+    }
+    this.queryCache.clear();
+    notifyChange(this.schema.table, [...changed.map(i => i.id), ...removedIds]);
+  }
+
+  private async local(): Promise<T[]> {
+    const cache = await getCacheBackend();
+    try {
+      return ((await cache.readAll(this.schema.cacheKey)) || []).map(this.fromRow);
+    } catch (err) {
+      console.warn(`Cache read failed for ${this.schema.table}:`, err);
+      return [];
+    }
+  }
+
+  // Změny čekající v outboxu se promítnou i do čerstvě stažených dat, aby admin neviděl starý stav.
+  private withPending(items: T[], options?: { includeNew?: boolean }): T[] {
+    let result = items;
+    for (const entry of getOutboxEntries(this.schema.table)) {
+      if (entry.op === 'delete') {
+        result = result.filter(i => i.id !== entry.recordId);
+        continue;
+      }
+      const patch = fromRow(this.schema, entry.payload || {}, { partial: true });
+      if (result.some(i => i.id === entry.recordId)) {
+        result = result.map(i => i.id === entry.recordId ? { ...i, ...patch } : i);
+      } else if (entry.op === 'upsert' && options?.includeNew !== false) {
+        result = [this.fromRow(entry.payload || {}), ...result];
+      }
+    }
+    return result;
+  }
+
+  // Zápis na server. Při chybě – nebo pokud na stejný záznam už něco čeká – jde změna do outboxu.
+  private async push(
+    op: OutboxOp,
+    id: string,
+    row: Record<string, any> | undefined,
+    request: () => Promise<Row | null>,
+    baseVersion?: string | null,
+    queue = true
+  ): Promise<Row | null> {
+    const { table } = this.schema;
+    if (queue && hasOutboxEntry(table, id)) {
+      enqueueWrite(table, op, id, row, undefined, baseVersion);
+      return null;
+    }
+    try {
+      const serverRow = await request();
+      rememberVersions(table, [{ id, updated_at: serverRow?.updated_at ?? null }]);
+      return serverRow;
+    } catch (err) {
+      if (err instanceof ConflictError || !queue) throw err;
+      console.error(`Error writing (${op}) to ${table}:`, err);
+      enqueueWrite(table, op, id, row, err, baseVersion);
+      return null;
+    }
+  }
+
+  private async conflict(entity: T): Promise<ConflictError> {
+    const data = await getBackend().getById(this.schema.table, entity.id);
+    if (!data) return new ConflictError(this.schema.label, null, null, []);
+    const server = this.fromRow(data);
+    rememberVersions(this.schema.table, [data]);
+    const fields = diffSnapshots(server, entity).map(change => change.field);
+    return new ConflictError(this.schema.label, server, data.updated_at ?? null, fields);
+  }
+
+  // Verze (updated_at), kterou tato záložka naposledy viděla – editor si ji drží od otevření formuláře.
+  getVersion(id: string): string | null {
+    return getKnownVersion(this.schema.table, id);
+  }
+
+  async getAll(options?: GetAllOptions): Promise<T[]> {
+    const { table, cacheKey, orderBy } = this.schema;
+    const ttlMs = options?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    const cache = await getCacheBackend();
+    if (!options?.force) {
+      const cachedTs = await cache.getTimestamp(cacheKey).catch(() => 0);
+      if (cachedTs && Date.now() - cachedTs < ttlMs) {
+        const cached = await cache.readAll(cacheKey).catch(() => null);
+        if (cached) return this.visible(cached.map(this.fromRow), options?.trashed);
+      }
+    }
+
+    try {
+      const data = await getBackend().select(table, { orderBy: [{ column: orderBy, ascending: false }] });
+      rememberVersions(table, data);
+      const result = this.withPending(data.map(this.fromRow));
+      await cache.replaceAll(cacheKey, result).catch(err => console.warn(`Cache write failed for ${table}:`, err));
+      return this.visible(result, options?.trashed);
+    } catch (err) {
+      console.warn(`Error fetching ${table}:`, err);
+      return this.visible(await this.local(), options?.trashed);
+    }
+  }
+
+  /**
+   * Stránkovaný dotaz s filtry, fulltextem přes `searchFields` schématu a řazením.
+   * Kurzor je keyset (hodnota řadicího sloupce + id), takže stránky nepřeskakují
+   * při vkládání nových záznamů. Bez spojení se dotaz vyhodnotí nad lokální cache.
+   */
+  async query(options: QueryOptions<T> = {}): Promise<QueryPage<T>> {
+    const { table, orderBy } = this.schema;
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const sortColumn = options.sortBy ? this.column(options.sortBy) : orderBy;
+    const ascending = options.ascending ?? false;
+    const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    const key = JSON.stringify([options.filters, options.text, sortColumn, ascending, limit, options.cursor, options.trashed, options.published]);
+
+    const hit = this.queryCache.get(key);
+    if (!options.force && hit && Date.now() - hit.ts < ttlMs) return hit.page;
+
+    try {
+      const filters: RowFilter[] = [];
+      if (this.schema.softDelete) {
+        filters.push(options.trashed ? { column: 'deleted_at', op: 'notNull' } : { column: 'deleted_at', op: 'is', value: null });
+      }
+      for (const [field, value] of Object.entries(options.filters || {}) as [string, QueryFilterValue | undefined][]) {
+        if (value === undefined) continue;
+        const column = this.column(field);
+        if (value === null) filters.push({ column, op: 'is', value: null });
+        else if (Array.isArray(value)) filters.push({ column, op: 'in', value });
+        else filters.push({ column, op: 'eq', value });
+      }
+      if (options.published) filters.push(...publishedFilters());
+
+      const term = sanitizeTerm(options.text);
+      const cursor = decodeCursor(options.cursor);
+      const rows = await getBackend().select(table, {
+        filters,
+        search: term ? { columns: (this.schema.searchFields || []).map(f => this.column(f)), term, foldedColumn: this.schema.searchFields && SEARCH_COLUMN } : undefined,
+        orderBy: [{ column: sortColumn, ascending }, { column: 'id', ascending }],
+        after: cursor ? { value: cursor.v, id: cursor.id } : undefined,
+        limit: limit + 1
+      });
+
+      rememberVersions(table, rows);
+      const pageRows = rows.slice(0, limit);
+      const last = pageRows[pageRows.length - 1];
+      const page: QueryPage<T> = {
+        items: this.withPending(pageRows.map(this.fromRow), { includeNew: false }),
+        nextCursor: rows.length > limit && last ? encodeCursor({ v: last[sortColumn] ?? null, id: last.id }) : null
+      };
+      this.queryCache.set(key, { ts: Date.now(), page });
+      return page;
+    } catch (err) {
+      console.warn(`Error querying ${table}, using local cache:`, err);
+      return this.queryLocal(options, limit, ascending);
+    }
+  }
+
+  private async queryLocal(options: QueryOptions<T>, limit: number, ascending: boolean): Promise<QueryPage<T>> {
+    const term = foldText(sanitizeTerm(options.text));
+    let items = this.visible(await this.local(), options.trashed).filter(item => {
+      if (options.published && !isPublished(item as Publishable)) return false;
+      for (const [field, value] of Object.entries(options.filters || {}) as [keyof T, QueryFilterValue | undefined][]) {
+        if (value === undefined) continue;
+        const actual = item[field] as any;
+        if (value === null ? actual !== null && actual !== undefined : Array.isArray(value) ? !value.includes(actual) : actual !== value) {
+          return false;
+        }
+      }
+      if (!term) return true;
+      return (this.schema.searchFields || []).some(f => foldText(String(item[f] ?? '')).includes(term));
+    });
+
+    if (options.sortBy) {
+      const field = options.sortBy;
+      items = [...items].sort((a, b) => (ascending ? 1 : -1) * compareValues(a[field], b[field]) || (ascending ? 1 : -1) * compareValues(a.id, b.id));
+    }
+
+    const cursor = decodeCursor(options.cursor);
+    const start = cursor ? items.findIndex(i => i.id === cursor.id) + 1 : 0;
+    const pageItems = items.slice(start, start + limit);
+    const last = pageItems[pageItems.length - 1];
+    return {
+      items: pageItems,
+      nextCursor: start + limit < items.length && last
+        ? encodeCursor({ v: options.sortBy ? (last[options.sortBy] as any) ?? null : null, id: last.id })
+        : null
+    };
+  }
+
+  // Validace proběhne ještě před zápisem – neplatný záznam se nedostane ani do cache.
+  async save(item: T, options?: SaveOptions): Promise<T> {
+    let entity = { ...item, id: item.id || newId() } as T;
+    if (this.schema.slugFrom) {
+      // Obsazenost se kontroluje proti lokální kopii včetně koše – obnovený záznam nesmí o adresu přijít
+      const title = String(entity[this.schema.slugFrom] ?? '');
+      entity = assignSlug(entity as T & Sluggable, title, (await this.local()) as (T & Sluggable)[]);
+    }
+    validateEntity(this.schema, entity);
+    const row = { ...toRow(this.schema, entity), updated_at: new Date().toISOString() };
+    const expected = options?.expectedVersion;
+    // S očekávanou verzí se zapisuje podmíněně – 0 změněných řádků znamená, že nás někdo předběhl
+    const serverRow = expected
+      ? await this.push('update', entity.id, row, async () => {
+          const updated = await getBackend().update(this.schema.table, entity.id, row, { expectedVersion: expected });
+          if (!updated) throw await this.conflict(entity);
+          return updated;
+        }, expected, options?.queue)
+      : await this.push('upsert', entity.id, row, () => getBackend().upsert(this.schema.table, row), undefined, options?.queue);
+    const saved = serverRow ? this.fromRow(serverRow) : entity;
+    await this.storeLocal([saved]);
+    // Zápis čekající v outboxu ještě nemusí projít (konflikt, zahození) – revize jen z verze, kterou server přijal
+    if (this.schema.revisions && serverRow) await recordRevision(this.schema.table, saved.id, saved);
+    return saved;
+  }
+
+  async update(id: string, patch: Partial<T>): Promise<T | undefined> {
+    validateEntity(this.schema, patch, { partial: true });
+    const row: Record<string, any> = { ...toRow(this.schema, patch), updated_at: new Date().toISOString() };
+    delete row.id;
+    const serverRow = await this.push('update', id, row, () => getBackend().update(this.schema.table, id, row));
+    const current = (await this.local()).find(i => i.id === id);
+    const updated = serverRow ? this.fromRow(serverRow) : current && { ...current, ...patch };
+    if (updated) await this.storeLocal([updated]);
+    return updated;
+  }
+
+  // U schémat se `softDelete` jde záznam do koše, jinak se maže rovnou.
+  async delete(id: string): Promise<void> {
+    if (this.schema.softDelete) {
+      await this.setDeletedAt(id, new Date().toISOString());
+      return;
+    }
+    await this.purge(id);
+  }
+
+  async restore(id: string): Promise<T | undefined> {
+    return this.setDeletedAt(id, null);
+  }
+
+  private setDeletedAt(id: string, deletedAt: string | null) {
+    return this.update(id, { deletedAt } as unknown as Partial<T>);
+  }
+
+  async purge(id: string): Promise<void> {
+    await this.push('delete', id, undefined, async () => {
+      await getBackend().remove(this.schema.table, id);
+      return null;
+    });
+    await this.storeLocal([], [id]);
+  }
+}
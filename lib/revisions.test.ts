@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MediaType, Project } from '../types';
+import { Row, setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { projectDB } from './db';
+import { flushOutbox, getOutbox } from './outbox';
+import { ConflictError } from './schema';
+import { diffSnapshots, getRevisions, mergeChanges } from './revisions';
+
+// Zápisy projektů jde „odpojit“ – chová se jako výpadek sítě
+class FlakyBackend extends MemoryBackend {
+  offline = false;
+
+  async upsert(table: string, row: Row) {
+    if (this.offline && table === 'projects') throw new TypeError('Failed to fetch');
+    return super.upsert(table, row);
+  }
+
+  async update(table: string, id: string, patch: Row, options?: { expectedVersion?: string | null }) {
+    if (this.offline && table === 'projects') throw new TypeError('Failed to fetch');
+    return super.update(table, id, patch, options);
+  }
+}
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+  id: 'p1',
+  title: 'Svatba',
+  category: '',
+  categoryId: 'wedding',
+  description: '',
+  shortDescription: '',
+  thumbnailUrl: '',
+  thumbnailSource: 'storage',
+  type: MediaType.IMAGE,
+  date: '2026-01-01',
+  ...overrides
+});
+
+let backend: FlakyBackend;
+
+// Revize se řadí podle created_at – každé uložení o vteřinu později
+const save = async (entity: Project) => {
+  vi.setSystemTime(Date.now() + 1000);
+  return projectDB.save(entity);
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  localStorage.clear();
+  backend = new FlakyBackend({ projects: [], revisions: [] });
+  setBackend(backend);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('diffSnapshots', () => {
+  it('vrací jen změněná pole a technické sloupce ignoruje', () => {
+    expect(diffSnapshots(
+      { id: 'a', title: 'A', tags: ['x'], updatedAt: '1' },
+      { id: 'a', title: 'B', tags: ['x'], updatedAt: '2', excerpt: 'nový' }
+    )).toEqual([
+      { field: 'title', before: 'A', after: 'B' },
+      { field: 'excerpt', before: undefined, after: 'nový' }
+    ]);
+  });
+});
+
+describe('revize při ukládání', () => {
+  it('každé uložení na server přidá snímek, nejnovější první', async () => {
+    await save(project());
+    await save(project({ title: 'Svatba na zámku' }));
+    const revisions = await getRevisions('projects', 'p1');
+    expect(revisions.map(r => r.snapshot.title)).toEqual(['Svatba na zámku', 'Svatba']);
+  });
+
+  it('zápis čekající v outboxu revizi nevytvoří, dokud ho server nepřijme', async () => {
+    await save(project());
+    backend.offline = true;
+    await save(project({ title: 'Offline' }));
+    expect(getOutbox().map(e => e.table)).toEqual(['projects']);
+    expect((await getRevisions('projects', 'p1')).map(r => r.snapshot.title)).toEqual(['Svatba']);
+  });
+
+  it('za čekající změnou se řadí i další uložení a ani ono revizi nepřidá', async () => {
+    backend.offline = true;
+    await save(project());
+    backend.offline = false;
+    await save(project({ title: 'Druhá' }));
+    expect(getOutbox()).toHaveLength(2);
+    expect(await getRevisions('projects', 'p1')).toEqual([]);
+
+    await flushOutbox();
+    expect(getOutbox()).toEqual([]);
+    expect((await backend.getById('projects', 'p1'))?.title).toBe('Druhá');
+  });
+
+  it('obnova starší revize vrátí i její slug a současný přesune do historie', async () => {
+    await save(project());
+    await save(project({ slug: 'svatba-zamek' }));
+    const [, first] = await getRevisions('projects', 'p1');
+
+    const restored = await save(first.snapshot as Project);
+    expect(restored.slug).toBe('svatba');
+    expect(restored.previousSlugs).toEqual(['svatba-zamek']);
+  });
+});
+
+describe('souběžné úpravy', () => {
+  it('uložení ze zastaralé verze skončí konfliktem s rozdílnými poli', async () => {
+    await save(project({ slug: 'svatba' }));
+    const version = projectDB.getVersion('p1');
+    await save(project({ slug: 'svatba', title: 'Od kolegy' }));
+
+    const error = await projectDB.save(project({ slug: 'svatba', title: 'Moje' }), { expectedVersion: version }).catch(err => err);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.server.title).toBe('Od kolegy');
+    expect(error.serverVersion).toBe(projectDB.getVersion('p1'));
+    expect(error.fields).toContain('title');
+    expect(error.fields).not.toContain('categoryId');
+    expect((await backend.getById('projects', 'p1'))?.title).toBe('Od kolegy');
+  });
+
+  it('uložení z aktuální verze projde', async () => {
+    await save(project({ slug: 'svatba' }));
+    const saved = await projectDB.save(project({ slug: 'svatba', title: 'Moje' }), { expectedVersion: projectDB.getVersion('p1') });
+    expect(saved.title).toBe('Moje');
+  });
+
+  it('sloučení vezme stav serveru a přes něj jen pole změněná editorem', () => {
+    const original = { id: 'a', title: 'A', excerpt: 'x', tags: ['foto'] };
+    const mine = { id: 'a', title: 'Moje', excerpt: 'x', tags: ['foto'] };
+    const server = { id: 'a', title: 'A', excerpt: 'Od kolegy', tags: ['foto', 'video'] };
+    expect(mergeChanges(original, mine, server)).toEqual({ id: 'a', title: 'Moje', excerpt: 'Od kolegy', tags: ['foto', 'video'] });
+  });
+
+  it('pole změněné na obou stranách vyhraje verze editoru', () => {
+    expect(mergeChanges({ id: 'a', title: 'A' }, { id: 'a', title: 'Moje' }, { id: 'a', title: 'Cizí' }).title).toBe('Moje');
+  });
+});
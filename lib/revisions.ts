@@ -0,0 +1,102 @@
+import { getBackend } from './backend';
+import { enqueueWrite, getOutboxEntries } from './outbox';
+
+export interface Revision {
+  id: string;
+  table: string;
+  recordId: string;
+  snapshot: Record<string, any>;
+  author: string;
+  createdAt: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const REVISIONS_TABLE = 'revisions';
+const MAX_REVISIONS = 100;
+
+// Technické sloupce se mění při každém uložení, v diffu by jen překážely
+const IGNORED_FIELDS = ['id', 'updatedAt', 'updated_at', 'createdAt', 'created_at'];
+
+const newId = () => crypto.randomUUID?.() || `rev-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const getRevisionAuthor = () => localStorage.getItem('admin_user') || 'admin';
+
+const fromRow = (row: Record<string, any>): Revision => ({
+  id: row.id,
+  table: row.table_name,
+  recordId: row.record_id,
+  snapshot: row.snapshot || {},
+  author: row.author || 'admin',
+  createdAt: row.created_at
+});
+
+// Snímek se zapisuje po každém uložení. Bez spojení počká v outboxu jako ostatní zápisy.
+export const recordRevision = async (table: string, recordId: string, snapshot: Record<string, any>) => {
+  const row = {
+    id: newId(),
+    table_name: table,
+    record_id: recordId,
+    snapshot,
+    author: getRevisionAuthor(),
+    created_at: new Date().toISOString()
+  };
+  try {
+    await getBackend().upsert(REVISIONS_TABLE, row);
+  } catch (err) {
+    console.warn(`Revision for ${table}/${recordId} queued:`, err);
+    enqueueWrite(REVISIONS_TABLE, 'upsert', row.id, row, err);
+  }
+};
+
+export const getRevisions = async (table: string, recordId: string): Promise<Revision[]> => {
+  const pending = getOutboxEntries(REVISIONS_TABLE)
+    .filter(e => e.payload?.table_name === table && e.payload?.record_id === recordId)
+    .map(e => fromRow(e.payload!));
+  try {
+    const data = await getBackend().select(REVISIONS_TABLE, {
+      filters: [
+        { column: 'table_name', op: 'eq', value: table },
+        { column: 'record_id', op: 'eq', value: recordId }
+      ],
+      orderBy: [{ column: 'created_at', ascending: false }],
+      limit: MAX_REVISIONS
+    });
+    const stored = data.map(fromRow).filter(r => !pending.some(p => p.id === r.id));
+    return [...pending.reverse(), ...stored];
+  } catch (err) {
+    console.warn(`Error loading revisions for ${table}/${recordId}:`, err);
+    return pending.reverse();
+  }
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const diffSnapshots = (before: Record<string, any>, after: Record<string, any>): FieldChange[] => {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(f => !IGNORED_FIELDS.includes(f));
+  return fields
+    .filter(field => !same(before[field], after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+// Hodnota pole pro zobrazení v diffu – HTML bez tagů, objekty jako JSON, dlouhé texty zkrácené.
+export const formatSnapshotValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() : JSON.stringify(value);
+  return text.length > 400 ? text.slice(0, 400) + '…' : text;
+};
+
+/**
+ * Sloučení souběžných úprav: základem je stav ze serveru, přes něj se položí pole,
+ * která editor od načtení (`original`) opravdu změnil.
+ */
+export const mergeChanges = <T extends Record<string, any>>(original: T, mine: T, server: T): T => {
+  const merged: Record<string, any> = { ...server };
+  diffSnapshots(original, mine).forEach(({ field }) => { merged[field] = mine[field]; });
+  return merged as T;
+};
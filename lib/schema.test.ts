@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { MediaType, Project } from '../types';
+import { ValidationError, projectSchema, validateEntity } from './schema';
+
+const project = (overrides: Partial<Project> = {}): Partial<Project> => ({
+  id: 'p1',
+  title: 'Svatba na zámku',
+  categoryId: 'wedding',
+  type: MediaType.IMAGE,
+  ...overrides
+});
+
+const issuesOf = (entity: Partial<Project>, options?: { partial?: boolean }): string[] => {
+  try {
+    validateEntity(projectSchema, entity, options);
+    return [];
+  } catch (err) {
+    if (err instanceof ValidationError) return err.issues;
+    throw err;
+  }
+};
+
+describe('validateEntity', () => {
+  it('propustí úplný projekt', () => {
+    expect(issuesOf(project())).toEqual([]);
+  });
+
+  it('hlásí chybějící povinná pole', () => {
+    const issues = issuesOf(project({ title: '', categoryId: undefined }));
+    expect(issues).toContain('pole "title" je povinné');
+    expect(issues).toContain('pole "categoryId" je povinné');
+  });
+
+  it('hlásí hodnotu mimo výčet a neplatný typ', () => {
+    const issues = issuesOf(project({ status: 'hidden' as any, weight: 'těžký' as any }));
+    expect(issues.some(i => i.startsWith('pole "status" musí být jedno z'))).toBe(true);
+    expect(issues.some(i => i.startsWith('pole "weight" má neplatný typ'))).toBe(true);
+  });
+
+  it('spouští kontrolu pole', () => {
+    expect(issuesOf(project({ websiteUrl: 'example.com' }))).toEqual([
+      'pole "websiteUrl" musí začínat http:// nebo https://'
+    ]);
+  });
+
+  it('vyhodí ValidationError s popisem entity', () => {
+    expect(() => validateEntity(projectSchema, project({ title: '' }))).toThrow(ValidationError);
+    expect(() => validateEntity(projectSchema, project({ title: '' }))).toThrow(/^Projekt:/);
+  });
+
+  it('při částečné úpravě kontroluje jen pole v patchi', () => {
+    expect(issuesOf({ weight: 3 }, { partial: true })).toEqual([]);
+    expect(issuesOf({ title: '' }, { partial: true })).toEqual(['pole "title" je povinné']);
+  });
+
+  it('odmítne naplánovaný obsah bez času zveřejnění', () => {
+    expect(issuesOf(project({ status: 'scheduled', publishAt: null }))).toEqual([
+      'naplánovaný obsah musí mít čas zveřejnění'
+    ]);
+    expect(issuesOf(project({ status: 'scheduled', publishAt: '2026-01-01T10:00:00.000Z' }))).toEqual([]);
+  });
+
+  it('pravidlo přes víc polí přeskočí, když patch nenese všechna', () => {
+    expect(issuesOf({ status: 'scheduled' }, { partial: true })).toEqual([]);
+    expect(issuesOf({ status: 'scheduled', publishAt: null }, { partial: true })).toEqual([
+      'naplánovaný obsah musí mít čas zveřejnění'
+    ]);
+  });
+});
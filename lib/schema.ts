@@ -0,0 +1,335 @@
+import { BlogPost, FileItem, Inquiry, MediaType, Partner, Project, PublishStatus, Review } from '../types';
+import { isValidSlug } from './slugs';
+
+export type FieldKind = 'string' | 'number' | 'boolean' | 'json' | 'stringArray';
+
+export interface FieldDef {
+  column: string;
+  kind: FieldKind;
+  required?: boolean;
+  values?: readonly string[];
+  defaultValue?: unknown;
+  check?: (value: any) => string | null;
+}
+
+// Podmínka přes víc polí; při částečné úpravě se kontroluje, jen když patch nese všechna `fields`
+export interface EntityRule<T> {
+  fields: (keyof T)[];
+  check: (entity: Partial<T>) => string | null;
+}
+
+export interface EntitySchema<T extends { id: string }> {
+  label: string;
+  table: string;
+  cacheKey: string;
+  orderBy: string;
+  // Databáze k nim drží SEARCH_COLUMN – stejný text bez diakritiky (migrace 0019)
+  searchFields?: (keyof T)[];
+  // Mazání jen nastaví `deleted_at` (koš); skutečné odstranění řádku je `purge`
+  softDelete?: boolean;
+  // Každé `save` uloží snímek do tabulky revisions
+  revisions?: boolean;
+  // Pole, ze kterého se generuje unikátní `slug` (entita musí mít `slug` a `previousSlugs`)
+  slugFrom?: keyof T;
+  fields: { [K in keyof T]-?: FieldDef };
+  rules?: EntityRule<T>[];
+}
+
+export const SEARCH_COLUMN = 'search_folded';
+
+export class ValidationError extends Error {
+  issues: string[];
+
+  constructor(label: string, issues: string[]) {
+    super(`${label}: ${issues.join('; ')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+// Záznam se na serveru změnil od chvíle, kdy ho editor načetl (nebo byl smazán).
+export class ConflictError extends Error {
+  server: Record<string, any> | null;
+  serverVersion: string | null;
+  fields: string[];
+
+  constructor(label: string, server: Record<string, any> | null, serverVersion: string | null, fields: string[]) {
+    super(server
+      ? `${label}: záznam mezitím upravil někdo jiný (${fields.join(', ') || 'beze změny polí'})`
+      : `${label}: záznam byl mezitím smazán`);
+    this.name = 'ConflictError';
+    this.server = server;
+    this.serverVersion = serverVersion;
+    this.fields = fields;
+  }
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const matchesKind = (kind: FieldKind, value: unknown): boolean => {
+  switch (kind) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && !Number.isNaN(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'stringArray': return Array.isArray(value) && value.every(v => typeof v === 'string');
+    case 'json': return typeof value === 'object';
+  }
+};
+
+const coerce = (kind: FieldKind, value: any): any => {
+  if (value === null || value === undefined) return value;
+  if (kind === 'number' && typeof value === 'string' && value.trim() !== '') return Number(value);
+  if ((kind === 'json' || kind === 'stringArray') && typeof value === 'string') {
+    try { return JSON.parse(value); } catch { return value; }
+  }
+  return value;
+};
+
+const fieldEntries = <T extends { id: string }>(schema: EntitySchema<T>) =>
+  Object.entries(schema.fields) as [keyof T & string, FieldDef][];
+
+// Row z databáze -> entita. Starší záznamy byly ukládány v camelCase, proto fallback na klíč entity.
+// S `partial` se mapují jen sloupce, které v řádku opravdu jsou (např. payload update).
+export const fromRow = <T extends { id: string }>(
+  schema: EntitySchema<T>,
+  row: Record<string, any>,
+  options?: { partial?: boolean }
+): T => {
+  const entity: Record<string, any> = {};
+  for (const [key, def] of fieldEntries(schema)) {
+    if (options?.partial && !(def.column in row)) continue;
+    let value = row[def.column] ?? row[key];
+    if ((value === undefined || value === null) && !options?.partial) value = def.defaultValue;
+    value = coerce(def.kind, value);
+    if (value !== undefined) entity[key] = value;
+  }
+  return entity as T;
+};
+
+export const toRow = <T extends { id: string }>(schema: EntitySchema<T>, entity: Partial<T>): Record<string, any> => {
+  const row: Record<string, any> = {};
+  for (const [key, def] of fieldEntries(schema)) {
+    const value = entity[key];
+    if (value !== undefined) row[def.column] = value;
+  }
+  return row;
+};
+
+export const validateEntity = <T extends { id: string }>(
+  schema: EntitySchema<T>,
+  entity: Partial<T>,
+  options?: { partial?: boolean }
+): void => {
+  const issues: string[] = [];
+  for (const [key, def] of fieldEntries(schema)) {
+    if (options?.partial && !(key in entity)) continue;
+    const value = entity[key] as unknown;
+    if (isEmpty(value)) {
+      if (def.required) issues.push(`pole "${key}" je povinné`);
+      continue;
+    }
+    if (!matchesKind(def.kind, value)) {
+      issues.push(`pole "${key}" má neplatný typ (očekáván ${def.kind})`);
+      continue;
+    }
+    if (def.values && !def.values.includes(value as string)) {
+      issues.push(`pole "${key}" musí být jedno z: ${def.values.join(', ')}`);
+      continue;
+    }
+    const problem = def.check?.(value);
+    if (problem) issues.push(`pole "${key}" ${problem}`);
+  }
+  for (const rule of schema.rules || []) {
+    if (options?.partial && !rule.fields.every(field => field in entity)) continue;
+    const problem = rule.check(entity);
+    if (problem) issues.push(problem);
+  }
+  if (issues.length > 0) throw new ValidationError(schema.label, issues);
+};
+
+const isIsoDate = (value: string) => Number.isNaN(new Date(value).getTime()) ? 'není platné datum' : null;
+
+const isHttpUrl = (value: string) => /^https?:\/\//i.test(value) ? null : 'musí začínat http:// nebo https://';
+
+export const PUBLISH_STATUSES: readonly PublishStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+const scheduledNeedsDate: EntityRule<{ status?: PublishStatus; publishAt?: string | null }> = {
+  fields: ['status', 'publishAt'],
+  check: entity => entity.status === 'scheduled' && !entity.publishAt ? 'naplánovaný obsah musí mít čas zveřejnění' : null
+};
+
+export const projectSchema: EntitySchema<Project> = {
+  label: 'Projekt',
+  table: 'projects',
+  cacheKey: 'jakub_minka_projects_cache',
+  orderBy: 'created_at',
+  searchFields: ['title', 'shortDescription', 'category'],
+  softDelete: true,
+  revisions: true,
+  slugFrom: 'title',
+  fields: {
+    id: { column: 'id', kind: 'string', required: true },
+    title: { column: 'title', kind: 'string', required: true },
+    category: { column: 'category', kind: 'string', defaultValue: '' },
+    categoryId: { column: 'category_id', kind: 'string', required: true },
+    description: { column: 'description', kind: 'string', defaultValue: '' },
+    shortDescription: { column: 'short_description', kind: 'string', defaultValue: '' },
+    thumbnailUrl: { column: 'thumbnail_url', kind: 'string', defaultValue: '' },
+    thumbnailSource: { column: 'thumbnail_source', kind: 'string', values: ['storage', 'pc', 'youtube'], defaultValue: 'storage' },
+    type: { column: 'type', kind: 'string', required: true, values: Object.values(MediaType) },
+    date: { column: 'date', kind: 'string', check: isIsoDate },
+    gallery: {
+      column: 'gallery',
+      kind: 'json',
+      defaultValue: [],
+      check: (items: any) => {
+        if (!Array.isArray(items)) return 'musí být pole';
+        const broken = items.filter(i => !i || typeof i.url !== 'string' || !i.url || !['image', 'video'].includes(i.type));
+        return broken.length > 0 ? `obsahuje ${broken.length} neplatných položek (chybí url nebo typ)` : null;
+      }
+    },
+    weight: { column: 'weight', kind: 'number' },
+    servicesDelivered: { column: 'services_delivered', kind: 'string' },
+    youtubeUrl: { column: 'youtube_url', kind: 'string' },
+    websiteUrl: { column: 'website_url', kind: 'string', check: isHttpUrl },
+    websiteLabel: { column: 'website_label', kind: 'string' },
+    youtubeCoverUrl: { column: 'youtube_cover_url', kind: 'string' },
+    // Starší záznamy bez stavu byly vždy veřejné
+    status: { column: 'status', kind: 'string', values: PUBLISH_STATUSES, defaultValue: 'published' },
+    publishAt: { column: 'publish_at', kind: 'string', defaultValue: null, check: isIsoDate },
+    slug: { column: 'slug', kind: 'string', check: isValidSlug },
+    previousSlugs: { column: 'previous_slugs', kind: 'stringArray', defaultValue: [] },
+    deletedAt: { column: 'deleted_at', kind: 'string', defaultValue: null, check: isIsoDate }
+  },
+  rules: [scheduledNeedsDate]
+};
+
+export const blogSchema: EntitySchema<BlogPost> = {
+  label: 'Článek',
+  table: 'blog',
+  cacheKey: 'jakub_minka_blog_cache',
+  orderBy: 'created_at',
+  searchFields: ['title', 'excerpt'],
+  softDelete: true,
+  revisions: true,
+  slugFrom: 'title',
+  fields: {
+    id: { column: 'id', kind: 'string', required: true },
+    title: { column: 'title', kind: 'string', required: true },
+    content: { column: 'content', kind: 'string', required: true },
+    excerpt: { column: 'excerpt', kind: 'string', defaultValue: '' },
+    coverImage: { column: 'cover_image', kind: 'string', defaultValue: '' },
+    date: { column: 'date', kind: 'string', check: isIsoDate },
+    author: { column: 'author', kind: 'string', defaultValue: '' },
+    tags: { column: 'tags', kind: 'stringArray', defaultValue: [] },
+    seoTitle: { column: 'seo_title', kind: 'string' },
+    seoDescription: { column: 'seo_description', kind: 'string' },
+    seoKeywords: { column: 'seo_keywords', kind: 'string' },
+    status: { column: 'status', kind: 'string', values: PUBLISH_STATUSES, defaultValue: 'published' },
+    publishAt: { column: 'publish_at', kind: 'string', defaultValue: null, check: isIsoDate },
+    slug: { column: 'slug', kind: 'string', check: isValidSlug },
+    previousSlugs: { column: 'previous_slugs', kind: 'stringArray', defaultValue: [] },
+    deletedAt: { column: 'deleted_at', kind: 'string', defaultValue: null, check: isIsoDate }
+  },
+  rules: [scheduledNeedsDate]
+};
+
+export const reviewSchema: EntitySchema<Review> = {
+  label: 'Recenze',
+  table: 'reviews',
+  cacheKey: 'jakub_minka_cache_reviews',
+  orderBy: 'created_at',
+  fields: {
+    id: { column: 'id', kind: 'string', required: true },
+    author: { column: 'author', kind: 'string', required: true },
+    text: { column: 'content', kind: 'string', required: true },
+    rating: {
+      column: 'rating',
+      kind: 'number',
+      defaultValue: 5,
+      check: (v: number) => Number.isInteger(v) && v >= 1 && v <= 5 ? null : 'musí být celé číslo 1–5'
+    },
+    platform: { column: 'company', kind: 'string', values: ['google', 'firmy', 'manual'], defaultValue: 'manual' },
+    date: { column: 'date', kind: 'string', check: isIsoDate },
+    companyUrl: { column: 'company_url', kind: 'string', check: isHttpUrl }
+  }
+};
+
+export const inquirySchema: EntitySchema<Inquiry> = {
+  label: 'Dotaz',
+  table: 'inquiries',
+  cacheKey: 'jakub_minka_cache_inquiries',
+  orderBy: 'created_at',
+  fields: {
+    id: { column: 'id', kind: 'string', required: true },
+    name: { column: 'name', kind: 'string', required: true },
+    email: {
+      column: 'email',
+      kind: 'string',
+      required: true,
+      check: (v: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v) ? null : 'není platný e-mail'
+    },
+    subject: { column: 'subject', kind: 'string', defaultValue: '' },
+    message: { column: 'message', kind: 'string', required: true },
+    date: { column: 'date', kind: 'string', check: isIsoDate },
+    status: { column: 'status', kind: 'string', values: ['new', 'read', 'replied'], defaultValue: 'new' }
+  }
+};
+
+export const mediaSchema: EntitySchema<FileItem> = {
+  label: 'Soubor',
+  table: 'media_meta',
+  cacheKey: 'jakub_minka_media_cache',
+  orderBy: 'updated_at',
+  searchFields: ['name', 'alt', 'description'],
+  softDelete: true,
+  fields: {
+    id: { column: 'id', kind: 'string', required: true },
+    name: { column: 'name', kind: 'string', required: true },
+    type: { column: 'type', kind: 'string', required: true, values: ['image', 'video', 'folder', 'other', 'system'] },
+    size: { column: 'size', kind: 'string' },
+    updatedAt: { column: 'updated_at', kind: 'string', check: isIsoDate },
+    url: { column: 'url', kind: 'string' },
+    parentId: { column: 'parent_id', kind: 'string', defaultValue: null },
+    alt: { column: 'alt', kind: 'string' },
+    description: { column: 'description', kind: 'string' },
+    specializationId: { column: 'specialization_id', kind: 'string' },
+    mediaType: { column: 'media_type', kind: 'string', values: ['photo', 'video', 'system'] },
+    seoTitle: { column: 'seo_title', kind: 'string' },
+    dimensions: { column: 'dimensions', kind: 'string' },
+    variants: { column: 'variants', kind: 'json', defaultValue: [] },
+    placeholder: { column: 'placeholder', kind: 'string' },
+    dominantColor: { column: 'dominant_color', kind: 'string' },
+    takenAt: { column: 'taken_at', kind: 'string', defaultValue: null, check: isIsoDate },
+    camera: { column: 'camera', kind: 'string' },
+    lens: { column: 'lens', kind: 'string' },
+    focalLength: { column: 'focal_length', kind: 'number' },
+    aperture: { column: 'aperture', kind: 'number' },
+    exposureTime: { column: 'exposure_time', kind: 'number' },
+    iso: { column: 'iso', kind: 'number' },
+    gpsLatitude: { column: 'gps_latitude', kind: 'number', defaultValue: null },
+    gpsLongitude: { column: 'gps_longitude', kind: 'number', defaultValue: null },
+    copyright: { column: 'copyright', kind: 'string' },
+    keywords: { column: 'keywords', kind: 'stringArray', defaultValue: [] },
+    duration: { column: 'duration', kind: 'number' },
+    codec: { column: 'codec', kind: 'string' },
+    posterUrl: { column: 'poster_url', kind: 'string' },
+    posterKey: { column: 'poster_key', kind: 'string' },
+    posterTime: { column: 'poster_time', kind: 'number' },
+    contentHash: { column: 'content_hash', kind: 'string' },
+    perceptualHash: { column: 'perceptual_hash', kind: 'string' },
+    watermarkedWith: { column: 'watermarked_with', kind: 'string', defaultValue: null },
+    deletedAt: { column: 'deleted_at', kind: 'string', defaultValue: null, check: isIsoDate }
+  }
+};
+
+export const partnerSchema: EntitySchema<Partner> = {
+  label: 'Partner',
+  table: 'partners',
+  cacheKey: 'jakub_minka_cache_partners',
+  orderBy: 'created_at',
+  fields: {
+    id: { column: 'id', kind: 'string', required: true },
+    name: { column: 'name', kind: 'string', required: true }
+  }
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { BlogPost, MediaType, Project } from '../types';
+import { buildSearchIndex, foldText, matchesSearch, search } from './search';
+
+const project = (id: string, title: string, description = ''): Project => ({
+  id,
+  title,
+  category: '',
+  categoryId: 'c1',
+  description,
+  shortDescription: '',
+  thumbnailUrl: '',
+  thumbnailSource: 'storage',
+  type: MediaType.IMAGE,
+  date: '2026-01-01'
+});
+
+const post = (id: string, title: string, content: string): BlogPost => ({
+  id,
+  title,
+  content,
+  excerpt: '',
+  date: '2026-01-01',
+  author: 'Jakub',
+  coverImage: '',
+  tags: []
+});
+
+describe('foldText', () => {
+  it('odstraní diakritiku a velikost písmen', () => {
+    expect(foldText('Interiér')).toBe('interier');
+    expect(foldText('ŘÍJEN')).toBe('rijen');
+  });
+
+  it('zachová délku textu, aby seděly pozice úryvků', () => {
+    const text = 'Příliš žluťoučký kůň';
+    expect(foldText(text)).toHaveLength(text.length);
+  });
+});
+
+describe('search', () => {
+  const index = buildSearchIndex({
+    projects: [
+      project('p1', 'Firemní akce', '<p>Focení interiéru kanceláří</p>'),
+      project('p2', 'Interiér vily')
+    ],
+    posts: [post('b1', 'Jak fotit svatbu', '<p>Tipy pro svatební den</p>')]
+  });
+
+  it('najde výraz bez ohledu na diakritiku', () => {
+    expect(search(index, 'INTERIER').map(r => r.doc.id)).toEqual(['p2', 'p1']);
+  });
+
+  it('shoda v názvu má přednost před shodou v textu', () => {
+    const [first, second] = search(index, 'interiér');
+    expect(first.doc.id).toBe('p2');
+    expect(first.score).toBeGreaterThan(second.score);
+  });
+
+  it('vyžaduje všechny výrazy dotazu', () => {
+    expect(search(index, 'interier vily').map(r => r.doc.id)).toEqual(['p2']);
+    expect(search(index, 'interier svatba')).toEqual([]);
+  });
+
+  it('prázdný dotaz nic nevrací', () => {
+    expect(search(index, '  ')).toEqual([]);
+  });
+
+  it('úryvek bere z textu, ne z názvu', () => {
+    const [result] = search(index, 'kancelari');
+    expect(result.doc.id).toBe('p1');
+    expect(result.snippet).toContain('kanceláří');
+  });
+});
+
+describe('matchesSearch', () => {
+  it('porovnává všechny výrazy napříč hodnotami', () => {
+    expect(matchesSearch('novak praha', 'Jan Novák', undefined, 'Praha 5')).toBe(true);
+    expect(matchesSearch('novak brno', 'Jan Novák', 'Praha 5')).toBe(false);
+    expect(matchesSearch('', 'cokoli')).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { BlogPost, Project, Specialization } from '../types';
+import { blogPostPath, projectPath } from './slugs';
+
+// Vyhledávání nad zakázkami, články a specializacemi. Index se staví v prohlížeči
+// z už načtených dat – obsahu je málo, server s fulltextem by se nevyplatil.
+
+export type SearchKind = 'project' | 'blog' | 'specialization';
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  project: 'Projekt',
+  blog: 'Článek',
+  specialization: 'Specializace'
+};
+
+interface IndexedField {
+  text: string;
+  folded: string;
+  weight: number;
+}
+
+export interface SearchDocument {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  path: string;
+  image?: string;
+  externalUrl?: string;
+  fields: IndexedField[];
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+// "Interiér" i "INTERIER" -> "interier"; znak po znaku, aby pozice seděly s původním textem
+export const foldText = (text: string): string =>
+  Array.from(text, ch => ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().charAt(0) || ch).join('');
+
+const stripHtml = (html: string) =>
+  html.replace(/<[^>]*>/g, ' ').replace(/!\[[^\]]*\]\([^)]*\)/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+const tokenize = (query: string) => foldText(query).split(/[^a-z0-9]+/).filter(Boolean);
+
+const field = (text: string | undefined, weight: number): IndexedField | null =>
+  text ? { text, folded: foldText(text), weight } : null;
+
+const compact = (fields: (IndexedField | null)[]) => fields.filter((f): f is IndexedField => !!f);
+
+export interface SearchSources {
+  projects?: Project[];
+  posts?: BlogPost[];
+  specializations?: Specialization[];
+}
+
+export const buildSearchIndex = ({ projects = [], posts = [], specializations = [] }: SearchSources): SearchDocument[] => [
+  ...projects.map((p): SearchDocument => ({
+    kind: 'project',
+    id: p.id,
+    title: p.title,
+    path: projectPath(p),
+    image: p.thumbnailUrl,
+    fields: compact([
+      field(p.title, 10),
+      field(p.category, 3),
+      field(p.shortDescription, 4),
+      field(p.description && stripHtml(p.description), 2),
+      field(p.servicesDelivered, 3)
+    ])
+  })),
+  ...posts.map((post): SearchDocument => ({
+    kind: 'blog',
+    id: post.id,
+    title: post.title,
+    path: blogPostPath(post),
+    image: post.coverImage,
+    fields: compact([
+      field(post.title, 10),
+      field(post.tags?.join(', '), 5),
+      field(post.excerpt, 4),
+      field(post.content && stripHtml(post.content), 1)
+    ])
+  })),
+  ...specializations.map((spec): SearchDocument => ({
+    kind: 'specialization',
+    id: spec.id,
+    title: spec.name,
+    path: `/specializace/${spec.id}`,
+    image: spec.image,
+    externalUrl: spec.externalUrl,
+    fields: compact([
+      field(spec.name, 12),
+      field(spec.description, 4),
+      field(spec.values?.join(', '), 2)
+    ])
+  }))
+];
+
+const isWordStart = (text: string, index: number) => index === 0 || !/[a-z0-9]/.test(text[index - 1]);
+
+// Skóre jednoho výrazu v poli: celé slovo > začátek slova > kdekoli uvnitř
+const termScore = (folded: string, term: string): { score: number; index: number } => {
+  let best = { score: 0, index: -1 };
+  let index = folded.indexOf(term);
+  while (index !== -1 && best.score < 3) {
+    const end = index + term.length;
+    const wholeWord = isWordStart(folded, index) && (end === folded.length || !/[a-z0-9]/.test(folded[end]));
+    const score = wholeWord ? 3 : isWordStart(folded, index) ? 2 : 1;
+    if (score > best.score) best = { score, index };
+    index = folded.indexOf(term, index + 1);
+  }
+  return best;
+};
+
+const SNIPPET_RADIUS = 60;
+
+const makeSnippet = (f: IndexedField, index: number) => {
+  if (f.text.length <= SNIPPET_RADIUS * 2) return f.text;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(f.text.length, index + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${f.text.slice(start, end).trim()}${end < f.text.length ? '…' : ''}`;
+};
+
+/**
+ * Všechny výrazy dotazu se musí někde v dokumentu vyskytnout (bez ohledu na diakritiku
+ * a velikost písmen). Pořadí: váha pole × kvalita shody, bonus za shodu celé fráze v názvu.
+ */
+export const search = (index: SearchDocument[], query: string, limit = 20): SearchResult[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+  const phrase = terms.join(' ');
+  const results: SearchResult[] = [];
+
+  for (const doc of index) {
+    let score = 0;
+    let snippetSource: { field: IndexedField; index: number; weight: number } | null = null;
+    let matchedAll = true;
+
+    for (const term of terms) {
+      let termBest = 0;
+      for (const f of doc.fields) {
+        const hit = termScore(f.folded, term);
+        if (!hit.score) continue;
+        termBest = Math.max(termBest, hit.score * f.weight);
+        // Úryvek z nejméně vážného pole se shodou – název se ve výsledku zobrazuje zvlášť
+        if (!snippetSource || f.weight < snippetSource.weight) snippetSource = { field: f, index: hit.index, weight: f.weight };
+      }
+      if (!termBest) {
+        matchedAll = false;
+        break;
+      }
+      score += termBest;
+    }
+    if (!matchedAll) continue;
+
+    const title = foldText(doc.title);
+    if (title === phrase) score += 50;
+    else if (title.startsWith(phrase)) score += 25;
+    else if (terms.length > 1 && title.includes(phrase)) score += 15;
+
+    results.push({
+      doc,
+      score,
+      snippet: snippetSource ? makeSnippet(snippetSource.field, snippetSource.index) : ''
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.doc.title.localeCompare(b.doc.title, 'cs'))
+    .slice(0, limit);
+};
+
+// Jednoduchý filtr pro seznamy v administraci – stejné skládání diakritiky jako index
+export const matchesSearch = (query: string, ...values: (string | undefined | null)[]): boolean => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return true;
+  const haystack = foldText(values.filter(Boolean).join(' '));
+  return terms.every(term => haystack.includes(term));
+};
@@ -0,0 +1,120 @@
+import { BlogPost, FileItem, Inquiry, Partner, Review } from '../types';
+import { PROJECTS } from '../constants';
+import { MIGRATIONS } from './migrations';
+import { slugify, uniqueSlug } from './slugs';
+import { EntitySchema, blogSchema, inquirySchema, mediaSchema, partnerSchema, projectSchema, reviewSchema, toRow } from './schema';
+
+// Ukázková data pro lokální backendy (DATA_BACKEND=memory|local), aby web i admin šly spustit bez Supabase.
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const BLOG_POSTS: BlogPost[] = [
+  {
+    id: 'seed-blog-1',
+    title: 'Jak se připravit na firemní focení',
+    excerpt: 'Pár praktických tipů, díky kterým bude focení rychlé a fotky použitelné na web i sociální sítě.',
+    content: '<p>Dobře připravené focení ušetří čas vám i fotografovi.</p><h2>Před focením</h2><p>Ujasněte si, kde budou fotky použity, a připravte prostor.</p>',
+    coverImage: 'https://picsum.photos/seed/blog1/1200/800',
+    date: daysAgo(12).slice(0, 10),
+    author: 'Jakub Minka',
+    tags: ['tipy', 'firemní foto'],
+    seoTitle: 'Příprava na firemní focení',
+    seoDescription: 'Praktické tipy, jak se připravit na firemní focení.'
+  },
+  {
+    id: 'seed-blog-2',
+    title: 'Světlo v interiéru: okno je nejlepší softbox',
+    excerpt: 'Proč při focení interiérů začínám u denního světla a kdy sahám po zábleskách.',
+    content: '<p>Denní světlo dává interiéru přirozenou atmosféru.</p><p>Záblesky pomáhají vyrovnat kontrast mezi oknem a místností.</p>',
+    coverImage: 'https://picsum.photos/seed/blog2/1200/800',
+    date: daysAgo(40).slice(0, 10),
+    author: 'Jakub Minka',
+    tags: ['interiéry', 'světlo']
+  },
+  {
+    id: 'seed-blog-3',
+    title: 'Dron nad hotelovým resortem',
+    excerpt: 'Připravovaný článek – na webu se objeví až v naplánovaný čas.',
+    content: '<p>Letecké záběry ukážou polohu resortu v krajině.</p>',
+    coverImage: 'https://picsum.photos/seed/blog3/1200/800',
+    date: daysAgo(0).slice(0, 10),
+    author: 'Jakub Minka',
+    tags: ['dron'],
+    status: 'scheduled',
+    publishAt: daysAgo(-7)
+  }
+];
+
+const REVIEWS: Review[] = [
+  { id: 'seed-review-1', author: 'Petra Nováková', text: 'Rychlá domluva a skvělé fotky hotelu.', rating: 5, platform: 'google', date: daysAgo(20).slice(0, 10) },
+  { id: 'seed-review-2', author: 'Studio Forma', text: 'Video pro náš showroom předčilo očekávání.', rating: 5, platform: 'firmy', date: daysAgo(65).slice(0, 10) }
+];
+
+const INQUIRIES: Inquiry[] = [
+  {
+    id: 'seed-inquiry-1',
+    name: 'Martin Dvořák',
+    email: 'martin@example.com',
+    subject: 'Focení penzionu',
+    message: 'Dobrý den, měli bychom zájem o fotky nového penzionu na jaře.',
+    date: daysAgo(2),
+    status: 'new'
+  }
+];
+
+const PARTNERS: Partner[] = [
+  { id: 'seed-partner-1', name: 'Hotel Panorama' },
+  { id: 'seed-partner-2', name: 'Studio Forma' }
+];
+
+const MEDIA: FileItem[] = [
+  { id: 'seed-folder-1', name: 'Reference', type: 'folder', updatedAt: daysAgo(30), parentId: null },
+  ...[1, 2, 3].map((n): FileItem => ({
+    id: `seed-media-${n}`,
+    name: `ukazka-${n}`,
+    type: 'image',
+    size: '0.80 MB',
+    updatedAt: daysAgo(30 - n),
+    url: `https://picsum.photos/seed/media${n}/1600/1067`,
+    parentId: 'seed-folder-1',
+    alt: `Ukázková fotografie ${n}`,
+    mediaType: 'photo',
+    dimensions: '1600x1067'
+  }))
+];
+
+const WEB_SETTINGS = {
+  homeHeroTitle: 'VIZUÁLNÍ PŘÍBĚHY, KTERÉ PRODÁVAJÍ',
+  homeHeroSubtitle: 'Fotografie a video pro značky, architekturu a události.',
+  homeAboutText: 'Lokální vývojová data – změny se neukládají do cloudu.',
+  email: 'info@example.com',
+  phone: '+420 000 000 000'
+};
+
+// Řádky se skládají přes schémata entit, takže odpovídají tomu, co by vrátila databáze.
+const rows = <T extends { id: string }>(schema: EntitySchema<T>, items: T[], createdAt: (item: T, index: number) => string) =>
+  items.map((item, index) => {
+    const created = createdAt(item, index);
+    return { ...toRow(schema, item), created_at: created, updated_at: created };
+  });
+
+const withSlugs = <T extends { title: string }>(items: T[]): T[] => {
+  const taken = new Set<string>();
+  return items.map(item => {
+    const slug = uniqueSlug(slugify(item.title), taken);
+    taken.add(slug);
+    return { ...item, slug };
+  });
+};
+
+export const createSeedData = (): Record<string, Record<string, any>[]> => ({
+  [projectSchema.table]: rows(projectSchema, withSlugs(PROJECTS), (_, i) => daysAgo(i)),
+  [blogSchema.table]: rows(blogSchema, withSlugs(BLOG_POSTS), post => new Date(post.date).toISOString()),
+  [reviewSchema.table]: rows(reviewSchema, REVIEWS, review => new Date(review.date).toISOString()),
+  [inquirySchema.table]: rows(inquirySchema, INQUIRIES, inquiry => inquiry.date),
+  [partnerSchema.table]: rows(partnerSchema, PARTNERS, (_, i) => daysAgo(100 + i)),
+  [mediaSchema.table]: rows(mediaSchema, MEDIA, item => item.updatedAt),
+  web_settings: [{ id: 'web_settings', data: WEB_SETTINGS, created_at: daysAgo(100), updated_at: daysAgo(100) }],
+  revisions: [],
+  schema_migrations: MIGRATIONS.map(m => ({ version: m.version, name: m.name, applied_at: daysAgo(100) }))
+});
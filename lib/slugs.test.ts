@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SLUG_LENGTH, Sluggable, assignSlug, slugify } from './slugs';
+
+describe('slugify', () => {
+  it('odstraní diakritiku, & přepíše na "a" a zbytek nahradí pomlčkami', () => {
+    expect(slugify('Svatba na zámku & hrad')).toBe('svatba-na-zamku-a-hrad');
+    expect(slugify('  Žluťoučký kůň!  ')).toBe('zlutoucky-kun');
+  });
+
+  it('zkrátí dlouhý název a nenechá pomlčku na konci', () => {
+    const slug = slugify(`${'a'.repeat(MAX_SLUG_LENGTH - 1)} b`);
+    expect(slug.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+    expect(slug.endsWith('-')).toBe(false);
+  });
+});
+
+describe('assignSlug', () => {
+  it('vygeneruje slug z názvu', () => {
+    expect(assignSlug({ id: 'p1' }, 'Firemní večírek', [])).toEqual({
+      id: 'p1',
+      slug: 'firemni-vecirek',
+      previousSlugs: []
+    });
+  });
+
+  it('při kolizi přidá číslo; obsazené jsou i dřívější slugy ostatních', () => {
+    const existing: Sluggable[] = [
+      { id: 'a', slug: 'vecirek' },
+      { id: 'b', slug: 'jiny', previousSlugs: ['vecirek-2'] }
+    ];
+    expect(assignSlug({ id: 'c' }, 'Večírek', existing).slug).toBe('vecirek-3');
+  });
+
+  it('vlastní slug záznamu s kolizí nepočítá', () => {
+    const existing: Sluggable[] = [{ id: 'a', slug: 'vecirek' }];
+    expect(assignSlug({ id: 'a', slug: 'vecirek' }, 'Večírek', existing).slug).toBe('vecirek');
+  });
+
+  it('změněný slug uloží do historie kvůli přesměrování', () => {
+    const existing: Sluggable[] = [{ id: 'a', slug: 'stary', previousSlugs: ['nejstarsi'] }];
+    const result = assignSlug({ id: 'a', slug: 'novy' }, 'Cokoli', existing);
+    expect(result.slug).toBe('novy');
+    expect(result.previousSlugs).toEqual(['nejstarsi', 'stary']);
+  });
+
+  it('návrat k dřívějšímu slugu ho z historie odebere', () => {
+    const existing: Sluggable[] = [{ id: 'a', slug: 'novy', previousSlugs: ['stary'] }];
+    expect(assignSlug({ id: 'a', slug: 'stary' }, 'Cokoli', existing).previousSlugs).toEqual(['novy']);
+  });
+});
@@ -0,0 +1,69 @@
+// Čitelné adresy zakázek a článků (/projekt/svatba-na-zamku). Staré id a dřívější slugy
+// zůstávají v `previousSlugs`, takže odkazy rozeslané klientům nebo zaindexované vyhledávači nezemřou.
+
+export interface Sluggable {
+  id: string;
+  slug?: string;
+  previousSlugs?: string[];
+}
+
+export const MAX_SLUG_LENGTH = 80;
+
+// NFD rozloží "ř" na "r" + háček, kombinující znaky pak stačí zahodit
+export const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' a ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/g, '');
+
+export const isValidSlug = (value: string) =>
+  /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value) ? null : 'smí obsahovat jen malá písmena bez diakritiky, číslice a pomlčky';
+
+export const uniqueSlug = (base: string, taken: Set<string>): string => {
+  const root = base || 'polozka';
+  if (!taken.has(root)) return root;
+  let n = 2;
+  while (taken.has(`${root}-${n}`)) n++;
+  return `${root}-${n}`;
+};
+
+/**
+ * Doplní slug před uložením. Prázdný slug se vygeneruje z názvu; změněný slug se přidá
+ * do historie, ze které se pak přesměrovává. Obsazené jsou i dřívější slugy ostatních záznamů.
+ */
+export const assignSlug = <T extends Sluggable>(entity: T, title: string, existing: T[]): T => {
+  const previous = existing.find(item => item.id === entity.id);
+  const taken = new Set<string>();
+  for (const item of existing) {
+    if (item.id === entity.id) continue;
+    if (item.slug) taken.add(item.slug);
+    item.previousSlugs?.forEach(s => taken.add(s));
+  }
+  const slug = uniqueSlug(slugify(entity.slug?.trim() || title), taken);
+  const history = new Set([...(previous?.previousSlugs || []), ...(entity.previousSlugs || [])]);
+  if (previous?.slug && previous.slug !== slug) history.add(previous.slug);
+  history.delete(slug);
+  return { ...entity, slug, previousSlugs: Array.from(history) };
+};
+
+/**
+ * Najde záznam podle parametru z URL: aktuální slug, pak id, pak dřívější slugy.
+ * `redirect` je true, když adresa není kanonická a má se nahradit aktuálním slugem.
+ */
+export const resolveSlug = <T extends Sluggable>(items: T[], param: string | undefined): { item: T; redirect: boolean } | null => {
+  if (!param) return null;
+  const item = items.find(i => i.slug === param)
+    || items.find(i => i.id === param)
+    || items.find(i => i.previousSlugs?.includes(param));
+  if (!item) return null;
+  return { item, redirect: !!item.slug && item.slug !== param };
+};
+
+export const projectPath = (project: Sluggable) => `/projekt/${project.slug || project.id}`;
+
+export const blogPostPath = (post: Sluggable) => `/blog/${post.slug || post.id}`;
@@ -0,0 +1,67 @@
+// Úložiště souborů za knihovnou médií. Nové uploady jdou do R2, Supabase Storage zůstává
+// kvůli starším souborům (a jako záloha). Volba přes STORAGE_PROVIDER v .env.local.
+// Lokální backendy (memory/localStorage) žádné úložiště nemají – soubor se uloží jako data URL.
+
+import { getBackend } from './backend';
+import { InlineStorage } from './storages/inline';
+import { R2Storage } from './storages/r2';
+import { SupabaseStorage } from './storages/supabase';
+
+export type StorageProviderName = 'supabase' | 'r2' | 'inline';
+
+export interface StoredObject {
+  provider: StorageProviderName;
+  key: string;
+  url: string;
+  size?: number;
+}
+
+export interface StorageUploadOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  // Klíč volí úložiště samo (unikátní prefix), `fileName` slouží jen jako základ
+  upload(body: Blob, fileName: string, options?: StorageUploadOptions): Promise<StoredObject>;
+  remove(key: string): Promise<void>;
+  move(fromKey: string, toKey: string): Promise<StoredObject>;
+  publicUrl(key: string): string;
+  list(prefix?: string): Promise<StoredObject[]>;
+}
+
+const providers: Partial<Record<StorageProviderName, StorageProvider>> = {};
+
+export const storageFor = (name: StorageProviderName): StorageProvider => {
+  if (!providers[name]) {
+    providers[name] = name === 'r2' ? new R2Storage() : name === 'supabase' ? new SupabaseStorage() : new InlineStorage();
+  }
+  return providers[name]!;
+};
+
+// Kam jdou nové uploady
+export const getStorage = (): StorageProvider => {
+  if (!getBackend().remote) return storageFor('inline');
+  const configured = (process.env.STORAGE_PROVIDER || 'r2').toLowerCase();
+  if (configured !== 'r2' && configured !== 'supabase') {
+    console.warn(`Unknown STORAGE_PROVIDER "${configured}", using R2`);
+    return storageFor('r2');
+  }
+  return storageFor(configured);
+};
+
+const SUPABASE_PATH = '/storage/v1/object/public/media/';
+const R2_HOST = /^https:\/\/pub-[a-z0-9]+\.r2\.dev\//i;
+
+// URL souboru v našem úložišti -> úložiště + klíč objektu; cizí URL (YouTube, Unsplash…) a data URL vrací null
+export const storageKeyFromUrl = (url?: string | null): { provider: Exclude<StorageProviderName, 'inline'>; key: string } | null => {
+  if (!url || url.startsWith('data:')) return null;
+  const clean = url.split(/[?#]/)[0];
+  const supabaseIndex = clean.indexOf(SUPABASE_PATH);
+  if (supabaseIndex !== -1) {
+    return { provider: 'supabase', key: decodeURIComponent(clean.slice(supabaseIndex + SUPABASE_PATH.length)) };
+  }
+  if (R2_HOST.test(clean)) return { provider: 'r2', key: decodeURIComponent(clean.replace(R2_HOST, '')) };
+  return null;
+};
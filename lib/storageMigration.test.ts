@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { mediaDB, projectDB } from './db';
+import { storageFor } from './storage';
+import { migrateSupabaseToR2, planStorageMigration } from './storageMigration';
+
+const SUPABASE = 'https://abc.supabase.co/storage/v1/object/public/media/';
+const R2 = 'https://pub-0123.r2.dev/';
+
+const mediaRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: `${id}.jpg`,
+  type: 'image',
+  url: `${SUPABASE}uploads/${id}.jpg`,
+  specialization_id: `uploads/${id}.jpg`,
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  setBackend(new MemoryBackend({
+    media_meta: [
+      mediaRow('a', {
+        variants: [
+          { width: 400, url: `${SUPABASE}uploads/a_400.webp`, key: 'uploads/a_400.webp' },
+          { width: 1200, url: `${SUPABASE}uploads/a.jpg`, key: 'uploads/a.jpg' }
+        ]
+      }),
+      mediaRow('v', {
+        type: 'video',
+        url: `${SUPABASE}uploads/v.mp4`,
+        specialization_id: 'uploads/v.mp4',
+        poster_url: `${SUPABASE}uploads/v_poster.webp`,
+        poster_key: 'uploads/v_poster.webp'
+      }),
+      mediaRow('t', { deleted_at: '2026-02-01T00:00:00.000Z' }),
+      mediaRow('r', { url: `${R2}r.jpg`, specialization_id: 'r.jpg' })
+    ],
+    projects: [{
+      id: 'p1',
+      title: 'Smazaný projekt',
+      category_id: 'wedding',
+      type: 'video',
+      gallery: [{ id: 'g1', type: 'video', url: `${SUPABASE}uploads/v.mp4`, source: 'storage', poster: `${SUPABASE}uploads/v_poster.webp` }],
+      deleted_at: '2026-02-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z'
+    }],
+    blog: [],
+    web_settings: []
+  }));
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(new Blob(['data']))));
+  vi.spyOn(storageFor('r2'), 'upload').mockImplementation(async (_body, fileName) =>
+    ({ provider: 'r2', key: `m_${fileName}`, url: `${R2}m_${fileName}` }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('planStorageMigration', () => {
+  it('zahrne zmenšeniny, postery a záznamy v koši; soubory v R2 vynechá', async () => {
+    const plan = await planStorageMigration();
+    expect(plan.map(f => [f.key, f.mediaCount, f.referenceCount]).sort()).toEqual([
+      ['uploads/a.jpg', 1, 0],
+      ['uploads/a_400.webp', 1, 0],
+      ['uploads/t.jpg', 1, 0],
+      ['uploads/v.mp4', 1, 1],
+      ['uploads/v_poster.webp', 1, 1]
+    ]);
+  });
+});
+
+describe('migrateSupabaseToR2', () => {
+  it('přepíše hlavní soubor, zmenšeniny, poster i plakát v galerii smazaného projektu', async () => {
+    const result = await migrateSupabaseToR2(await planStorageMigration());
+    expect(result.migrated).toBe(5);
+    expect(result.failed).toEqual([]);
+
+    const media = [...await mediaDB.getAll({ force: true }), ...await mediaDB.getAll({ trashed: true })];
+    const byId = new Map(media.map(m => [m.id, m]));
+    expect(byId.get('a')).toMatchObject({
+      url: `${R2}m_a.jpg`,
+      specializationId: 'm_a.jpg',
+      variants: [
+        { width: 400, url: `${R2}m_a_400.webp`, key: 'm_a_400.webp' },
+        { width: 1200, url: `${R2}m_a.jpg`, key: 'm_a.jpg' }
+      ]
+    });
+    expect(byId.get('v')).toMatchObject({ posterUrl: `${R2}m_v_poster.webp`, posterKey: 'm_v_poster.webp' });
+    expect(byId.get('t')?.url).toBe(`${R2}m_t.jpg`);
+    expect(byId.get('r')?.url).toBe(`${R2}r.jpg`);
+
+    const [project] = await projectDB.getAll({ trashed: true });
+    expect(project.gallery?.[0]).toMatchObject({ url: `${R2}m_v.mp4`, poster: `${R2}m_v_poster.webp` });
+    expect(await planStorageMigration()).toEqual([]);
+  });
+
+  it('soubor, který se nepodaří stáhnout, nechá v Supabase', async () => {
+    vi.mocked(fetch).mockImplementation(async input =>
+      String(input).endsWith('a_400.webp') ? new Response(null, { status: 404 }) : new Response(new Blob(['data'])));
+    const result = await migrateSupabaseToR2(await planStorageMigration());
+    expect(result.failed.map(f => f.url)).toEqual([`${SUPABASE}uploads/a_400.webp`]);
+
+    const a = (await mediaDB.getAll({ force: true })).find(m => m.id === 'a');
+    expect(a?.variants?.map(v => v.url)).toEqual([`${SUPABASE}uploads/a_400.webp`, `${R2}m_a.jpg`]);
+  });
+});
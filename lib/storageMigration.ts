@@ -0,0 +1,143 @@
+import { FileItem, WebSettings } from '../types';
+import { blogDB, dataStore, mediaDB, projectDB } from './db';
+import { collectReferences, rewriteUrlsInContent } from './mediaReferences';
+import { storageFor, storageKeyFromUrl } from './storage';
+
+// Přesun souborů ze Supabase Storage do R2. Originály v Supabase zůstávají – smazat je jde
+// ručně, až bude jisté, že web běží jen z R2. Přerušená migrace se dá spustit znovu:
+// co už bylo přepsáno na R2, do plánu znovu nespadne. Počítají se i záznamy v koši,
+// aby obnova z koše nevrátila odkazy do Supabase.
+
+export interface MigrationFile {
+  // URL bez query/hash
+  url: string;
+  key: string;
+  // Kolik záznamů knihovny a míst v obsahu na soubor odkazuje
+  mediaCount: number;
+  referenceCount: number;
+}
+
+export interface MigrationProgress {
+  done: number;
+  total: number;
+  current?: string;
+}
+
+export interface MigrationResult {
+  migrated: number;
+  failed: { url: string; error: string }[];
+  updated: { media: number; projects: number; posts: number; settings: boolean };
+}
+
+const cleanUrl = (url: string) => url.split(/[?#]/)[0];
+
+const supabaseFile = (url?: string | null) => {
+  const ref = storageKeyFromUrl(url);
+  return ref?.provider === 'supabase' ? ref : null;
+};
+
+// Hlavní soubor, zmenšeniny pro srcset (plná šířka má stejnou URL jako hlavní soubor) a poster videa
+const mediaUrls = (item: FileItem): (string | undefined)[] =>
+  [item.url, ...(item.variants || []).map(v => v.url), item.posterUrl];
+
+const loadMedia = async () => [
+  ...await mediaDB.getAll({ force: true }),
+  ...await mediaDB.getAll({ trashed: true })
+];
+
+export const planStorageMigration = async (): Promise<MigrationFile[]> => {
+  const [media, projects, posts, settings] = await Promise.all([
+    loadMedia(),
+    projectDB.getAll({ force: true }).then(async live => [...live, ...await projectDB.getAll({ trashed: true })]),
+    blogDB.getAll({ force: true }).then(async live => [...live, ...await blogDB.getAll({ trashed: true })]),
+    dataStore.doc('web_settings').get() as Promise<Partial<WebSettings>>
+  ]);
+
+  const files = new Map<string, MigrationFile>();
+  const fileFor = (url: string) => {
+    const ref = supabaseFile(url);
+    if (!ref) return null;
+    const key = cleanUrl(url);
+    if (!files.has(key)) files.set(key, { url: key, key: ref.key, mediaCount: 0, referenceCount: 0 });
+    return files.get(key)!;
+  };
+
+  for (const item of media) {
+    if (item.type === 'folder') continue;
+    for (const url of new Set(mediaUrls(item))) {
+      const file = url && fileFor(url);
+      if (file) file.mediaCount++;
+    }
+  }
+  for (const ref of collectReferences({ projects, posts, settings })) {
+    const file = fileFor(ref.url);
+    if (file) file.referenceCount++;
+  }
+
+  return Array.from(files.values());
+};
+
+// Změny záznamu knihovny po migraci, nebo null, když se ho žádný přesunutý soubor netýká
+const migratedMediaPatch = (item: FileItem, urls: Map<string, string>, keys: Map<string, string>): Partial<FileItem> | null => {
+  const target = (url?: string) => (url && urls.get(cleanUrl(url))) || null;
+  const patch: Partial<FileItem> = {};
+  const url = target(item.url);
+  if (url) Object.assign(patch, { url, specializationId: keys.get(url) });
+  if (item.variants?.some(v => target(v.url))) {
+    patch.variants = item.variants.map(v => {
+      const moved = target(v.url);
+      return moved ? { ...v, url: moved, key: keys.get(moved) } : v;
+    });
+  }
+  const poster = target(item.posterUrl);
+  if (poster) Object.assign(patch, { posterUrl: poster, posterKey: keys.get(poster) });
+  return Object.keys(patch).length > 0 ? patch : null;
+};
+
+// Přepíše URL v knihovně i v obsahu
+const rewriteEverywhere = async (urls: Map<string, string>, keys: Map<string, string>) => {
+  let media = 0;
+  for (const item of await loadMedia()) {
+    const patch = migratedMediaPatch(item, urls, keys);
+    if (!patch) continue;
+    await mediaDB.update(item.id, patch);
+    media++;
+  }
+  return { media, ...await rewriteUrlsInContent(urls) };
+};
+
+/**
+ * Zkopíruje soubory do R2 a přepíše na ně URL v media_meta, projektech, článcích a nastavení webu.
+ * Soubor, který se nepodaří stáhnout nebo nahrát, zůstane v Supabase a odkazy na něj se nemění.
+ * Po zrušení (signal) se přepíšou odkazy jen u souborů, které už v R2 jsou.
+ */
+export const migrateSupabaseToR2 = async (
+  files: MigrationFile[],
+  options: { onProgress?: (progress: MigrationProgress) => void; signal?: AbortSignal } = {}
+): Promise<MigrationResult> => {
+  const r2 = storageFor('r2');
+  const urls = new Map<string, string>();
+  const keys = new Map<string, string>();
+  const failed: MigrationResult['failed'] = [];
+
+  for (const [index, file] of files.entries()) {
+    if (options.signal?.aborted) break;
+    options.onProgress?.({ done: index, total: files.length, current: file.key });
+    try {
+      const response = await fetch(file.url, { signal: options.signal });
+      if (!response.ok) throw new Error(`Stažení selhalo (HTTP ${response.status})`);
+      const blob = await response.blob();
+      const fileName = file.key.split('/').pop() || file.key;
+      const stored = await r2.upload(blob, fileName, { signal: options.signal });
+      urls.set(file.url, stored.url);
+      keys.set(stored.url, stored.key);
+    } catch (err) {
+      if (options.signal?.aborted) break;
+      console.warn(`Storage migration failed for ${file.key}:`, err);
+      failed.push({ url: file.url, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const updated = await rewriteEverywhere(urls, keys);
+  return { migrated: urls.size, failed, updated };
+};
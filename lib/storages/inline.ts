@@ -0,0 +1,27 @@
+import { readAsDataUrl } from '../db';
+import type { StorageProvider, StorageUploadOptions, StoredObject } from '../storage';
+
+// Bez cloudu: soubor žije přímo v záznamu jako data URL, mazat ani vypisovat není co.
+export class InlineStorage implements StorageProvider {
+  readonly name = 'inline' as const;
+
+  async upload(body: Blob, fileName: string, options?: StorageUploadOptions): Promise<StoredObject> {
+    const url = await readAsDataUrl(body);
+    options?.onProgress?.(100);
+    return { provider: this.name, key: fileName, url, size: body.size };
+  }
+
+  async remove(): Promise<void> {}
+
+  async move(_fromKey: string, toKey: string): Promise<StoredObject> {
+    throw new Error(`Soubor "${toKey}" je uložený přímo v záznamu, nelze ho přesunout`);
+  }
+
+  publicUrl(key: string): string {
+    return key;
+  }
+
+  async list(): Promise<StoredObject[]> {
+    return [];
+  }
+}
@@ -0,0 +1,32 @@
+import { R2_PUBLIC_URL, deleteFromR2, listR2Objects, moveInR2, uploadToR2 } from '../r2Client';
+import type { StorageProvider, StorageUploadOptions, StoredObject } from '../storage';
+
+export class R2Storage implements StorageProvider {
+  readonly name = 'r2' as const;
+
+  async upload(body: Blob, fileName: string, options?: StorageUploadOptions): Promise<StoredObject> {
+    const { key, url } = await uploadToR2(body, fileName, options?.onProgress, { signal: options?.signal });
+    return { provider: this.name, key, url, size: body.size };
+  }
+
+  async remove(key: string): Promise<void> {
+    await deleteFromR2(key);
+  }
+
+  async move(fromKey: string, toKey: string): Promise<StoredObject> {
+    const { key, url } = await moveInR2(fromKey, toKey);
+    return { provider: this.name, key, url };
+  }
+
+  publicUrl(key: string): string {
+    return `${R2_PUBLIC_URL}/${key}`;
+  }
+
+  // R2 vrací celý bucket najednou, prefix se filtruje až tady
+  async list(prefix = ''): Promise<StoredObject[]> {
+    const { publicUrl, objects } = await listR2Objects();
+    return objects
+      .filter(obj => obj.key.startsWith(prefix))
+      .map(obj => ({ provider: this.name, key: obj.key, url: `${publicUrl}/${obj.key}`, size: obj.size }));
+  }
+}
@@ -0,0 +1,56 @@
+import { supabase } from '../../src/supabaseClient';
+import type { StorageProvider, StorageUploadOptions, StoredObject } from '../storage';
+
+const BUCKET = 'media';
+const PAGE = 1000;
+
+export class SupabaseStorage implements StorageProvider {
+  readonly name = 'supabase' as const;
+
+  // Supabase JS klient průběh uploadu nehlásí – progress skočí až na konci
+  async upload(body: Blob, fileName: string, options?: StorageUploadOptions): Promise<StoredObject> {
+    if (options?.signal?.aborted) throw new DOMException('Upload zrušen', 'AbortError');
+    const fileId = 'm-' + Math.random().toString(36).substr(2, 9);
+    const key = `uploads/${fileId}_${fileName.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+
+    const { error } = await supabase.storage.from(BUCKET).upload(key, body, { cacheControl: '3600', upsert: true });
+    if (error) throw error;
+
+    options?.onProgress?.(100);
+    return { provider: this.name, key, url: this.publicUrl(key), size: body.size };
+  }
+
+  async remove(key: string): Promise<void> {
+    const { error } = await supabase.storage.from(BUCKET).remove([key]);
+    if (error && !error.message.includes('not found')) throw error;
+  }
+
+  async move(fromKey: string, toKey: string): Promise<StoredObject> {
+    const { error } = await supabase.storage.from(BUCKET).move(fromKey, toKey);
+    if (error) throw error;
+    return { provider: this.name, key: toKey, url: this.publicUrl(toKey) };
+  }
+
+  publicUrl(key: string): string {
+    return supabase.storage.from(BUCKET).getPublicUrl(key).data.publicUrl;
+  }
+
+  // Složky vrací Supabase jako položky bez id – prochází se rekurzivně
+  async list(prefix = ''): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    for (let offset = 0; ; offset += PAGE) {
+      const { data, error } = await supabase.storage.from(BUCKET).list(prefix, { limit: PAGE, offset });
+      if (error) throw error;
+      for (const entry of data || []) {
+        const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (!entry.id) {
+          objects.push(...await this.list(key));
+        } else if (entry.name !== '.emptyFolderPlaceholder') {
+          objects.push({ provider: this.name, key, url: this.publicUrl(key), size: (entry.metadata as any)?.size });
+        }
+      }
+      if (!data || data.length < PAGE) break;
+    }
+    return objects;
+  }
+}
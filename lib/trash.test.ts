@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { mediaDB, projectDB } from './db';
+import { TRASH_RETENTION_DAYS, getTrash, moveMediaToTrash, purgeDate, purgeExpiredTrash, purgeFromTrash, restoreFromTrash } from './trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const media = (id: string, parentId: string | null, type = 'image') =>
+  ({ id, name: id, type, parent_id: parentId, url: type === 'folder' ? null : `data:image/png;base64,${id}` });
+
+let backend: MemoryBackend;
+
+beforeEach(() => {
+  localStorage.clear();
+  backend = new MemoryBackend({
+    media_meta: [
+      media('slozka', null, 'folder'),
+      media('podslozka', 'slozka', 'folder'),
+      media('a', 'slozka'),
+      media('b', 'podslozka'),
+      media('mimo', null)
+    ],
+    projects: [{ id: 'p1', title: 'Svatba', category_id: 'wedding', type: 'image' }],
+    blog: []
+  });
+  setBackend(backend);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const liveIds = async () => (await mediaDB.getAll({ force: true })).map(i => i.id).sort();
+
+describe('koš pro složky', () => {
+  it('složka jde do koše i s obsahem a v koši je jedna položka', async () => {
+    await moveMediaToTrash((await mediaDB.getAll({ force: true })).find(i => i.id === 'slozka')!);
+
+    expect(await liveIds()).toEqual(['mimo']);
+    const trash = await getTrash();
+    expect(trash.map(t => t.id)).toEqual(['slozka']);
+    expect(trash[0].contents.map(c => c.id).sort()).toEqual(['a', 'b', 'podslozka']);
+  });
+
+  it('obnova složky vrátí celý obsah', async () => {
+    await moveMediaToTrash((await mediaDB.getAll({ force: true })).find(i => i.id === 'slozka')!);
+    await restoreFromTrash((await getTrash())[0]);
+
+    expect(await liveIds()).toEqual(['a', 'b', 'mimo', 'podslozka', 'slozka']);
+    expect(await getTrash()).toEqual([]);
+  });
+
+  it('soubor smazaný dřív zůstane při obnově složky v koši', async () => {
+    const all = await mediaDB.getAll({ force: true });
+    await moveMediaToTrash(all.find(i => i.id === 'a')!, '2026-01-01T00:00:00.000Z');
+    await moveMediaToTrash(all.find(i => i.id === 'slozka')!);
+
+    const trash = await getTrash();
+    expect(trash.map(t => t.id).sort()).toEqual(['a', 'slozka']);
+    await restoreFromTrash(trash.find(t => t.id === 'slozka')!);
+    expect(await liveIds()).toEqual(['b', 'mimo', 'podslozka', 'slozka']);
+  });
+
+  it('soubor ze složky, která už neexistuje, se obnoví do kořene', async () => {
+    const all = await mediaDB.getAll({ force: true });
+    await moveMediaToTrash(all.find(i => i.id === 'b')!, '2026-01-01T00:00:00.000Z');
+    await moveMediaToTrash(all.find(i => i.id === 'podslozka')!);
+    await purgeFromTrash((await getTrash()).find(t => t.id === 'podslozka')!);
+
+    await restoreFromTrash((await getTrash()).find(t => t.id === 'b')!);
+    const restored = (await mediaDB.getAll({ force: true })).find(i => i.id === 'b');
+    expect(restored?.parentId).toBeNull();
+  });
+
+  it('trvalé smazání složky odstraní i její obsah', async () => {
+    await moveMediaToTrash((await mediaDB.getAll({ force: true })).find(i => i.id === 'slozka')!);
+    await purgeFromTrash((await getTrash())[0]);
+
+    expect((await backend.select('media_meta')).map(r => r.id)).toEqual(['mimo']);
+  });
+});
+
+describe('uchování v koši', () => {
+  it('datum trvalého smazání je čas smazání plus doba uchování', () => {
+    const deletedAt = '2026-03-01T10:00:00.000Z';
+    expect(purgeDate({ kind: 'media', id: 'x', name: 'x', deletedAt, entity: {} as any, contents: [] }).getTime())
+      .toBe(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY);
+  });
+
+  it('po uplynutí doby uchování se položky smažou trvale, novější zůstanou', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T00:00:00.000Z'));
+    await projectDB.delete('p1');
+    await moveMediaToTrash((await mediaDB.getAll({ force: true })).find(i => i.id === 'slozka')!);
+    vi.setSystemTime(new Date('2026-03-20T00:00:00.000Z'));
+    await moveMediaToTrash((await mediaDB.getAll({ force: true })).find(i => i.id === 'mimo')!);
+
+    vi.setSystemTime(new Date(new Date('2026-03-01T00:00:00.000Z').getTime() + TRASH_RETENTION_DAYS * DAY + 1));
+    expect(await purgeExpiredTrash()).toBe(2);
+    expect(await backend.select('projects')).toEqual([]);
+    expect((await backend.select('media_meta')).map(r => r.id)).toEqual(['mimo']);
+    expect((await getTrash()).map(t => t.id)).toEqual(['mimo']);
+  });
+});
@@ -0,0 +1,157 @@
+import { BlogPost, FileItem, Project } from '../types';
+import { blogDB, mediaDB, projectDB } from './db';
+import { variantKeys } from './imageVariants';
+import { removeOriginal } from './originals';
+import { storageFor, storageKeyFromUrl } from './storage';
+import { removePoster } from './videoMetadata';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export type TrashKind = 'project' | 'blog' | 'media';
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  name: string;
+  deletedAt: string;
+  entity: Project | BlogPost | FileItem;
+  // U složky soubory a podsložky smazané spolu s ní – v koši se neukazují zvlášť, obnoví se i smažou s ní
+  contents: FileItem[];
+}
+
+const nameOf = (kind: TrashKind, entity: any): string =>
+  kind === 'media' ? entity.name : entity.title;
+
+const repositoryFor = (kind: TrashKind) =>
+  kind === 'project' ? projectDB : kind === 'blog' ? blogDB : mediaDB;
+
+const sameTime = (a?: string | null, b?: string | null) =>
+  !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+
+// Nejvyšší složka, se kterou soubor šel do koše (stejný čas smazání), nebo soubor sám
+const trashedWith = (file: FileItem, byId: Map<string, FileItem>): FileItem => {
+  let top = file;
+  const seen = new Set([file.id]);
+  for (let parent = byId.get(top.parentId ?? ''); parent && !seen.has(parent.id); parent = byId.get(parent.parentId ?? '')) {
+    if (parent.type !== 'folder' || !sameTime(parent.deletedAt, file.deletedAt)) break;
+    seen.add(parent.id);
+    top = parent;
+  }
+  return top;
+};
+
+export const getTrash = async (): Promise<TrashItem[]> => {
+  const [projects, posts, files] = await Promise.all([
+    projectDB.getAll({ force: true, trashed: true }),
+    blogDB.getAll({ force: true, trashed: true }),
+    mediaDB.getAll({ force: true, trashed: true })
+  ]);
+  const byId = new Map(files.map(f => [f.id, f]));
+  const contents = new Map<string, FileItem[]>();
+  for (const file of files) {
+    const top = trashedWith(file, byId);
+    if (top !== file) contents.set(top.id, [...(contents.get(top.id) || []), file]);
+  }
+  const items: TrashItem[] = [
+    ...projects.map(p => ({ kind: 'project' as const, entity: p })),
+    ...posts.map(p => ({ kind: 'blog' as const, entity: p })),
+    ...files.filter(f => trashedWith(f, byId) === f).map(f => ({ kind: 'media' as const, entity: f }))
+  ].map(({ kind, entity }) => ({
+    kind,
+    id: entity.id,
+    name: nameOf(kind, entity),
+    deletedAt: entity.deletedAt!,
+    entity,
+    contents: contents.get(entity.id) || []
+  }));
+  return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+};
+
+export const purgeDate = (item: TrashItem) => new Date(new Date(item.deletedAt).getTime() + RETENTION_MS);
+
+// Úložiště se pozná podle URL (starší soubory v Supabase, novější v R2), klíč je ve specializationId.
+// Data URL z lokálních backendů v žádném úložišti neleží.
+const removeStoredFile = async (file: FileItem) => {
+  if (file.type === 'folder' || !file.specializationId) return;
+  const ref = storageKeyFromUrl(file.url);
+  if (!ref) return;
+  const storage = storageFor(ref.provider);
+  await storage.remove(file.specializationId);
+  for (const key of variantKeys(file)) await storage.remove(key);
+  if (file.watermarkedWith) await removeOriginal(file.id);
+  await removePoster(file);
+};
+
+const FOLDER_PAGE = 500;
+
+// Všechno uvnitř složky (i v podsložkách), po patrech shora dolů
+const folderContents = async (folderId: string): Promise<FileItem[]> => {
+  const found: FileItem[] = [];
+  for (let level = [folderId]; level.length > 0;) {
+    const children: FileItem[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await mediaDB.query({ filters: { parentId: level }, limit: FOLDER_PAGE, cursor, force: true });
+      children.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+    const fresh = children.filter(c => c.id !== folderId && !found.some(f => f.id === c.id));
+    found.push(...fresh);
+    level = fresh.filter(c => c.type === 'folder').map(c => c.id);
+  }
+  return found;
+};
+
+/**
+ * Přesune soubor do koše. Složka jde i s obsahem, vše se stejným časem smazání – podle něj
+ * ji koš ukáže jako jednu položku a obnoví celou. Hromadné mazání předá jeden čas pro všechny.
+ */
+export const moveMediaToTrash = async (item: FileItem, deletedAt = new Date().toISOString()) => {
+  const contents = item.type === 'folder' ? await folderContents(item.id) : [];
+  // Od nejhlubších – přerušené mazání nenechá živý soubor ve složce, která už je v koši
+  for (const entry of [...contents].reverse()) await mediaDB.update(entry.id, { deletedAt });
+  await mediaDB.update(item.id, { deletedAt });
+};
+
+export const restoreFromTrash = async (item: TrashItem) => {
+  if (item.kind !== 'media') {
+    await repositoryFor(item.kind).restore(item.id);
+    return;
+  }
+  // Složka, ve které soubor byl, mezitím zmizela (koš, trvalé smazání) – vrátí se do kořene
+  const parentId = (item.entity as FileItem).parentId;
+  const parentGone = !!parentId && (await mediaDB.query({ filters: { id: parentId }, limit: 1, force: true })).items.length === 0;
+  await mediaDB.update(item.id, parentGone ? { deletedAt: null, parentId: null } : { deletedAt: null });
+  for (const entry of item.contents) await mediaDB.update(entry.id, { deletedAt: null });
+};
+
+export const purgeFromTrash = async (item: TrashItem) => {
+  if (item.kind === 'media') {
+    for (const entry of [...item.contents].reverse()) {
+      await removeStoredFile(entry);
+      await mediaDB.purge(entry.id);
+    }
+    await removeStoredFile(item.entity as FileItem);
+  }
+  await repositoryFor(item.kind).purge(item.id);
+};
+
+/**
+ * Trvale odstraní položky, které jsou v koši déle než TRASH_RETENTION_DAYS.
+ * Volá se při otevření administrace; vrací počet odstraněných položek.
+ */
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const expired = (await getTrash()).filter(item => purgeDate(item).getTime() <= Date.now());
+  let purged = 0;
+  for (const item of expired) {
+    try {
+      await purgeFromTrash(item);
+      purged++;
+    } catch (err) {
+      console.warn(`Trash purge failed for ${item.kind} ${item.id}:`, err);
+    }
+  }
+  return purged;
+};
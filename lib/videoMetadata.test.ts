@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import { storageFor } from './storage';
+import { formatDuration, sniffVideoCodec, uploadVideo } from './videoMetadata';
+
+// MP4 box: [velikost][typ][obsah]
+const box = (type: string, ...content: Uint8Array[]) => {
+  const size = 8 + content.reduce((sum, c) => sum + c.length, 0);
+  const out = new Uint8Array(size);
+  new DataView(out.buffer).setUint32(0, size);
+  out.set(new TextEncoder().encode(type), 4);
+  let offset = 8;
+  for (const c of content) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+};
+
+// stsd s jednou položkou daného formátu (verze+flags, počet, velikost položky, formát)
+const stsd = (format: string) => {
+  const body = new Uint8Array(16);
+  new DataView(body.buffer).setUint32(4, 1);
+  new DataView(body.buffer).setUint32(8, 16);
+  body.set(new TextEncoder().encode(format), 12);
+  return box('stsd', body);
+};
+
+const mp4 = (...boxes: Uint8Array[]) => new Blob(boxes, { type: 'video/mp4' });
+
+describe('sniffVideoCodec', () => {
+  it('najde kodek obrazové stopy v moov na konci souboru, zvukovou přeskočí', async () => {
+    const file = mp4(box('ftyp', new Uint8Array(8)), box('mdat', new Uint8Array(64)), box('moov', box('trak', stsd('mp4a')), box('trak', stsd('avc1'))));
+    expect(await sniffVideoCodec(file)).toBe('H.264');
+  });
+
+  it('poradí si s 64bitovou velikostí boxu a s ProRes z MOV', async () => {
+    const large = new Uint8Array(32);
+    const view = new DataView(large.buffer);
+    view.setUint32(0, 1);
+    large.set(new TextEncoder().encode('mdat'), 4);
+    view.setBigUint64(8, 32n);
+    expect(await sniffVideoCodec(mp4(large, box('moov', stsd('apch'))))).toBe('ProRes 422 HQ');
+  });
+
+  it('u WebM čte CodecID z hlavičky', async () => {
+    expect(await sniffVideoCodec(new Blob(['\x1aE\xdf\xa3....V_VP9....'], { type: 'video/webm' }))).toBe('VP9');
+  });
+
+  it('neznámý nebo poškozený kontejner vrátí undefined', async () => {
+    expect(await sniffVideoCodec(mp4(box('ftyp', new Uint8Array(8))))).toBeUndefined();
+    expect(await sniffVideoCodec(new Blob([new Uint8Array([0, 0, 0, 2, 0x6d, 0x64, 0x61, 0x74])], { type: 'video/mp4' }))).toBeUndefined();
+  });
+});
+
+describe('uploadVideo', () => {
+  class FakeVideo extends EventTarget {
+    duration = 12.345;
+    videoWidth = 3840;
+    videoHeight = 2160;
+    muted = false;
+    playsInline = false;
+    preload = '';
+    broken = false;
+    private time = 0;
+
+    set src(_value: string) {
+      setTimeout(() => this.dispatchEvent(new Event(this.broken ? 'error' : 'loadeddata')));
+    }
+    get currentTime() { return this.time; }
+    set currentTime(value: number) {
+      this.time = value;
+      setTimeout(() => this.dispatchEvent(new Event('seeked')));
+    }
+    removeAttribute() {}
+    load() {}
+  }
+
+  let video: FakeVideo;
+  let canvas: { width: number; height: number };
+
+  beforeEach(() => {
+    localStorage.clear();
+    setBackend(new MemoryBackend({ media_meta: [] }));
+    video = new FakeVideo();
+    canvas = { width: 0, height: 0 };
+    const create = document.createElement.bind(document);
+    vi.spyOn(document, 'createElement').mockImplementation((tag: string) => {
+      if (tag === 'video') return video as unknown as HTMLVideoElement;
+      if (tag === 'canvas') {
+        return Object.assign(canvas, {
+          getContext: () => ({ drawImage: vi.fn() }),
+          toBlob: (done: (blob: Blob) => void) => done(new Blob(['frame'], { type: 'image/webp' }))
+        }) as unknown as HTMLCanvasElement;
+      }
+      return create(tag);
+    });
+    vi.spyOn(storageFor('inline'), 'upload').mockImplementation(async (body, fileName) =>
+      ({ provider: 'inline', key: fileName, url: `inline://${fileName}`, size: body.size }));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  const file = () => new File([mp4(box('moov', stsd('hvc1')))], 'klip.mp4', { type: 'video/mp4' });
+
+  it('přečte délku, rozlišení a kodek a nahraje poster zmenšený na 1920 px', async () => {
+    const result = await uploadVideo(file(), { posterTime: 3 });
+
+    expect(result.metadata).toEqual({ codec: 'H.265', duration: 12.35, dimensions: '3840x2160' });
+    expect(result.poster).toEqual({ posterUrl: 'inline://klip-poster.webp', posterKey: 'klip-poster.webp', posterTime: 3 });
+    expect([canvas.width, canvas.height]).toEqual([1920, 1080]);
+    expect(video.currentTime).toBe(3);
+  });
+
+  it('u krátkého videa vezme poster z poloviny délky', async () => {
+    video.duration = 1;
+    const result = await uploadVideo(file());
+    expect(result.poster.posterTime).toBe(0.5);
+  });
+
+  it('video, které prohlížeč neumí přehrát, se nahraje bez posteru', async () => {
+    video.broken = true;
+    const result = await uploadVideo(file());
+
+    expect(result.url).toBe('inline://klip.mp4');
+    expect(result.metadata).toEqual({ codec: 'H.265' });
+    expect(result.poster).toEqual({});
+  });
+});
+
+describe('formatDuration', () => {
+  it('minuty a sekundy, u dlouhých videí i hodiny', () => {
+    expect(formatDuration(65.4)).toBe('1:05');
+    expect(formatDuration(3725)).toBe('1:02:05');
+    expect(formatDuration(undefined)).toBeUndefined();
+  });
+});
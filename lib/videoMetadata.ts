@@ -0,0 +1,187 @@
+import { FileItem } from '../types';
+import { mediaDB } from './db';
+import { compressionQuality } from './imageVariants';
+import { StorageUploadOptions, StoredObject, getStorage, storageFor, storageKeyFromUrl } from './storage';
+
+// Metadata a náhledový snímek (poster) videa – vše v prohlížeči při uploadu, bez serverového ffmpeg.
+// Poster je samostatný WebP v úložišti, na video odkazuje přes posterUrl/posterKey.
+
+export type VideoMetadata = Pick<FileItem, 'duration' | 'codec' | 'dimensions'>;
+
+export type VideoPoster = Pick<FileItem, 'posterUrl' | 'posterKey' | 'posterTime'>;
+
+// Kolikátá sekunda se vezme jako poster, pokud si ji uživatel nezvolí (první snímek bývá černý)
+const DEFAULT_POSTER_TIME = 1;
+const POSTER_MAX_WIDTH = 1920;
+// Video, které prohlížeč neumí dekódovat (ProRes, HEVC bez podpory), nesmí upload zablokovat
+const DECODE_TIMEOUT_MS = 15000;
+
+const CODEC_LABELS: Record<string, string> = {
+  avc1: 'H.264', avc3: 'H.264',
+  hvc1: 'H.265', hev1: 'H.265',
+  av01: 'AV1', vp09: 'VP9', vp08: 'VP8',
+  mp4v: 'MPEG-4',
+  apch: 'ProRes 422 HQ', apcn: 'ProRes 422', apcs: 'ProRes 422 LT', apco: 'ProRes 422 Proxy', ap4h: 'ProRes 4444',
+  V_VP8: 'VP8', V_VP9: 'VP9', V_AV1: 'AV1', 'V_MPEG4/ISO/AVC': 'H.264', 'V_MPEGH/ISO/HEVC': 'H.265'
+};
+
+const latin1 = new TextDecoder('latin1');
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  latin1.decode(bytes.subarray(start, start + length));
+
+// MP4/MOV: projde boxy nejvyšší úrovně a vrátí obsah `moov` (bývá na začátku i na konci souboru)
+const readMoov = async (file: Blob): Promise<Uint8Array | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const head = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    const type = ascii(new Uint8Array(head.buffer), 4, 4);
+    let size = head.getUint32(0);
+    if (size === 1 && head.byteLength >= 16) size = Number(head.getBigUint64(8));
+    else if (size === 0) size = file.size - offset;
+    if (type === 'moov') return new Uint8Array(await file.slice(offset, offset + size).arrayBuffer());
+    if (size < 8) return null;
+    offset += size;
+  }
+  return null;
+};
+
+/**
+ * Kodek videa podle kontejneru: u MP4/MOV z popisu stop (stsd), u WebM z CodecID
+ * v hlavičce. Prohlížeč kodek přes <video> neprozradí.
+ */
+export const sniffVideoCodec = async (file: Blob): Promise<string | undefined> => {
+  try {
+    if (file.type === 'video/webm') {
+      const head = new Uint8Array(await file.slice(0, 256 * 1024).arrayBuffer());
+      const match = ascii(head, 0, head.length).match(/V_(?:VP8|VP9|AV1|MPEG4\/ISO\/AVC|MPEGH\/ISO\/HEVC)/);
+      return match ? CODEC_LABELS[match[0]] : undefined;
+    }
+    const moov = await readMoov(file);
+    if (!moov) return undefined;
+    // [size][stsd][verze+flags][počet][velikost položky][formát] – zvuková stopa (mp4a) se přeskočí
+    for (let i = 4; i + 20 <= moov.length; i++) {
+      if (moov[i] !== 0x73 || ascii(moov, i, 4) !== 'stsd') continue;
+      const format = ascii(moov, i + 16, 4);
+      if (CODEC_LABELS[format]) return CODEC_LABELS[format];
+    }
+  } catch (err) {
+    console.warn('Video codec sniff failed:', err);
+  }
+  return undefined;
+};
+
+const waitFor = (video: HTMLVideoElement, event: string) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => done(new Error('Video se nepodařilo načíst včas')), DECODE_TIMEOUT_MS);
+  const onEvent = () => done();
+  const onError = () => done(new Error('Prohlížeč neumí video přehrát'));
+  const done = (err?: Error) => {
+    clearTimeout(timer);
+    video.removeEventListener(event, onEvent);
+    video.removeEventListener('error', onError);
+    err ? reject(err) : resolve();
+  };
+  video.addEventListener(event, onEvent);
+  video.addEventListener('error', onError);
+});
+
+/** Aktuální snímek přehrávače jako WebP. U videa z jiné domény musí mít element crossOrigin. */
+export const captureFrame = (video: HTMLVideoElement) => new Promise<Blob>((resolve, reject) => {
+  const width = Math.min(video.videoWidth, POSTER_MAX_WIDTH);
+  if (!width) return reject(new Error('Video nemá načtený snímek'));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round((video.videoHeight / video.videoWidth) * width);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return reject(new Error('Canvas context failed'));
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas toBlob failed')), 'image/webp', compressionQuality());
+});
+
+const posterName = (fileName: string) => `${fileName.replace(/\.[^.]+$/, '')}-poster.webp`;
+
+export interface ProcessedVideo extends StoredObject {
+  metadata: VideoMetadata;
+  poster: VideoPoster;
+}
+
+/**
+ * Nahraje video a k němu poster ze snímku v čase `posterTime` (výchozí 1 s). Délku a rozlišení
+ * čte <video>, kodek kontejner. Když prohlížeč video neumí dekódovat, nahraje se bez posteru.
+ */
+export const uploadVideo = async (
+  file: File,
+  options: StorageUploadOptions & { posterTime?: number } = {}
+): Promise<ProcessedVideo> => {
+  const storage = getStorage();
+  const metadata: VideoMetadata = { codec: await sniffVideoCodec(file) };
+  let frame: { blob: Blob; time: number } | null = null;
+
+  const objectUrl = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    video.src = objectUrl;
+    await waitFor(video, 'loadeddata');
+    metadata.duration = Number.isFinite(video.duration) ? Math.round(video.duration * 100) / 100 : undefined;
+    metadata.dimensions = video.videoWidth ? `${video.videoWidth}x${video.videoHeight}` : undefined;
+
+    const time = Math.min(options.posterTime ?? DEFAULT_POSTER_TIME, (metadata.duration || 0) / 2);
+    if (time > 0) {
+      video.currentTime = time;
+      await waitFor(video, 'seeked');
+    }
+    frame = { blob: await captureFrame(video), time };
+  } catch (err) {
+    console.warn(`Video poster failed for ${file.name}:`, err);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  for (const key of Object.keys(metadata) as (keyof VideoMetadata)[]) {
+    if (metadata[key] === undefined) delete metadata[key];
+  }
+  const stored = await storage.upload(file, file.name, options);
+  let poster: VideoPoster = {};
+  if (frame) {
+    const image = await storage.upload(frame.blob, posterName(file.name), { signal: options.signal });
+    poster = { posterUrl: image.url, posterKey: image.key, posterTime: frame.time };
+  }
+  return { ...stored, metadata, poster };
+};
+
+/**
+ * Nový poster z aktuálního snímku přehrávače (výběr v editoru médií). Starý poster se
+ * z úložiště smaže až po uložení nového, aby video nezůstalo bez náhledu.
+ */
+export const replacePoster = async (item: FileItem, video: HTMLVideoElement): Promise<VideoPoster> => {
+  const blob = await captureFrame(video);
+  const stored = await getStorage().upload(blob, posterName(item.name));
+  const poster: VideoPoster = { posterUrl: stored.url, posterKey: stored.key, posterTime: Math.round(video.currentTime * 100) / 100 };
+  await mediaDB.update(item.id, poster);
+  await removePoster(item);
+  return poster;
+};
+
+export const removePoster = async (item: FileItem) => {
+  const ref = storageKeyFromUrl(item.posterUrl);
+  if (!ref || !item.posterKey) return;
+  try {
+    await storageFor(ref.provider).remove(item.posterKey);
+  } catch (err) {
+    console.warn(`Poster remove failed for ${item.name}:`, err);
+  }
+};
+
+export const formatDuration = (seconds?: number) => {
+  if (!seconds) return undefined;
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileItem, MediaType, Project } from '../types';
+import { setBackend } from './backend';
+import { MemoryBackend } from './backends/memory';
+import {
+  DEFAULT_WATERMARK, Watermark, WatermarkConfig, drawWatermark, loadWatermarkConfig, saveWatermarkConfig,
+  specializationsByUrl, watermarkApplies, watermarkSignature
+} from './watermark';
+
+const config: WatermarkConfig = {
+  ...DEFAULT_WATERMARK,
+  enabled: true,
+  logoUrl: 'https://cdn/logo.png',
+  specializationIds: ['interior'],
+  folderIds: ['klienti']
+};
+
+const folder = (id: string, parentId: string | null) => ({ id, name: id, type: 'folder', parentId }) as FileItem;
+
+const library = [folder('klienti', null), folder('hotel', 'klienti'), folder('pokoje', 'hotel'), folder('osobni', null)];
+
+describe('watermarkApplies', () => {
+  it('platí pro vybrané specializace a složky včetně podsložek', () => {
+    expect(watermarkApplies(config, { specializationIds: ['wedding', 'interior'] }, library)).toBe(true);
+    expect(watermarkApplies(config, { parentId: 'pokoje' }, library)).toBe(true);
+    expect(watermarkApplies(config, { parentId: 'osobni' }, library)).toBe(false);
+    expect(watermarkApplies(config, { parentId: null, specializationIds: ['wedding'] }, library)).toBe(false);
+  });
+
+  it('vypnutý nebo bez loga neplatí nikde', () => {
+    expect(watermarkApplies({ ...config, enabled: false }, { parentId: 'klienti' }, library)).toBe(false);
+    expect(watermarkApplies({ ...config, logoUrl: '' }, { parentId: 'klienti' }, library)).toBe(false);
+  });
+
+  it('cyklus ve stromu složek nezacyklí hledání', () => {
+    const cyclic = [folder('a', 'b'), folder('b', 'a')];
+    expect(watermarkApplies(config, { parentId: 'a' }, cyclic)).toBe(false);
+  });
+});
+
+describe('watermarkSignature', () => {
+  it('mění se jen s tím, co je na obrázku vidět', () => {
+    expect(watermarkSignature({ ...config, folderIds: [], specializationIds: ['wedding'] })).toBe(watermarkSignature(config));
+    expect(watermarkSignature({ ...config, opacity: 0.3 })).not.toBe(watermarkSignature(config));
+  });
+});
+
+describe('specializationsByUrl', () => {
+  it('sebere titulní fotky, galerie a hlavičky specializací bez ohledu na query', () => {
+    const project = (id: string, categoryId: string, urls: string[]): Project => ({
+      id, title: id, category: '', categoryId, description: '', shortDescription: '', thumbnailUrl: urls[0],
+      type: MediaType.IMAGE, date: '', gallery: urls.slice(1).map((url, i) => ({ id: `${id}-${i}`, type: 'image', url, source: 'storage' }))
+    } as Project);
+
+    const map = specializationsByUrl(
+      [project('p1', 'interior', ['https://cdn/a.jpg', 'https://cdn/b.jpg']), project('p2', 'wedding', ['https://cdn/a.jpg?v=2'])],
+      { specializationHeaders: { interior: 'https://cdn/b.jpg' } }
+    );
+    expect(map.get('https://cdn/a.jpg')).toEqual(['interior', 'wedding']);
+    expect(map.get('https://cdn/b.jpg')).toEqual(['interior']);
+  });
+});
+
+describe('drawWatermark', () => {
+  const draw = (position: WatermarkConfig['position']) => {
+    const ctx = { save: vi.fn(), restore: vi.fn(), drawImage: vi.fn(), globalAlpha: 1 };
+    const watermark: Watermark = {
+      config: { ...config, position, scale: 0.2, opacity: 0.5 },
+      signature: '',
+      logo: { naturalWidth: 400, naturalHeight: 100 } as HTMLImageElement
+    };
+    drawWatermark(ctx as unknown as CanvasRenderingContext2D, 1000, 500, watermark);
+    expect(ctx.globalAlpha).toBe(0.5);
+    return ctx.drawImage.mock.calls[0].slice(1);
+  };
+
+  // Logo 200 × 50 px, okraj 3 % kratší strany = 15 px
+  it('umístí logo do rohu s okrajem nebo na střed', () => {
+    expect(draw('top-left')).toEqual([15, 15, 200, 50]);
+    expect(draw('bottom-right')).toEqual([785, 435, 200, 50]);
+    expect(draw('center')).toEqual([400, 225, 200, 50]);
+  });
+});
+
+describe('nastavení vodoznaku', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setBackend(new MemoryBackend({ web_settings: [] }));
+  });
+
+  it('bez uloženého nastavení vrací výchozí, uložené se načte beze změny', async () => {
+    expect(await loadWatermarkConfig()).toEqual(DEFAULT_WATERMARK);
+    await saveWatermarkConfig({ ...config, opacity: 0.8 });
+    expect(await loadWatermarkConfig()).toEqual({ ...config, opacity: 0.8 });
+  });
+});
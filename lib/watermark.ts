@@ -0,0 +1,152 @@
+import { FileItem, Project, WebSettings } from '../types';
+import { dataStore } from './db';
+
+// Vodoznak jen na veřejných webových verzích (hlavní soubor + zmenšeniny pro srcset).
+// Čistá verze v plné webové šířce leží mimo veřejné úložiště (lib/originals.ts) – z ní se
+// vodoznak při změně nastavení vyrobí znovu, nebo se podle ní obrázek vrátí bez vodoznaku.
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'center' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkConfig {
+  enabled: boolean;
+  // Logo z knihovny médií, ideálně PNG/WebP s průhledností
+  logoUrl: string;
+  position: WatermarkPosition;
+  // 0–1
+  opacity: number;
+  // Šířka loga jako podíl šířky obrázku (0–1)
+  scale: number;
+  // Kde se vodoznak používá: fotky v projektech dané specializace, soubory ve složce (i podsložkách)
+  specializationIds: string[];
+  folderIds: string[];
+}
+
+export const DEFAULT_WATERMARK: WatermarkConfig = {
+  enabled: false,
+  logoUrl: '',
+  position: 'bottom-right',
+  opacity: 0.6,
+  scale: 0.15,
+  specializationIds: [],
+  folderIds: []
+};
+
+export const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: 'Vlevo nahoře' },
+  { value: 'top-right', label: 'Vpravo nahoře' },
+  { value: 'center', label: 'Uprostřed' },
+  { value: 'bottom-left', label: 'Vlevo dole' },
+  { value: 'bottom-right', label: 'Vpravo dole' }
+];
+
+// Sdílené nastavení pro všechny správce – dokument v web_settings vedle nastavení webu
+const DOC_ID = 'watermark';
+
+export const loadWatermarkConfig = async (): Promise<WatermarkConfig> => {
+  const { id: _id, ...saved } = await dataStore.doc(DOC_ID).get();
+  return { ...DEFAULT_WATERMARK, ...saved };
+};
+
+export const saveWatermarkConfig = async (config: WatermarkConfig) => {
+  await dataStore.doc(DOC_ID).set(config);
+};
+
+// Jen to, co mění výsledný obrázek – rozsah (složky, specializace) do podpisu nepatří
+export const watermarkSignature = (config: WatermarkConfig) =>
+  JSON.stringify([config.logoUrl, config.position, config.opacity, config.scale]);
+
+// --- Na které soubory se vodoznak vztahuje ---
+
+export interface WatermarkScope {
+  parentId?: string | null;
+  specializationIds?: string[];
+}
+
+const folderChain = (parentId: string | null | undefined, library: FileItem[]): string[] => {
+  const chain: string[] = [];
+  let current = parentId;
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    current = library.find(i => i.id === current)?.parentId;
+  }
+  return chain;
+};
+
+export const watermarkApplies = (config: WatermarkConfig, scope: WatermarkScope, library: FileItem[]): boolean => {
+  if (!config.enabled || !config.logoUrl) return false;
+  if (scope.specializationIds?.some(id => config.specializationIds.includes(id))) return true;
+  return folderChain(scope.parentId, library).some(id => config.folderIds.includes(id));
+};
+
+const cleanUrl = (url: string) => url.split(/[?#]/)[0];
+
+// URL -> specializace, ve kterých je soubor na webu vidět (projekty a hlavičky specializací)
+export const specializationsByUrl = (projects: Project[], settings: Partial<WebSettings> | null): Map<string, string[]> => {
+  const map = new Map<string, string[]>();
+  const add = (url: string | undefined, specializationId: string | undefined) => {
+    if (!url || !specializationId) return;
+    const list = map.get(cleanUrl(url)) || [];
+    if (!list.includes(specializationId)) list.push(specializationId);
+    map.set(cleanUrl(url), list);
+  };
+  for (const project of projects) {
+    add(project.thumbnailUrl, project.categoryId);
+    for (const item of project.gallery || []) add(item.url, project.categoryId);
+  }
+  for (const [id, url] of Object.entries(settings?.specializationHeaders || {})) add(url, id);
+  return map;
+};
+
+// --- Kreslení ---
+
+export interface Watermark {
+  config: WatermarkConfig;
+  signature: string;
+  logo: HTMLImageElement;
+}
+
+const logos = new Map<string, Promise<HTMLImageElement>>();
+
+// crossOrigin kvůli canvasu – cizí obrázek bez CORS by ho „zašpinil“ a toBlob by selhal
+const loadLogo = (url: string) => {
+  if (!logos.has(url)) {
+    logos.set(url, new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+      img.onload = () => resolve(img);
+      img.onerror = () => {
+        logos.delete(url);
+        reject(new Error('Logo vodoznaku se nepodařilo načíst'));
+      };
+      img.src = url;
+    }));
+  }
+  return logos.get(url)!;
+};
+
+export const prepareWatermark = async (config: WatermarkConfig): Promise<Watermark> => ({
+  config,
+  signature: watermarkSignature(config),
+  logo: await loadLogo(config.logoUrl)
+});
+
+/** Vodoznak pro nově nahrávaný obrázek, nebo null, pokud na dané místo nepatří. */
+export const resolveWatermark = async (scope: WatermarkScope, library: FileItem[]): Promise<Watermark | null> => {
+  const config = await loadWatermarkConfig();
+  return watermarkApplies(config, scope, library) ? prepareWatermark(config) : null;
+};
+
+export const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number, watermark: Watermark) => {
+  const { logo, config } = watermark;
+  const logoWidth = width * config.scale;
+  const logoHeight = (logo.naturalHeight / logo.naturalWidth) * logoWidth;
+  const margin = Math.min(width, height) * 0.03;
+  const [vertical, horizontal] = config.position === 'center' ? ['center', 'center'] : config.position.split('-');
+  const x = horizontal === 'left' ? margin : horizontal === 'right' ? width - logoWidth - margin : (width - logoWidth) / 2;
+  const y = vertical === 'top' ? margin : vertical === 'bottom' ? height - logoHeight - margin : (height - logoHeight) / 2;
+
+  ctx.save();
+  ctx.globalAlpha = config.opacity;
+  ctx.drawImage(logo, x, y, logoWidth, logoHeight);
+  ctx.restore();
+};
@@ -0,0 +1,92 @@
+import { Handler } from '@netlify/functions';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest, unauthorized } from '../lib/adminAuth';
+import { ORIGINALS_BUCKET, R2 } from '../lib/r2';
+
+// Čisté verze obrázků pod vodoznakem. Leží v neveřejném bucketu a kde která je, ví jen tabulka
+// media_originals, kterou anon klíč nečte (migrace 0018) – z webu se k nim nikdo nedostane.
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+  auth: { persistSession: false }
+});
+
+const TABLE = 'media_originals';
+// Stačí na stažení během hromadného použití vodoznaku
+const SIGNED_EXPIRES = 15 * 60;
+
+const keyFor = (mediaId: string) => `${mediaId.replace(/[^a-zA-Z0-9_-]/g, '_')}/${Date.now()}.webp`;
+
+const storedKey = async (mediaId: string): Promise<string | null> => {
+  const { data, error } = await supabase.from(TABLE).select('storage_key').eq('media_id', mediaId).maybeSingle();
+  if (error) throw error;
+  return data?.storage_key ?? null;
+};
+
+export const handler: Handler = async (event) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Admin-Token',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) };
+  }
+  if (!isAdminRequest(event.headers)) return unauthorized(headers);
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const json = (data: object, statusCode = 200) => ({ statusCode, headers, body: JSON.stringify(data) });
+    const { mediaId } = body;
+    if (!mediaId || typeof mediaId !== 'string') return json({ error: 'Chybí mediaId' }, 400);
+
+    switch (body.action) {
+      // Podepsaný PUT do neveřejného bucketu; zaeviduje se až po nahrání přes `register`
+      case 'presign': {
+        const key = keyFor(mediaId);
+        const uploadHeaders = { 'Content-Type': 'image/webp' };
+        const uploadUrl = await getSignedUrl(R2, new PutObjectCommand({
+          Bucket: ORIGINALS_BUCKET, Key: key, ContentType: 'image/webp'
+        }), { expiresIn: SIGNED_EXPIRES, signableHeaders: new Set(['content-type']) });
+        return json({ uploadUrl, uploadHeaders, key });
+      }
+
+      case 'register': {
+        const { key } = body;
+        if (!key || !String(key).startsWith(`${mediaId.replace(/[^a-zA-Z0-9_-]/g, '_')}/`)) {
+          return json({ error: 'Neplatný klíč' }, 400);
+        }
+        const previous = await storedKey(mediaId);
+        const { error } = await supabase.from(TABLE).upsert({ media_id: mediaId, storage_key: key }, { onConflict: 'media_id' });
+        if (error) throw error;
+        if (previous && previous !== key) await R2.send(new DeleteObjectCommand({ Bucket: ORIGINALS_BUCKET, Key: previous }));
+        return json({ success: true });
+      }
+
+      case 'get': {
+        const key = await storedKey(mediaId);
+        if (!key) return json({ error: 'Čistá verze neexistuje' }, 404);
+        const url = await getSignedUrl(R2, new GetObjectCommand({ Bucket: ORIGINALS_BUCKET, Key: key }), { expiresIn: SIGNED_EXPIRES });
+        return json({ url });
+      }
+
+      case 'remove': {
+        const key = await storedKey(mediaId);
+        if (key) await R2.send(new DeleteObjectCommand({ Bucket: ORIGINALS_BUCKET, Key: key }));
+        const { error } = await supabase.from(TABLE).delete().eq('media_id', mediaId);
+        if (error) throw error;
+        return json({ success: true });
+      }
+
+      default:
+        return json({ error: `Neznámá akce: ${body.action}` }, 400);
+    }
+  } catch (err: any) {
+    console.error('Media originals error:', err);
+    return { statusCode: 500, headers, body: JSON.stringify({ error: err.message }) };
+  }
+};
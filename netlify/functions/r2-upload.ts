@@ -1,34 +1,59 @@
 import { Handler } from '@netlify/functions';
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import {
+  PutObjectCommand, DeleteObjectCommand, ListObjectsV2Command, CopyObjectCommand,
+  CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { isAdminRequest, unauthorized } from '../lib/adminAuth';
+import { BUCKET, PUBLIC_URL, R2 } from '../lib/r2';
 
-const R2 = new S3Client({
-  region: 'auto',
-  endpoint: `https://5ccf085e7eefb5e7ac5645d5aebce37f.r2.cloudflarestorage.com`,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
+const CACHE_CONTROL = 'public, max-age=31536000';
+// Platnost podepsaných URL – stačí i na 200MB video po pomalé lince
+const PRESIGN_EXPIRES = 60 * 60;
 
-const BUCKET = 'minka-creative';
-const PUBLIC_URL = 'https://pub-904faae02f174edea92dc65656d7a3cb.r2.dev';
+// Unikátní key
+const makeKey = (fileName: string) => `${Date.now()}_${fileName.replace(/\s+/g, '_').toLowerCase()}`;
+
+// Klíč od klienta – jen objekt v bucketu, žádné cesty ven ani prázdný klíč
+const isValidKey = (key: unknown): key is string =>
+  typeof key === 'string' && key.length > 0 && key.length <= 1024 && !key.startsWith('/') && !key.split('/').includes('..');
 
 export const handler: Handler = async (event) => {
   const headers = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type',
-    'Access-Control-Allow-Methods': 'POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Admin-Token',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
   };
 
   if (event.httpMethod === 'OPTIONS') {
     return { statusCode: 200, headers, body: '' };
   }
+  // Výpis, upload i mazání jen pro admina – bucket je veřejně čitelný, zapisovat do něj smí jen web
+  if (!isAdminRequest(event.headers)) return unauthorized(headers);
+
+  // Výpis všech objektů v bucketu (kontrola integrity médií)
+  if (event.httpMethod === 'GET') {
+    try {
+      const objects: { key: string; size: number; lastModified: string | null }[] = [];
+      let token: string | undefined;
+      do {
+        const page = await R2.send(new ListObjectsV2Command({ Bucket: BUCKET, ContinuationToken: token }));
+        for (const obj of page.Contents || []) {
+          if (obj.Key) objects.push({ key: obj.Key, size: obj.Size ?? 0, lastModified: obj.LastModified?.toISOString() ?? null });
+        }
+        token = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (token);
+      return { statusCode: 200, headers, body: JSON.stringify({ publicUrl: PUBLIC_URL, objects }) };
+    } catch (err: any) {
+      return { statusCode: 500, headers, body: JSON.stringify({ error: err.message }) };
+    }
+  }
 
   // DELETE souboru
   if (event.httpMethod === 'DELETE') {
     try {
       const { key } = JSON.parse(event.body || '{}');
-      if (!key) return { statusCode: 400, headers, body: JSON.stringify({ error: 'Chybí key' }) };
+      if (!isValidKey(key)) return { statusCode: 400, headers, body: JSON.stringify({ error: 'Chybí nebo neplatný key' }) };
 
       await R2.send(new DeleteObjectCommand({ Bucket: BUCKET, Key: key }));
       return { statusCode: 200, headers, body: JSON.stringify({ success: true }) };
@@ -37,37 +62,87 @@ export const handler: Handler = async (event) => {
     }
   }
 
-  // UPLOAD souboru
+  // UPLOAD – soubor jde z prohlížeče rovnou do R2, funkce jen podepisuje URL.
+  // Bucket musí mít CORS pro PUT z webu (hlavičky Content-Type, Cache-Control) a vystavený ETag kvůli multipartu.
   if (event.httpMethod === 'POST') {
     try {
       const body = JSON.parse(event.body || '{}');
-      const { fileName, fileData, contentType } = body;
+      const json = (data: object, statusCode = 200) => ({ statusCode, headers, body: JSON.stringify(data) });
 
-      if (!fileName || !fileData || !contentType) {
-        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Chybí fileName, fileData nebo contentType' }) };
-      }
+      switch (body.action) {
+        // Malé soubory: jeden podepsaný PUT
+        case 'presign': {
+          const { fileName, contentType } = body;
+          if (!fileName || !contentType) return json({ error: 'Chybí fileName nebo contentType' }, 400);
+          const key = makeKey(fileName);
+          // Hlavičky jsou součástí podpisu – prohlížeč je musí poslat přesně takhle
+          const uploadHeaders = { 'Content-Type': contentType, 'Cache-Control': CACHE_CONTROL };
+          const uploadUrl = await getSignedUrl(R2, new PutObjectCommand({
+            Bucket: BUCKET, Key: key, ContentType: contentType, CacheControl: CACHE_CONTROL
+          }), { expiresIn: PRESIGN_EXPIRES, signableHeaders: new Set(['content-type', 'cache-control']) });
+          return json({ uploadUrl, uploadHeaders, key, url: `${PUBLIC_URL}/${key}` });
+        }
 
-      // Dekóduj base64
-      const buffer = Buffer.from(fileData, 'base64');
+        // Velké soubory: multipart session, části se podepisují po jedné
+        case 'multipart-start': {
+          const { fileName, contentType } = body;
+          if (!fileName || !contentType) return json({ error: 'Chybí fileName nebo contentType' }, 400);
+          const key = makeKey(fileName);
+          const session = await R2.send(new CreateMultipartUploadCommand({
+            Bucket: BUCKET, Key: key, ContentType: contentType, CacheControl: CACHE_CONTROL
+          }));
+          return json({ uploadId: session.UploadId, key, url: `${PUBLIC_URL}/${key}` });
+        }
 
-      // Unikátní key
-      const key = `${Date.now()}_${fileName.replace(/\s+/g, '_').toLowerCase()}`;
+        case 'multipart-part': {
+          const { key, uploadId, partNumber } = body;
+          if (!isValidKey(key) || !uploadId || !partNumber) return json({ error: 'Chybí key, uploadId nebo partNumber' }, 400);
+          const uploadUrl = await getSignedUrl(R2, new UploadPartCommand({
+            Bucket: BUCKET, Key: key, UploadId: uploadId, PartNumber: partNumber
+          }), { expiresIn: PRESIGN_EXPIRES });
+          return json({ uploadUrl });
+        }
 
-      await R2.send(new PutObjectCommand({
-        Bucket: BUCKET,
-        Key: key,
-        Body: buffer,
-        ContentType: contentType,
-        CacheControl: 'public, max-age=31536000',
-      }));
+        case 'multipart-complete': {
+          const { key, uploadId, parts } = body;
+          if (!isValidKey(key) || !uploadId || !Array.isArray(parts) || parts.length === 0) {
+            return json({ error: 'Chybí key, uploadId nebo parts' }, 400);
+          }
+          await R2.send(new CompleteMultipartUploadCommand({
+            Bucket: BUCKET,
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: {
+              Parts: parts
+                .map((p: { partNumber: number; etag: string }) => ({ PartNumber: p.partNumber, ETag: p.etag }))
+                .sort((a: { PartNumber: number }, b: { PartNumber: number }) => a.PartNumber - b.PartNumber)
+            }
+          }));
+          return json({ success: true, key, url: `${PUBLIC_URL}/${key}` });
+        }
 
-      const publicUrl = `${PUBLIC_URL}/${key}`;
+        // Zrušený nebo neúspěšný upload – R2 jinak nahrané části drží (a účtuje)
+        case 'multipart-abort': {
+          const { key, uploadId } = body;
+          if (!isValidKey(key) || !uploadId) return json({ error: 'Chybí key nebo uploadId' }, 400);
+          await R2.send(new AbortMultipartUploadCommand({ Bucket: BUCKET, Key: key, UploadId: uploadId }));
+          return json({ success: true });
+        }
 
-      return {
-        statusCode: 200,
-        headers,
-        body: JSON.stringify({ success: true, url: publicUrl, key }),
-      };
+        // Přesun = kopie pod nový klíč a smazání originálu (S3 nic jako rename nemá)
+        case 'move': {
+          const { fromKey, toKey } = body;
+          if (!isValidKey(fromKey) || !isValidKey(toKey)) return json({ error: 'Chybí nebo neplatný fromKey či toKey' }, 400);
+          await R2.send(new CopyObjectCommand({
+            Bucket: BUCKET, Key: toKey, CopySource: `${BUCKET}/${fromKey.split('/').map(encodeURIComponent).join('/')}`
+          }));
+          await R2.send(new DeleteObjectCommand({ Bucket: BUCKET, Key: fromKey }));
+          return json({ key: toKey, url: `${PUBLIC_URL}/${toKey}` });
+        }
+
+        default:
+          return json({ error: `Neznámá akce: ${body.action}` }, 400);
+      }
     } catch (err: any) {
       console.error('R2 upload error:', err);
       return { statusCode: 500, headers, body: JSON.stringify({ error: err.message }) };
@@ -0,0 +1,38 @@
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest, unauthorized } from '../lib/adminAuth';
+
+// Obnova ze zálohy (Systém → Správa dat). restore_backup smaže a znovu naplní všechny tabulky,
+// proto ji anon klíč volat nesmí (migrace 0017) – volá ji jen tato funkce se service role klíčem.
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+  auth: { persistSession: false }
+});
+
+export const handler: Handler = async (event) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Admin-Token',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) };
+  }
+  if (!isAdminRequest(event.headers)) return unauthorized(headers);
+
+  try {
+    const { payload } = JSON.parse(event.body || '{}');
+    if (!payload || typeof payload !== 'object') {
+      return { statusCode: 400, headers, body: JSON.stringify({ error: 'Chybí data zálohy' }) };
+    }
+    const { error } = await supabase.rpc('restore_backup', { payload });
+    if (error) return { statusCode: 500, headers, body: JSON.stringify({ error: error.message }) };
+    return { statusCode: 200, headers, body: JSON.stringify({ success: true }) };
+  } catch (err: any) {
+    console.error('Restore error:', err);
+    return { statusCode: 500, headers, body: JSON.stringify({ error: err.message }) };
+  }
+};
@@ -0,0 +1,22 @@
+import { timingSafeEqual } from 'crypto';
+
+// Přihlášení do administrace žije jen v prohlížeči, serverové funkce mu proto nevěří.
+// Citlivé akce (upload a mazání v R2, čisté verze obrázků, obnova ze zálohy) pustí jen s klíčem ADMIN_API_TOKEN z nastavení Netlify,
+// který admin zadá v Systém → Zabezpečení. Bez nastaveného klíče je všechno zamčené.
+
+export const ADMIN_TOKEN_HEADER = 'x-admin-token';
+
+export const isAdminRequest = (headers: Record<string, string | undefined>): boolean => {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const given = headers[ADMIN_TOKEN_HEADER];
+  if (!expected || !given) return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export const unauthorized = (headers: Record<string, string>) => ({
+  statusCode: 401,
+  headers,
+  body: JSON.stringify({ error: 'Chybí nebo nesedí serverový klíč administrace (Systém → Zabezpečení)' })
+});
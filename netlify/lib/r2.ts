@@ -0,0 +1,17 @@
+import { S3Client } from '@aws-sdk/client-s3';
+
+export const R2 = new S3Client({
+  region: 'auto',
+  endpoint: `https://5ccf085e7eefb5e7ac5645d5aebce37f.r2.cloudflarestorage.com`,
+  credentials: {
+    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
+  },
+  // Jinak SDK do podepsané URL vloží checksum prázdného těla a PUT z prohlížeče R2 odmítne
+  requestChecksumCalculation: 'WHEN_REQUIRED',
+});
+
+export const BUCKET = 'minka-creative';
+export const PUBLIC_URL = 'https://pub-904faae02f174edea92dc65656d7a3cb.r2.dev';
+// Čisté verze obrázků pod vodoznakem – bucket bez veřejného přístupu, čte se jen přes podepsané URL
+export const ORIGINALS_BUCKET = process.env.R2_ORIGINALS_BUCKET || 'minka-originals';
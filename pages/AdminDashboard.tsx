@@ -21,7 +21,10 @@ import {
   BookOpen,
   WifiOff,
   AlertTriangle,
-  Database
+  Database,
+  RefreshCw,
+  X,
+  Trash2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import FileManagerV2 from '../components/Admin/FileManagerV2';
@@ -32,16 +35,24 @@ import PartnerManager from '../components/Admin/PartnerManager';
 import InquiryManager from '../components/Admin/InquiryManager';
 import WebSettingsManager from '../components/Admin/WebSettingsManager';
 import SystemManager from '../components/Admin/SystemManager';
+import TrashManager from '../components/Admin/TrashManager';
 import { SPECIALIZATIONS } from '../constants';
-import { checkSupabaseConnection, getSupabaseLimitStatus } from '../lib/db';
+import { purgeExpiredTrash } from '../lib/trash';
+import { hasUnsavedChanges, UNSAVED_CHANGES_MESSAGE } from '../lib/drafts';
+import { SearchResult } from '../lib/search';
+import AdminSearch from '../components/Admin/AdminSearch';
+import { checkSupabaseConnection, getBackend, getSupabaseLimitStatus, getOutbox, getOutboxCounts, retryOutboxEntry, discardOutboxEntry, OUTBOX_EVENT, OutboxEntry } from '../lib/db';
 
 const AdminDashboard: React.FC = () => {
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'files' | 'projects' | 'blog' | 'settings' | 'reviews' | 'partners' | 'inquiries' | 'web-settings'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'files' | 'projects' | 'blog' | 'settings' | 'reviews' | 'partners' | 'inquiries' | 'web-settings' | 'trash'>('dashboard');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [stats, setStats] = useState<any>(null);
   const [isOnline, setIsOnline] = useState<boolean | null>(null);
   const [supabaseLimitReached, setSupabaseLimitReached] = useState(false);
+  const [outboxCounts, setOutboxCounts] = useState(getOutboxCounts());
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [showOutbox, setShowOutbox] = useState(false);
 
   useEffect(() => {
     const isAuth = localStorage.getItem('admin_auth');
@@ -59,17 +70,62 @@ const AdminDashboard: React.FC = () => {
       setSupabaseLimitReached(getSupabaseLimitStatus());
     };
 
+    const refreshOutbox = () => {
+      setOutboxCounts(getOutboxCounts());
+      setOutboxEntries(getOutbox());
+    };
+
+    // Dokud něco čeká ve frontě, zkoušíme spojení znovu – úspěšný check frontu dohraje
+    const retryConnection = () => {
+      if (getOutboxCounts().pending > 0) loadData();
+    };
+
+    // Nativní 'storage' chodí z ostatních záložek – statistiky i fronta změn
+    const onStorage = () => {
+      loadData();
+      refreshOutbox();
+    };
+
     loadData();
-    const interval = setInterval(() => setSupabaseLimitReached(getSupabaseLimitStatus()), 2000);
-    window.addEventListener('storage', loadData);
+    refreshOutbox();
+    purgeExpiredTrash()
+      .catch(err => console.warn('Trash cleanup failed:', err));
+    const reconnectInterval = setInterval(retryConnection, 30000);
+    window.addEventListener('storage', onStorage);
+    window.addEventListener('online', loadData);
+    window.addEventListener(OUTBOX_EVENT, refreshOutbox);
     return () => {
-      window.removeEventListener('storage', loadData);
-      clearInterval(interval);
+      window.removeEventListener('storage', onStorage);
+      window.removeEventListener('online', loadData);
+      window.removeEventListener(OUTBOX_EVENT, refreshOutbox);
+      clearInterval(reconnectInterval);
     };
   }, [navigate]);
 
+  const handleSyncNow = async () => {
+    setIsOnline(await checkSupabaseConnection());
+  };
+
+  const switchTab = (tab: typeof activeTab) => {
+    if (tab === activeTab) return;
+    if (hasUnsavedChanges() && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
+    setActiveTab(tab);
+  };
+
+  // Výsledek z hledání otevře příslušnou sekci a u zakázek/článků rovnou editor
+  const [openRecordId, setOpenRecordId] = useState<string | null>(null);
+
+  const openSearchResult = ({ doc }: SearchResult) => {
+    const tab = doc.kind === 'project' ? 'projects' : doc.kind === 'blog' ? 'blog' : 'web-settings';
+    if (tab !== activeTab && hasUnsavedChanges() && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
+    setActiveTab(tab);
+    setOpenRecordId(doc.kind === 'specialization' ? null : doc.id);
+  };
+
   const handleLogout = () => {
+    if (hasUnsavedChanges() && !confirm(UNSAVED_CHANGES_MESSAGE)) return;
     localStorage.removeItem('admin_auth');
+    localStorage.removeItem('admin_user');
     navigate('/');
   };
 
@@ -82,6 +138,7 @@ const AdminDashboard: React.FC = () => {
     { id: 'web-settings', label: 'Obsah webu', icon: Globe },
     { id: 'partners', label: 'Partneři', icon: Users },
     { id: 'reviews', label: 'Recenze', icon: Star },
+    { id: 'trash', label: 'Koš', icon: Trash2 },
     { id: 'settings', label: 'Systém', icon: Settings },
   ];
 
@@ -118,7 +175,7 @@ const AdminDashboard: React.FC = () => {
             {menuItems.map((item) => (
               <button
                 key={item.id}
-                onClick={() => setActiveTab(item.id as any)}
+                onClick={() => switchTab(item.id as any)}
                 className={`w-full flex items-center gap-4 p-4 rounded-sm transition-all group ${
                   activeTab === item.id 
                     ? 'bg-[#007BFF] text-white shadow-lg shadow-[#007BFF]/20' 
@@ -174,6 +231,9 @@ const AdminDashboard: React.FC = () => {
              <h1 className="text-xs font-black uppercase tracking-[0.4em] text-gray-400 ml-4">
                {menuItems.find(i => i.id === activeTab)?.label}
              </h1>
+             <div className="ml-6">
+               <AdminSearch onSelect={openSearchResult} />
+             </div>
           </div>
           <div className="flex items-center gap-8">
             <div className="flex items-center gap-4 px-4 py-2 bg-gray-50 rounded-full border border-gray-100">
@@ -182,6 +242,56 @@ const AdminDashboard: React.FC = () => {
                  {isOnline ? 'Cloud Synchronizován' : 'Lokální Režim'}
                </span>
             </div>
+            {(outboxCounts.pending > 0 || outboxCounts.failed > 0) && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowOutbox(!showOutbox)}
+                  className="flex items-center gap-3 px-4 py-2 bg-gray-50 rounded-full border border-gray-100 hover:border-[#007BFF] transition-all"
+                >
+                  {outboxCounts.pending > 0 && (
+                    <span className="text-[8px] font-black uppercase tracking-widest text-amber-600">Čeká: {outboxCounts.pending}</span>
+                  )}
+                  {outboxCounts.failed > 0 && (
+                    <span className="text-[8px] font-black uppercase tracking-widest text-red-600">Selhalo: {outboxCounts.failed}</span>
+                  )}
+                </button>
+                {showOutbox && (
+                  <div className="absolute right-0 top-full mt-3 w-[420px] bg-white border border-gray-100 shadow-2xl z-50">
+                    <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                      <span className="text-[10px] font-black uppercase tracking-widest">Neodeslané změny</span>
+                      <div className="flex items-center gap-2">
+                        <button onClick={handleSyncNow} className="p-2 text-gray-400 hover:text-[#007BFF]" title="Synchronizovat"><RefreshCw size={14} /></button>
+                        <button onClick={() => setShowOutbox(false)} className="p-2 text-gray-400 hover:text-black"><X size={14} /></button>
+                      </div>
+                    </div>
+                    <div className="max-h-80 overflow-y-auto divide-y divide-gray-50">
+                      {outboxEntries.map(entry => (
+                        <div key={entry.id} className="p-4 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-[9px] font-black uppercase tracking-widest text-gray-900">{entry.table} · {entry.op}</span>
+                            <span className={`text-[8px] font-black uppercase tracking-widest ${entry.status === 'pending' ? 'text-amber-600' : 'text-red-600'}`}>
+                              {entry.status === 'pending' ? 'Čeká' : entry.status === 'conflict' ? 'Konflikt' : 'Chyba'}
+                            </span>
+                          </div>
+                          <p className="text-[9px] text-gray-400 font-bold truncate">ID: {entry.recordId} · {new Date(entry.queuedAt).toLocaleString()}</p>
+                          {entry.error && <p className="text-[10px] text-red-500">{entry.error}</p>}
+                          {entry.status !== 'pending' && (
+                            <div className="flex gap-2 pt-1">
+                              <button onClick={() => retryOutboxEntry(entry.id)} className="text-[8px] font-black uppercase tracking-widest bg-[#007BFF] text-white px-3 py-1.5 hover:bg-black transition-all">
+                                {entry.status === 'conflict' ? 'Přepsat server' : 'Zkusit znovu'}
+                              </button>
+                              <button onClick={() => { if (confirm('Zahodit tuto lokální změnu?')) discardOutboxEntry(entry.id); }} className="text-[8px] font-black uppercase tracking-widest border border-gray-200 text-gray-500 px-3 py-1.5 hover:text-red-600 hover:border-red-600 transition-all">
+                                Zahodit
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
             <div className="flex items-center gap-3">
               <div className="w-9 h-9 bg-[#007BFF] rounded-full flex items-center justify-center text-white font-black text-xs shadow-md">JM</div>
               <div className="hidden lg:block text-left">
@@ -223,12 +333,13 @@ const AdminDashboard: React.FC = () => {
             <motion.div key={activeTab} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }}>
               {activeTab === 'files' && <FileManagerV2 />}
               {activeTab === 'reviews' && <ReviewManager />}
-              {activeTab === 'projects' && <ProjectManagerV2 />}
-              {activeTab === 'blog' && <BlogManagerV2 />}
+              {activeTab === 'projects' && <ProjectManagerV2 openRecordId={openRecordId} onRecordOpened={() => setOpenRecordId(null)} />}
+              {activeTab === 'blog' && <BlogManagerV2 openRecordId={openRecordId} onRecordOpened={() => setOpenRecordId(null)} />}
               {activeTab === 'partners' && <PartnerManager />}
               {activeTab === 'inquiries' && <InquiryManager />}
               {activeTab === 'web-settings' && <WebSettingsManager />}
               {activeTab === 'settings' && <SystemManager />}
+              {activeTab === 'trash' && <TrashManager />}
               
               {activeTab === 'dashboard' && (
                 <div className="space-y-10">
@@ -318,7 +429,9 @@ const AdminDashboard: React.FC = () => {
                           <div className="absolute top-0 right-0 w-32 h-32 bg-[#007BFF] opacity-20 blur-3xl"></div>
                           <h3 className="text-xs font-black uppercase tracking-widest text-[#007BFF]">Data & Synchro</h3>
                           <p className="text-sm font-medium leading-relaxed opacity-70">
-                            {isOnline ? 'Vaše data jsou bezpečně uložena v Supabase.' : 'Aplikace aktuálně ukládá data do LocalStorage vašeho prohlížeče. Pro trvalé uložení v cloudu nakonfigurujte Supabase.'}
+                            {!getBackend().remote
+                              ? `Vývojový režim: data běží na lokálním backendu (${getBackend().name}) se seed daty a neukládají se do cloudu.`
+                              : isOnline ? 'Vaše data jsou bezpečně uložena v Supabase.' : 'Aplikace aktuálně ukládá data do LocalStorage vašeho prohlížeče. Pro trvalé uložení v cloudu nakonfigurujte Supabase.'}
                           </p>
                           <button onClick={() => setActiveTab('settings')} className="text-[9px] font-black uppercase tracking-widest flex items-center gap-2 hover:text-[#007BFF] transition-colors">
                             {isOnline ? 'Export dat' : 'Nastavení připojení'} <ChevronRight size={14} />
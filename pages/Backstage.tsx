@@ -5,6 +5,8 @@ import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
 import { WebSettings, Project } from '../types';
 import { dataStore, projectDB } from '../lib/db';
+import { isPublished } from '../lib/publishing';
+import { projectPath } from '../lib/slugs';
 import { PROJECTS } from '../constants';
 
 const Backstage: React.FC = () => {
@@ -62,7 +64,7 @@ const Backstage: React.FC = () => {
       }
 
       const dbProjects = await projectDB.getAll();
-      if (dbProjects && dbProjects.length > 0) setProjects(dbProjects);
+      if (dbProjects && dbProjects.length > 0) setProjects(dbProjects.filter(p => isPublished(p)));
       else setProjects(PROJECTS);
     };
     load();
@@ -139,7 +141,7 @@ const Backstage: React.FC = () => {
 
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
             {projects.slice(0, 4).map((project) => (
-              <Link key={project.id} to={`/projekt/${project.id}`} className="group relative aspect-square overflow-hidden bg-black rounded-sm">
+              <Link key={project.id} to={projectPath(project)} className="group relative aspect-square overflow-hidden bg-black rounded-sm">
                 <img
                   src={project.thumbnailUrl}
                   alt={project.title}
@@ -5,6 +5,10 @@ import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Calendar, User, ArrowRight, Tag } from 'lucide-react';
 import { blogDB, dataStore } from '../lib/db';
+import { isPublished } from '../lib/publishing';
+import { blogPostPath } from '../lib/slugs';
+import { subscribeToTables } from '../lib/realtime';
+import ResponsiveImage from '../components/ResponsiveImage';
 
 const Blog: React.FC = () => {
   const [posts, setPosts] = useState<BlogPost[]>([]);
@@ -14,15 +18,14 @@ const Blog: React.FC = () => {
     document.title = "Blog | Jakub Minka - Fotograf a kameraman";
     const load = async () => {
       const savedPosts = await blogDB.getAll();
-      const sorted = [...savedPosts].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      const sorted = savedPosts.filter(p => isPublished(p)).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
       setPosts(sorted);
 
       const savedSettings = await dataStore.doc('web_settings').get();
       if (savedSettings && savedSettings.blogHeader) setHeaderBg(savedSettings.blogHeader);
     };
     load();
-    window.addEventListener('storage', load);
-    return () => window.removeEventListener('storage', load);
+    return subscribeToTables(['blog', 'web_settings'], () => load(), { remote: false });
   }, []);
 
   return (
@@ -30,7 +33,7 @@ const Blog: React.FC = () => {
       {/* Blog Header */}
       <div className="relative py-32 md:py-48 px-6 text-center overflow-hidden">
         <div className="absolute inset-0 bg-black/70 z-10"></div>
-        <img src={headerBg} className="absolute inset-0 w-full h-full object-cover grayscale opacity-40" alt="Blog Header" />
+        <ResponsiveImage src={headerBg} sizes="100vw" className="absolute inset-0 w-full h-full object-cover grayscale opacity-40" alt="Blog Header" />
         <div className="relative z-20">
           <span className="text-[#007BFF] font-black text-[10px] uppercase tracking-[0.8em] block mb-6 drop-shadow-lg">Pohled za oponu</span>
           <h1 className="text-6xl md:text-[90px] font-black tracking-tighter leading-none mb-10 uppercase text-white drop-shadow-2xl">BLOG</h1>
@@ -48,9 +51,11 @@ const Blog: React.FC = () => {
                 transition={{ delay: idx * 0.1 }}
                 className="group flex flex-col space-y-6"
               >
-                <Link to={`/blog/${post.id}`} className="block aspect-[16/10] overflow-hidden bg-gray-100 relative">
-                  <img 
+                <Link to={blogPostPath(post)} className="block aspect-[16/10] overflow-hidden bg-gray-100 relative">
+                  <ResponsiveImage 
                     src={post.coverImage} 
+                    sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                    loading="lazy" 
                     alt={post.title} 
                     className="w-full h-full object-cover grayscale group-hover:grayscale-0 group-hover:scale-105 transition-all duration-700" 
                   />
@@ -67,7 +72,7 @@ const Blog: React.FC = () => {
                     <span className="flex items-center gap-2"><User size={12} /> {post.author}</span>
                   </div>
                   
-                  <Link to={`/blog/${post.id}`}>
+                  <Link to={blogPostPath(post)}>
                     <h2 className="text-2xl font-black uppercase tracking-tighter group-hover:text-[#007BFF] transition-colors leading-tight">
                       {post.title}
                     </h2>
@@ -77,7 +82,7 @@ const Blog: React.FC = () => {
                     {post.excerpt}
                   </p>
                   
-                  <Link to={`/blog/${post.id}`} className="inline-flex items-center gap-3 text-[#007BFF] text-[10px] font-black uppercase tracking-widest group-hover:gap-5 transition-all">
+                  <Link to={blogPostPath(post)} className="inline-flex items-center gap-3 text-[#007BFF] text-[10px] font-black uppercase tracking-widest group-hover:gap-5 transition-all">
                     Číst článek <ArrowRight size={14} />
                   </Link>
                 </div>
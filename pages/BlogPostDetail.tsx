@@ -2,13 +2,16 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { BlogPost } from '../types';
-import { motion } from 'framer-motion';
 import { Calendar, User, ArrowLeft, Clock } from 'lucide-react';
 import { blogDB } from '../lib/db';
+import { isPublished } from '../lib/publishing';
+import { blogPostPath, resolveSlug } from '../lib/slugs';
 import SEO from '../components/SEO';
+import ResponsiveImage, { useImageIndex } from '../components/ResponsiveImage';
+import { addSrcSetToHtml, imageUrlsInHtml } from '../lib/imageVariants';
 
 const BlogPostDetail: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+  const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
   const [post, setPost] = useState<BlogPost | null>(null);
 
@@ -16,7 +19,12 @@ const BlogPostDetail: React.FC = () => {
     window.scrollTo(0, 0);
     const load = async () => {
       const posts = await blogDB.getAll();
-      const found = posts.find((p: BlogPost) => p.id === id);
+      const resolved = resolveSlug(posts.filter((p: BlogPost) => isPublished(p)), slug);
+      if (resolved?.redirect) {
+        navigate(blogPostPath(resolved.item), { replace: true });
+        return;
+      }
+      const found = resolved?.item;
       if (found) {
         setPost(found);
         document.title = `${found.title} | Blog Jakub Minka`;
@@ -25,10 +33,10 @@ const BlogPostDetail: React.FC = () => {
       }
     };
     load();
-  }, [id, navigate]);
+  }, [slug, navigate]);
 
   // Process content to convert standalone image URLs to img tags
-  const processedContent = useMemo(() => {
+  const contentHtml = useMemo(() => {
     if (!post?.content) return '';
     
     let content = post.content;
@@ -61,6 +69,13 @@ const BlogPostDetail: React.FC = () => {
     return processed.join('');
   }, [post?.content]);
 
+  const variantIndex = useImageIndex(useMemo(() => imageUrlsInHtml(contentHtml), [contentHtml]));
+  // Obrázky v textu jsou nejvýš max-w-3xl (768 px)
+  const processedContent = useMemo(
+    () => addSrcSetToHtml(contentHtml, variantIndex, '(min-width: 768px) 768px, 100vw'),
+    [contentHtml, variantIndex]
+  );
+
   if (!post) return null;
 
   return (
@@ -71,15 +86,17 @@ const BlogPostDetail: React.FC = () => {
         keywords={post.seoKeywords || post.tags.join(', ')}
         ogImage={post.coverImage}
         ogType="article"
+        canonical={`${window.location.origin}/#${blogPostPath(post)}`}
       />
       {/* Post Hero */}
       <div className="relative h-[70vh] flex items-center justify-center overflow-hidden bg-black">
         <div className="absolute inset-0 bg-black/60 z-10"></div>
-        <motion.img 
+        <ResponsiveImage 
           initial={{ scale: 1.1 }}
           animate={{ scale: 1 }}
           transition={{ duration: 1.5 }}
           src={post.coverImage} 
+          sizes="100vw" 
           className="absolute inset-0 w-full h-full object-cover opacity-50 grayscale-[0.5]" 
           alt={post.title} 
         />
@@ -7,9 +7,9 @@ import {
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Link } from 'react-router-dom';
-import { WebSettings } from '../types';
+import { Inquiry, WebSettings } from '../types';
 import HumanVerificationModal from '../components/HumanVerificationModal';
-import { dataStore } from '../lib/db';
+import { dataStore, inquiryDB } from '../lib/db';
 
 const Contact: React.FC = () => {
   const [formState, setFormState] = useState<'idle' | 'loading' | 'success'>('idle');
@@ -77,23 +77,24 @@ const Contact: React.FC = () => {
     setFormState('loading');
     setTimeout(async () => {
       try {
-        const newInquiry = { 
+        const newInquiry: Inquiry = { 
           id: Math.random().toString(36).substr(2, 9), 
           name: formData.name,
           email: formData.email,
-          message: `${formData.subject}\n\n${formData.message}`,
+          subject: formData.subject,
+          message: formData.message,
           date: new Date().toISOString(), 
           status: 'new' 
         };
         console.log('Sending inquiry:', newInquiry);
-        const result = await dataStore.collection('inquiries').save(newInquiry);
+        const result = await inquiryDB.save(newInquiry, { queue: false });
         console.log('Save result:', result);
         setFormState('success');
         setFormData({ name: '', email: '', subject: '', message: '' });
         setTimeout(() => setFormState('idle'), 5000);
       } catch (error) {
         console.error('Error sending inquiry:', error);
-        alert('Chyba: ' + (error instanceof Error ? error.message : 'Neznámá chyba'));
+        alert('Zprávu se nepodařilo odeslat. Zkuste to prosím znovu, nebo napište přímo e-mailem.');
         setFormState('idle');
       }
     }, 1500);
@@ -2,17 +2,22 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { ArrowLeft, ArrowRight, Wallet, Zap, Info, ArrowUpRight, MessageSquare, ExternalLink, Star, Quote } from 'lucide-react';
 import { PROJECTS as DEFAULT_PROJECTS, SPECIALIZATIONS } from '../constants';
-import { Project, WebSettings, Review } from '../types';
+import { Project, WebSettings, Review, Partner } from '../types';
 import { Link } from 'react-router-dom';
 import MasonryGrid from '../components/MasonryGrid';
 import { motion, AnimatePresence, useMotionValue, useSpring } from 'framer-motion';
-import { dataStore, projectDB } from '../lib/db';
+import { dataStore, projectDB, partnerDB, reviewDB } from '../lib/db';
+import { isPublished } from '../lib/publishing';
+import { projectPath } from '../lib/slugs';
+import { subscribeToTables } from '../lib/realtime';
 import SEO from '../components/SEO';
+import ResponsiveImage from '../components/ResponsiveImage';
+import LazyVideo from '../components/LazyVideo';
 
 const Home: React.FC = () => {
   const [currentSlide, setCurrentSlide] = useState(0);
   const [projects, setProjects] = useState<Project[]>([]);
-  const [partners, setPartners] = useState<{id: string, name: string}[]>([]);
+  const [partners, setPartners] = useState<Partner[]>([]);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [shuffledReviews, setShuffledReviews] = useState<Review[]>([]);
   const [currentReviewIndex, setCurrentReviewIndex] = useState(0);
@@ -47,22 +52,12 @@ const Home: React.FC = () => {
   const cursorX = useSpring(mouseX, { damping: 30, stiffness: 250 });
   const cursorY = useSpring(mouseY, { damping: 30, stiffness: 250 });
 
-  const mapReviewFromDb = (item: any): Review => {
-    return {
-      id: item.id,
-      author: item.author || 'Anonymní klient',
-      text: item.text || item.content || '',
-      rating: typeof item.rating === 'number' ? item.rating : 5,
-      platform: item.platform || item.company || 'manual',
-      date: item.date || '',
-      companyUrl: item.company_url || item.companyUrl || ''
-    } as Review;
-  };
-
   useEffect(() => {
     const load = async () => {
-      const savedProjects = await projectDB.getAll();
-      if (savedProjects.length > 0) {
+      const allProjects = await projectDB.getAll();
+      const savedProjects = allProjects.filter(p => isPublished(p));
+      // Ukázkové projekty jen u prázdné databáze, ne když je všechno v konceptech
+      if (allProjects.length > 0) {
         setProjects(savedProjects);
         
         // Generate random portfolio selection (once on load)
@@ -98,18 +93,16 @@ const Home: React.FC = () => {
       const savedSettings = await dataStore.doc('web_settings').get();
       if (savedSettings) setSettings(prev => ({ ...prev, ...savedSettings }));
 
-      const savedPartners = await dataStore.collection('partners').getAll();
+      const savedPartners = await partnerDB.getAll();
       if (savedPartners) setPartners(savedPartners);
 
       // Load reviews with force refresh to ensure we get latest from DB
-      const savedReviews = await dataStore.collection('reviews').getAll({ force: true });
+      const savedReviews = await reviewDB.getAll({ force: true });
       if (savedReviews && savedReviews.length > 0) {
-        // Map from DB format (content/company) to UI format (text/platform)
         console.log('📖 Loaded reviews:', savedReviews.length);
-        const mappedReviews = savedReviews.map(mapReviewFromDb);
-        setReviews(mappedReviews);
+        setReviews(savedReviews);
         // Shuffle reviews once on load
-        setShuffledReviews([...mappedReviews].sort(() => Math.random() - 0.5));
+        setShuffledReviews([...savedReviews].sort(() => Math.random() - 0.5));
       } else {
         // Žádné recenze
         console.log('⚠️ No reviews found');
@@ -120,8 +113,7 @@ const Home: React.FC = () => {
       setIsDataLoaded(true);
     };
     load();
-    window.addEventListener('storage', load);
-    return () => window.removeEventListener('storage', load);
+    return subscribeToTables(['projects', 'web_settings', 'partners', 'reviews'], () => load(), { remote: false });
   }, []);
 
   // Reset review index pokud je mimo rozsah
@@ -232,12 +224,8 @@ const Home: React.FC = () => {
               <div key={`bg-${project.id}`} className={`absolute inset-0 h-full w-full transition-opacity duration-[1500ms] ease-in-out ${idx === currentSlide ? 'opacity-100' : 'opacity-0'}`}>
                 <div className="absolute inset-0 bg-gradient-to-b from-black/40 to-black/60 z-10"></div>
                 {media?.type === 'video' ? (
-                  <video
+                  <LazyVideo
                     src={media.url}
-                    autoPlay
-                    muted
-                    loop
-                    playsInline
                     className="absolute inset-0 w-full h-full object-cover"
                   />
                 ) : media?.type === 'youtube' ? (
@@ -260,14 +248,14 @@ const Home: React.FC = () => {
                     <div className="absolute inset-0" style={{ pointerEvents: 'auto' }}></div>
                   </div>
                 ) : (
-                  <img src={media?.url || project.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                  <ResponsiveImage src={media?.url || project.thumbnailUrl} sizes="100vw" alt="" className="w-full h-full object-cover" />
                 )}
               </div>
             );
           }) : (
             <div className="absolute inset-0 h-full w-full">
               <div className="absolute inset-0 bg-black/50 z-10"></div>
-              <img src={settings.homeHeader || 'https://images.unsplash.com/photo-1492724441997-5dc865305da7?auto=format&fit=crop&q=80&w=2000'} className="w-full h-full object-cover" />
+              <ResponsiveImage src={settings.homeHeader || 'https://images.unsplash.com/photo-1492724441997-5dc865305da7?auto=format&fit=crop&q=80&w=2000'} sizes="100vw" className="w-full h-full object-cover" />
             </div>
           )}
         </div>
@@ -281,7 +269,7 @@ const Home: React.FC = () => {
               <h1 className="text-4xl md:text-8xl lg:text-[140px] font-black mb-14 tracking-tighter leading-[0.8] uppercase drop-shadow-2xl max-w-7xl">
                 {activeProject?.title || settings.homeHeroTitle}
               </h1>
-              <Link to={activeProject ? `/projekt/${activeProject.id}` : '/portfolio'} className="pointer-events-auto border-2 border-[#007BFF] px-14 py-5 text-[11px] font-black uppercase tracking-[0.6em] hover:bg-white hover:text-black transition-all bg-[#007BFF]/20 backdrop-blur-md">
+              <Link to={activeProject ? projectPath(activeProject) : '/portfolio'} className="pointer-events-auto border-2 border-[#007BFF] px-14 py-5 text-[11px] font-black uppercase tracking-[0.6em] hover:bg-white hover:text-black transition-all bg-[#007BFF]/20 backdrop-blur-md">
                 {activeProject ? 'DETAIL' : 'VSTOUPIT'}
               </Link>
             </motion.div>
@@ -304,7 +292,7 @@ const Home: React.FC = () => {
         <div className="max-w-7xl mx-auto px-6 grid grid-cols-1 lg:grid-cols-2 gap-24 items-center">
           <div className="relative group">
             <div className="absolute -top-6 -left-6 w-32 h-32 border-l-4 border-t-4 border-[#007BFF] -z-10 group-hover:scale-110 transition-transform"></div>
-            <img src={settings.profilePic} className="w-full aspect-[4/5] object-cover grayscale hover:grayscale-0 transition-all duration-1000 shadow-2xl" alt="Jakub Minka" />
+            <ResponsiveImage src={settings.profilePic} sizes="(min-width: 1024px) 40vw, 100vw" className="w-full aspect-[4/5] object-cover grayscale hover:grayscale-0 transition-all duration-1000 shadow-2xl" alt="Jakub Minka" />
             <div className="absolute -bottom-8 -right-8 bg-white border border-gray-100 shadow-2xl p-10 hidden md:block">
               <p className="text-4xl font-black tracking-tighter uppercase leading-none text-black">PROFI</p>
               <p className="text-[10px] font-black uppercase tracking-widest text-[#007BFF] mt-2">PŘÍSTUP K TVORBĚ</p>
@@ -360,7 +348,7 @@ const Home: React.FC = () => {
         <div className="max-w-full grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 bg-black">
            {SPECIALIZATIONS.map(spec => (
              <Link key={spec.id} to={spec.externalUrl ? '#' : `/specializace/${spec.id}`} onClick={e => spec.externalUrl && window.open(spec.externalUrl, '_blank')} className="group relative aspect-square overflow-hidden border border-white/5">
-                <img src={settings.specializationHeaders?.[spec.id] || specCovers.get(spec.id) || spec.image} className="w-full h-full object-cover opacity-40 grayscale group-hover:scale-110 group-hover:opacity-60 group-hover:grayscale-0 transition-all duration-1000" />
+                <ResponsiveImage src={settings.specializationHeaders?.[spec.id] || specCovers.get(spec.id) || spec.image} sizes="(min-width: 1024px) 20vw, (min-width: 640px) 50vw, 100vw" loading="lazy" placeholder className="w-full h-full object-cover opacity-40 grayscale group-hover:scale-110 group-hover:opacity-60 group-hover:grayscale-0 transition-all duration-1000" />
                 <div className="absolute inset-0 bg-gradient-to-t from-black via-black/20 to-transparent z-10"></div>
                 <div className="absolute inset-0 p-8 flex flex-col justify-end z-20">
                    <h4 className="text-xl md:text-2xl font-black text-white uppercase tracking-tighter group-hover:text-[#007BFF] transition-colors leading-tight">{spec.name}</h4>
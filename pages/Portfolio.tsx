@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { PROJECTS as DEFAULT_PROJECTS, SPECIALIZATIONS } from '../constants';
 import { Project, MediaType } from '../types';
@@ -24,26 +24,65 @@ import {
   Navigation 
 } from 'lucide-react';
 
+const PAGE_SIZE = 12;
+
 const Portfolio: React.FC = () => {
   const [searchParams] = useSearchParams();
   const specParam = searchParams.get('spec');
   
   const [activeFilter, setActiveFilter] = useState(specParam || 'all');
   const [activeMediaType, setActiveMediaType] = useState<MediaType | 'all'>('all');
-  const [projects, setProjects] = useState<Project[]>(DEFAULT_PROJECTS);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Prázdná databáze = ukázkové zakázky z constants, filtrované lokálně
+  const [useDefaults, setUseDefaults] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const [headerBg, setHeaderBg] = useState('https://images.unsplash.com/photo-1492724441997-5dc865305da7?auto=format&fit=crop&q=80&w=2000');
 
+  const queryFilters = () => ({
+    categoryId: activeFilter === 'all' ? undefined : activeFilter,
+    type: activeMediaType === 'all' ? undefined : activeMediaType
+  });
+
+  useEffect(() => {
+    projectDB.query({ limit: 1 }).then(page => setUseDefaults(page.items.length === 0));
+  }, []);
+
+  useEffect(() => {
+    if (useDefaults) return;
+    let cancelled = false;
+    setIsLoading(true);
+    projectDB.query({ filters: queryFilters(), limit: PAGE_SIZE, published: true }).then(page => {
+      if (cancelled) return;
+      setProjects(page.items);
+      setNextCursor(page.nextCursor);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [activeFilter, activeMediaType, useDefaults]);
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoading) return;
+    setIsLoading(true);
+    const page = await projectDB.query({ filters: queryFilters(), limit: PAGE_SIZE, cursor: nextCursor, published: true });
+    setProjects(prev => [...prev, ...page.items.filter(p => !prev.some(existing => existing.id === p.id))]);
+    setNextCursor(page.nextCursor);
+    setIsLoading(false);
+  };
+
+  // Další stránka se načte, jakmile uživatel doroluje ke konci mřížky
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '600px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoading]);
+
   useEffect(() => {
-    const load = async () => {
-      const dbProjects = await projectDB.getAll();
-      if (dbProjects && dbProjects.length > 0) {
-        setProjects(dbProjects);
-      } else {
-        setProjects(DEFAULT_PROJECTS);
-      }
-    };
-    load();
-    
     const savedSettings = localStorage.getItem('jakub_minka_web_settings');
     if (savedSettings) {
       const settings = JSON.parse(savedSettings);
@@ -71,11 +110,13 @@ const Portfolio: React.FC = () => {
     'drony': <Navigation size={18} />
   };
 
-  const filteredProjects = projects.filter(p => {
-    const specMatch = activeFilter === 'all' || p.categoryId === activeFilter;
-    const mediaMatch = activeMediaType === 'all' || p.type === activeMediaType;
-    return specMatch && mediaMatch;
-  });
+  const filteredProjects = useDefaults
+    ? DEFAULT_PROJECTS.filter(p => {
+        const specMatch = activeFilter === 'all' || p.categoryId === activeFilter;
+        const mediaMatch = activeMediaType === 'all' || p.type === activeMediaType;
+        return specMatch && mediaMatch;
+      })
+    : projects;
 
   return (
     <div className="min-h-screen bg-white">
@@ -148,9 +189,13 @@ const Portfolio: React.FC = () => {
 
         <div className="w-full">
           <MasonryGrid projects={filteredProjects} showSpecialization={true} />
+          <div ref={sentinelRef} className="h-px" />
+          {!useDefaults && isLoading && projects.length > 0 && (
+            <div className="py-16 text-center text-[9px] font-black uppercase tracking-[0.3em] text-gray-300">Načítám další zakázky…</div>
+          )}
         </div>
         
-        {filteredProjects.length === 0 && (
+        {filteredProjects.length === 0 && !(isLoading && !useDefaults) && (
           <div className="py-40 text-center text-gray-300">
             <p className="text-2xl font-black uppercase tracking-widest italic opacity-20">Žádné zakázky neodpovídají filtrům.</p>
           </div>
@@ -4,6 +4,10 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { Project, MediaType, GalleryItem } from '../types';
 import { PROJECTS as DEFAULT_PROJECTS } from '../constants';
 import { projectDB } from '../lib/db';
+import { isPublished } from '../lib/publishing';
+import { projectPath, resolveSlug } from '../lib/slugs';
+import ResponsiveImage from '../components/ResponsiveImage';
+import LazyVideo from '../components/LazyVideo';
 import { 
   ArrowLeft, ChevronRight, ChevronLeft, Play, PackageCheck, X, Maximize2, Camera, Layers, ExternalLink
 } from 'lucide-react';
@@ -22,7 +26,7 @@ const getYouTubeEmbedUrl = (url: string): string => {
 };
 
 const ProjectDetail: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+  const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
   const [project, setProject] = useState<Project | null>(null);
   const [activeLightboxIndex, setActiveLightboxIndex] = useState<number | null>(null);
@@ -32,8 +36,14 @@ const ProjectDetail: React.FC = () => {
     window.scrollTo(0, 0);
     const load = async () => {
       const dbProjects = await projectDB.getAll();
-      const allProjects = dbProjects && dbProjects.length > 0 ? dbProjects : DEFAULT_PROJECTS;
-      const found = allProjects.find(p => p.id === id);
+      const allProjects = dbProjects && dbProjects.length > 0 ? dbProjects.filter(p => isPublished(p)) : DEFAULT_PROJECTS;
+      const resolved = resolveSlug(allProjects, slug);
+      if (resolved?.redirect) {
+        // Staré id nebo dřívější slug – trvale na aktuální adresu
+        navigate(projectPath(resolved.item), { replace: true });
+        return;
+      }
+      const found = resolved?.item;
       if (found) {
         setProject(found);
         document.title = `${found.title} | Jakub Minka`;
@@ -42,7 +52,7 @@ const ProjectDetail: React.FC = () => {
       }
     };
     load();
-  }, [id, navigate]);
+  }, [slug, navigate]);
 
   // Keyboard navigation in lightbox
   useEffect(() => {
@@ -119,12 +129,9 @@ const ProjectDetail: React.FC = () => {
         
         {/* Video Header when any video exists */}
         {headerVideoItem && headerVideoItem.source !== 'youtube' ? (
-          <video
+          <LazyVideo
             src={headerVideoItem.url}
-            autoPlay
-            loop
-            muted
-            playsInline
+            poster={headerVideoItem.poster}
             className="absolute inset-0 w-full h-full object-cover opacity-60"
             style={{ pointerEvents: 'none' }}
           />
@@ -149,11 +156,12 @@ const ProjectDetail: React.FC = () => {
             <div className="absolute inset-0 z-10" style={{ pointerEvents: 'auto' }}></div>
           </div>
         ) : (
-          <motion.img 
+          <ResponsiveImage 
             initial={{ scale: 1.1, opacity: 0 }} 
             animate={{ scale: 1, opacity: 0.8 }} 
             transition={{ duration: 1.5 }} 
             src={headerImage || project.thumbnailUrl} 
+            sizes="100vw" 
             className="absolute inset-0 w-full h-full object-cover" 
           />
         )}
@@ -231,11 +239,11 @@ const ProjectDetail: React.FC = () => {
                 title="Video"
               />
             ) : (
-              <video
+              <LazyVideo
                 src={singleVideoMode.url}
+                poster={singleVideoMode.poster}
                 controls
                 className="w-full h-full"
-                autoPlay
               />
             )}
           </div>
@@ -255,13 +263,10 @@ const ProjectDetail: React.FC = () => {
               >
                 {item.type === 'video' && item.source !== 'youtube' ? (
                   <>
-                    <video 
-                      src={item.url} 
-                      className="w-full h-full object-cover group-hover:scale-105 transition-all duration-[2s]" 
-                      autoPlay 
-                      muted 
-                      loop 
-                      playsInline
+                    <LazyVideo
+                      src={item.url}
+                      poster={item.poster}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-all duration-[2s]"
                     />
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                       <div className="w-20 h-20 bg-[#007BFF]/90 backdrop-blur-xl rounded-full flex items-center justify-center text-white shadow-2xl transition-all group-hover:scale-110">
@@ -284,7 +289,7 @@ const ProjectDetail: React.FC = () => {
                   </>
                 ) : (
                   <>
-                    <img src={item.url} className="w-full h-full object-cover group-hover:scale-105 transition-all duration-[2s]" alt="" />
+                    <ResponsiveImage src={item.url} sizes="(min-width: 768px) 50vw, 100vw" loading="lazy" placeholder={item} className="w-full h-full object-cover group-hover:scale-105 transition-all duration-[2s]" alt="" />
                   </>
                 )}
               </div>
@@ -344,10 +349,10 @@ const ProjectDetail: React.FC = () => {
                      />
                    </div>
                  ) : (
-                   <video src={project.gallery[activeLightboxIndex].url} autoPlay controls className="max-w-full max-h-[90vh] object-contain shadow-2xl" />
+                   <LazyVideo src={project.gallery[activeLightboxIndex].url} poster={project.gallery[activeLightboxIndex].poster} autoPlay controls className="max-w-full max-h-[90vh] object-contain shadow-2xl" />
                  )
                ) : (
-                 <img src={project.gallery[activeLightboxIndex].url} className="max-w-full max-h-[90vh] object-contain shadow-2xl" alt="" />
+                 <ResponsiveImage key={project.gallery[activeLightboxIndex].id} src={project.gallery[activeLightboxIndex].url} sizes="100vw" placeholder={project.gallery[activeLightboxIndex]} className="max-w-full max-h-[90vh] object-contain shadow-2xl" alt="" />
                )}
             </div>
           </motion.div>
@@ -6,6 +6,7 @@ import { CheckCircle2, ArrowRight, ChevronDown } from 'lucide-react';
 import MasonryGrid from '../components/MasonryGrid';
 import { motion } from 'framer-motion';
 import { dataStore, projectDB } from '../lib/db';
+import { isPublished } from '../lib/publishing';
 import { WebSettings } from '../types';
 import SEO from '../components/SEO';
 
@@ -28,7 +29,7 @@ const SpecializationDetail: React.FC = () => {
     
     const load = async () => {
       const savedProjects = await projectDB.getAll();
-      if (savedProjects.length > 0) setProjects(savedProjects);
+      if (savedProjects.length > 0) setProjects(savedProjects.filter(p => isPublished(p)));
 
       const savedSettings: WebSettings = await dataStore.doc('web_settings').get();
       if (savedSettings && spec) {
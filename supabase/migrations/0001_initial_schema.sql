@@ -1,4 +1,15 @@
--- Create tables for all collections used in the app
+-- 0001: výchozí tabulky, RLS a politiky
+-- Každá migrace se na konci zapíše do schema_migrations; spouštějte je postupně podle čísla.
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable public read access for schema_migrations" ON schema_migrations;
+CREATE POLICY "Enable public read access for schema_migrations" ON schema_migrations FOR SELECT USING (true);
 
 -- Blog posts table
 CREATE TABLE IF NOT EXISTS blog (
@@ -176,3 +187,5 @@ ON media_meta
 FOR INSERT
 TO authenticated
 WITH CHECK (auth.role() = 'authenticated');
+
+INSERT INTO schema_migrations (version, name) VALUES (1, 'initial_schema') ON CONFLICT (version) DO NOTHING;
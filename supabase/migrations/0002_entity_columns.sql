@@ -0,0 +1,18 @@
+-- 0002: sloupce, které mapuje lib/schema.ts a starší tabulky je nemají
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS weight NUMERIC;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS website_url TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS website_label TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS youtube_cover_url TEXT;
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS seo_title TEXT;
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS seo_description TEXT;
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS seo_keywords TEXT;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS company_url TEXT;
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS subject TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS alt TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS media_type TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS seo_title TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS dimensions TEXT;
+
+INSERT INTO schema_migrations (version, name) VALUES (2, 'entity_columns') ON CONFLICT (version) DO NOTHING;
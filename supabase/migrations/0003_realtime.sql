@@ -0,0 +1,15 @@
+-- 0003: realtime – admin odebírá změny těchto tabulek
+
+DO $$
+DECLARE t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['projects', 'blog', 'media_meta', 'inquiries', 'reviews'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', t);
+    END IF;
+  END LOOP;
+END $$;
+
+INSERT INTO schema_migrations (version, name) VALUES (3, 'realtime') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,29 @@
+-- 0004: web_settings jako JSON dokument
+-- WebSettings v types.ts má desítky polí (homeHeroTitle, price1Title, …), které se do pevných
+-- sloupců hero_title/hide_blog nikdy nevešly. Celé nastavení se ukládá do sloupce `data`.
+
+ALTER TABLE web_settings ADD COLUMN IF NOT EXISTS data JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Převod starých řádků: co bylo v pevných sloupcích, přejde pod klíče, které používá aplikace
+UPDATE web_settings SET data = jsonb_strip_nulls(jsonb_build_object(
+  'homeHeroTitle', hero_title,
+  'homeHeroSubtitle', hero_subtitle,
+  'homeAboutText', about_text,
+  'email', contact_email,
+  'phone', phone
+)) || data
+WHERE hero_title IS NOT NULL OR hero_subtitle IS NOT NULL OR about_text IS NOT NULL
+   OR contact_email IS NOT NULL OR phone IS NOT NULL;
+
+ALTER TABLE web_settings
+  DROP COLUMN IF EXISTS hero_title,
+  DROP COLUMN IF EXISTS hero_subtitle,
+  DROP COLUMN IF EXISTS about_text,
+  DROP COLUMN IF EXISTS contact_email,
+  DROP COLUMN IF EXISTS phone,
+  DROP COLUMN IF EXISTS social_links,
+  DROP COLUMN IF EXISTS sidebar_tagline,
+  DROP COLUMN IF EXISTS hide_portfolio,
+  DROP COLUMN IF EXISTS hide_blog;
+
+INSERT INTO schema_migrations (version, name) VALUES (4, 'web_settings_document') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,19 @@
+-- 0005: čtení sloupců pro kontrolu schématu v administraci (Systém → Schéma databáze)
+-- information_schema přes PostgREST vidět není, proto funkce se SECURITY DEFINER.
+
+CREATE OR REPLACE FUNCTION schema_columns()
+RETURNS TABLE (table_name TEXT, column_name TEXT, data_type TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.table_name::TEXT, c.column_name::TEXT, c.data_type::TEXT
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+  ORDER BY c.table_name, c.ordinal_position;
+$$;
+
+GRANT EXECUTE ON FUNCTION schema_columns() TO anon, authenticated;
+
+INSERT INTO schema_migrations (version, name) VALUES (5, 'schema_introspection') ON CONFLICT (version) DO NOTHING;
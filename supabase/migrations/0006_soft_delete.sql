@@ -0,0 +1,19 @@
+-- 0006: koš – smazané zakázky, články a soubory dostanou jen časové razítko
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS projects_deleted_at_idx ON projects (deleted_at);
+CREATE INDEX IF NOT EXISTS blog_deleted_at_idx ON blog (deleted_at);
+CREATE INDEX IF NOT EXISTS media_meta_deleted_at_idx ON media_meta (deleted_at);
+
+-- Trvalé smazání z koše
+DROP POLICY IF EXISTS "Enable public delete for projects" ON projects;
+DROP POLICY IF EXISTS "Enable public delete for blog" ON blog;
+DROP POLICY IF EXISTS "public delete" ON media_meta;
+CREATE POLICY "Enable public delete for projects" ON projects FOR DELETE USING (true);
+CREATE POLICY "Enable public delete for blog" ON blog FOR DELETE USING (true);
+CREATE POLICY "public delete" ON media_meta FOR DELETE TO public USING (true);
+
+INSERT INTO schema_migrations (version, name) VALUES (6, 'soft_delete') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,24 @@
+-- 0007: historie změn – každé uložení zakázky, článku nebo nastavení webu přidá snímek
+
+CREATE TABLE IF NOT EXISTS revisions (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  snapshot JSONB NOT NULL,
+  author TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS revisions_record_idx ON revisions (table_name, record_id, created_at DESC);
+
+ALTER TABLE revisions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable public read access for revisions" ON revisions;
+DROP POLICY IF EXISTS "Enable public insert for revisions" ON revisions;
+DROP POLICY IF EXISTS "Enable public update for revisions" ON revisions;
+CREATE POLICY "Enable public read access for revisions" ON revisions FOR SELECT USING (true);
+CREATE POLICY "Enable public insert for revisions" ON revisions FOR INSERT WITH CHECK (true);
+-- upsert z outboxu
+CREATE POLICY "Enable public update for revisions" ON revisions FOR UPDATE USING (true);
+
+INSERT INTO schema_migrations (version, name) VALUES (7, 'revisions') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,27 @@
+-- 0008: obnova ze zálohy (Systém → Správa dat). Celá obnova běží v jedné transakci funkce –
+-- při chybě v kterékoli tabulce se nezmění nic. Obsah každé tabulky ze zálohy nahradí současný.
+
+CREATE OR REPLACE FUNCTION restore_backup(payload JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tbl TEXT;
+  allowed TEXT[] := ARRAY['projects', 'blog', 'inquiries', 'reviews', 'partners', 'web_settings', 'media_meta'];
+BEGIN
+  FOR tbl IN SELECT jsonb_object_keys(payload) LOOP
+    IF NOT tbl = ANY(allowed) THEN
+      RAISE EXCEPTION 'Tabulku % nelze obnovit ze zálohy', tbl;
+    END IF;
+    EXECUTE format('DELETE FROM %I WHERE true', tbl);
+    EXECUTE format('INSERT INTO %I SELECT * FROM jsonb_populate_recordset(NULL::%I, $1)', tbl, tbl)
+      USING payload -> tbl;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_backup(JSONB) TO anon, authenticated;
+
+INSERT INTO schema_migrations (version, name) VALUES (8, 'restore_backup') ON CONFLICT (version) DO NOTHING;
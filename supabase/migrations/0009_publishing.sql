@@ -0,0 +1,20 @@
+-- 0009: stav zveřejnění zakázek a článků (koncept / naplánováno / publikováno / archiv)
+-- Stávající obsah zůstává publikovaný; NULL ve stavu se čte jako 'published' (např. řádky ze starší zálohy).
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'published';
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'published';
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+
+UPDATE projects SET status = 'published' WHERE status IS NULL;
+UPDATE blog SET status = 'published' WHERE status IS NULL;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_status_check;
+ALTER TABLE projects ADD CONSTRAINT projects_status_check CHECK (status IN ('draft', 'scheduled', 'published', 'archived'));
+ALTER TABLE blog DROP CONSTRAINT IF EXISTS blog_status_check;
+ALTER TABLE blog ADD CONSTRAINT blog_status_check CHECK (status IN ('draft', 'scheduled', 'published', 'archived'));
+
+CREATE INDEX IF NOT EXISTS projects_status_publish_at_idx ON projects (status, publish_at);
+CREATE INDEX IF NOT EXISTS blog_status_publish_at_idx ON blog (status, publish_at);
+
+INSERT INTO schema_migrations (version, name) VALUES (9, 'publishing') ON CONFLICT (version) DO NOTHING;
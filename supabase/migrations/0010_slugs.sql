@@ -0,0 +1,54 @@
+-- 0010: čitelné adresy zakázek a článků + historie dřívějších slugů pro přesměrování
+-- Nové slugy generuje aplikace (lib/slugs.ts); tady se jen doplní stávajícím záznamům.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS slug TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS previous_slugs JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS slug TEXT;
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS previous_slugs JSONB DEFAULT '[]'::jsonb;
+
+-- Stejná pravidla jako slugify() v aplikaci, jen s pevnou tabulkou české (a německé) diakritiky
+CREATE OR REPLACE FUNCTION slugify(input TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(
+    left(
+      trim(BOTH '-' FROM regexp_replace(
+        lower(translate(
+          replace(input, '&', ' a '),
+          'áčďéěíňóřšťúůýžäöüÁČĎÉĚÍŇÓŘŠŤÚŮÝŽÄÖÜ',
+          'acdeeinorstuuyzaouACDEEINORSTUUYZAOU'
+        )),
+        '[^a-z0-9]+', '-', 'g'
+      )),
+      80
+    ),
+    ''
+  );
+$$;
+
+-- Shodné názvy dostanou pořadové číslo podle data vytvoření (svatba, svatba-2, …)
+WITH ranked AS (
+  SELECT id, COALESCE(slugify(title), 'polozka') AS base,
+         row_number() OVER (PARTITION BY COALESCE(slugify(title), 'polozka') ORDER BY created_at, id) AS n
+  FROM projects WHERE slug IS NULL
+)
+UPDATE projects p SET slug = CASE WHEN r.n = 1 THEN r.base ELSE r.base || '-' || r.n END
+FROM ranked r WHERE p.id = r.id;
+
+WITH ranked AS (
+  SELECT id, COALESCE(slugify(title), 'polozka') AS base,
+         row_number() OVER (PARTITION BY COALESCE(slugify(title), 'polozka') ORDER BY created_at, id) AS n
+  FROM blog WHERE slug IS NULL
+)
+UPDATE blog b SET slug = CASE WHEN r.n = 1 THEN r.base ELSE r.base || '-' || r.n END
+FROM ranked r WHERE b.id = r.id;
+
+UPDATE projects SET previous_slugs = '[]'::jsonb WHERE previous_slugs IS NULL;
+UPDATE blog SET previous_slugs = '[]'::jsonb WHERE previous_slugs IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS projects_slug_key ON projects (slug);
+CREATE UNIQUE INDEX IF NOT EXISTS blog_slug_key ON blog (slug);
+
+INSERT INTO schema_migrations (version, name) VALUES (10, 'slugs') ON CONFLICT (version) DO NOTHING;
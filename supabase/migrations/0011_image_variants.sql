@@ -0,0 +1,8 @@
+-- 0011: zmenšeniny obrázků pro srcset (400/800/1600/2400 px)
+-- Pole objektů {width, url, key}; prázdné pole = zmenšeniny zatím nevznikly (doplní je Systém → Responzivní obrázky).
+
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS variants JSONB DEFAULT '[]'::jsonb;
+
+UPDATE media_meta SET variants = '[]'::jsonb WHERE variants IS NULL;
+
+INSERT INTO schema_migrations (version, name) VALUES (11, 'image_variants') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,8 @@
+-- 0012: náhled obrázku během načítání
+-- placeholder = malé rozmazané LQIP jako data URL (~16 px na šířku), dominant_color = #rrggbb.
+-- Ke starším obrázkům je doplní Systém → Responzivní obrázky.
+
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS placeholder TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS dominant_color TEXT;
+
+INSERT INTO schema_migrations (version, name) VALUES (12, 'image_placeholders') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,19 @@
+-- 0013: EXIF/IPTC údaje z originálu fotky (čte je prohlížeč před převodem na WebP)
+-- GPS se ukládá jen při zapnutém "Zachovat GPS" v Systému; jinak zůstává NULL.
+
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS taken_at TIMESTAMPTZ;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS camera TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS lens TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS focal_length REAL;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS aperture REAL;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS exposure_time DOUBLE PRECISION;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS iso INTEGER;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS gps_latitude DOUBLE PRECISION;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS gps_longitude DOUBLE PRECISION;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS copyright TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS keywords JSONB DEFAULT '[]'::jsonb;
+
+-- Řazení knihovny podle data pořízení
+CREATE INDEX IF NOT EXISTS media_meta_taken_at_idx ON media_meta (taken_at, id);
+
+INSERT INTO schema_migrations (version, name) VALUES (13, 'image_metadata') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,10 @@
+-- 0014: metadata videa a náhledový snímek (poster) zachycený v prohlížeči při uploadu
+-- poster_key = klíč WebP posteru ve stejném úložišti jako video (maže se spolu s videem).
+
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS duration REAL;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS codec TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS poster_url TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS poster_key TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS poster_time REAL;
+
+INSERT INTO schema_migrations (version, name) VALUES (14, 'video_metadata') ON CONFLICT (version) DO NOTHING;
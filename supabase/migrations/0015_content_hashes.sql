@@ -0,0 +1,11 @@
+-- 0015: otisky obsahu pro hledání duplicit
+-- content_hash = SHA-256 (hex), perceptual_hash = 64bitový dHash (16 hex znaků, jen obrázky).
+-- Starším souborům je doplní Média → Najít duplicity.
+
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+
+-- Přesné shody podle obsahu (kontrola při uploadu, přehled duplicit)
+CREATE INDEX IF NOT EXISTS media_meta_content_hash_idx ON media_meta (content_hash);
+
+INSERT INTO schema_migrations (version, name) VALUES (15, 'content_hashes') ON CONFLICT (version) DO NOTHING;
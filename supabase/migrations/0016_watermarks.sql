@@ -0,0 +1,10 @@
+-- 0016: vodoznak na webových verzích obrázků
+-- url + variants nesou vodoznak, original_url/original_key je čistá verze bez něj.
+-- watermarked_with = podpis nastavení vodoznaku, se kterým soubor vznikl (prázdný = bez vodoznaku).
+-- Nastavení samotné je dokument 'watermark' v web_settings, tabulku nepotřebuje.
+
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS original_url TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS original_key TEXT;
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS watermarked_with TEXT;
+
+INSERT INTO schema_migrations (version, name) VALUES (16, 'watermarks') ON CONFLICT (version) DO NOTHING;
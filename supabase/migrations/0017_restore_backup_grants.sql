@@ -0,0 +1,33 @@
+-- 0017: restore_backup jen pro service role. Funkce je SECURITY DEFINER a maže celé tabulky mimo RLS –
+-- s anon klíčem z prohlížeče by ji mohl zavolat kdokoli. Admin ji volá přes Netlify funkci restore-backup.
+
+CREATE OR REPLACE FUNCTION restore_backup(payload JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tbl TEXT;
+  allowed TEXT[] := ARRAY['projects', 'blog', 'inquiries', 'reviews', 'partners', 'web_settings', 'media_meta'];
+BEGIN
+  -- Pojistka i pro případ, že by se oprávnění někdy znovu rozšířilo
+  IF coalesce(current_setting('request.jwt.claims', true)::jsonb ->> 'role', '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Obnovu ze zálohy smí spustit jen service role' USING ERRCODE = '42501';
+  END IF;
+
+  FOR tbl IN SELECT jsonb_object_keys(payload) LOOP
+    IF NOT tbl = ANY(allowed) THEN
+      RAISE EXCEPTION 'Tabulku % nelze obnovit ze zálohy', tbl;
+    END IF;
+    EXECUTE format('DELETE FROM %I WHERE true', tbl);
+    EXECUTE format('INSERT INTO %I SELECT * FROM jsonb_populate_recordset(NULL::%I, $1)', tbl, tbl)
+      USING payload -> tbl;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION restore_backup(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restore_backup(JSONB) TO service_role;
+
+INSERT INTO schema_migrations (version, name) VALUES (17, 'restore_backup_grants') ON CONFLICT (version) DO NOTHING;
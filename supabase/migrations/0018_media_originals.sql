@@ -0,0 +1,20 @@
+-- 0018: čisté verze obrázků pod vodoznakem mimo dosah anon klíče
+-- Soubory leží v neveřejném R2 bucketu (R2_ORIGINALS_BUCKET), kde který je, eviduje tabulka níže.
+-- Čte ji a zapisuje jen Netlify funkce media-originals se service role – RLS bez politik
+-- a odebraná oprávnění znamenají, že z prohlížeče ji nikdo nepřečte.
+
+-- 0016 držela čistou verzi přímo v media_meta (veřejně čitelné)
+ALTER TABLE media_meta DROP COLUMN IF EXISTS original_url;
+ALTER TABLE media_meta DROP COLUMN IF EXISTS original_key;
+
+CREATE TABLE IF NOT EXISTS media_originals (
+  media_id TEXT PRIMARY KEY,
+  storage_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE media_originals ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON media_originals FROM PUBLIC, anon, authenticated;
+GRANT ALL ON media_originals TO service_role;
+
+INSERT INTO schema_migrations (version, name) VALUES (18, 'media_originals') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,74 @@
+-- 0019: hledání bez ohledu na diakritiku ("interier" najde "Interiér")
+-- V prohlížeči se diakritika při hledání ignoruje (lib/search.ts foldText), Postgres ilike ji ale rozlišuje.
+-- Každá prohledávaná tabulka dostane search_folded = text hledaných polí malými písmeny bez diakritiky;
+-- aplikace hledá v něm. Plní ho trigger, ne generated column – ta by rozbila obnovu ze zálohy
+-- (restore_backup vkládá celé řádky včetně tohoto sloupce).
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION fold_search_text(VARIADIC parts TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT lower(extensions.unaccent(array_to_string(parts, ' ')));
+$$;
+
+-- Projekty: title, short_description, category (projectSchema.searchFields)
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_folded TEXT;
+
+CREATE OR REPLACE FUNCTION projects_search_folded()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_folded := fold_search_text(NEW.title, NEW.short_description, NEW.category);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_search_folded ON projects;
+CREATE TRIGGER projects_search_folded BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION projects_search_folded();
+
+UPDATE projects SET search_folded = fold_search_text(title, short_description, category);
+
+-- Články: title, excerpt (blogSchema.searchFields)
+ALTER TABLE blog ADD COLUMN IF NOT EXISTS search_folded TEXT;
+
+CREATE OR REPLACE FUNCTION blog_search_folded()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_folded := fold_search_text(NEW.title, NEW.excerpt);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS blog_search_folded ON blog;
+CREATE TRIGGER blog_search_folded BEFORE INSERT OR UPDATE ON blog
+  FOR EACH ROW EXECUTE FUNCTION blog_search_folded();
+
+UPDATE blog SET search_folded = fold_search_text(title, excerpt);
+
+-- Média: name, alt, description (mediaSchema.searchFields)
+ALTER TABLE media_meta ADD COLUMN IF NOT EXISTS search_folded TEXT;
+
+CREATE OR REPLACE FUNCTION media_meta_search_folded()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_folded := fold_search_text(NEW.name, NEW.alt, NEW.description);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS media_meta_search_folded ON media_meta;
+CREATE TRIGGER media_meta_search_folded BEFORE INSERT OR UPDATE ON media_meta
+  FOR EACH ROW EXECUTE FUNCTION media_meta_search_folded();
+
+UPDATE media_meta SET search_folded = fold_search_text(name, alt, description);
+
+INSERT INTO schema_migrations (version, name) VALUES (19, 'search_unaccent') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,10 @@
+-- 0020: deleted_at s časovou zónou
+-- 0006 zakládala TIMESTAMP bez zóny: aplikace posílá ISO čas v UTC ("…Z"), zóna se zahodila
+-- a zpátky přišel čas bez "Z", který prohlížeč bere jako místní – lhůta koše se posouvala o hodiny.
+-- Uložené hodnoty jsou tedy UTC.
+
+ALTER TABLE projects ALTER COLUMN deleted_at TYPE TIMESTAMPTZ USING deleted_at AT TIME ZONE 'UTC';
+ALTER TABLE blog ALTER COLUMN deleted_at TYPE TIMESTAMPTZ USING deleted_at AT TIME ZONE 'UTC';
+ALTER TABLE media_meta ALTER COLUMN deleted_at TYPE TIMESTAMPTZ USING deleted_at AT TIME ZONE 'UTC';
+
+INSERT INTO schema_migrations (version, name) VALUES (20, 'deleted_at_timestamptz') ON CONFLICT (version) DO NOTHING;
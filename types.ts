@@ -5,8 +5,18 @@ export enum MediaType {
   BOTH = 'both'
 }
 
+// Zveřejnění obsahu: koncept a archiv nejsou na webu vidět, naplánovaný obsah až od `publishAt`
+export type PublishStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
 export type FileType = 'image' | 'video' | 'folder' | 'other' | 'system';
 
+// Zmenšenina obrázku pro srcset; největší varianta je samotný soubor (FileItem.url)
+export interface ImageVariant {
+  width: number;
+  url: string;
+  key?: string;
+}
+
 export interface FileItem {
   id: string;
   name: string;
@@ -21,6 +31,36 @@ export interface FileItem {
   mediaType?: 'photo' | 'video' | 'system';
   seoTitle?: string;
   dimensions?: string;
+  variants?: ImageVariant[];
+  // Rozmazaný náhled (data URL) a dominantní barva, zobrazené než se obrázek načte
+  placeholder?: string;
+  dominantColor?: string;
+  // EXIF/IPTC z originálu (lib/imageMetadata.ts); GPS jen při zapnutém uchování polohy
+  takenAt?: string | null;
+  camera?: string;
+  lens?: string;
+  focalLength?: number;
+  aperture?: number;
+  exposureTime?: number;
+  iso?: number;
+  gpsLatitude?: number | null;
+  gpsLongitude?: number | null;
+  copyright?: string;
+  keywords?: string[];
+  // Video: délka v sekundách, kodek a náhledový snímek (lib/videoMetadata.ts)
+  duration?: number;
+  codec?: string;
+  posterUrl?: string;
+  posterKey?: string;
+  posterTime?: number;
+  // Otisky obsahu pro hledání duplicit (lib/duplicates.ts): SHA-256 a 64bitový dHash v hexu
+  contentHash?: string;
+  perceptualHash?: string;
+  // Vodoznak (lib/watermark.ts): url a zmenšeniny ho mají vpečený, čistá verze leží zvlášť.
+  // watermarkedWith je podpis nastavení, se kterým vznikl – podle něj se pozná zastaralý vodoznak.
+  watermarkedWith?: string | null;
+  // Položka v koši – skutečné smazání až po uplynutí doby uchování
+  deletedAt?: string | null;
 }
 
 export interface GalleryItem {
@@ -28,6 +68,12 @@ export interface GalleryItem {
   type: 'image' | 'video';
   url: string;
   source: 'storage' | 'pc' | 'youtube';
+  // Kopie z FileItem, aby galerie nemusela čekat na knihovnu médií
+  placeholder?: string;
+  dominantColor?: string;
+  // Jen u videa z knihovny
+  poster?: string;
+  duration?: number;
 }
 
 export interface Project {
@@ -48,6 +94,12 @@ export interface Project {
   websiteUrl?: string;
   websiteLabel?: string;
   youtubeCoverUrl?: string;
+  status?: PublishStatus;
+  publishAt?: string | null;
+  // Čitelná adresa; dřívější slugy slouží k přesměrování starých odkazů
+  slug?: string;
+  previousSlugs?: string[];
+  deletedAt?: string | null;
 }
 
 export interface BlogPost {
@@ -63,6 +115,11 @@ export interface BlogPost {
   seoTitle?: string;
   seoDescription?: string;
   seoKeywords?: string;
+  status?: PublishStatus;
+  publishAt?: string | null;
+  slug?: string;
+  previousSlugs?: string[];
+  deletedAt?: string | null;
 }
 
 export interface Specialization {
@@ -162,3 +219,8 @@ export interface Inquiry {
   date: string;
   status: 'new' | 'read' | 'replied';
 }
+
+export interface Partner {
+  id: string;
+  name: string;
+}
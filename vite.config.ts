@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND),
+        'process.env.STORAGE_PROVIDER': JSON.stringify(env.STORAGE_PROVIDER)
       },
       resolve: {
         alias: {
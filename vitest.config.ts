@@ -0,0 +1,19 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Testy knihoven v lib/ – běží proti backendu v paměti, nikdy proti Supabase
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  },
+  test: {
+    environment: 'happy-dom',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**'],
+    env: {
+      DATA_BACKEND: 'memory'
+    }
+  }
+});